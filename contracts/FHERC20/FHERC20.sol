@@ -42,7 +42,7 @@ import {
  * signalling that this is a confidential token. ERC-20 mutative functions (`transfer`, `transferFrom`,
  * `approve`) revert unconditionally.
  */
-abstract contract FHERC20 is IFHERC20, Context, ERC165 {
+abstract contract FHERC20 is Context, IFHERC20, ERC165 {
     mapping(address account => euint64) private _balances;
     mapping(address account => mapping(address spender => uint48)) internal _operators;
     euint64 private _totalSupply;
@@ -106,22 +106,22 @@ abstract contract FHERC20 is IFHERC20, Context, ERC165 {
     }
 
     /// @dev Always reverts. Use {confidentialTransfer} instead.
-    function transfer(address, uint256) public pure returns (bool) {
+    function transfer(address, uint256) public virtual returns (bool) {
         revert FHERC20IncompatibleFunction();
     }
 
     /// @dev Always reverts. Use {confidentialTransferFrom} instead.
-    function transferFrom(address, address, uint256) public pure returns (bool) {
+    function transferFrom(address, address, uint256) public virtual returns (bool) {
         revert FHERC20IncompatibleFunction();
     }
 
     /// @dev Always reverts. Use {setOperator} instead.
-    function approve(address, uint256) public pure returns (bool) {
+    function approve(address, uint256) public virtual returns (bool) {
         revert FHERC20IncompatibleFunction();
     }
 
     /// @dev Always reverts. Allowances are replaced by time-bound operators.
-    function allowance(address, address) public pure returns (uint256) {
+    function allowance(address, address) public view virtual returns (uint256) {
         revert FHERC20IncompatibleFunction();
     }
 
@@ -388,7 +388,7 @@ abstract contract FHERC20 is IFHERC20, Context, ERC165 {
         if (to != address(0)) FHE.allow(transferred, to);
         FHE.allowThis(transferred);
 
-        emit Transfer(from, to, uint256(_INDICATOR_TRANSFER) * _indicatorTick);
+        if (balanceOfIsIndicator()) emit Transfer(from, to, uint256(_INDICATOR_TRANSFER) * _indicatorTick);
         emit ConfidentialTransfer(from, to, transferred);
     }
 }
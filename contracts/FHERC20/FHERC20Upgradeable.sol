@@ -38,7 +38,7 @@ import {
  * and other ERC-20 tooling. The {balanceOf} and {totalSupply} functions return **indicator values** (not real
  * balances). ERC-20 mutative functions (`transfer`, `transferFrom`, `approve`) revert unconditionally.
  */
-abstract contract FHERC20Upgradeable is Initializable, IFHERC20, ContextUpgradeable, ERC165Upgradeable {
+abstract contract FHERC20Upgradeable is Initializable, ContextUpgradeable, IFHERC20, ERC165Upgradeable {
     /// @custom:storage-location erc7201:fherc20.storage.FHERC20
     struct FHERC20Storage {
         mapping(address account => euint64) _balances;
@@ -130,22 +130,22 @@ abstract contract FHERC20Upgradeable is Initializable, IFHERC20, ContextUpgradea
     }
 
     /// @dev Always reverts. Use {confidentialTransfer} instead.
-    function transfer(address, uint256) public pure returns (bool) {
+    function transfer(address, uint256) public virtual returns (bool) {
         revert FHERC20IncompatibleFunction();
     }
 
     /// @dev Always reverts. Use {confidentialTransferFrom} instead.
-    function transferFrom(address, address, uint256) public pure returns (bool) {
+    function transferFrom(address, address, uint256) public virtual returns (bool) {
         revert FHERC20IncompatibleFunction();
     }
 
     /// @dev Always reverts. Use {setOperator} instead.
-    function approve(address, uint256) public pure returns (bool) {
+    function approve(address, uint256) public virtual returns (bool) {
         revert FHERC20IncompatibleFunction();
     }
 
     /// @dev Always reverts. Allowances are replaced by time-bound operators.
-    function allowance(address, address) public pure returns (uint256) {
+    function allowance(address, address) public view virtual returns (uint256) {
         revert FHERC20IncompatibleFunction();
     }
 
@@ -401,7 +401,7 @@ abstract contract FHERC20Upgradeable is Initializable, IFHERC20, ContextUpgradea
         if (to != address(0)) FHE.allow(transferred, to);
         FHE.allowThis(transferred);
 
-        emit Transfer(from, to, uint256(_INDICATOR_TRANSFER) * $._indicatorTick);
+        if (balanceOfIsIndicator()) emit Transfer(from, to, uint256(_INDICATOR_TRANSFER) * $._indicatorTick);
         emit ConfidentialTransfer(from, to, transferred);
     }
 }
@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IFHERC20Allowance } from "../../interfaces/IFHERC20Allowance.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20InvalidSender, FHERC20InvalidSpender, FHERC20UnauthorizedSpender, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Extension of {FHERC20} that adds encrypted, amount-bounded allowances next to time-bound operators.
+ *
+ * A holder grants a spender an encrypted allowance with {confidentialApprove}. The spender can then use the
+ * `confidentialTransferFrom` family of functions without being an operator. Every such transfer decrements
+ * the allowance under FHE via {FHESafeMath-tryDecrease}; if the allowance is too low, zero is transferred
+ * (mirroring the insufficient balance behavior of {_update}) and the allowance is left untouched.
+ *
+ * Operators take precedence: if `msg.sender` is an operator for `from`, the allowance is neither consulted
+ * nor decremented.
+ */
+abstract contract FHERC20Allowance is FHERC20, IFHERC20Allowance {
+    mapping(address holder => mapping(address spender => euint64)) private _allowances;
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Allowance).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Allowance
+    function confidentialAllowance(address holder, address spender) public view virtual returns (euint64) {
+        return _allowances[holder][spender];
+    }
+
+    /// @inheritdoc IFHERC20Allowance
+    function confidentialApprove(address spender, InEuint64 memory encryptedAmount) public virtual returns (euint64) {
+        return _approve(msg.sender, spender, FHE.asEuint64(encryptedAmount));
+    }
+
+    /// @inheritdoc IFHERC20Allowance
+    function confidentialApprove(address spender, euint64 amount) public virtual returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _approve(msg.sender, spender, amount);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFrom}. Falls back to the encrypted allowance of `msg.sender`
+     * when `msg.sender` is not an operator for `from`.
+     */
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        InEuint64 memory encryptedAmount
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFrom(from, to, encryptedAmount);
+
+        transferred = _transferFromAllowance(from, to, FHE.asEuint64(encryptedAmount));
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFrom}. Falls back to the encrypted allowance of `msg.sender`
+     * when `msg.sender` is not an operator for `from`.
+     */
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        euint64 amount
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFrom(from, to, amount);
+
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        transferred = _transferFromAllowance(from, to, amount);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFromAndCall}. Falls back to the encrypted allowance of
+     * `msg.sender` when `msg.sender` is not an operator for `from`. Refunded amounts are not spent.
+     */
+    function confidentialTransferFromAndCall(
+        address from,
+        address to,
+        InEuint64 memory encryptedAmount,
+        bytes calldata data
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFromAndCall(from, to, encryptedAmount, data);
+
+        transferred = _transferFromAllowanceAndCall(from, to, FHE.asEuint64(encryptedAmount), data);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFromAndCall}. Falls back to the encrypted allowance of
+     * `msg.sender` when `msg.sender` is not an operator for `from`. Refunded amounts are not spent.
+     */
+    function confidentialTransferFromAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        bytes calldata data
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFromAndCall(from, to, amount, data);
+
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        transferred = _transferFromAllowanceAndCall(from, to, amount, data);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Sets `amount` as the encrypted allowance of `spender` over `holder`'s tokens. Grants ACL access to
+     * the new allowance to this contract, `holder` and `spender`.
+     *
+     * Emits a {ConfidentialApproval} event.
+     */
+    function _approve(address holder, address spender, euint64 amount) internal virtual returns (euint64) {
+        if (holder == address(0)) revert FHERC20InvalidSender(address(0));
+        if (spender == address(0)) revert FHERC20InvalidSpender(address(0));
+
+        _setAllowance(holder, spender, amount);
+        emit ConfidentialApproval(holder, spender, amount);
+        return amount;
+    }
+
+    /**
+     * @dev Tries to spend `amount` of `spender`'s allowance over `holder`'s tokens. Returns the encrypted amount
+     * that may be moved: `amount` if the allowance covers it, `0` otherwise. The allowance is decremented by the
+     * returned value.
+     *
+     * Reverts with {FHERC20UnauthorizedSpender} if `spender` has never been granted an allowance by `holder`.
+     */
+    function _spendAllowance(address holder, address spender, euint64 amount) internal virtual returns (euint64) {
+        euint64 currentAllowance = _allowances[holder][spender];
+        if (!FHE.isInitialized(currentAllowance)) revert FHERC20UnauthorizedSpender(holder, spender);
+
+        (ebool success, euint64 updated) = FHESafeMath.tryDecrease(currentAllowance, amount);
+        _setAllowance(holder, spender, updated);
+
+        return FHE.select(success, amount, FHE.asEuint64(0));
+    }
+
+    /**
+     * @dev Gives back `amount` of previously spent allowance to `spender`. Used when less than the approved
+     * amount was actually transferred (insufficient balance or refunded callback).
+     */
+    function _restoreAllowance(address holder, address spender, euint64 amount) internal virtual {
+        _setAllowance(holder, spender, FHE.add(_allowances[holder][spender], amount));
+    }
+
+    function _transferFromAllowance(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        euint64 approved = _spendAllowance(from, msg.sender, amount);
+        transferred = _transfer(from, to, approved);
+        _restoreAllowance(from, msg.sender, FHE.sub(approved, transferred));
+    }
+
+    function _transferFromAllowanceAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        bytes calldata data
+    ) private returns (euint64 transferred) {
+        euint64 approved = _spendAllowance(from, msg.sender, amount);
+        transferred = _transferAndCall(from, to, approved, data);
+        _restoreAllowance(from, msg.sender, FHE.sub(approved, transferred));
+    }
+
+    function _setAllowance(address holder, address spender, euint64 amount) private {
+        FHE.allowThis(amount);
+        FHE.allow(amount, holder);
+        FHE.allow(amount, spender);
+        _allowances[holder][spender] = amount;
+    }
+}
@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { IFHERC20Allowance } from "../../interfaces/IFHERC20Allowance.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+import { FHERC20InvalidSender, FHERC20InvalidSpender, FHERC20UnauthorizedSpender, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} that adds encrypted, amount-bounded allowances next to
+ * time-bound operators. See {FHERC20Allowance} for the spending semantics.
+ *
+ * Allowances are stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20AllowanceUpgradeable is Initializable, FHERC20Upgradeable, IFHERC20Allowance {
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20Allowance
+    struct FHERC20AllowanceStorage {
+        mapping(address holder => mapping(address spender => euint64)) _allowances;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20Allowance")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20AllowanceStorageLocation =
+        0x7deace07f5bd6f303fe625c0ed2afe9db1d05944a561c5c334ba315f29a8f300;
+
+    function _getFHERC20AllowanceStorage() private pure returns (FHERC20AllowanceStorage storage $) {
+        assembly {
+            $.slot := FHERC20AllowanceStorageLocation
+        }
+    }
+
+    function __FHERC20Allowance_init() internal onlyInitializing {}
+
+    function __FHERC20Allowance_init_unchained() internal onlyInitializing {}
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Allowance).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Allowance
+    function confidentialAllowance(address holder, address spender) public view virtual returns (euint64) {
+        return _getFHERC20AllowanceStorage()._allowances[holder][spender];
+    }
+
+    /// @inheritdoc IFHERC20Allowance
+    function confidentialApprove(address spender, InEuint64 memory encryptedAmount) public virtual returns (euint64) {
+        return _approve(msg.sender, spender, FHE.asEuint64(encryptedAmount));
+    }
+
+    /// @inheritdoc IFHERC20Allowance
+    function confidentialApprove(address spender, euint64 amount) public virtual returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _approve(msg.sender, spender, amount);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFrom}. Falls back to the encrypted allowance of `msg.sender`
+     * when `msg.sender` is not an operator for `from`.
+     */
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        InEuint64 memory encryptedAmount
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFrom(from, to, encryptedAmount);
+
+        transferred = _transferFromAllowance(from, to, FHE.asEuint64(encryptedAmount));
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFrom}. Falls back to the encrypted allowance of `msg.sender`
+     * when `msg.sender` is not an operator for `from`.
+     */
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        euint64 amount
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFrom(from, to, amount);
+
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        transferred = _transferFromAllowance(from, to, amount);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFromAndCall}. Falls back to the encrypted allowance of
+     * `msg.sender` when `msg.sender` is not an operator for `from`. Refunded amounts are not spent.
+     */
+    function confidentialTransferFromAndCall(
+        address from,
+        address to,
+        InEuint64 memory encryptedAmount,
+        bytes calldata data
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFromAndCall(from, to, encryptedAmount, data);
+
+        transferred = _transferFromAllowanceAndCall(from, to, FHE.asEuint64(encryptedAmount), data);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    /**
+     * @dev See {IERC7984-confidentialTransferFromAndCall}. Falls back to the encrypted allowance of
+     * `msg.sender` when `msg.sender` is not an operator for `from`. Refunded amounts are not spent.
+     */
+    function confidentialTransferFromAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        bytes calldata data
+    ) public virtual override returns (euint64 transferred) {
+        if (isOperator(from, msg.sender)) return super.confidentialTransferFromAndCall(from, to, amount, data);
+
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        transferred = _transferFromAllowanceAndCall(from, to, amount, data);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Sets `amount` as the encrypted allowance of `spender` over `holder`'s tokens. Grants ACL access to
+     * the new allowance to this contract, `holder` and `spender`.
+     *
+     * Emits a {ConfidentialApproval} event.
+     */
+    function _approve(address holder, address spender, euint64 amount) internal virtual returns (euint64) {
+        if (holder == address(0)) revert FHERC20InvalidSender(address(0));
+        if (spender == address(0)) revert FHERC20InvalidSpender(address(0));
+
+        _setAllowance(holder, spender, amount);
+        emit ConfidentialApproval(holder, spender, amount);
+        return amount;
+    }
+
+    /**
+     * @dev Tries to spend `amount` of `spender`'s allowance over `holder`'s tokens. Returns the encrypted amount
+     * that may be moved: `amount` if the allowance covers it, `0` otherwise. The allowance is decremented by the
+     * returned value.
+     *
+     * Reverts with {FHERC20UnauthorizedSpender} if `spender` has never been granted an allowance by `holder`.
+     */
+    function _spendAllowance(address holder, address spender, euint64 amount) internal virtual returns (euint64) {
+        euint64 currentAllowance = _getFHERC20AllowanceStorage()._allowances[holder][spender];
+        if (!FHE.isInitialized(currentAllowance)) revert FHERC20UnauthorizedSpender(holder, spender);
+
+        (ebool success, euint64 updated) = FHESafeMath.tryDecrease(currentAllowance, amount);
+        _setAllowance(holder, spender, updated);
+
+        return FHE.select(success, amount, FHE.asEuint64(0));
+    }
+
+    /**
+     * @dev Gives back `amount` of previously spent allowance to `spender`. Used when less than the approved
+     * amount was actually transferred (insufficient balance or refunded callback).
+     */
+    function _restoreAllowance(address holder, address spender, euint64 amount) internal virtual {
+        FHERC20AllowanceStorage storage $ = _getFHERC20AllowanceStorage();
+        _setAllowance(holder, spender, FHE.add($._allowances[holder][spender], amount));
+    }
+
+    function _transferFromAllowance(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        euint64 approved = _spendAllowance(from, msg.sender, amount);
+        transferred = _transfer(from, to, approved);
+        _restoreAllowance(from, msg.sender, FHE.sub(approved, transferred));
+    }
+
+    function _transferFromAllowanceAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        bytes calldata data
+    ) private returns (euint64 transferred) {
+        euint64 approved = _spendAllowance(from, msg.sender, amount);
+        transferred = _transferAndCall(from, to, approved, data);
+        _restoreAllowance(from, msg.sender, FHE.sub(approved, transferred));
+    }
+
+    function _setAllowance(address holder, address spender, euint64 amount) private {
+        FHE.allowThis(amount);
+        FHE.allow(amount, holder);
+        FHE.allow(amount, spender);
+        _getFHERC20AllowanceStorage()._allowances[holder][spender] = amount;
+    }
+}
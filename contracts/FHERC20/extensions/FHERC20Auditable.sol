@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IFHERC20Auditable } from "../../interfaces/IFHERC20Auditable.sol";
+import { FHERC20 } from "../FHERC20.sol";
+
+/**
+ * @dev Extension of {FHERC20} that grants registered auditors ACL access to balances and transfer amounts,
+ * e.g. for regulators that must be able to decrypt them.
+ *
+ * Every handle produced by {_update} is allowed to the relevant auditors:
+ *
+ * - new balances of `from` and `to`: global auditors and auditors scoped to that account.
+ * - the `transferred` amount: global auditors and auditors scoped to `from` or `to`.
+ * - the new total supply (on mint and burn): global auditors.
+ *
+ * Handles produced before an auditor was registered are not retroactively allowed, except for the current
+ * balance of the scoped account (or the current total supply for a global auditor) at registration time.
+ *
+ * This module does not include public functions to manage auditors. Inheriting contracts must expose
+ * {_addAuditor} and {_removeAuditor} behind the access control of their choice.
+ *
+ * NOTE: Every registered auditor adds ACL calls to each transfer. Keep the number of auditors small.
+ */
+abstract contract FHERC20Auditable is FHERC20, IFHERC20Auditable {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    mapping(address account => EnumerableSet.AddressSet) private _auditors;
+
+    /// @dev The auditor is not a valid auditor (e.g. `address(0)`).
+    error FHERC20InvalidAuditor(address auditor);
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Auditable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Auditable
+    function auditors(address account) public view virtual returns (address[] memory) {
+        return _auditors[account].values();
+    }
+
+    /// @inheritdoc IFHERC20Auditable
+    function isAuditor(address auditor, address account) public view virtual returns (bool) {
+        return _auditors[address(0)].contains(auditor) || _auditors[account].contains(auditor);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Registers `auditor` for `account`, or as a global auditor if `account` is `address(0)`. Grants access
+     * to the current balance of `account` (or the current total supply). Returns true if `auditor` was added.
+     *
+     * Emits an {AuditorAdded} event if `auditor` was not registered yet.
+     */
+    function _addAuditor(address auditor, address account) internal virtual returns (bool) {
+        if (auditor == address(0)) revert FHERC20InvalidAuditor(address(0));
+        if (!_auditors[account].add(auditor)) return false;
+
+        euint64 current = account == address(0) ? confidentialTotalSupply() : confidentialBalanceOf(account);
+        if (FHE.isInitialized(current)) FHE.allow(current, auditor);
+
+        emit AuditorAdded(auditor, account);
+        return true;
+    }
+
+    /**
+     * @dev Unregisters `auditor` for `account`, or as a global auditor if `account` is `address(0)`. Access to
+     * handles already allowed cannot be revoked. Returns true if `auditor` was removed.
+     *
+     * Emits an {AuditorRemoved} event if `auditor` was registered.
+     */
+    function _removeAuditor(address auditor, address account) internal virtual returns (bool) {
+        if (!_auditors[account].remove(auditor)) return false;
+
+        emit AuditorRemoved(auditor, account);
+        return true;
+    }
+
+    /// @dev Allows the handles produced by the update to the relevant auditors.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64 transferred) {
+        transferred = super._update(from, to, amount);
+
+        _allowAuditors(transferred, from, to);
+        if (from == address(0) || to == address(0)) {
+            _allowAuditors(confidentialTotalSupply(), address(0), address(0));
+        }
+        if (from != address(0)) _allowAuditors(confidentialBalanceOf(from), from, address(0));
+        if (to != address(0)) _allowAuditors(confidentialBalanceOf(to), to, address(0));
+    }
+
+    /// @dev Allows `handle` to the global auditors and to the auditors scoped to `account1` and `account2`.
+    function _allowAuditors(euint64 handle, address account1, address account2) private {
+        _allowAll(handle, _auditors[address(0)]);
+        if (account1 != address(0)) _allowAll(handle, _auditors[account1]);
+        if (account2 != address(0) && account2 != account1) _allowAll(handle, _auditors[account2]);
+    }
+
+    function _allowAll(euint64 handle, EnumerableSet.AddressSet storage set) private {
+        uint256 length = set.length();
+        for (uint256 i = 0; i < length; i++) {
+            FHE.allow(handle, set.at(i));
+        }
+    }
+}
@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IFHERC20Auditable } from "../../interfaces/IFHERC20Auditable.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} that grants registered auditors ACL access to balances and
+ * transfer amounts. See {FHERC20Auditable} for which handles are allowed to which auditors.
+ *
+ * Auditors are stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20AuditableUpgradeable is Initializable, FHERC20Upgradeable, IFHERC20Auditable {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20Auditable
+    struct FHERC20AuditableStorage {
+        mapping(address account => EnumerableSet.AddressSet) _auditors;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20Auditable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20AuditableStorageLocation =
+        0x07684aa384adc6cd7bab2d54c857c23316b147a0f8ac4b54b492efa5d2787400;
+
+    function _getFHERC20AuditableStorage() private pure returns (FHERC20AuditableStorage storage $) {
+        assembly {
+            $.slot := FHERC20AuditableStorageLocation
+        }
+    }
+
+    /// @dev The auditor is not a valid auditor (e.g. `address(0)`).
+    error FHERC20InvalidAuditor(address auditor);
+
+    function __FHERC20Auditable_init() internal onlyInitializing {}
+
+    function __FHERC20Auditable_init_unchained() internal onlyInitializing {}
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Auditable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Auditable
+    function auditors(address account) public view virtual returns (address[] memory) {
+        return _getFHERC20AuditableStorage()._auditors[account].values();
+    }
+
+    /// @inheritdoc IFHERC20Auditable
+    function isAuditor(address auditor, address account) public view virtual returns (bool) {
+        FHERC20AuditableStorage storage $ = _getFHERC20AuditableStorage();
+        return $._auditors[address(0)].contains(auditor) || $._auditors[account].contains(auditor);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Registers `auditor` for `account`, or as a global auditor if `account` is `address(0)`. Grants access
+     * to the current balance of `account` (or the current total supply). Returns true if `auditor` was added.
+     *
+     * Emits an {AuditorAdded} event if `auditor` was not registered yet.
+     */
+    function _addAuditor(address auditor, address account) internal virtual returns (bool) {
+        if (auditor == address(0)) revert FHERC20InvalidAuditor(address(0));
+        if (!_getFHERC20AuditableStorage()._auditors[account].add(auditor)) return false;
+
+        euint64 current = account == address(0) ? confidentialTotalSupply() : confidentialBalanceOf(account);
+        if (FHE.isInitialized(current)) FHE.allow(current, auditor);
+
+        emit AuditorAdded(auditor, account);
+        return true;
+    }
+
+    /**
+     * @dev Unregisters `auditor` for `account`, or as a global auditor if `account` is `address(0)`. Access to
+     * handles already allowed cannot be revoked. Returns true if `auditor` was removed.
+     *
+     * Emits an {AuditorRemoved} event if `auditor` was registered.
+     */
+    function _removeAuditor(address auditor, address account) internal virtual returns (bool) {
+        if (!_getFHERC20AuditableStorage()._auditors[account].remove(auditor)) return false;
+
+        emit AuditorRemoved(auditor, account);
+        return true;
+    }
+
+    /// @dev Allows the handles produced by the update to the relevant auditors.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64 transferred) {
+        transferred = super._update(from, to, amount);
+
+        _allowAuditors(transferred, from, to);
+        if (from == address(0) || to == address(0)) {
+            _allowAuditors(confidentialTotalSupply(), address(0), address(0));
+        }
+        if (from != address(0)) _allowAuditors(confidentialBalanceOf(from), from, address(0));
+        if (to != address(0)) _allowAuditors(confidentialBalanceOf(to), to, address(0));
+    }
+
+    /// @dev Allows `handle` to the global auditors and to the auditors scoped to `account1` and `account2`.
+    function _allowAuditors(euint64 handle, address account1, address account2) private {
+        FHERC20AuditableStorage storage $ = _getFHERC20AuditableStorage();
+        _allowAll(handle, $._auditors[address(0)]);
+        if (account1 != address(0)) _allowAll(handle, $._auditors[account1]);
+        if (account2 != address(0) && account2 != account1) _allowAll(handle, $._auditors[account2]);
+    }
+
+    function _allowAll(euint64 handle, EnumerableSet.AddressSet storage set) private {
+        uint256 length = set.length();
+        for (uint256 i = 0; i < length; i++) {
+            FHE.allow(handle, set.at(i));
+        }
+    }
+}
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IFHERC20BatchTransfer } from "../../interfaces/IFHERC20BatchTransfer.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20UnauthorizedSpender, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Extension of {FHERC20} that transfers to many recipients in a single transaction.
+ *
+ * Legs are applied in order, each one through {_transfer}. A leg is therefore debited from the balance left by
+ * the previous legs and moves zero if that balance does not cover it, so the combined debits can never exceed
+ * the encrypted balance of the sender. Every leg emits its own {ConfidentialTransfer} event.
+ */
+abstract contract FHERC20BatchTransfer is FHERC20, IFHERC20BatchTransfer {
+    /// @dev The number of recipients does not match the number of amounts.
+    error FHERC20InvalidBatchLength(uint256 recipients, uint256 amounts);
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20BatchTransfer).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20BatchTransfer
+    function confidentialBatchTransfer(
+        address[] memory to,
+        InEuint64[] memory encryptedAmounts
+    ) public virtual returns (euint64[] memory) {
+        return _batchTransfer(msg.sender, to, _asEuint64s(encryptedAmounts));
+    }
+
+    /// @inheritdoc IFHERC20BatchTransfer
+    function confidentialBatchTransfer(
+        address[] memory to,
+        euint64[] memory amounts
+    ) public virtual returns (euint64[] memory) {
+        _checkAllowed(amounts);
+        return _batchTransfer(msg.sender, to, amounts);
+    }
+
+    /// @inheritdoc IFHERC20BatchTransfer
+    function confidentialBatchTransferFrom(
+        address from,
+        address[] memory to,
+        InEuint64[] memory encryptedAmounts
+    ) public virtual returns (euint64[] memory transferred) {
+        if (!isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
+        transferred = _batchTransfer(from, to, _asEuint64s(encryptedAmounts));
+        _allowTransientAll(transferred);
+    }
+
+    /// @inheritdoc IFHERC20BatchTransfer
+    function confidentialBatchTransferFrom(
+        address from,
+        address[] memory to,
+        euint64[] memory amounts
+    ) public virtual returns (euint64[] memory transferred) {
+        _checkAllowed(amounts);
+        if (!isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
+        transferred = _batchTransfer(from, to, amounts);
+        _allowTransientAll(transferred);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Transfers `amounts[i]` from `from` to `to[i]` for every `i`, in order. Returns the encrypted amounts
+     * that were actually transferred.
+     *
+     * Reverts with {FHERC20InvalidBatchLength} if `to` and `amounts` have different lengths.
+     */
+    function _batchTransfer(
+        address from,
+        address[] memory to,
+        euint64[] memory amounts
+    ) internal virtual returns (euint64[] memory transferred) {
+        if (to.length != amounts.length) revert FHERC20InvalidBatchLength(to.length, amounts.length);
+
+        transferred = new euint64[](to.length);
+        for (uint256 i = 0; i < to.length; i++) {
+            transferred[i] = _transfer(from, to[i], amounts[i]);
+        }
+    }
+
+    function _asEuint64s(InEuint64[] memory encryptedAmounts) private returns (euint64[] memory amounts) {
+        amounts = new euint64[](encryptedAmounts.length);
+        for (uint256 i = 0; i < encryptedAmounts.length; i++) {
+            amounts[i] = FHE.asEuint64(encryptedAmounts[i]);
+        }
+    }
+
+    function _checkAllowed(euint64[] memory amounts) private {
+        for (uint256 i = 0; i < amounts.length; i++) {
+            if (!FHE.isAllowed(amounts[i], msg.sender)) {
+                revert FHERC20UnauthorizedUseOfEncryptedAmount(amounts[i], msg.sender);
+            }
+        }
+    }
+
+    function _allowTransientAll(euint64[] memory transferred) private {
+        for (uint256 i = 0; i < transferred.length; i++) {
+            FHE.allowTransient(transferred[i], msg.sender);
+        }
+    }
+}
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IFHERC20Capped } from "../../interfaces/IFHERC20Capped.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Extension of {FHERC20} that adds a cap to the supply of tokens, the confidential counterpart of
+ * OpenZeppelin's {ERC20Capped}.
+ *
+ * The cap is set in cleartext at construction and can be replaced by an encrypted cap with
+ * {_setConfidentialCap}. Every mint is checked under FHE with {FHESafeMath-tryIncrease} and {FHE-select}:
+ * a mint that would overflow or exceed the cap mints zero instead of reverting, so nothing about the
+ * total supply leaks through a failed transaction.
+ *
+ * The outcome of the most recent mint is recorded in {lastMintCapped}, which is granted to this contract
+ * and to the caller of the mint, and can be made public with {requestDiscloseLastMintCapped}.
+ */
+abstract contract FHERC20Capped is FHERC20, IFHERC20Capped {
+    uint64 private _cap;
+    euint64 private _confidentialCap;
+    ebool private _lastMintCapped;
+
+    /// @dev The supplied cap is not a valid cap.
+    error FHERC20InvalidCap(uint64 cap);
+
+    /// @dev Sets the value of the cleartext `cap_`. This value is immutable unless replaced by an encrypted cap.
+    constructor(uint64 cap_) {
+        if (cap_ == 0) revert FHERC20InvalidCap(0);
+        _cap = cap_;
+    }
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Capped).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function cap() public view virtual returns (uint64) {
+        return _cap;
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function confidentialCap() public view virtual returns (euint64) {
+        return _confidentialCap;
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function lastMintCapped() public view virtual returns (ebool) {
+        return _lastMintCapped;
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function requestDiscloseLastMintCapped() public virtual {
+        ebool capped = _lastMintCapped;
+        if (!FHE.isAllowed(capped, msg.sender)) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        FHE.allowPublic(capped);
+        emit LastMintCappedDiscloseRequested(capped, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function discloseLastMintCapped(bool capped, bytes calldata decryptionProof) public virtual {
+        ebool lastMintCapped_ = _lastMintCapped;
+        FHE.verifyDecryptResult(lastMintCapped_, capped, decryptionProof);
+        emit LastMintCappedDisclosed(lastMintCapped_, capped);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Replaces the cap with the encrypted `cap_`. {cap} returns 0 afterwards. The caller is responsible
+     * for ensuring `cap_` is not below the current total supply, otherwise every subsequent mint mints zero.
+     *
+     * Emits a {ConfidentialCapSet} event.
+     */
+    function _setConfidentialCap(euint64 cap_) internal virtual {
+        FHE.allowThis(cap_);
+        _cap = 0;
+        _confidentialCap = cap_;
+        emit ConfidentialCapSet(cap_);
+    }
+
+    /// @dev Reduces mints that would exceed the cap to zero and records the outcome in {lastMintCapped}.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        if (from == address(0)) {
+            euint64 capValue = FHE.isInitialized(_confidentialCap) ? _confidentialCap : FHE.asEuint64(_cap);
+            (ebool success, euint64 newSupply) = FHESafeMath.tryIncrease(confidentialTotalSupply(), amount);
+            ebool withinCap = FHE.and(success, FHE.lte(newSupply, capValue));
+
+            ebool capped = FHE.not(withinCap);
+            FHE.allowThis(capped);
+            FHE.allow(capped, msg.sender);
+            _lastMintCapped = capped;
+
+            amount = FHE.select(withinCap, amount, FHE.asEuint64(0));
+        }
+        return super._update(from, to, amount);
+    }
+}
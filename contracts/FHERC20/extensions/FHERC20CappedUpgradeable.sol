@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { IFHERC20Capped } from "../../interfaces/IFHERC20Capped.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} that adds a cleartext or encrypted cap to the supply of
+ * tokens. See {FHERC20Capped} for the enforcement semantics.
+ *
+ * The cap and the last-mint-capped flag are stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20CappedUpgradeable is Initializable, FHERC20Upgradeable, IFHERC20Capped {
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20Capped
+    struct FHERC20CappedStorage {
+        uint64 _cap;
+        euint64 _confidentialCap;
+        ebool _lastMintCapped;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20Capped")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20CappedStorageLocation =
+        0xbb0ca30419f44b5f765aa66beeabf406dfd6478e82a34fa1ff8d55d0601e0a00;
+
+    function _getFHERC20CappedStorage() private pure returns (FHERC20CappedStorage storage $) {
+        assembly {
+            $.slot := FHERC20CappedStorageLocation
+        }
+    }
+
+    /// @dev The supplied cap is not a valid cap.
+    error FHERC20InvalidCap(uint64 cap);
+
+    /// @dev Sets the value of the cleartext `cap_`. This value is immutable unless replaced by an encrypted cap.
+    function __FHERC20Capped_init(uint64 cap_) internal onlyInitializing {
+        __FHERC20Capped_init_unchained(cap_);
+    }
+
+    function __FHERC20Capped_init_unchained(uint64 cap_) internal onlyInitializing {
+        if (cap_ == 0) revert FHERC20InvalidCap(0);
+        _getFHERC20CappedStorage()._cap = cap_;
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Capped).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function cap() public view virtual returns (uint64) {
+        return _getFHERC20CappedStorage()._cap;
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function confidentialCap() public view virtual returns (euint64) {
+        return _getFHERC20CappedStorage()._confidentialCap;
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function lastMintCapped() public view virtual returns (ebool) {
+        return _getFHERC20CappedStorage()._lastMintCapped;
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function requestDiscloseLastMintCapped() public virtual {
+        ebool capped = lastMintCapped();
+        if (!FHE.isAllowed(capped, msg.sender)) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        FHE.allowPublic(capped);
+        emit LastMintCappedDiscloseRequested(capped, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Capped
+    function discloseLastMintCapped(bool capped, bytes calldata decryptionProof) public virtual {
+        ebool lastMintCapped_ = lastMintCapped();
+        FHE.verifyDecryptResult(lastMintCapped_, capped, decryptionProof);
+        emit LastMintCappedDisclosed(lastMintCapped_, capped);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Replaces the cap with the encrypted `cap_`. {cap} returns 0 afterwards. The caller is responsible
+     * for ensuring `cap_` is not below the current total supply, otherwise every subsequent mint mints zero.
+     *
+     * Emits a {ConfidentialCapSet} event.
+     */
+    function _setConfidentialCap(euint64 cap_) internal virtual {
+        FHERC20CappedStorage storage $ = _getFHERC20CappedStorage();
+        FHE.allowThis(cap_);
+        $._cap = 0;
+        $._confidentialCap = cap_;
+        emit ConfidentialCapSet(cap_);
+    }
+
+    /// @dev Reduces mints that would exceed the cap to zero and records the outcome in {lastMintCapped}.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        if (from == address(0)) {
+            FHERC20CappedStorage storage $ = _getFHERC20CappedStorage();
+            euint64 capValue = FHE.isInitialized($._confidentialCap) ? $._confidentialCap : FHE.asEuint64($._cap);
+            (ebool success, euint64 newSupply) = FHESafeMath.tryIncrease(confidentialTotalSupply(), amount);
+            ebool withinCap = FHE.and(success, FHE.lte(newSupply, capValue));
+
+            ebool capped = FHE.not(withinCap);
+            FHE.allowThis(capped);
+            FHE.allow(capped, msg.sender);
+            $._lastMintCapped = capped;
+
+            amount = FHE.select(withinCap, amount, FHE.asEuint64(0));
+        }
+        return super._update(from, to, amount);
+    }
+}
@@ -6,41 +6,32 @@ import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 import { IERC1363Receiver } from "@openzeppelin/contracts/interfaces/IERC1363Receiver.sol";
 import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
 import { IERC20Metadata } from "@openzeppelin/contracts/interfaces/IERC20Metadata.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
-import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IERC3009 } from "../../interfaces/IERC3009.sol";
 import { IFHERC20ERC20Wrapper } from "../../interfaces/IFHERC20ERC20Wrapper.sol";
-import { FHERC20 } from "../FHERC20.sol";
-import { FHERC20WrapperClaimHelper } from "../utils/FHERC20WrapperClaimHelper.sol";
-import { FHERC20InvalidReceiver, FHERC20UnauthorizedSpender, FHERC20UnauthorizedCaller, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+import { ISignatureTransfer } from "../../interfaces/IPermit2.sol";
+import { FHERC20WrapperBase } from "./FHERC20WrapperBase.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
 
 /**
- * @dev A wrapper contract built on top of {FHERC20} that allows shielding an `ERC20` token
+ * @dev A wrapper contract built on top of {FHERC20WrapperBase} that allows shielding an `ERC20` token
  * into an `FHERC20` token. The wrapper contract implements the `IERC1363Receiver` interface
  * which allows users to transfer `ERC1363` tokens directly to the wrapper with a callback to shield the tokens.
  *
  * WARNING: Minting assumes the full amount of the underlying token transfer has been received, hence some non-standard
- * tokens such as fee-on-transfer or other deflationary-type tokens are not supported by this wrapper.
+ * tokens such as fee-on-transfer or other deflationary-type tokens are not supported by this wrapper. Use
+ * {FHERC20ERC20WrapperFeeAware} for such tokens.
  */
-abstract contract FHERC20ERC20Wrapper is FHERC20, IFHERC20ERC20Wrapper, IERC1363Receiver, FHERC20WrapperClaimHelper {
+abstract contract FHERC20ERC20Wrapper is FHERC20WrapperBase, IFHERC20ERC20Wrapper, IERC1363Receiver {
     IERC20 private immutable _underlying;
-    uint8 private immutable _wrappedDecimals;
-    uint256 private immutable _rate;
 
-    error FHERC20TotalSupplyOverflow();
+    /// @dev The Permit2 permit is for `token` instead of the underlying token.
+    error FHERC20InvalidPermitToken(address token);
 
-    constructor(IERC20 underlying_) {
+    constructor(IERC20 underlying_) FHERC20WrapperBase(_tryGetAssetDecimals(underlying_)) {
         _underlying = underlying_;
-
-        uint8 tokenDecimals = _tryGetAssetDecimals(underlying_);
-        uint8 maxDecimals = _maxDecimals();
-        if (tokenDecimals > maxDecimals) {
-            _wrappedDecimals = maxDecimals;
-            _rate = 10 ** (tokenDecimals - maxDecimals);
-        } else {
-            _wrappedDecimals = tokenDecimals;
-            _rate = 1;
-        }
     }
 
     /**
@@ -57,10 +48,10 @@ abstract contract FHERC20ERC20Wrapper is FHERC20, IFHERC20ERC20Wrapper, IERC1363
         if (underlying() != msg.sender) revert FHERC20UnauthorizedCaller(msg.sender);
 
         address to = data.length < 20 ? from : address(bytes20(data));
-        _mint(to, FHE.asEuint64(SafeCast.toUint64(amount / rate())));
+        _mintShielded(from, to, amount);
 
         uint256 excess = amount % rate();
-        if (excess > 0) SafeERC20.safeTransfer(IERC20(underlying()), from, excess);
+        if (excess > 0) _sendAsset(from, excess);
 
         return IERC1363Receiver.onTransferReceived.selector;
     }
@@ -73,70 +64,68 @@ abstract contract FHERC20ERC20Wrapper is FHERC20, IFHERC20ERC20Wrapper, IERC1363
      * Returns the amount of shielded token sent.
      */
     function shield(address to, uint256 amount) public virtual override returns (euint64) {
-        SafeERC20.safeTransferFrom(IERC20(underlying()), msg.sender, address(this), amount - (amount % rate()));
-
-        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(SafeCast.toUint64(amount / rate())));
-        FHE.allowTransient(shieldedAmountSent, msg.sender);
-
-        return shieldedAmountSent;
+        return _shield(msg.sender, to, amount);
     }
 
     /**
-     * @dev Initiates an unshield of `amount` confidential tokens from `from`, creating a pending
-     * claim for `to`. The caller must be `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned (used as the claim's cipher-text handle).
+     * @dev Same as {shield}, but first approves the wrapper for `amount` with an ERC-2612 `permit` signed by the
+     * caller, so no prior `approve` transaction is needed. A failing permit is ignored, e.g. when it was front-run,
+     * and the shield then relies on the existing allowance.
      */
-    function unshield(address from, address to, uint64 amount) public virtual returns (euint64) {
-        return _unshield(from, to, FHE.asEuint64(amount), amount);
+    function shieldWithPermit(
+        address to,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual returns (euint64) {
+        try IERC20Permit(underlying()).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        return shield(to, amount);
     }
 
     /**
-     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
-     * unshield request for `to`. The caller must have ACL access to `amount` and must be
-     * `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
+     * @dev Same as {shield}, but pulls the underlying tokens through {permit2} with a `SignatureTransfer` `permit`
+     * signed by the caller for the wrapper. The permit must be for the underlying token and allow at least `amount`.
      */
-    function unshield(address from, address to, euint64 amount) public virtual returns (euint64) {
-        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
-        return _unshield(from, to, amount, 0);
-    }
+    function shieldWithPermit2(
+        address to,
+        uint256 amount,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) public virtual returns (euint64) {
+        _permit2TransferFrom(permit, amount - (amount % rate()), signature);
 
-    /**
-     * @dev Claims a pending unshield request. Verifies the decryption proof and transfers
-     * `decryptedAmount * rate()` underlying tokens to the requester.
-     */
-    function claimUnshielded(bytes32 ctHash, uint64 decryptedAmount, bytes memory decryptionProof) public virtual {
-        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
-        SafeERC20.safeTransfer(IERC20(underlying()), claim.to, uint256(claim.decryptedAmount) * rate());
-        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+        euint64 shieldedAmountSent = _mintShielded(msg.sender, to, amount);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
+
+        return shieldedAmountSent;
     }
 
     /**
-     * @dev Claims multiple pending unshield requests in a single transaction.
+     * @dev Same as {shield}, but pulls the underlying tokens with an ERC-3009 `receiveWithAuthorization` signed by
+     * the caller for the wrapper. The authorization transfers the full `amount`, so the excess beyond the nearest
+     * multiple of {rate} is refunded to the caller.
      */
-    function claimUnshieldedBatch(
-        bytes32[] memory ctHashes,
-        uint64[] memory decryptedAmounts,
-        bytes[] memory decryptionProofs
-    ) public virtual {
-        Claim[] memory claims = _handleClaimBatch(ctHashes, decryptedAmounts, decryptionProofs);
-
-        for (uint256 i = 0; i < claims.length; i++) {
-            SafeERC20.safeTransfer(IERC20(underlying()), claims[i].to, uint256(claims[i].decryptedAmount) * rate());
-            emit ClaimedUnshielded(claims[i].to, ctHashes[i], FHE.wrapEuint64(ctHashes[i]), claims[i].decryptedAmount);
-        }
-    }
+    function shieldWithAuthorization(
+        address to,
+        uint256 amount,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual returns (euint64) {
+        _receiveWithAuthorization(amount, validAfter, validBefore, nonce, v, r, s);
+
+        euint64 shieldedAmountSent = _mintShielded(msg.sender, to, amount);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
 
-    /// @inheritdoc FHERC20
-    function decimals() public view virtual override returns (uint8) {
-        return _wrappedDecimals;
-    }
+        uint256 excess = amount % rate();
+        if (excess > 0) _sendAsset(msg.sender, excess);
 
-    /// @inheritdoc IFHERC20ERC20Wrapper
-    function rate() public view virtual returns (uint256) {
-        return _rate;
+        return shieldedAmountSent;
     }
 
     /// @inheritdoc IFHERC20ERC20Wrapper
@@ -144,6 +133,11 @@ abstract contract FHERC20ERC20Wrapper is FHERC20, IFHERC20ERC20Wrapper, IERC1363
         return address(_underlying);
     }
 
+    /// @dev Returns the Permit2 contract used by {shieldWithPermit2}. Defaults to its canonical deployment.
+    function permit2() public view virtual returns (address) {
+        return 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+    }
+
     /// @inheritdoc IERC165
     function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
         return
@@ -152,56 +146,78 @@ abstract contract FHERC20ERC20Wrapper is FHERC20, IFHERC20ERC20Wrapper, IERC1363
             super.supportsInterface(interfaceId);
     }
 
-    /**
-     * @dev Returns the underlying balance divided by the {rate}, a value greater or equal to the actual
-     * {confidentialTotalSupply}.
-     *
-     * NOTE: The return value of this function can be inflated by directly sending underlying tokens to the wrapper contract.
-     * Reductions will lag compared to {confidentialTotalSupply} since it is updated on {unshield} while this function updates
-     * on {claimUnshielded}.
-     */
-    function inferredTotalSupply() public view virtual returns (uint256) {
-        return IERC20(underlying()).balanceOf(address(this)) / rate();
+    /// @dev Transfers `value` underlying tokens from `from` to the wrapper. Requires an allowance from `from`.
+    function _pullAsset(address from, uint256 value) internal virtual override {
+        SafeERC20.safeTransferFrom(IERC20(underlying()), from, address(this), value);
     }
 
-    /// @dev Returns the maximum total supply of shielded tokens supported by the encrypted datatype.
-    function maxTotalSupply() public view virtual returns (uint256) {
-        return type(uint64).max;
+    /// @dev Sends `value` underlying tokens held by the wrapper to `to`. Used for claims and refunds.
+    function _sendAsset(address to, uint256 value) internal virtual override {
+        SafeERC20.safeTransfer(IERC20(underlying()), to, value);
     }
 
     /**
-     * @dev This function must revert if the new {confidentialTotalSupply} is invalid (overflow occurred).
-     *
-     * NOTE: Overflow can be detected here since the wrapper holdings are non-confidential. In other cases, it may be impossible
-     * to infer total supply overflow synchronously. This function may revert even if the {confidentialTotalSupply} did
-     * not overflow.
+     * @dev Sends `value` underlying tokens to `target` with ERC-1363 `transferAndCall`. Returns whether the underlying
+     * balance of the wrapper dropped by exactly `value`, whatever the token returns, so that a token that moves the
+     * tokens without returning `true` is not paid out twice. Returns false if the call fails, including when the
+     * underlying token does not support ERC-1363.
      */
-    function _checkConfidentialTotalSupply() internal virtual {
-        if (inferredTotalSupply() > maxTotalSupply()) {
-            revert FHERC20TotalSupplyOverflow();
-        }
+    function _sendAssetAndCall(
+        address /* operator */,
+        address target,
+        uint256 value,
+        bytes memory data
+    ) internal virtual override returns (bool) {
+        IERC20 token = IERC20(underlying());
+        uint256 balanceBefore = token.balanceOf(address(this));
+        (bool success, ) = address(token).call(
+            abi.encodeWithSignature("transferAndCall(address,uint256,bytes)", target, value, data)
+        );
+        return success && token.balanceOf(address(this)) + value == balanceBefore;
     }
 
-    /// @inheritdoc FHERC20
-    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
-        if (from == address(0)) {
-            _checkConfidentialTotalSupply();
-        }
-        return super._update(from, to, amount);
+    /// @dev Returns the underlying token balance of the wrapper.
+    function _assetBalance() internal view virtual override returns (uint256) {
+        return IERC20(underlying()).balanceOf(address(this));
     }
 
-    /// @dev Shared internal logic for both unshield overloads.
-    function _unshield(address from, address to, euint64 amount, uint64 requestedAmount) internal virtual returns (euint64) {
-        if (to == address(0)) revert FHERC20InvalidReceiver(to);
-        if (from != msg.sender && !isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
-
-        euint64 unshieldAmount_ = _burn(from, amount);
-        FHE.allowPublic(unshieldAmount_);
-
-        _createClaim(to, requestedAmount, unshieldAmount_);
+    /// @dev Transfers `amount` underlying tokens from the caller to the wrapper with a Permit2 `permit`.
+    function _permit2TransferFrom(
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        uint256 amount,
+        bytes calldata signature
+    ) internal virtual {
+        if (permit.permitted.token != underlying()) revert FHERC20InvalidPermitToken(permit.permitted.token);
+
+        ISignatureTransfer(permit2()).permitTransferFrom(
+            permit,
+            ISignatureTransfer.SignatureTransferDetails({ to: address(this), requestedAmount: amount }),
+            msg.sender,
+            signature
+        );
+    }
 
-        emit Unshielded(to, unshieldAmount_);
-        return unshieldAmount_;
+    /// @dev Transfers `amount` underlying tokens from the caller to the wrapper with an ERC-3009 authorization.
+    function _receiveWithAuthorization(
+        uint256 amount,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal virtual {
+        IERC3009(underlying()).receiveWithAuthorization(
+            msg.sender,
+            address(this),
+            amount,
+            validAfter,
+            validBefore,
+            nonce,
+            v,
+            r,
+            s
+        );
     }
 
     /**
@@ -212,11 +228,6 @@ abstract contract FHERC20ERC20Wrapper is FHERC20, IFHERC20ERC20Wrapper, IERC1363
         return 18;
     }
 
-    /// @dev Returns the maximum number that will be used for {decimals} by the wrapper.
-    function _maxDecimals() internal pure virtual returns (uint8) {
-        return 6;
-    }
-
     function _tryGetAssetDecimals(IERC20 asset_) private view returns (uint8 assetDecimals) {
         (bool success, bytes memory encodedDecimals) = address(asset_).staticcall(
             abi.encodeCall(IERC20Metadata.decimals, ())
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { FHERC20ERC20Wrapper } from "./FHERC20ERC20Wrapper.sol";
+import { FHERC20Auditable } from "./FHERC20Auditable.sol";
+import { FHERC20WrapperBase } from "./FHERC20WrapperBase.sol";
+import { FHERC20 } from "../FHERC20.sol";
+
+/**
+ * @dev A {FHERC20ERC20Wrapper} for an `ERC20` token with the auditors of {FHERC20Auditable}.
+ *
+ * Shields, unshields and confidential transfers all go through {_update}, so auditors are granted access to
+ * the resulting balances, total supply and amounts (including the unshield amounts backing claims).
+ */
+abstract contract FHERC20ERC20WrapperAuditable is FHERC20ERC20Wrapper, FHERC20Auditable {
+    /// @inheritdoc FHERC20WrapperBase
+    function decimals() public view virtual override(FHERC20, FHERC20WrapperBase) returns (uint8) {
+        return super.decimals();
+    }
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(FHERC20ERC20Wrapper, FHERC20Auditable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc FHERC20
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal virtual override(FHERC20WrapperBase, FHERC20Auditable) returns (euint64) {
+        return super._update(from, to, amount);
+    }
+}
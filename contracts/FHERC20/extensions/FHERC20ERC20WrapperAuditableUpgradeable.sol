@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { FHERC20ERC20WrapperUpgradeable } from "./FHERC20ERC20WrapperUpgradeable.sol";
+import { FHERC20AuditableUpgradeable } from "./FHERC20AuditableUpgradeable.sol";
+import { FHERC20WrapperBaseUpgradeable } from "./FHERC20WrapperBaseUpgradeable.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+
+/**
+ * @dev Upgradeable variant of {FHERC20ERC20WrapperAuditable}: a {FHERC20ERC20WrapperUpgradeable} for
+ * an `ERC20` token with the auditors of {FHERC20AuditableUpgradeable}.
+ *
+ * Shields, unshields and confidential transfers all go through {_update}, so auditors are granted access to
+ * the resulting balances, total supply and amounts (including the unshield amounts backing claims).
+ */
+abstract contract FHERC20ERC20WrapperAuditableUpgradeable is
+    FHERC20ERC20WrapperUpgradeable,
+    FHERC20AuditableUpgradeable
+{
+    /// @inheritdoc FHERC20ERC20WrapperUpgradeable
+    function decimals()
+        public
+        view
+        virtual
+        override(FHERC20Upgradeable, FHERC20ERC20WrapperUpgradeable)
+        returns (uint8)
+    {
+        return super.decimals();
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(FHERC20ERC20WrapperUpgradeable, FHERC20AuditableUpgradeable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal virtual override(FHERC20WrapperBaseUpgradeable, FHERC20AuditableUpgradeable) returns (euint64) {
+        return super._update(from, to, amount);
+    }
+}
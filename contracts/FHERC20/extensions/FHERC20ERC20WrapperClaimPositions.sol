@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { FHERC20ERC20Wrapper } from "./FHERC20ERC20Wrapper.sol";
+import { FHERC20WrapperClaimPositions } from "./FHERC20WrapperClaimPositions.sol";
+import { FHERC20WrapperClaimHelper } from "../utils/FHERC20WrapperClaimHelper.sol";
+
+/**
+ * @dev A {FHERC20ERC20Wrapper} for an `ERC20` token whose pending unshield claims are transferable ERC-721
+ * positions, see {FHERC20WrapperClaimPositions}.
+ */
+abstract contract FHERC20ERC20WrapperClaimPositions is FHERC20ERC20Wrapper, FHERC20WrapperClaimPositions {
+    /// @inheritdoc FHERC20WrapperClaimPositions
+    function _createClaim(
+        address to,
+        uint64 requestedAmount,
+        euint64 claimable,
+        uint64 maxRelayerFee
+    ) internal virtual override(FHERC20WrapperClaimHelper, FHERC20WrapperClaimPositions) {
+        super._createClaim(to, requestedAmount, claimable, maxRelayerFee);
+    }
+
+    /// @inheritdoc FHERC20WrapperClaimPositions
+    function _createClaimCall(
+        bytes32 ctHash,
+        address target,
+        bytes memory data
+    ) internal virtual override(FHERC20WrapperClaimHelper, FHERC20WrapperClaimPositions) {
+        super._createClaimCall(ctHash, target, data);
+    }
+
+    /// @inheritdoc FHERC20WrapperClaimPositions
+    function _claimPayee(
+        bytes32 ctHash,
+        address to
+    ) internal virtual override(FHERC20WrapperClaimHelper, FHERC20WrapperClaimPositions) returns (address) {
+        return super._claimPayee(ctHash, to);
+    }
+}
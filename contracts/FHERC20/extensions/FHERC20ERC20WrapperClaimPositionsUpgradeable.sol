@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { FHERC20ERC20WrapperUpgradeable } from "./FHERC20ERC20WrapperUpgradeable.sol";
+import { FHERC20WrapperClaimPositionsUpgradeable } from "./FHERC20WrapperClaimPositionsUpgradeable.sol";
+import { FHERC20WrapperClaimHelperUpgradeable } from "../utils/FHERC20WrapperClaimHelperUpgradeable.sol";
+
+/**
+ * @dev Upgradeable variant of {FHERC20ERC20WrapperClaimPositions}: a {FHERC20ERC20WrapperUpgradeable} whose
+ * pending unshield claims are transferable ERC-721 positions, see {FHERC20WrapperClaimPositionsUpgradeable}.
+ */
+abstract contract FHERC20ERC20WrapperClaimPositionsUpgradeable is
+    FHERC20ERC20WrapperUpgradeable,
+    FHERC20WrapperClaimPositionsUpgradeable
+{
+    /// @inheritdoc FHERC20WrapperClaimPositionsUpgradeable
+    function _createClaim(
+        address to,
+        uint64 requestedAmount,
+        euint64 claimable,
+        uint64 maxRelayerFee
+    ) internal virtual override(FHERC20WrapperClaimHelperUpgradeable, FHERC20WrapperClaimPositionsUpgradeable) {
+        super._createClaim(to, requestedAmount, claimable, maxRelayerFee);
+    }
+
+    /// @inheritdoc FHERC20WrapperClaimPositionsUpgradeable
+    function _createClaimCall(
+        bytes32 ctHash,
+        address target,
+        bytes memory data
+    ) internal virtual override(FHERC20WrapperClaimHelperUpgradeable, FHERC20WrapperClaimPositionsUpgradeable) {
+        super._createClaimCall(ctHash, target, data);
+    }
+
+    /// @inheritdoc FHERC20WrapperClaimPositionsUpgradeable
+    function _claimPayee(
+        bytes32 ctHash,
+        address to
+    )
+        internal
+        virtual
+        override(FHERC20WrapperClaimHelperUpgradeable, FHERC20WrapperClaimPositionsUpgradeable)
+        returns (address)
+    {
+        return super._claimPayee(ctHash, to);
+    }
+}
@@ -0,0 +1,164 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC1363Receiver } from "@openzeppelin/contracts/interfaces/IERC1363Receiver.sol";
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+import { ISignatureTransfer } from "../../interfaces/IPermit2.sol";
+import { FHERC20ERC20Wrapper } from "./FHERC20ERC20Wrapper.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Variant of {FHERC20ERC20Wrapper} for fee-on-transfer, deflationary and rebasing underlying tokens.
+ *
+ * Shields mint based on the underlying tokens actually received instead of the requested amount. {shield},
+ * {shieldWithPermit2} and {shieldWithAuthorization} measure the balance delta of the wrapper around the transfer of the
+ * full amount. {onTransferReceived} runs after the tokens
+ * arrived, so it compares the wrapper balance to the balance recorded after the previous operation and credits at
+ * most `amount`. In both cases `received / rate()` confidential tokens are minted and `received % rate()` is
+ * refunded through {_sendAsset}, which is subject to the token's fee as well.
+ *
+ * On the way out, the accounting is limited to reporting. Claims and relayer fees still send
+ * `decryptedAmount * rate()` underlying tokens, and the token's fee on that transfer is borne by whoever receives it,
+ * as for any other transfer of the token. The payout is not grossed up: the fee is only known once charged, and
+ * paying it from the reserves would take it from the other holders. Each payout that delivers less than it sent
+ * emits an {UnderlyingTransferFee} event with the amount actually received.
+ *
+ * NOTE: Confidential tokens are backed 1:{rate} by the underlying balance. A negative rebase leaves the wrapper
+ * under-collateralized and the last claims will revert. Underlying tokens gained between operations (positive
+ * rebases or direct transfers) may be credited to the next {onTransferReceived} deposit, up to its `amount`.
+ */
+abstract contract FHERC20ERC20WrapperFeeAware is FHERC20ERC20Wrapper {
+    uint256 private _lastUnderlyingBalance;
+
+    /// @dev Emitted when a transfer of `amount` underlying tokens to `to` only delivered `received`.
+    event UnderlyingTransferFee(address indexed to, uint256 amount, uint256 received);
+
+    /**
+     * @dev See {FHERC20ERC20Wrapper-onTransferReceived}. Mints based on the underlying tokens received since the
+     * previous operation, capped at `amount`.
+     */
+    function onTransferReceived(
+        address,
+        address from,
+        uint256 amount,
+        bytes calldata data
+    ) public virtual override returns (bytes4) {
+        if (underlying() != msg.sender) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        (, uint256 delta) = Math.trySub(IERC20(underlying()).balanceOf(address(this)), lastUnderlyingBalance());
+        uint256 received = Math.min(amount, delta);
+        if (received < amount) emit UnderlyingTransferFee(address(this), amount, received);
+
+        address to = data.length < 20 ? from : address(bytes20(data));
+        _shieldReceived(to, from, received);
+
+        return IERC1363Receiver.onTransferReceived.selector;
+    }
+
+    /**
+     * @dev See {FHERC20ERC20Wrapper-shield}. Pulls the full `amount` and mints `received / rate()`, where
+     * `received` is the increase of the wrapper's underlying balance. The remainder is refunded to the caller.
+     *
+     * Returns the amount of shielded token sent.
+     */
+    function shield(address to, uint256 amount) public virtual override returns (euint64) {
+        uint256 balanceBefore = IERC20(underlying()).balanceOf(address(this));
+        _pullAsset(msg.sender, amount);
+        return _shieldTransferred(to, amount, balanceBefore);
+    }
+
+    /**
+     * @dev See {FHERC20ERC20Wrapper-shieldWithPermit2}. Pulls the full `amount` and mints based on the underlying tokens
+     * received, like {shield}.
+     */
+    function shieldWithPermit2(
+        address to,
+        uint256 amount,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) public virtual override returns (euint64) {
+        uint256 balanceBefore = IERC20(underlying()).balanceOf(address(this));
+        _permit2TransferFrom(permit, amount, signature);
+        return _shieldTransferred(to, amount, balanceBefore);
+    }
+
+    /**
+     * @dev See {FHERC20ERC20Wrapper-shieldWithAuthorization}. Mints based on the underlying tokens received, like
+     * {shield}.
+     */
+    function shieldWithAuthorization(
+        address to,
+        uint256 amount,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual override returns (euint64) {
+        uint256 balanceBefore = IERC20(underlying()).balanceOf(address(this));
+        _receiveWithAuthorization(amount, validAfter, validBefore, nonce, v, r, s);
+        return _shieldTransferred(to, amount, balanceBefore);
+    }
+
+    /// @dev Returns the underlying balance recorded after the last shield, refund or claim.
+    function lastUnderlyingBalance() public view virtual returns (uint256) {
+        return _lastUnderlyingBalance;
+    }
+
+    /**
+     * @dev Mints `received / rate()` to `to`, refunds `received % rate()` to `refundTo` and records the new
+     * underlying balance.
+     */
+    function _shieldReceived(address to, address refundTo, uint256 received) internal virtual returns (euint64) {
+        euint64 shieldedAmountSent = _mintShielded(refundTo, to, received);
+
+        uint256 excess = received % rate();
+        if (excess > 0) _sendAsset(refundTo, excess);
+
+        _lastUnderlyingBalance = IERC20(underlying()).balanceOf(address(this));
+        return shieldedAmountSent;
+    }
+
+    /**
+     * @dev See {FHERC20ERC20Wrapper-_sendAsset}. Measures the balance delta of `to` and emits an
+     * {UnderlyingTransferFee} event if less than `amount` was delivered.
+     */
+    function _sendAsset(address to, uint256 amount) internal virtual override {
+        IERC20 token = IERC20(underlying());
+        uint256 balanceBefore = token.balanceOf(to);
+        super._sendAsset(to, amount);
+        (, uint256 received) = Math.trySub(token.balanceOf(to), balanceBefore);
+        if (received < amount) emit UnderlyingTransferFee(to, amount, received);
+
+        _lastUnderlyingBalance = token.balanceOf(address(this));
+    }
+
+    /// @dev See {FHERC20ERC20Wrapper-_sendAssetAndCall}. Records the new underlying balance.
+    function _sendAssetAndCall(
+        address operator,
+        address target,
+        uint256 amount,
+        bytes memory data
+    ) internal virtual override returns (bool success) {
+        success = super._sendAssetAndCall(operator, target, amount, data);
+        _lastUnderlyingBalance = IERC20(underlying()).balanceOf(address(this));
+    }
+
+    /**
+     * @dev Shields the underlying tokens received since `balanceBefore` for a transfer of `amount` from the caller
+     * and grants the caller transient access to the minted amount.
+     */
+    function _shieldTransferred(address to, uint256 amount, uint256 balanceBefore) private returns (euint64) {
+        uint256 received = IERC20(underlying()).balanceOf(address(this)) - balanceBefore;
+        if (received < amount) emit UnderlyingTransferFee(address(this), amount, received);
+
+        euint64 shieldedAmountSent = _shieldReceived(to, msg.sender, received);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
+
+        return shieldedAmountSent;
+    }
+}
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC1363Receiver } from "@openzeppelin/contracts/interfaces/IERC1363Receiver.sol";
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+import { ISignatureTransfer } from "../../interfaces/IPermit2.sol";
+import { FHERC20ERC20WrapperUpgradeable } from "./FHERC20ERC20WrapperUpgradeable.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Upgradeable variant of {FHERC20ERC20WrapperFeeAware}: a {FHERC20ERC20WrapperUpgradeable} that mints based
+ * on the underlying tokens actually received. See {FHERC20ERC20WrapperFeeAware} for details.
+ *
+ * The last recorded underlying balance is stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20ERC20WrapperFeeAwareUpgradeable is FHERC20ERC20WrapperUpgradeable {
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20ERC20WrapperFeeAware
+    struct FHERC20ERC20WrapperFeeAwareStorage {
+        uint256 _lastUnderlyingBalance;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20ERC20WrapperFeeAware")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20ERC20WrapperFeeAwareStorageLocation =
+        0x7a0eafb281cde73aa05ab74040ffbcb5ebf13b16f127065c9c60521d0c69e800;
+
+    function _getFHERC20ERC20WrapperFeeAwareStorage()
+        private
+        pure
+        returns (FHERC20ERC20WrapperFeeAwareStorage storage $)
+    {
+        assembly {
+            $.slot := FHERC20ERC20WrapperFeeAwareStorageLocation
+        }
+    }
+
+    /// @dev Emitted when a transfer of `amount` underlying tokens to `to` only delivered `received`.
+    event UnderlyingTransferFee(address indexed to, uint256 amount, uint256 received);
+
+    function __FHERC20ERC20WrapperFeeAware_init(IERC20 underlying_) internal onlyInitializing {
+        __FHERC20ERC20Wrapper_init(underlying_);
+    }
+
+    function __FHERC20ERC20WrapperFeeAware_init_unchained() internal onlyInitializing {}
+
+    /**
+     * @dev See {FHERC20ERC20WrapperUpgradeable-onTransferReceived}. Mints based on the underlying tokens received since the
+     * previous operation, capped at `amount`.
+     */
+    function onTransferReceived(
+        address,
+        address from,
+        uint256 amount,
+        bytes calldata data
+    ) public virtual override returns (bytes4) {
+        if (underlying() != msg.sender) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        (, uint256 delta) = Math.trySub(IERC20(underlying()).balanceOf(address(this)), lastUnderlyingBalance());
+        uint256 received = Math.min(amount, delta);
+        if (received < amount) emit UnderlyingTransferFee(address(this), amount, received);
+
+        address to = data.length < 20 ? from : address(bytes20(data));
+        _shieldReceived(to, from, received);
+
+        return IERC1363Receiver.onTransferReceived.selector;
+    }
+
+    /**
+     * @dev See {FHERC20ERC20WrapperUpgradeable-shield}. Pulls the full `amount` and mints `received / rate()`, where
+     * `received` is the increase of the wrapper's underlying balance. The remainder is refunded to the caller.
+     *
+     * Returns the amount of shielded token sent.
+     */
+    function shield(address to, uint256 amount) public virtual override returns (euint64) {
+        uint256 balanceBefore = IERC20(underlying()).balanceOf(address(this));
+        _pullAsset(msg.sender, amount);
+        return _shieldTransferred(to, amount, balanceBefore);
+    }
+
+    /**
+     * @dev See {FHERC20ERC20WrapperUpgradeable-shieldWithPermit2}. Pulls the full `amount` and mints based on the underlying tokens
+     * received, like {shield}.
+     */
+    function shieldWithPermit2(
+        address to,
+        uint256 amount,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) public virtual override returns (euint64) {
+        uint256 balanceBefore = IERC20(underlying()).balanceOf(address(this));
+        _permit2TransferFrom(permit, amount, signature);
+        return _shieldTransferred(to, amount, balanceBefore);
+    }
+
+    /**
+     * @dev See {FHERC20ERC20WrapperUpgradeable-shieldWithAuthorization}. Mints based on the underlying tokens received, like
+     * {shield}.
+     */
+    function shieldWithAuthorization(
+        address to,
+        uint256 amount,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual override returns (euint64) {
+        uint256 balanceBefore = IERC20(underlying()).balanceOf(address(this));
+        _receiveWithAuthorization(amount, validAfter, validBefore, nonce, v, r, s);
+        return _shieldTransferred(to, amount, balanceBefore);
+    }
+
+    /// @dev Returns the underlying balance recorded after the last shield, refund or claim.
+    function lastUnderlyingBalance() public view virtual returns (uint256) {
+        return _getFHERC20ERC20WrapperFeeAwareStorage()._lastUnderlyingBalance;
+    }
+
+    /**
+     * @dev Mints `received / rate()` to `to`, refunds `received % rate()` to `refundTo` and records the new
+     * underlying balance.
+     */
+    function _shieldReceived(address to, address refundTo, uint256 received) internal virtual returns (euint64) {
+        euint64 shieldedAmountSent = _mintShielded(refundTo, to, received);
+
+        uint256 excess = received % rate();
+        if (excess > 0) _sendAsset(refundTo, excess);
+
+        _getFHERC20ERC20WrapperFeeAwareStorage()._lastUnderlyingBalance = IERC20(underlying()).balanceOf(address(this));
+        return shieldedAmountSent;
+    }
+
+    /**
+     * @dev See {FHERC20ERC20WrapperUpgradeable-_sendAsset}. Measures the balance delta of `to` and emits an
+     * {UnderlyingTransferFee} event if less than `amount` was delivered.
+     */
+    function _sendAsset(address to, uint256 amount) internal virtual override {
+        IERC20 token = IERC20(underlying());
+        uint256 balanceBefore = token.balanceOf(to);
+        super._sendAsset(to, amount);
+        (, uint256 received) = Math.trySub(token.balanceOf(to), balanceBefore);
+        if (received < amount) emit UnderlyingTransferFee(to, amount, received);
+
+        _getFHERC20ERC20WrapperFeeAwareStorage()._lastUnderlyingBalance = token.balanceOf(address(this));
+    }
+
+    /// @dev See {FHERC20ERC20WrapperUpgradeable-_sendAssetAndCall}. Records the new underlying balance.
+    function _sendAssetAndCall(
+        address operator,
+        address target,
+        uint256 amount,
+        bytes memory data
+    ) internal virtual override returns (bool success) {
+        success = super._sendAssetAndCall(operator, target, amount, data);
+        _getFHERC20ERC20WrapperFeeAwareStorage()._lastUnderlyingBalance = IERC20(underlying()).balanceOf(address(this));
+    }
+
+    /**
+     * @dev Shields the underlying tokens received since `balanceBefore` for a transfer of `amount` from the caller
+     * and grants the caller transient access to the minted amount.
+     */
+    function _shieldTransferred(address to, uint256 amount, uint256 balanceBefore) private returns (euint64) {
+        uint256 received = IERC20(underlying()).balanceOf(address(this)) - balanceBefore;
+        if (received < amount) emit UnderlyingTransferFee(address(this), amount, received);
+
+        euint64 shieldedAmountSent = _shieldReceived(to, msg.sender, received);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
+
+        return shieldedAmountSent;
+    }
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IFHERC20Wrapper } from "../../interfaces/IFHERC20Wrapper.sol";
+import { FHERC20ERC20Wrapper } from "./FHERC20ERC20Wrapper.sol";
+import { FHERC20Pausable } from "./FHERC20Pausable.sol";
+import { FHERC20WrapperBase } from "./FHERC20WrapperBase.sol";
+import { FHERC20 } from "../FHERC20.sol";
+
+/**
+ * @dev A {FHERC20ERC20Wrapper} for an `ERC20` token with the emergency-stop switches of {FHERC20Pausable}.
+ *
+ * Shielding and unshield creation are gated through {_update} by the `Shield` and `Unshield` switches.
+ * `claimUnshielded`, `claimUnshieldedWithFee`, `claimUnshieldedAndCall` and `claimUnshieldedBatch` are gated by the
+ * `Claim` switch, so that exits can stay open while new shields are halted (or be halted independently while an
+ * incident is investigated).
+ */
+abstract contract FHERC20ERC20WrapperPausable is FHERC20ERC20Wrapper, FHERC20Pausable {
+    /// @dev See {FHERC20ERC20Wrapper-claimUnshielded}. Reverts while claims are paused.
+    function claimUnshielded(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override(FHERC20WrapperBase, IFHERC20Wrapper) whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshielded(ctHash, decryptedAmount, decryptionProof);
+    }
+
+    /// @dev See {FHERC20ERC20Wrapper-claimUnshieldedWithFee}. Reverts while claims are paused.
+    function claimUnshieldedWithFee(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof,
+        address feeRecipient
+    ) public virtual override(FHERC20WrapperBase, IFHERC20Wrapper) whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshieldedWithFee(ctHash, decryptedAmount, decryptionProof, feeRecipient);
+    }
+
+    /// @dev See {FHERC20ERC20Wrapper-claimUnshieldedAndCall}. Reverts while claims are paused.
+    function claimUnshieldedAndCall(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override(FHERC20WrapperBase, IFHERC20Wrapper) whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshieldedAndCall(ctHash, decryptedAmount, decryptionProof);
+    }
+
+    /// @dev See {FHERC20ERC20Wrapper-claimUnshieldedBatch}. Reverts while claims are paused.
+    function claimUnshieldedBatch(
+        bytes32[] memory ctHashes,
+        uint64[] memory decryptedAmounts,
+        bytes[] memory decryptionProofs
+    ) public virtual override whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshieldedBatch(ctHashes, decryptedAmounts, decryptionProofs);
+    }
+
+    /// @inheritdoc FHERC20WrapperBase
+    function decimals() public view virtual override(FHERC20, FHERC20WrapperBase) returns (uint8) {
+        return super.decimals();
+    }
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(FHERC20ERC20Wrapper, FHERC20Pausable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc FHERC20
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal virtual override(FHERC20WrapperBase, FHERC20Pausable) returns (euint64) {
+        return super._update(from, to, amount);
+    }
+}
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IFHERC20Wrapper } from "../../interfaces/IFHERC20Wrapper.sol";
+import { FHERC20ERC20WrapperUpgradeable } from "./FHERC20ERC20WrapperUpgradeable.sol";
+import { FHERC20PausableUpgradeable } from "./FHERC20PausableUpgradeable.sol";
+import { FHERC20WrapperBaseUpgradeable } from "./FHERC20WrapperBaseUpgradeable.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+
+/**
+ * @dev Upgradeable variant of {FHERC20ERC20WrapperPausable}: a {FHERC20ERC20WrapperUpgradeable} for
+ * an `ERC20` token with the emergency-stop switches of {FHERC20PausableUpgradeable}.
+ *
+ * Shielding and unshield creation are gated through {_update} by the `Shield` and `Unshield` switches.
+ * `claimUnshielded`, `claimUnshieldedWithFee`, `claimUnshieldedAndCall` and `claimUnshieldedBatch` are gated by the
+ * `Claim` switch, so that exits can stay open while new shields are halted (or be halted independently while an
+ * incident is investigated).
+ */
+abstract contract FHERC20ERC20WrapperPausableUpgradeable is FHERC20ERC20WrapperUpgradeable, FHERC20PausableUpgradeable {
+    /// @dev See {FHERC20ERC20WrapperUpgradeable-claimUnshielded}. Reverts while claims are paused.
+    function claimUnshielded(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override(FHERC20WrapperBaseUpgradeable, IFHERC20Wrapper) whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshielded(ctHash, decryptedAmount, decryptionProof);
+    }
+
+    /// @dev See {FHERC20ERC20WrapperUpgradeable-claimUnshieldedWithFee}. Reverts while claims are paused.
+    function claimUnshieldedWithFee(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof,
+        address feeRecipient
+    ) public virtual override(FHERC20WrapperBaseUpgradeable, IFHERC20Wrapper) whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshieldedWithFee(ctHash, decryptedAmount, decryptionProof, feeRecipient);
+    }
+
+    /// @dev See {FHERC20ERC20WrapperUpgradeable-claimUnshieldedAndCall}. Reverts while claims are paused.
+    function claimUnshieldedAndCall(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override(FHERC20WrapperBaseUpgradeable, IFHERC20Wrapper) whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshieldedAndCall(ctHash, decryptedAmount, decryptionProof);
+    }
+
+    /// @dev See {FHERC20ERC20WrapperUpgradeable-claimUnshieldedBatch}. Reverts while claims are paused.
+    function claimUnshieldedBatch(
+        bytes32[] memory ctHashes,
+        uint64[] memory decryptedAmounts,
+        bytes[] memory decryptionProofs
+    ) public virtual override whenNotPaused(PauseTarget.Claim) {
+        super.claimUnshieldedBatch(ctHashes, decryptedAmounts, decryptionProofs);
+    }
+
+    /// @inheritdoc FHERC20ERC20WrapperUpgradeable
+    function decimals()
+        public
+        view
+        virtual
+        override(FHERC20Upgradeable, FHERC20ERC20WrapperUpgradeable)
+        returns (uint8)
+    {
+        return super.decimals();
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(FHERC20ERC20WrapperUpgradeable, FHERC20PausableUpgradeable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal virtual override(FHERC20WrapperBaseUpgradeable, FHERC20PausableUpgradeable) returns (euint64) {
+        return super._update(from, to, amount);
+    }
+}
@@ -6,12 +6,15 @@ import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 import { IERC1363Receiver } from "@openzeppelin/contracts/interfaces/IERC1363Receiver.sol";
 import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
 import { IERC20Metadata } from "@openzeppelin/contracts/interfaces/IERC20Metadata.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IERC3009 } from "../../interfaces/IERC3009.sol";
 import { IFHERC20ERC20Wrapper } from "../../interfaces/IFHERC20ERC20Wrapper.sol";
+import { IFHERC20Wrapper } from "../../interfaces/IFHERC20Wrapper.sol";
+import { ISignatureTransfer } from "../../interfaces/IPermit2.sol";
 import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
-import { FHERC20WrapperClaimHelperUpgradeable } from "../utils/FHERC20WrapperClaimHelperUpgradeable.sol";
-import { FHERC20InvalidReceiver, FHERC20UnauthorizedSpender, FHERC20UnauthorizedCaller, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+import { FHERC20WrapperBaseUpgradeable } from "./FHERC20WrapperBaseUpgradeable.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
 
 /**
  * @dev Upgradeable wrapper that shields a standard ERC-20 token into a confidential {FHERC20} token.
@@ -20,10 +23,9 @@ import { FHERC20InvalidReceiver, FHERC20UnauthorizedSpender, FHERC20Unauthorized
  * Wrapper-specific state (`_underlying`, `_wrappedDecimals`, `_rate`) is stored in ERC-7201 namespaced storage.
  */
 abstract contract FHERC20ERC20WrapperUpgradeable is
-    FHERC20Upgradeable,
+    FHERC20WrapperBaseUpgradeable,
     IFHERC20ERC20Wrapper,
-    IERC1363Receiver,
-    FHERC20WrapperClaimHelperUpgradeable
+    IERC1363Receiver
 {
     /// @custom:storage-location erc7201:fherc20.storage.FHERC20ERC20Wrapper
     struct FHERC20ERC20WrapperStorage {
@@ -42,26 +44,18 @@ abstract contract FHERC20ERC20WrapperUpgradeable is
         }
     }
 
-    error FHERC20TotalSupplyOverflow();
+    /// @dev The Permit2 permit is for `token` instead of the underlying token.
+    error FHERC20InvalidPermitToken(address token);
 
     function __FHERC20ERC20Wrapper_init(IERC20 underlying_) internal onlyInitializing {
-        __FHERC20WrapperClaimHelper_init();
+        __FHERC20WrapperBase_init();
         __FHERC20ERC20Wrapper_init_unchained(underlying_);
     }
 
     function __FHERC20ERC20Wrapper_init_unchained(IERC20 underlying_) internal onlyInitializing {
         FHERC20ERC20WrapperStorage storage $ = _getFHERC20ERC20WrapperStorage();
         $._underlying = underlying_;
-
-        uint8 tokenDecimals = _tryGetAssetDecimals(underlying_);
-        uint8 maxDecimals = _maxDecimals();
-        if (tokenDecimals > maxDecimals) {
-            $._wrappedDecimals = maxDecimals;
-            $._rate = 10 ** (tokenDecimals - maxDecimals);
-        } else {
-            $._wrappedDecimals = tokenDecimals;
-            $._rate = 1;
-        }
+        ($._wrappedDecimals, $._rate) = _wrappedDecimalsAndRate(_tryGetAssetDecimals(underlying_));
     }
 
     function onTransferReceived(
@@ -73,62 +67,77 @@ abstract contract FHERC20ERC20WrapperUpgradeable is
         if (underlying() != msg.sender) revert FHERC20UnauthorizedCaller(msg.sender);
 
         address to = data.length < 20 ? from : address(bytes20(data));
-        _mint(to, FHE.asEuint64(SafeCast.toUint64(amount / rate())));
+        _mintShielded(from, to, amount);
 
         uint256 excess = amount % rate();
-        if (excess > 0) SafeERC20.safeTransfer(IERC20(underlying()), from, excess);
+        if (excess > 0) _sendAsset(from, excess);
 
         return IERC1363Receiver.onTransferReceived.selector;
     }
 
     function shield(address to, uint256 amount) public virtual override returns (euint64) {
-        SafeERC20.safeTransferFrom(IERC20(underlying()), msg.sender, address(this), amount - (amount % rate()));
-
-        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(SafeCast.toUint64(amount / rate())));
-        FHE.allowTransient(shieldedAmountSent, msg.sender);
-
-        return shieldedAmountSent;
+        return _shield(msg.sender, to, amount);
     }
 
     /**
-     * @dev Initiates an unshield of `amount` confidential tokens from `from`, creating a pending
-     * claim for `to`. The caller must be `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned (used as the claim's cipher-text handle).
+     * @dev Same as {shield}, but first approves the wrapper for `amount` with an ERC-2612 `permit` signed by the
+     * caller, so no prior `approve` transaction is needed. A failing permit is ignored, e.g. when it was front-run,
+     * and the shield then relies on the existing allowance.
      */
-    function unshield(address from, address to, uint64 amount) public virtual returns (euint64) {
-        return _unshield(from, to, FHE.asEuint64(amount), amount);
+    function shieldWithPermit(
+        address to,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual returns (euint64) {
+        try IERC20Permit(underlying()).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        return shield(to, amount);
     }
 
     /**
-     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
-     * unshield request for `to`. The caller must have ACL access to `amount` and must be
-     * `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
+     * @dev Same as {shield}, but pulls the underlying tokens through {permit2} with a `SignatureTransfer` `permit`
+     * signed by the caller for the wrapper. The permit must be for the underlying token and allow at least `amount`.
      */
-    function unshield(address from, address to, euint64 amount) public virtual returns (euint64) {
-        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
-        return _unshield(from, to, amount, 0);
-    }
+    function shieldWithPermit2(
+        address to,
+        uint256 amount,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) public virtual returns (euint64) {
+        _permit2TransferFrom(permit, amount - (amount % rate()), signature);
 
-    function claimUnshielded(bytes32 ctHash, uint64 decryptedAmount, bytes memory decryptionProof) public virtual {
-        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
-        SafeERC20.safeTransfer(IERC20(underlying()), claim.to, uint256(claim.decryptedAmount) * rate());
-        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+        euint64 shieldedAmountSent = _mintShielded(msg.sender, to, amount);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
+
+        return shieldedAmountSent;
     }
 
-    function claimUnshieldedBatch(
-        bytes32[] memory ctHashes,
-        uint64[] memory decryptedAmounts,
-        bytes[] memory decryptionProofs
-    ) public virtual {
-        Claim[] memory claims = _handleClaimBatch(ctHashes, decryptedAmounts, decryptionProofs);
+    /**
+     * @dev Same as {shield}, but pulls the underlying tokens with an ERC-3009 `receiveWithAuthorization` signed by
+     * the caller for the wrapper. The authorization transfers the full `amount`, so the excess beyond the nearest
+     * multiple of {rate} is refunded to the caller.
+     */
+    function shieldWithAuthorization(
+        address to,
+        uint256 amount,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual returns (euint64) {
+        _receiveWithAuthorization(amount, validAfter, validBefore, nonce, v, r, s);
+
+        euint64 shieldedAmountSent = _mintShielded(msg.sender, to, amount);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
 
-        for (uint256 i = 0; i < claims.length; i++) {
-            SafeERC20.safeTransfer(IERC20(underlying()), claims[i].to, uint256(claims[i].decryptedAmount) * rate());
-            emit ClaimedUnshielded(claims[i].to, ctHashes[i], FHE.wrapEuint64(ctHashes[i]), claims[i].decryptedAmount);
-        }
+        uint256 excess = amount % rate();
+        if (excess > 0) _sendAsset(msg.sender, excess);
+
+        return shieldedAmountSent;
     }
 
     /// @inheritdoc FHERC20Upgradeable
@@ -136,8 +145,8 @@ abstract contract FHERC20ERC20WrapperUpgradeable is
         return _getFHERC20ERC20WrapperStorage()._wrappedDecimals;
     }
 
-    /// @inheritdoc IFHERC20ERC20Wrapper
-    function rate() public view virtual returns (uint256) {
+    /// @inheritdoc IFHERC20Wrapper
+    function rate() public view virtual override(FHERC20WrapperBaseUpgradeable, IFHERC20Wrapper) returns (uint256) {
         return _getFHERC20ERC20WrapperStorage()._rate;
     }
 
@@ -146,58 +155,92 @@ abstract contract FHERC20ERC20WrapperUpgradeable is
         return address(_getFHERC20ERC20WrapperStorage()._underlying);
     }
 
+    /// @dev Returns the Permit2 contract used by {shieldWithPermit2}. Defaults to its canonical deployment.
+    function permit2() public view virtual returns (address) {
+        return 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+    }
+
     /// @inheritdoc FHERC20Upgradeable
-    function supportsInterface(bytes4 interfaceId) public view virtual override(FHERC20Upgradeable) returns (bool) {
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
         return
             interfaceId == type(IFHERC20ERC20Wrapper).interfaceId ||
             interfaceId == type(IERC1363Receiver).interfaceId ||
             super.supportsInterface(interfaceId);
     }
 
-    function inferredTotalSupply() public view virtual returns (uint256) {
-        return IERC20(underlying()).balanceOf(address(this)) / rate();
+    /// @dev See {FHERC20ERC20Wrapper-_pullAsset}.
+    function _pullAsset(address from, uint256 value) internal virtual override {
+        SafeERC20.safeTransferFrom(IERC20(underlying()), from, address(this), value);
     }
 
-    function maxTotalSupply() public view virtual returns (uint256) {
-        return type(uint64).max;
+    /// @dev See {FHERC20ERC20Wrapper-_sendAsset}.
+    function _sendAsset(address to, uint256 value) internal virtual override {
+        SafeERC20.safeTransfer(IERC20(underlying()), to, value);
     }
 
-    function _checkConfidentialTotalSupply() internal virtual {
-        if (inferredTotalSupply() > maxTotalSupply()) {
-            revert FHERC20TotalSupplyOverflow();
-        }
+    /// @dev See {FHERC20ERC20Wrapper-_sendAssetAndCall}.
+    function _sendAssetAndCall(
+        address /* operator */,
+        address target,
+        uint256 value,
+        bytes memory data
+    ) internal virtual override returns (bool) {
+        IERC20 token = IERC20(underlying());
+        uint256 balanceBefore = token.balanceOf(address(this));
+        (bool success, ) = address(token).call(
+            abi.encodeWithSignature("transferAndCall(address,uint256,bytes)", target, value, data)
+        );
+        return success && token.balanceOf(address(this)) + value == balanceBefore;
     }
 
-    /// @inheritdoc FHERC20Upgradeable
-    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
-        if (from == address(0)) {
-            _checkConfidentialTotalSupply();
-        }
-        return super._update(from, to, amount);
+    /// @dev See {FHERC20ERC20Wrapper-_assetBalance}.
+    function _assetBalance() internal view virtual override returns (uint256) {
+        return IERC20(underlying()).balanceOf(address(this));
     }
 
-    /// @dev Shared internal logic for both unshield overloads.
-    function _unshield(address from, address to, euint64 amount, uint64 requestedAmount) internal virtual returns (euint64) {
-        if (to == address(0)) revert FHERC20InvalidReceiver(to);
-        if (from != msg.sender && !isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
-
-        euint64 unshieldAmount_ = _burn(from, amount);
-        FHE.allowPublic(unshieldAmount_);
-
-        _createClaim(to, requestedAmount, unshieldAmount_);
+    /// @dev Transfers `amount` underlying tokens from the caller to the wrapper with a Permit2 `permit`.
+    function _permit2TransferFrom(
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        uint256 amount,
+        bytes calldata signature
+    ) internal virtual {
+        if (permit.permitted.token != underlying()) revert FHERC20InvalidPermitToken(permit.permitted.token);
+
+        ISignatureTransfer(permit2()).permitTransferFrom(
+            permit,
+            ISignatureTransfer.SignatureTransferDetails({ to: address(this), requestedAmount: amount }),
+            msg.sender,
+            signature
+        );
+    }
 
-        emit Unshielded(to, unshieldAmount_);
-        return unshieldAmount_;
+    /// @dev Transfers `amount` underlying tokens from the caller to the wrapper with an ERC-3009 authorization.
+    function _receiveWithAuthorization(
+        uint256 amount,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal virtual {
+        IERC3009(underlying()).receiveWithAuthorization(
+            msg.sender,
+            address(this),
+            amount,
+            validAfter,
+            validBefore,
+            nonce,
+            v,
+            r,
+            s
+        );
     }
 
     function _fallbackUnderlyingDecimals() internal pure virtual returns (uint8) {
         return 18;
     }
 
-    function _maxDecimals() internal pure virtual returns (uint8) {
-        return 6;
-    }
-
     function _tryGetAssetDecimals(IERC20 asset_) private view returns (uint8 assetDecimals) {
         (bool success, bytes memory encodedDecimals) = address(asset_).staticcall(
             abi.encodeCall(IERC20Metadata.decimals, ())
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { AccessControl } from "@openzeppelin/contracts/access/AccessControl.sol";
+import { IFHERC20Freezable } from "../../interfaces/IFHERC20Freezable.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Extension of {FHERC20} that lets accounts with {COMPLIANCE_ROLE} freeze accounts, either entirely or
+ * up to an encrypted amount.
+ *
+ * A fully frozen account can neither send nor receive tokens; this is public information, so such transfers
+ * revert. A partial freeze is encrypted: {_update} only lets `balance - frozen` be spent, computed with
+ * {FHESafeMath-trySub}, and a transfer above the available balance moves zero, exactly like a transfer above
+ * the balance. The frozen amount is never revealed.
+ *
+ * The available balance of partially frozen accounts is cached on every balance or freeze change so that
+ * {confidentialAvailableBalance} can be a view. ACL access to the frozen amount and to the available balance
+ * is granted to this contract and to the account. Fully frozen accounts share an encrypted zero as their available
+ * balance, which anyone can decrypt since the full freeze is public.
+ */
+abstract contract FHERC20Freezable is FHERC20, AccessControl, IFHERC20Freezable {
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+
+    mapping(address account => bool) private _accountFrozen;
+    mapping(address account => euint64) private _frozen;
+    mapping(address account => euint64) private _availableBalances;
+    euint64 private _frozenAvailableBalance;
+
+    /// @dev The operation failed because `account` is fully frozen.
+    error FHERC20AccountFrozen(address account);
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override(FHERC20, AccessControl) returns (bool) {
+        return interfaceId == type(IFHERC20Freezable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function isAccountFrozen(address account) public view virtual returns (bool) {
+        return _accountFrozen[account];
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function confidentialFrozen(address account) public view virtual returns (euint64) {
+        return _frozen[account];
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function confidentialAvailableBalance(address account) public view virtual returns (euint64) {
+        if (isAccountFrozen(account)) return _frozenAvailableBalance;
+        if (!FHE.isInitialized(_frozen[account])) return confidentialBalanceOf(account);
+        return _availableBalances[account];
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function setAccountFrozen(address account, bool frozen) public virtual onlyRole(COMPLIANCE_ROLE) {
+        _setAccountFrozen(account, frozen);
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function setFrozen(
+        address account,
+        InEuint64 memory encryptedAmount
+    ) public virtual onlyRole(COMPLIANCE_ROLE) returns (euint64) {
+        return _setFrozen(account, FHE.asEuint64(encryptedAmount));
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function setFrozen(address account, euint64 amount) public virtual onlyRole(COMPLIANCE_ROLE) returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _setFrozen(account, amount);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Fully freezes (or unfreezes) `account`. The first freeze creates the publicly decryptable encrypted zero
+     * returned by {confidentialAvailableBalance} for fully frozen accounts, and every frozen `account` is granted ACL
+     * access to it.
+     *
+     * Emits an {AccountFreezeUpdated} event.
+     */
+    function _setAccountFrozen(address account, bool frozen) internal virtual {
+        if (frozen) {
+            if (!FHE.isInitialized(_frozenAvailableBalance)) {
+                _frozenAvailableBalance = FHE.asEuint64(0);
+                FHE.allowThis(_frozenAvailableBalance);
+                FHE.allowPublic(_frozenAvailableBalance);
+            }
+            FHE.allow(_frozenAvailableBalance, account);
+        }
+        _accountFrozen[account] = frozen;
+        emit AccountFreezeUpdated(account, frozen);
+    }
+
+    /**
+     * @dev Sets the encrypted frozen amount of `account` to `amount`. Grants ACL access to it to this contract
+     * and `account`.
+     *
+     * Emits a {TokensFrozen} event.
+     */
+    function _setFrozen(address account, euint64 amount) internal virtual returns (euint64) {
+        FHE.allowThis(amount);
+        FHE.allow(amount, account);
+        _frozen[account] = amount;
+        _refreshAvailableBalance(account);
+
+        emit TokensFrozen(account, amount);
+        return amount;
+    }
+
+    /**
+     * @dev Reverts if `from` or `to` is fully frozen, and reduces `amount` to zero if it exceeds the available
+     * balance of a partially frozen `from`.
+     */
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64 transferred) {
+        if (from != address(0) && isAccountFrozen(from)) revert FHERC20AccountFrozen(from);
+        if (to != address(0) && isAccountFrozen(to)) revert FHERC20AccountFrozen(to);
+
+        if (from != address(0) && FHE.isInitialized(_frozen[from])) {
+            (, euint64 available) = FHESafeMath.trySub(confidentialBalanceOf(from), _frozen[from]);
+            amount = FHE.select(FHE.lte(amount, available), amount, FHE.asEuint64(0));
+        }
+
+        transferred = super._update(from, to, amount);
+
+        if (from != address(0) && FHE.isInitialized(_frozen[from])) _refreshAvailableBalance(from);
+        if (to != address(0) && FHE.isInitialized(_frozen[to])) _refreshAvailableBalance(to);
+    }
+
+    function _refreshAvailableBalance(address account) private {
+        (, euint64 available) = FHESafeMath.trySub(confidentialBalanceOf(account), _frozen[account]);
+        FHE.allowThis(available);
+        FHE.allow(available, account);
+        _availableBalances[account] = available;
+    }
+}
@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { IFHERC20Freezable } from "../../interfaces/IFHERC20Freezable.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+import { FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} that lets accounts with {COMPLIANCE_ROLE} freeze accounts,
+ * either entirely or up to an encrypted amount. See {FHERC20Freezable} for the enforcement semantics.
+ *
+ * Freeze state is stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20FreezableUpgradeable is
+    Initializable,
+    FHERC20Upgradeable,
+    AccessControlUpgradeable,
+    IFHERC20Freezable
+{
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20Freezable
+    struct FHERC20FreezableStorage {
+        mapping(address account => bool) _accountFrozen;
+        mapping(address account => euint64) _frozen;
+        mapping(address account => euint64) _availableBalances;
+        euint64 _frozenAvailableBalance;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20Freezable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20FreezableStorageLocation =
+        0x03306cc783037481237a2f707e447e5cbff82a615bce8b26dbc0603a1af31a00;
+
+    function _getFHERC20FreezableStorage() private pure returns (FHERC20FreezableStorage storage $) {
+        assembly {
+            $.slot := FHERC20FreezableStorageLocation
+        }
+    }
+
+    function __FHERC20Freezable_init() internal onlyInitializing {
+        __AccessControl_init();
+    }
+
+    function __FHERC20Freezable_init_unchained() internal onlyInitializing {}
+
+    /// @dev The operation failed because `account` is fully frozen.
+    error FHERC20AccountFrozen(address account);
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(FHERC20Upgradeable, AccessControlUpgradeable) returns (bool) {
+        return interfaceId == type(IFHERC20Freezable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function isAccountFrozen(address account) public view virtual returns (bool) {
+        return _getFHERC20FreezableStorage()._accountFrozen[account];
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function confidentialFrozen(address account) public view virtual returns (euint64) {
+        return _getFHERC20FreezableStorage()._frozen[account];
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function confidentialAvailableBalance(address account) public view virtual returns (euint64) {
+        FHERC20FreezableStorage storage $ = _getFHERC20FreezableStorage();
+        if ($._accountFrozen[account]) return $._frozenAvailableBalance;
+        if (!FHE.isInitialized($._frozen[account])) return confidentialBalanceOf(account);
+        return $._availableBalances[account];
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function setAccountFrozen(address account, bool frozen) public virtual onlyRole(COMPLIANCE_ROLE) {
+        _setAccountFrozen(account, frozen);
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function setFrozen(
+        address account,
+        InEuint64 memory encryptedAmount
+    ) public virtual onlyRole(COMPLIANCE_ROLE) returns (euint64) {
+        return _setFrozen(account, FHE.asEuint64(encryptedAmount));
+    }
+
+    /// @inheritdoc IFHERC20Freezable
+    function setFrozen(address account, euint64 amount) public virtual onlyRole(COMPLIANCE_ROLE) returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _setFrozen(account, amount);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /// @dev See {FHERC20Freezable-_setAccountFrozen}.
+    function _setAccountFrozen(address account, bool frozen) internal virtual {
+        FHERC20FreezableStorage storage $ = _getFHERC20FreezableStorage();
+        if (frozen) {
+            if (!FHE.isInitialized($._frozenAvailableBalance)) {
+                $._frozenAvailableBalance = FHE.asEuint64(0);
+                FHE.allowThis($._frozenAvailableBalance);
+                FHE.allowPublic($._frozenAvailableBalance);
+            }
+            FHE.allow($._frozenAvailableBalance, account);
+        }
+        $._accountFrozen[account] = frozen;
+        emit AccountFreezeUpdated(account, frozen);
+    }
+
+    /**
+     * @dev Sets the encrypted frozen amount of `account` to `amount`. Grants ACL access to it to this contract
+     * and `account`.
+     *
+     * Emits a {TokensFrozen} event.
+     */
+    function _setFrozen(address account, euint64 amount) internal virtual returns (euint64) {
+        FHE.allowThis(amount);
+        FHE.allow(amount, account);
+        _getFHERC20FreezableStorage()._frozen[account] = amount;
+        _refreshAvailableBalance(account);
+
+        emit TokensFrozen(account, amount);
+        return amount;
+    }
+
+    /**
+     * @dev Reverts if `from` or `to` is fully frozen, and reduces `amount` to zero if it exceeds the available
+     * balance of a partially frozen `from`.
+     */
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64 transferred) {
+        if (from != address(0) && isAccountFrozen(from)) revert FHERC20AccountFrozen(from);
+        if (to != address(0) && isAccountFrozen(to)) revert FHERC20AccountFrozen(to);
+
+        FHERC20FreezableStorage storage $ = _getFHERC20FreezableStorage();
+        if (from != address(0) && FHE.isInitialized($._frozen[from])) {
+            (, euint64 available) = FHESafeMath.trySub(confidentialBalanceOf(from), $._frozen[from]);
+            amount = FHE.select(FHE.lte(amount, available), amount, FHE.asEuint64(0));
+        }
+
+        transferred = super._update(from, to, amount);
+
+        if (from != address(0) && FHE.isInitialized($._frozen[from])) _refreshAvailableBalance(from);
+        if (to != address(0) && FHE.isInitialized($._frozen[to])) _refreshAvailableBalance(to);
+    }
+
+    function _refreshAvailableBalance(address account) private {
+        FHERC20FreezableStorage storage $ = _getFHERC20FreezableStorage();
+        (, euint64 available) = FHESafeMath.trySub(confidentialBalanceOf(account), $._frozen[account]);
+        FHE.allowThis(available);
+        FHE.allow(available, account);
+        $._availableBalances[account] = available;
+    }
+}
@@ -0,0 +1,220 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+import { IFHERC20Hybrid } from "../../interfaces/IFHERC20Hybrid.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20WrapperClaimHelper } from "../utils/FHERC20WrapperClaimHelper.sol";
+import {
+    FHERC20InvalidReceiver,
+    FHERC20InvalidSender,
+    FHERC20InvalidSpender,
+    FHERC20UnauthorizedUseOfEncryptedAmount
+} from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Extension of {FHERC20} where holders keep both a public ERC-20 balance and an encrypted balance.
+ *
+ * The ERC-20 functions operate on the public balance: {balanceOf}, {totalSupply}, {transfer}, {approve},
+ * {transferFrom} and {allowance} behave like OpenZeppelin's {ERC20}, and {balanceOfIsIndicator} returns false.
+ * The confidential functions operate on the encrypted balance, as in {FHERC20}. Confidential transfers no
+ * longer emit indicator {Transfer} events, so that {Transfer} events track the public balances.
+ *
+ * {encrypt} moves public funds into the encrypted balance synchronously. Moving them back is asynchronous:
+ * {requestDecrypt} burns encrypted funds and makes the burned amount publicly decryptable, and
+ * {claimDecrypted} verifies the decryption proof and credits the public balance, using the same claim
+ * lifecycle as the wrappers' unshields ({FHERC20WrapperClaimHelper}).
+ *
+ * NOTE: The public supply plus the tokens moved into encrypted balances with {encrypt}, and not claimed back, is
+ * capped at `type(uint64).max`, so that {encrypt} always mints in full. Encrypted tokens minted directly with
+ * {_mint} are not counted: inheriting contracts that do so must keep the encrypted supply within bounds themselves.
+ * They can still be moved to the public balance, and their claims take the tracked amount down to zero at most.
+ */
+abstract contract FHERC20Hybrid is FHERC20, IFHERC20Hybrid, FHERC20WrapperClaimHelper {
+    mapping(address account => uint256) private _publicBalances;
+    mapping(address owner => mapping(address spender => uint256)) private _allowances;
+    uint256 private _publicTotalSupply;
+    uint256 private _encryptedSupplyBound;
+
+    /// @dev `sender`'s public balance is lower than `needed`.
+    error FHERC20InsufficientPublicBalance(address sender, uint256 balance, uint256 needed);
+
+    /// @dev `spender`'s public allowance is lower than `needed`.
+    error FHERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed);
+
+    /// @dev The public supply plus the encrypted supply would be `increasedSupply`, more than a `uint64` can hold.
+    error FHERC20HybridSupplyOverflow(uint256 increasedSupply);
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Hybrid).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // =========================================================================
+    //  ERC-20 (public balances)
+    // =========================================================================
+
+    /// @dev Returns the public total supply. The encrypted supply is {confidentialTotalSupply}.
+    function totalSupply() public view virtual override returns (uint256) {
+        return _publicTotalSupply;
+    }
+
+    /// @dev Returns the public balance of `account`. The encrypted balance is {confidentialBalanceOf}.
+    function balanceOf(address account) public view virtual override returns (uint256) {
+        return _publicBalances[account];
+    }
+
+    /// @dev Returns `false`, signalling that {balanceOf} returns the real public balance.
+    function balanceOfIsIndicator() public pure virtual override returns (bool) {
+        return false;
+    }
+
+    /// @dev Moves `value` public tokens from the caller to `to`.
+    function transfer(address to, uint256 value) public virtual override returns (bool) {
+        _transferPublic(msg.sender, to, value);
+        return true;
+    }
+
+    /// @dev Moves `value` public tokens from `from` to `to`, spending the caller's allowance.
+    function transferFrom(address from, address to, uint256 value) public virtual override returns (bool) {
+        _spendAllowance(from, msg.sender, value);
+        _transferPublic(from, to, value);
+        return true;
+    }
+
+    /// @dev Sets `value` as the allowance of `spender` over the caller's public tokens.
+    function approve(address spender, uint256 value) public virtual override returns (bool) {
+        _approve(msg.sender, spender, value);
+        return true;
+    }
+
+    /// @dev Returns the remaining public allowance of `spender` over `owner`'s public tokens.
+    function allowance(address owner, address spender) public view virtual override returns (uint256) {
+        return _allowances[owner][spender];
+    }
+
+    // =========================================================================
+    //  Public <-> encrypted
+    // =========================================================================
+
+    /// @inheritdoc IFHERC20Hybrid
+    function encrypt(uint64 amount) public virtual returns (euint64 minted) {
+        uint256 encryptedSupply = _encryptedSupplyBound + amount;
+        if (encryptedSupply > type(uint64).max) revert FHERC20HybridSupplyOverflow(encryptedSupply);
+        _encryptedSupplyBound = encryptedSupply;
+
+        _updatePublic(msg.sender, address(0), amount);
+        minted = _mint(msg.sender, FHE.asEuint64(amount));
+        FHE.allowTransient(minted, msg.sender);
+
+        emit Encrypted(msg.sender, amount);
+    }
+
+    /// @inheritdoc IFHERC20Hybrid
+    function requestDecrypt(uint64 amount) public virtual returns (euint64) {
+        return _requestDecrypt(msg.sender, FHE.asEuint64(amount), amount);
+    }
+
+    /// @inheritdoc IFHERC20Hybrid
+    function requestDecrypt(euint64 amount) public virtual returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _requestDecrypt(msg.sender, amount, 0);
+    }
+
+    /// @inheritdoc IFHERC20Hybrid
+    function claimDecrypted(bytes32 ctHash, uint64 decryptedAmount, bytes memory decryptionProof) public virtual {
+        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+        // Saturates for encrypted tokens minted with {_mint}, which are not counted in the bound
+        (, _encryptedSupplyBound) = Math.trySub(_encryptedSupplyBound, claim.decryptedAmount);
+        _updatePublic(address(0), claim.to, claim.decryptedAmount);
+        emit ClaimedDecrypted(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /// @dev Creates `value` public tokens for `to`.
+    function _mintPublic(address to, uint256 value) internal virtual {
+        if (to == address(0)) revert FHERC20InvalidReceiver(address(0));
+        _updatePublic(address(0), to, value);
+    }
+
+    /// @dev Destroys `value` public tokens of `from`.
+    function _burnPublic(address from, uint256 value) internal virtual {
+        if (from == address(0)) revert FHERC20InvalidSender(address(0));
+        _updatePublic(from, address(0), value);
+    }
+
+    /// @dev Moves `value` public tokens from `from` to `to`.
+    function _transferPublic(address from, address to, uint256 value) internal virtual {
+        if (from == address(0)) revert FHERC20InvalidSender(address(0));
+        if (to == address(0)) revert FHERC20InvalidReceiver(address(0));
+        _updatePublic(from, to, value);
+    }
+
+    /**
+     * @dev Moves `value` public tokens from `from` to `to`, or mints (`from == address(0)`) or burns
+     * (`to == address(0)`) them. See {ERC20-_update}. Reverts with {FHERC20HybridSupplyOverflow} if a mint would
+     * take the public supply plus the encrypted supply above `type(uint64).max`.
+     *
+     * Emits a {Transfer} event.
+     */
+    function _updatePublic(address from, address to, uint256 value) internal virtual {
+        if (from == address(0)) {
+            uint256 increasedSupply = _publicTotalSupply + value + _encryptedSupplyBound;
+            if (increasedSupply > type(uint64).max) revert FHERC20HybridSupplyOverflow(increasedSupply);
+            _publicTotalSupply += value;
+        } else {
+            uint256 fromBalance = _publicBalances[from];
+            if (fromBalance < value) revert FHERC20InsufficientPublicBalance(from, fromBalance, value);
+            unchecked {
+                _publicBalances[from] = fromBalance - value;
+            }
+        }
+
+        if (to == address(0)) {
+            unchecked {
+                _publicTotalSupply -= value;
+            }
+        } else {
+            unchecked {
+                _publicBalances[to] += value;
+            }
+        }
+
+        emit Transfer(from, to, value);
+    }
+
+    /// @dev Sets `value` as the allowance of `spender` over `owner`'s public tokens. Emits an {Approval} event.
+    function _approve(address owner, address spender, uint256 value) internal virtual {
+        if (owner == address(0)) revert FHERC20InvalidSender(address(0));
+        if (spender == address(0)) revert FHERC20InvalidSpender(address(0));
+        _allowances[owner][spender] = value;
+        emit Approval(owner, spender, value);
+    }
+
+    /// @dev Spends `value` of `spender`'s allowance over `owner`'s public tokens. Infinite allowances are kept.
+    function _spendAllowance(address owner, address spender, uint256 value) internal virtual {
+        uint256 currentAllowance = allowance(owner, spender);
+        if (currentAllowance < type(uint256).max) {
+            if (currentAllowance < value) revert FHERC20InsufficientAllowance(spender, currentAllowance, value);
+            unchecked {
+                _allowances[owner][spender] = currentAllowance - value;
+            }
+        }
+    }
+
+    /// @dev Shared internal logic for both {requestDecrypt} overloads.
+    function _requestDecrypt(address from, euint64 amount, uint64 requestedAmount) internal virtual returns (euint64) {
+        euint64 burned = _burn(from, amount);
+        FHE.allowPublic(burned);
+
+        _createClaim(from, requestedAmount, burned);
+
+        emit DecryptRequested(from, burned);
+        return burned;
+    }
+}
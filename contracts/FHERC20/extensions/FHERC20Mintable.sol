@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { AccessControl } from "@openzeppelin/contracts/access/AccessControl.sol";
+import { IFHERC20Mintable } from "../../interfaces/IFHERC20Mintable.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Extension of {FHERC20} that exposes {mint} and {burn} behind {AccessControl} roles.
+ *
+ * Accounts with {MINTER_ROLE} mint out of an encrypted allowance set by the admin with {setMinterAllowance}.
+ * The allowance is decremented under FHE via {FHESafeMath-tryDecrease}; a mint above the remaining allowance
+ * mints zero, so a compromised minter key cannot inflate the supply beyond its quota. A minter without an
+ * allowance can only mint zero.
+ *
+ * Accounts with {BURNER_ROLE} can burn from any account.
+ */
+abstract contract FHERC20Mintable is FHERC20, AccessControl, IFHERC20Mintable {
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+
+    mapping(address minter => euint64) private _minterAllowances;
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override(FHERC20, AccessControl) returns (bool) {
+        return interfaceId == type(IFHERC20Mintable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function confidentialMinterAllowance(address minter) public view virtual returns (euint64) {
+        return _minterAllowances[minter];
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function setMinterAllowance(
+        address minter,
+        InEuint64 memory encryptedAllowance
+    ) public virtual onlyRole(DEFAULT_ADMIN_ROLE) returns (euint64) {
+        return _setMinterAllowance(minter, FHE.asEuint64(encryptedAllowance));
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function setMinterAllowance(
+        address minter,
+        euint64 allowance
+    ) public virtual onlyRole(DEFAULT_ADMIN_ROLE) returns (euint64) {
+        if (!FHE.isAllowed(allowance, msg.sender))
+            revert FHERC20UnauthorizedUseOfEncryptedAmount(allowance, msg.sender);
+        return _setMinterAllowance(minter, allowance);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function mint(
+        address to,
+        InEuint64 memory encryptedAmount
+    ) public virtual onlyRole(MINTER_ROLE) returns (euint64 minted) {
+        minted = _mintFromAllowance(msg.sender, to, FHE.asEuint64(encryptedAmount));
+        FHE.allowTransient(minted, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function mint(address to, euint64 amount) public virtual onlyRole(MINTER_ROLE) returns (euint64 minted) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        minted = _mintFromAllowance(msg.sender, to, amount);
+        FHE.allowTransient(minted, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function burn(
+        address from,
+        InEuint64 memory encryptedAmount
+    ) public virtual onlyRole(BURNER_ROLE) returns (euint64 burned) {
+        burned = _burn(from, FHE.asEuint64(encryptedAmount));
+        FHE.allowTransient(burned, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function burn(address from, euint64 amount) public virtual onlyRole(BURNER_ROLE) returns (euint64 burned) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        burned = _burn(from, amount);
+        FHE.allowTransient(burned, msg.sender);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Sets `allowance` as the encrypted mint allowance of `minter`. Grants ACL access to the new
+     * allowance to this contract and `minter`.
+     *
+     * Emits a {MinterAllowanceSet} event.
+     */
+    function _setMinterAllowance(address minter, euint64 allowance) internal virtual returns (euint64) {
+        _storeMinterAllowance(minter, allowance);
+        emit MinterAllowanceSet(minter, allowance);
+        return allowance;
+    }
+
+    /**
+     * @dev Mints `amount` to `to` out of `minter`'s allowance. The allowance is decremented by the amount
+     * actually minted: zero if the allowance is too low or the total supply would overflow.
+     */
+    function _mintFromAllowance(address minter, address to, euint64 amount) internal virtual returns (euint64 minted) {
+        (ebool success, euint64 updated) = FHESafeMath.tryDecrease(_minterAllowances[minter], amount);
+        euint64 approved = FHE.select(success, amount, FHE.asEuint64(0));
+
+        minted = _mint(to, approved);
+        _storeMinterAllowance(minter, FHE.add(updated, FHE.sub(approved, minted)));
+    }
+
+    function _storeMinterAllowance(address minter, euint64 allowance) private {
+        FHE.allowThis(allowance);
+        FHE.allow(allowance, minter);
+        _minterAllowances[minter] = allowance;
+    }
+}
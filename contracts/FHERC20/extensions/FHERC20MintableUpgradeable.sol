@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { IFHERC20Mintable } from "../../interfaces/IFHERC20Mintable.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+import { FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} that exposes {mint} and {burn} behind
+ * {AccessControlUpgradeable} roles, with encrypted per-minter allowances. See {FHERC20Mintable} for the
+ * allowance semantics.
+ *
+ * Minter allowances are stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20MintableUpgradeable is
+    Initializable,
+    FHERC20Upgradeable,
+    AccessControlUpgradeable,
+    IFHERC20Mintable
+{
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20Mintable
+    struct FHERC20MintableStorage {
+        mapping(address minter => euint64) _minterAllowances;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20Mintable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20MintableStorageLocation =
+        0x676c90341db21937dfb31209e6056b51cd50da680b66b6080ed3e635db86ea00;
+
+    function _getFHERC20MintableStorage() private pure returns (FHERC20MintableStorage storage $) {
+        assembly {
+            $.slot := FHERC20MintableStorageLocation
+        }
+    }
+
+    function __FHERC20Mintable_init() internal onlyInitializing {
+        __AccessControl_init();
+    }
+
+    function __FHERC20Mintable_init_unchained() internal onlyInitializing {}
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(FHERC20Upgradeable, AccessControlUpgradeable) returns (bool) {
+        return interfaceId == type(IFHERC20Mintable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function confidentialMinterAllowance(address minter) public view virtual returns (euint64) {
+        return _getFHERC20MintableStorage()._minterAllowances[minter];
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function setMinterAllowance(
+        address minter,
+        InEuint64 memory encryptedAllowance
+    ) public virtual onlyRole(DEFAULT_ADMIN_ROLE) returns (euint64) {
+        return _setMinterAllowance(minter, FHE.asEuint64(encryptedAllowance));
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function setMinterAllowance(
+        address minter,
+        euint64 allowance
+    ) public virtual onlyRole(DEFAULT_ADMIN_ROLE) returns (euint64) {
+        if (!FHE.isAllowed(allowance, msg.sender))
+            revert FHERC20UnauthorizedUseOfEncryptedAmount(allowance, msg.sender);
+        return _setMinterAllowance(minter, allowance);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function mint(
+        address to,
+        InEuint64 memory encryptedAmount
+    ) public virtual onlyRole(MINTER_ROLE) returns (euint64 minted) {
+        minted = _mintFromAllowance(msg.sender, to, FHE.asEuint64(encryptedAmount));
+        FHE.allowTransient(minted, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function mint(address to, euint64 amount) public virtual onlyRole(MINTER_ROLE) returns (euint64 minted) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        minted = _mintFromAllowance(msg.sender, to, amount);
+        FHE.allowTransient(minted, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function burn(
+        address from,
+        InEuint64 memory encryptedAmount
+    ) public virtual onlyRole(BURNER_ROLE) returns (euint64 burned) {
+        burned = _burn(from, FHE.asEuint64(encryptedAmount));
+        FHE.allowTransient(burned, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Mintable
+    function burn(address from, euint64 amount) public virtual onlyRole(BURNER_ROLE) returns (euint64 burned) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        burned = _burn(from, amount);
+        FHE.allowTransient(burned, msg.sender);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Sets `allowance` as the encrypted mint allowance of `minter`. Grants ACL access to the new
+     * allowance to this contract and `minter`.
+     *
+     * Emits a {MinterAllowanceSet} event.
+     */
+    function _setMinterAllowance(address minter, euint64 allowance) internal virtual returns (euint64) {
+        _storeMinterAllowance(minter, allowance);
+        emit MinterAllowanceSet(minter, allowance);
+        return allowance;
+    }
+
+    /**
+     * @dev Mints `amount` to `to` out of `minter`'s allowance. The allowance is decremented by the amount
+     * actually minted: zero if the allowance is too low or the total supply would overflow.
+     */
+    function _mintFromAllowance(address minter, address to, euint64 amount) internal virtual returns (euint64 minted) {
+        (ebool success, euint64 updated) = FHESafeMath.tryDecrease(
+            _getFHERC20MintableStorage()._minterAllowances[minter],
+            amount
+        );
+        euint64 approved = FHE.select(success, amount, FHE.asEuint64(0));
+
+        minted = _mint(to, approved);
+        _storeMinterAllowance(minter, FHE.add(updated, FHE.sub(approved, minted)));
+    }
+
+    function _storeMinterAllowance(address minter, euint64 allowance) private {
+        FHE.allowThis(allowance);
+        FHE.allow(allowance, minter);
+        _getFHERC20MintableStorage()._minterAllowances[minter] = allowance;
+    }
+}
@@ -5,15 +5,14 @@ import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 import { IERC20Metadata } from "@openzeppelin/contracts/interfaces/IERC20Metadata.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
-import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
 import { IFHERC20NativeWrapper } from "../../interfaces/IFHERC20NativeWrapper.sol";
+import { IFHERC20UnshieldReceiver } from "../../interfaces/IFHERC20UnshieldReceiver.sol";
 import { IWETH } from "../../interfaces/IWETH.sol";
-import { FHERC20 } from "../FHERC20.sol";
-import { FHERC20WrapperClaimHelper } from "../utils/FHERC20WrapperClaimHelper.sol";
-import { FHERC20InvalidReceiver, FHERC20UnauthorizedSpender, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+import { FHERC20WrapperBase } from "./FHERC20WrapperBase.sol";
+import { FHERC20UnauthorizedCaller, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
 
 /**
- * @dev A wrapper contract built on top of {FHERC20} that shields a chain's native token
+ * @dev A wrapper contract built on top of {FHERC20WrapperBase} that shields a chain's native token
  * (e.g. ETH) into a confidential {FHERC20} token.
  *
  * Two shield entry-points are provided:
@@ -24,30 +23,26 @@ import { FHERC20InvalidReceiver, FHERC20UnauthorizedSpender, FHERC20Unauthorized
  *
  * Confidential precision is capped at {_maxDecimals} (default 6). For 18-decimal native
  * tokens the conversion rate is 1e12, so 1 native unit = 1e-6 confidential units.
+ *
+ * Claims are paid out in native tokens, or in WETH for requests created with {unshieldWrappedNative} or
+ * claimed with {claimUnshieldedWrappedNative}. When a recipient cannot accept native tokens (e.g. a contract
+ * without a `receive` function), they are wrapped and sent as WETH instead, so claims cannot get stuck.
  */
-abstract contract FHERC20NativeWrapper is FHERC20, IFHERC20NativeWrapper, FHERC20WrapperClaimHelper {
+abstract contract FHERC20NativeWrapper is FHERC20WrapperBase, IFHERC20NativeWrapper {
     using SafeERC20 for IWETH;
 
     IWETH private immutable _weth;
-    uint8 private immutable _wrappedDecimals;
-    uint256 private immutable _rate;
 
-    error FHERC20TotalSupplyOverflow();
+    mapping(bytes32 ctHash => bool) private _paysWrappedNative;
+
+    /// @dev Gas forwarded to claim recipients with native payouts, so that callers cannot pick it.
+    uint256 private constant _NATIVE_PAYOUT_GAS = 100_000;
+
     error NativeTransferFailed();
     error AmountTooSmallForConfidentialPrecision();
 
-    constructor(IWETH weth_) {
+    constructor(IWETH weth_) FHERC20WrapperBase(IERC20Metadata(address(weth_)).decimals()) {
         _weth = weth_;
-
-        uint8 tokenDecimals = IERC20Metadata(address(weth_)).decimals();
-        uint8 maxDecimals = _maxDecimals();
-        if (tokenDecimals > maxDecimals) {
-            _wrappedDecimals = maxDecimals;
-            _rate = 10 ** (tokenDecimals - maxDecimals);
-        } else {
-            _wrappedDecimals = tokenDecimals;
-            _rate = 1;
-        }
     }
 
     receive() external payable {}
@@ -55,20 +50,9 @@ abstract contract FHERC20NativeWrapper is FHERC20, IFHERC20NativeWrapper, FHERC2
     /// @inheritdoc IFHERC20NativeWrapper
     function shieldWrappedNative(address to, uint256 value) public virtual returns (euint64) {
         if (to == address(0)) to = msg.sender;
+        if (value < rate()) revert AmountTooSmallForConfidentialPrecision();
 
-        uint256 alignedValue = value - (value % rate());
-        if (alignedValue == 0) revert AmountTooSmallForConfidentialPrecision();
-
-        uint64 confidentialAmount = SafeCast.toUint64(alignedValue / rate());
-
-        _weth.safeTransferFrom(msg.sender, address(this), alignedValue);
-        _weth.withdraw(alignedValue);
-
-        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(confidentialAmount));
-        FHE.allowTransient(shieldedAmountSent, msg.sender);
-
-        emit ShieldedNative(msg.sender, to, alignedValue);
-        return shieldedAmountSent;
+        return _shield(msg.sender, to, value);
     }
 
     /// @inheritdoc IFHERC20NativeWrapper
@@ -84,86 +68,52 @@ abstract contract FHERC20NativeWrapper is FHERC20, IFHERC20NativeWrapper, FHERC2
             if (!refunded) revert NativeTransferFailed();
         }
 
-        uint64 confidentialAmount = SafeCast.toUint64(alignedValue / rate());
-
-        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(confidentialAmount));
+        euint64 shieldedAmountSent = _mintShielded(msg.sender, to, alignedValue);
         FHE.allowTransient(shieldedAmountSent, msg.sender);
 
-        emit ShieldedNative(msg.sender, to, alignedValue);
         return shieldedAmountSent;
     }
 
-    /**
-     * @dev Initiates an unshield of `amount` confidential tokens from `from`, creating a pending
-     * claim for `to`. The caller must be `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned (used as the claim's cipher-text handle).
-     */
-    function unshield(address from, address to, uint64 amount) public virtual returns (euint64) {
-        return _unshield(from, to, FHE.asEuint64(amount), amount);
+    /// @inheritdoc IFHERC20NativeWrapper
+    function unshieldWrappedNative(address from, address to, uint64 amount) public virtual returns (euint64) {
+        euint64 unshieldAmount_ = _unshield(from, to, FHE.asEuint64(amount), amount, 0);
+        _paysWrappedNative[FHE.unwrap(unshieldAmount_)] = true;
+        return unshieldAmount_;
     }
 
-    /**
-     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
-     * unshield request for `to`. The caller must have ACL access to `amount` and must be
-     * `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
-     */
-    function unshield(address from, address to, euint64 amount) public virtual returns (euint64) {
+    /// @inheritdoc IFHERC20NativeWrapper
+    function unshieldWrappedNative(address from, address to, euint64 amount) public virtual returns (euint64) {
         if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
-        return _unshield(from, to, amount, 0);
+
+        euint64 unshieldAmount_ = _unshield(from, to, amount, 0, 0);
+        _paysWrappedNative[FHE.unwrap(unshieldAmount_)] = true;
+        return unshieldAmount_;
     }
 
     /**
-     * @dev Claims a pending unshield request. Verifies the decryption proof and transfers
-     * `decryptedAmount * rate()` native tokens to the requester.
+     * @dev Claims a pending unshield request like {claimUnshielded}, but pays `decryptedAmount * rate()` WETH to
+     * the requester. Reverts with {FHERC20UnauthorizedCaller} unless called by the requester.
      */
-    function claimUnshielded(
+    function claimUnshieldedWrappedNative(
         bytes32 ctHash,
         uint64 decryptedAmount,
         bytes memory decryptionProof
     ) public virtual {
         Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+        if (msg.sender != claim.to) revert FHERC20UnauthorizedCaller(msg.sender);
 
-        uint256 nativeAmount = uint256(claim.decryptedAmount) * rate();
-        (bool sent, ) = claim.to.call{ value: nativeAmount }("");
-        if (!sent) revert NativeTransferFailed();
-
+        _transferWrappedNative(claim.to, uint256(claim.decryptedAmount) * rate());
         emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
     }
 
-    /**
-     * @dev Claims multiple pending unshield requests in a single transaction.
-     */
-    function claimUnshieldedBatch(
-        bytes32[] memory ctHashes,
-        uint64[] memory decryptedAmounts,
-        bytes[] memory decryptionProofs
-    ) public virtual {
-        Claim[] memory claims = _handleClaimBatch(ctHashes, decryptedAmounts, decryptionProofs);
-
-        for (uint256 i = 0; i < claims.length; i++) {
-            uint256 nativeAmount = uint256(claims[i].decryptedAmount) * rate();
-            (bool sent, ) = claims[i].to.call{ value: nativeAmount }("");
-            if (!sent) revert NativeTransferFailed();
-            emit ClaimedUnshielded(claims[i].to, ctHashes[i], FHE.wrapEuint64(ctHashes[i]), claims[i].decryptedAmount);
-        }
-    }
-
-    /// @inheritdoc FHERC20
-    function decimals() public view virtual override returns (uint8) {
-        return _wrappedDecimals;
-    }
-
     /// @inheritdoc IFHERC20NativeWrapper
-    function rate() public view virtual returns (uint256) {
-        return _rate;
+    function weth() public view virtual returns (address) {
+        return address(_weth);
     }
 
     /// @inheritdoc IFHERC20NativeWrapper
-    function weth() public view virtual returns (address) {
-        return address(_weth);
+    function paysWrappedNative(bytes32 ctHash) public view virtual returns (bool) {
+        return _paysWrappedNative[ctHash];
     }
 
     /// @inheritdoc IERC165
@@ -173,59 +123,72 @@ abstract contract FHERC20NativeWrapper is FHERC20, IFHERC20NativeWrapper, FHERC2
             super.supportsInterface(interfaceId);
     }
 
-    /**
-     * @dev Returns the native balance held by this contract divided by the {rate},
-     * a value greater or equal to the actual {confidentialTotalSupply}.
-     *
-     * NOTE: The return value can be inflated by directly sending native tokens to the contract.
-     * Reductions will lag compared to {confidentialTotalSupply} since it is updated on {unshield}
-     * while this function updates on {claimUnshielded}.
-     */
-    function inferredTotalSupply() public view virtual returns (uint256) {
-        return address(this).balance / rate();
+    /// @dev Pulls `value` WETH from `from` and unwraps it. Requires a WETH allowance from `from`.
+    function _pullAsset(address from, uint256 value) internal virtual override {
+        _weth.safeTransferFrom(from, address(this), value);
+        _weth.withdraw(value);
     }
 
-    /// @dev Returns the maximum total supply of shielded tokens supported by the encrypted datatype.
-    function maxTotalSupply() public view virtual returns (uint256) {
-        return type(uint64).max;
+    /// @dev Sends `value` native tokens held by the wrapper to `to`. Reverts if the transfer fails.
+    function _sendAsset(address to, uint256 value) internal virtual override {
+        (bool sent, ) = to.call{ value: value }("");
+        if (!sent) revert NativeTransferFailed();
     }
 
     /**
-     * @dev This function must revert if the new {confidentialTotalSupply} is invalid (overflow occurred).
-     *
-     * NOTE: Overflow can be detected here since the native balance is non-confidential.
-     * This function may revert even if the {confidentialTotalSupply} did not overflow.
+     * @dev Sends `value` native tokens to `target` with {IFHERC20UnshieldReceiver-onUnshieldReceived}, passing the
+     * claimer `operator` and `data`. Returns false if the call fails or does not return the callback selector, for
+     * example when `target` is an account without code or a contract with a payable fallback, in which case
+     * {executeClaimCall} takes the native tokens back. `target` is never called with arbitrary calldata, so it cannot
+     * be made to act on behalf of the wrapper (for example by granting access to ciphertexts the wrapper holds).
      */
-    function _checkConfidentialTotalSupply() internal virtual {
-        if (inferredTotalSupply() > maxTotalSupply()) {
-            revert FHERC20TotalSupplyOverflow();
-        }
+    function _sendAssetAndCall(
+        address operator,
+        address target,
+        uint256 value,
+        bytes memory data
+    ) internal virtual override returns (bool) {
+        (bool success, bytes memory returndata) = target.call{ value: value }(
+            abi.encodeCall(IFHERC20UnshieldReceiver.onUnshieldReceived, (operator, data))
+        );
+        return
+            success &&
+            returndata.length == 32 &&
+            bytes32(returndata) == bytes32(IFHERC20UnshieldReceiver.onUnshieldReceived.selector);
     }
 
-    /// @inheritdoc FHERC20
-    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
-        if (from == address(0)) {
-            _checkConfidentialTotalSupply();
-        }
-        return super._update(from, to, amount);
+    /// @dev Returns the native balance of the wrapper.
+    function _assetBalance() internal view virtual override returns (uint256) {
+        return address(this).balance;
     }
 
-    /// @dev Shared internal logic for both unshield overloads.
-    function _unshield(address from, address to, euint64 amount, uint64 requestedAmount) internal virtual returns (euint64) {
-        if (to == address(0)) revert FHERC20InvalidReceiver(to);
-        if (from != msg.sender && !isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
-
-        euint64 unshieldAmount_ = _burn(from, amount);
-        FHE.allowPublic(unshieldAmount_);
-
-        _createClaim(to, requestedAmount, unshieldAmount_);
+    /// @dev Wraps `amount` native tokens held by the wrapper and sends them to `to` as WETH.
+    function _transferWrappedNative(address to, uint256 amount) internal virtual {
+        _weth.deposit{ value: amount }();
+        _weth.safeTransfer(to, amount);
+        emit WrappedNativeSent(to, amount);
+    }
 
-        emit Unshielded(to, unshieldAmount_);
-        return unshieldAmount_;
+    /// @dev Pays `value` native tokens of the claim `ctHash` to `to`, as WETH if {paysWrappedNative}.
+    function _payClaim(bytes32 ctHash, address to, uint256 value) internal virtual override {
+        if (paysWrappedNative(ctHash)) {
+            _transferWrappedNative(to, value);
+        } else {
+            _sendNativeOrWrapped(to, value);
+        }
     }
 
-    /// @dev Returns the maximum number that will be used for {decimals} by the wrapper.
-    function _maxDecimals() internal pure virtual returns (uint8) {
-        return 6;
+    /**
+     * @dev Sends `value` native tokens to the claim recipient `to` with a fixed gas stipend. If `to` does not accept
+     * them, they are sent as WETH instead. Reverts if the call may have failed because the caller left it less gas
+     * than the stipend, so that a claimer cannot force a WETH payout on another account.
+     */
+    function _sendNativeOrWrapped(address to, uint256 value) internal virtual {
+        (bool sent, ) = to.call{ value: value, gas: _NATIVE_PAYOUT_GAS }("");
+        if (!sent) {
+            // With less than `_NATIVE_PAYOUT_GAS` forwarded (63/64 rule), at most 1/63 of it is left
+            if (gasleft() < _NATIVE_PAYOUT_GAS / 63) revert NativeTransferFailed();
+            _transferWrappedNative(to, value);
+        }
     }
 }
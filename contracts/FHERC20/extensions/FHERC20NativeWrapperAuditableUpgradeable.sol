@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { FHERC20NativeWrapperUpgradeable } from "./FHERC20NativeWrapperUpgradeable.sol";
+import { FHERC20AuditableUpgradeable } from "./FHERC20AuditableUpgradeable.sol";
+import { FHERC20WrapperBaseUpgradeable } from "./FHERC20WrapperBaseUpgradeable.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+
+/**
+ * @dev Upgradeable variant of {FHERC20NativeWrapperAuditable}: a {FHERC20NativeWrapperUpgradeable} for
+ * the chain's native token with the auditors of {FHERC20AuditableUpgradeable}.
+ *
+ * Shields, unshields and confidential transfers all go through {_update}, so auditors are granted access to
+ * the resulting balances, total supply and amounts (including the unshield amounts backing claims).
+ */
+abstract contract FHERC20NativeWrapperAuditableUpgradeable is
+    FHERC20NativeWrapperUpgradeable,
+    FHERC20AuditableUpgradeable
+{
+    /// @inheritdoc FHERC20NativeWrapperUpgradeable
+    function decimals()
+        public
+        view
+        virtual
+        override(FHERC20Upgradeable, FHERC20NativeWrapperUpgradeable)
+        returns (uint8)
+    {
+        return super.decimals();
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(FHERC20NativeWrapperUpgradeable, FHERC20AuditableUpgradeable) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function _update(
+        address from,
+        address to,
+        euint64 amount
+    ) internal virtual override(FHERC20WrapperBaseUpgradeable, FHERC20AuditableUpgradeable) returns (euint64) {
+        return super._update(from, to, amount);
+    }
+}
@@ -4,24 +4,23 @@ pragma solidity ^0.8.25;
 import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 import { IERC20Metadata } from "@openzeppelin/contracts/interfaces/IERC20Metadata.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
 import { IFHERC20NativeWrapper } from "../../interfaces/IFHERC20NativeWrapper.sol";
+import { IFHERC20UnshieldReceiver } from "../../interfaces/IFHERC20UnshieldReceiver.sol";
+import { IFHERC20Wrapper } from "../../interfaces/IFHERC20Wrapper.sol";
 import { IWETH } from "../../interfaces/IWETH.sol";
 import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
-import { FHERC20WrapperClaimHelperUpgradeable } from "../utils/FHERC20WrapperClaimHelperUpgradeable.sol";
-import { FHERC20InvalidReceiver, FHERC20UnauthorizedSpender, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+import { FHERC20WrapperBaseUpgradeable } from "./FHERC20WrapperBaseUpgradeable.sol";
+import { FHERC20UnauthorizedCaller, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
 
 /**
  * @dev Upgradeable wrapper that shields a chain's native token (e.g. ETH) into a confidential {FHERC20} token.
  *
  * This variant is designed to be used behind a UUPS proxy and follows the OpenZeppelin Initializable pattern.
  * Wrapper-specific state (`_weth`, `_wrappedDecimals`, `_rate`) is stored in ERC-7201 namespaced storage.
+ *
+ * See {FHERC20NativeWrapper} for the WETH payout of claims.
  */
-abstract contract FHERC20NativeWrapperUpgradeable is
-    FHERC20Upgradeable,
-    IFHERC20NativeWrapper,
-    FHERC20WrapperClaimHelperUpgradeable
-{
+abstract contract FHERC20NativeWrapperUpgradeable is FHERC20WrapperBaseUpgradeable, IFHERC20NativeWrapper {
     using SafeERC20 for IWETH;
 
     /// @custom:storage-location erc7201:fherc20.storage.FHERC20NativeWrapper
@@ -29,6 +28,7 @@ abstract contract FHERC20NativeWrapperUpgradeable is
         IWETH _weth;
         uint8 _wrappedDecimals;
         uint256 _rate;
+        mapping(bytes32 ctHash => bool) _paysWrappedNative;
     }
 
     // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20NativeWrapper")) - 1)) & ~bytes32(uint256(0xff))
@@ -41,50 +41,31 @@ abstract contract FHERC20NativeWrapperUpgradeable is
         }
     }
 
-    error FHERC20TotalSupplyOverflow();
+    /// @dev Gas forwarded to claim recipients with native payouts, so that callers cannot pick it.
+    uint256 private constant _NATIVE_PAYOUT_GAS = 100_000;
+
     error NativeTransferFailed();
     error AmountTooSmallForConfidentialPrecision();
 
     function __FHERC20NativeWrapper_init(IWETH weth_) internal onlyInitializing {
-        __FHERC20WrapperClaimHelper_init();
+        __FHERC20WrapperBase_init();
         __FHERC20NativeWrapper_init_unchained(weth_);
     }
 
     function __FHERC20NativeWrapper_init_unchained(IWETH weth_) internal onlyInitializing {
         FHERC20NativeWrapperStorage storage $ = _getFHERC20NativeWrapperStorage();
         $._weth = weth_;
-
-        uint8 tokenDecimals = IERC20Metadata(address(weth_)).decimals();
-        uint8 maxDecimals = _maxDecimals();
-        if (tokenDecimals > maxDecimals) {
-            $._wrappedDecimals = maxDecimals;
-            $._rate = 10 ** (tokenDecimals - maxDecimals);
-        } else {
-            $._wrappedDecimals = tokenDecimals;
-            $._rate = 1;
-        }
+        ($._wrappedDecimals, $._rate) = _wrappedDecimalsAndRate(IERC20Metadata(address(weth_)).decimals());
     }
 
     receive() external payable {}
 
     /// @inheritdoc IFHERC20NativeWrapper
     function shieldWrappedNative(address to, uint256 value) public virtual returns (euint64) {
-        FHERC20NativeWrapperStorage storage $ = _getFHERC20NativeWrapperStorage();
         if (to == address(0)) to = msg.sender;
+        if (value < rate()) revert AmountTooSmallForConfidentialPrecision();
 
-        uint256 alignedValue = value - (value % rate());
-        if (alignedValue == 0) revert AmountTooSmallForConfidentialPrecision();
-
-        uint64 confidentialAmount = SafeCast.toUint64(alignedValue / rate());
-
-        $._weth.safeTransferFrom(msg.sender, address(this), alignedValue);
-        $._weth.withdraw(alignedValue);
-
-        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(confidentialAmount));
-        FHE.allowTransient(shieldedAmountSent, msg.sender);
-
-        emit ShieldedNative(msg.sender, to, alignedValue);
-        return shieldedAmountSent;
+        return _shield(msg.sender, to, value);
     }
 
     /// @inheritdoc IFHERC20NativeWrapper
@@ -100,60 +81,42 @@ abstract contract FHERC20NativeWrapperUpgradeable is
             if (!refunded) revert NativeTransferFailed();
         }
 
-        uint64 confidentialAmount = SafeCast.toUint64(alignedValue / rate());
-
-        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(confidentialAmount));
+        euint64 shieldedAmountSent = _mintShielded(msg.sender, to, alignedValue);
         FHE.allowTransient(shieldedAmountSent, msg.sender);
 
-        emit ShieldedNative(msg.sender, to, alignedValue);
         return shieldedAmountSent;
     }
 
-    /**
-     * @dev Initiates an unshield of `amount` confidential tokens from `from`, creating a pending
-     * claim for `to`. The caller must be `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned (used as the claim's cipher-text handle).
-     */
-    function unshield(address from, address to, uint64 amount) public virtual returns (euint64) {
-        return _unshield(from, to, FHE.asEuint64(amount), amount);
+    /// @inheritdoc IFHERC20NativeWrapper
+    function unshieldWrappedNative(address from, address to, uint64 amount) public virtual returns (euint64) {
+        euint64 unshieldAmount_ = _unshield(from, to, FHE.asEuint64(amount), amount, 0);
+        _getFHERC20NativeWrapperStorage()._paysWrappedNative[FHE.unwrap(unshieldAmount_)] = true;
+        return unshieldAmount_;
     }
 
-    /**
-     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
-     * unshield request for `to`. The caller must have ACL access to `amount` and must be
-     * `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
-     */
-    function unshield(address from, address to, euint64 amount) public virtual returns (euint64) {
+    /// @inheritdoc IFHERC20NativeWrapper
+    function unshieldWrappedNative(address from, address to, euint64 amount) public virtual returns (euint64) {
         if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
-        return _unshield(from, to, amount, 0);
-    }
-
-    function claimUnshielded(bytes32 ctHash, uint64 decryptedAmount, bytes memory decryptionProof) public virtual {
-        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
 
-        uint256 nativeAmount = uint256(claim.decryptedAmount) * rate();
-        (bool sent, ) = claim.to.call{ value: nativeAmount }("");
-        if (!sent) revert NativeTransferFailed();
-
-        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+        euint64 unshieldAmount_ = _unshield(from, to, amount, 0, 0);
+        _getFHERC20NativeWrapperStorage()._paysWrappedNative[FHE.unwrap(unshieldAmount_)] = true;
+        return unshieldAmount_;
     }
 
-    function claimUnshieldedBatch(
-        bytes32[] memory ctHashes,
-        uint64[] memory decryptedAmounts,
-        bytes[] memory decryptionProofs
+    /**
+     * @dev Claims a pending unshield request like {claimUnshielded}, but pays `decryptedAmount * rate()` WETH to
+     * the requester. Reverts with {FHERC20UnauthorizedCaller} unless called by the requester.
+     */
+    function claimUnshieldedWrappedNative(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
     ) public virtual {
-        Claim[] memory claims = _handleClaimBatch(ctHashes, decryptedAmounts, decryptionProofs);
+        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+        if (msg.sender != claim.to) revert FHERC20UnauthorizedCaller(msg.sender);
 
-        for (uint256 i = 0; i < claims.length; i++) {
-            uint256 nativeAmount = uint256(claims[i].decryptedAmount) * rate();
-            (bool sent, ) = claims[i].to.call{ value: nativeAmount }("");
-            if (!sent) revert NativeTransferFailed();
-            emit ClaimedUnshielded(claims[i].to, ctHashes[i], FHE.wrapEuint64(ctHashes[i]), claims[i].decryptedAmount);
-        }
+        _transferWrappedNative(claim.to, uint256(claim.decryptedAmount) * rate());
+        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
     }
 
     /// @inheritdoc FHERC20Upgradeable
@@ -161,8 +124,8 @@ abstract contract FHERC20NativeWrapperUpgradeable is
         return _getFHERC20NativeWrapperStorage()._wrappedDecimals;
     }
 
-    /// @inheritdoc IFHERC20NativeWrapper
-    function rate() public view virtual returns (uint256) {
+    /// @inheritdoc IFHERC20Wrapper
+    function rate() public view virtual override(FHERC20WrapperBaseUpgradeable, IFHERC20Wrapper) returns (uint256) {
         return _getFHERC20NativeWrapperStorage()._rate;
     }
 
@@ -171,48 +134,73 @@ abstract contract FHERC20NativeWrapperUpgradeable is
         return address(_getFHERC20NativeWrapperStorage()._weth);
     }
 
+    /// @inheritdoc IFHERC20NativeWrapper
+    function paysWrappedNative(bytes32 ctHash) public view virtual returns (bool) {
+        return _getFHERC20NativeWrapperStorage()._paysWrappedNative[ctHash];
+    }
+
     /// @inheritdoc FHERC20Upgradeable
-    function supportsInterface(bytes4 interfaceId) public view virtual override(FHERC20Upgradeable) returns (bool) {
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
         return interfaceId == type(IFHERC20NativeWrapper).interfaceId || super.supportsInterface(interfaceId);
     }
 
-    function inferredTotalSupply() public view virtual returns (uint256) {
-        return address(this).balance / rate();
+    /// @dev See {FHERC20NativeWrapper-_pullAsset}.
+    function _pullAsset(address from, uint256 value) internal virtual override {
+        IWETH weth_ = _getFHERC20NativeWrapperStorage()._weth;
+        weth_.safeTransferFrom(from, address(this), value);
+        weth_.withdraw(value);
     }
 
-    function maxTotalSupply() public view virtual returns (uint256) {
-        return type(uint64).max;
+    /// @dev See {FHERC20NativeWrapper-_sendAsset}.
+    function _sendAsset(address to, uint256 value) internal virtual override {
+        (bool sent, ) = to.call{ value: value }("");
+        if (!sent) revert NativeTransferFailed();
     }
 
-    function _checkConfidentialTotalSupply() internal virtual {
-        if (inferredTotalSupply() > maxTotalSupply()) {
-            revert FHERC20TotalSupplyOverflow();
-        }
+    /// @dev See {FHERC20NativeWrapper-_sendAssetAndCall}.
+    function _sendAssetAndCall(
+        address operator,
+        address target,
+        uint256 value,
+        bytes memory data
+    ) internal virtual override returns (bool) {
+        (bool success, bytes memory returndata) = target.call{ value: value }(
+            abi.encodeCall(IFHERC20UnshieldReceiver.onUnshieldReceived, (operator, data))
+        );
+        return
+            success &&
+            returndata.length == 32 &&
+            bytes32(returndata) == bytes32(IFHERC20UnshieldReceiver.onUnshieldReceived.selector);
     }
 
-    /// @inheritdoc FHERC20Upgradeable
-    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
-        if (from == address(0)) {
-            _checkConfidentialTotalSupply();
-        }
-        return super._update(from, to, amount);
+    /// @dev See {FHERC20NativeWrapper-_assetBalance}.
+    function _assetBalance() internal view virtual override returns (uint256) {
+        return address(this).balance;
     }
 
-    /// @dev Shared internal logic for both unshield overloads.
-    function _unshield(address from, address to, euint64 amount, uint64 requestedAmount) internal virtual returns (euint64) {
-        if (to == address(0)) revert FHERC20InvalidReceiver(to);
-        if (from != msg.sender && !isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
-
-        euint64 unshieldAmount_ = _burn(from, amount);
-        FHE.allowPublic(unshieldAmount_);
-
-        _createClaim(to, requestedAmount, unshieldAmount_);
+    /// @dev Wraps `amount` native tokens held by the wrapper and sends them to `to` as WETH.
+    function _transferWrappedNative(address to, uint256 amount) internal virtual {
+        IWETH weth_ = _getFHERC20NativeWrapperStorage()._weth;
+        weth_.deposit{ value: amount }();
+        weth_.safeTransfer(to, amount);
+        emit WrappedNativeSent(to, amount);
+    }
 
-        emit Unshielded(to, unshieldAmount_);
-        return unshieldAmount_;
+    /// @dev See {FHERC20NativeWrapper-_payClaim}.
+    function _payClaim(bytes32 ctHash, address to, uint256 value) internal virtual override {
+        if (paysWrappedNative(ctHash)) {
+            _transferWrappedNative(to, value);
+        } else {
+            _sendNativeOrWrapped(to, value);
+        }
     }
 
-    function _maxDecimals() internal pure virtual returns (uint8) {
-        return 6;
+    /// @dev See {FHERC20NativeWrapper-_sendNativeOrWrapped}.
+    function _sendNativeOrWrapped(address to, uint256 value) internal virtual {
+        (bool sent, ) = to.call{ value: value, gas: _NATIVE_PAYOUT_GAS }("");
+        if (!sent) {
+            if (gasleft() < _NATIVE_PAYOUT_GAS / 63) revert NativeTransferFailed();
+            _transferWrappedNative(to, value);
+        }
     }
 }
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IFHERC20Pausable } from "../../interfaces/IFHERC20Pausable.sol";
+import { FHERC20 } from "../FHERC20.sol";
+
+/**
+ * @dev Extension of {FHERC20} with independent emergency-stop switches for transfers, shielding (mints),
+ * unshielding (burns) and claims. Enforced in {_update}, so every path that moves confidential balances is
+ * covered, including the `transferAndCall` refund.
+ *
+ * Claims do not move confidential balances and are gated by the wrapper variants
+ * {FHERC20ERC20WrapperPausable} and {FHERC20NativeWrapperPausable}.
+ *
+ * This module does not include public pause and unpause functions. Inheriting contracts must expose
+ * {_pause} and {_unpause} behind the access control of their choice.
+ */
+abstract contract FHERC20Pausable is FHERC20, IFHERC20Pausable {
+    mapping(PauseTarget target => bool) private _paused;
+
+    /// @dev The operation failed because `target` is paused.
+    error FHERC20EnforcedPause(PauseTarget target);
+
+    /// @dev The operation failed because `target` is not paused.
+    error FHERC20ExpectedPause(PauseTarget target);
+
+    /// @dev Modifier to make a function callable only when `target` is not paused.
+    modifier whenNotPaused(PauseTarget target) {
+        _requireNotPaused(target);
+        _;
+    }
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Pausable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Pausable
+    function paused(PauseTarget target) public view virtual returns (bool) {
+        return _paused[target];
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /// @dev Reverts with {FHERC20EnforcedPause} if `target` is paused.
+    function _requireNotPaused(PauseTarget target) internal view virtual {
+        if (paused(target)) revert FHERC20EnforcedPause(target);
+    }
+
+    /// @dev Pauses `target`. It must not be paused. Emits a {Paused} event.
+    function _pause(PauseTarget target) internal virtual {
+        _requireNotPaused(target);
+        _paused[target] = true;
+        emit Paused(msg.sender, target);
+    }
+
+    /// @dev Unpauses `target`. It must be paused. Emits an {Unpaused} event.
+    function _unpause(PauseTarget target) internal virtual {
+        if (!paused(target)) revert FHERC20ExpectedPause(target);
+        _paused[target] = false;
+        emit Unpaused(msg.sender, target);
+    }
+
+    /// @dev Reverts if the operation (transfer, mint or burn) being performed is paused.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        if (from == address(0)) {
+            _requireNotPaused(PauseTarget.Shield);
+        } else if (to == address(0)) {
+            _requireNotPaused(PauseTarget.Unshield);
+        } else {
+            _requireNotPaused(PauseTarget.Transfer);
+        }
+        return super._update(from, to, amount);
+    }
+}
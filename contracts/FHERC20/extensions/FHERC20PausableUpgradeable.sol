@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { IFHERC20Pausable } from "../../interfaces/IFHERC20Pausable.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} with independent emergency-stop switches for transfers,
+ * shielding (mints), unshielding (burns) and claims. See {FHERC20Pausable} for the enforcement semantics.
+ *
+ * Pause switches are stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20PausableUpgradeable is Initializable, FHERC20Upgradeable, IFHERC20Pausable {
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20Pausable
+    struct FHERC20PausableStorage {
+        mapping(PauseTarget target => bool) _paused;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20Pausable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20PausableStorageLocation =
+        0xe9f2b369afa1c64588a25b0d8ae2c5bea3d01a45d7227b39f9bf6a60958cf300;
+
+    function _getFHERC20PausableStorage() private pure returns (FHERC20PausableStorage storage $) {
+        assembly {
+            $.slot := FHERC20PausableStorageLocation
+        }
+    }
+
+    /// @dev The operation failed because `target` is paused.
+    error FHERC20EnforcedPause(PauseTarget target);
+
+    /// @dev The operation failed because `target` is not paused.
+    error FHERC20ExpectedPause(PauseTarget target);
+
+    /// @dev Modifier to make a function callable only when `target` is not paused.
+    modifier whenNotPaused(PauseTarget target) {
+        _requireNotPaused(target);
+        _;
+    }
+
+    function __FHERC20Pausable_init() internal onlyInitializing {}
+
+    function __FHERC20Pausable_init_unchained() internal onlyInitializing {}
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Pausable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Pausable
+    function paused(PauseTarget target) public view virtual returns (bool) {
+        return _getFHERC20PausableStorage()._paused[target];
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /// @dev Reverts with {FHERC20EnforcedPause} if `target` is paused.
+    function _requireNotPaused(PauseTarget target) internal view virtual {
+        if (paused(target)) revert FHERC20EnforcedPause(target);
+    }
+
+    /// @dev Pauses `target`. It must not be paused. Emits a {Paused} event.
+    function _pause(PauseTarget target) internal virtual {
+        _requireNotPaused(target);
+        _getFHERC20PausableStorage()._paused[target] = true;
+        emit Paused(msg.sender, target);
+    }
+
+    /// @dev Unpauses `target`. It must be paused. Emits an {Unpaused} event.
+    function _unpause(PauseTarget target) internal virtual {
+        if (!paused(target)) revert FHERC20ExpectedPause(target);
+        _getFHERC20PausableStorage()._paused[target] = false;
+        emit Unpaused(msg.sender, target);
+    }
+
+    /// @dev Reverts if the operation (transfer, mint or burn) being performed is paused.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        if (from == address(0)) {
+            _requireNotPaused(PauseTarget.Shield);
+        } else if (to == address(0)) {
+            _requireNotPaused(PauseTarget.Unshield);
+        } else {
+            _requireNotPaused(PauseTarget.Transfer);
+        }
+        return super._update(from, to, amount);
+    }
+}
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { Nonces } from "@openzeppelin/contracts/utils/Nonces.sol";
+import { IFHERC20Permit } from "../../interfaces/IFHERC20Permit.sol";
+import { FHERC20 } from "../FHERC20.sol";
+
+/**
+ * @dev Extension of {FHERC20} that allows operators to be set via signatures, the confidential
+ * counterpart of https://eips.ethereum.org/EIPS/eip-2612[ERC-2612].
+ *
+ * Adds the {permitOperator} method, which calls {_setOperator} on behalf of a holder that presented
+ * an EIP-712 signed `PermitOperator` message. The holder doesn't need to send a transaction, so a
+ * relayer can onboard them into {confidentialTransferFrom} flows (e.g. vault deposits) in a single step.
+ *
+ * Signatures are validated with {SignatureChecker}, so ERC-1271 smart contract wallets are supported.
+ */
+abstract contract FHERC20Permit is FHERC20, IFHERC20Permit, EIP712, Nonces {
+    bytes32 private constant PERMIT_OPERATOR_TYPEHASH =
+        keccak256("PermitOperator(address holder,address operator,uint48 until,uint256 nonce,uint256 deadline)");
+
+    /// @dev Permit deadline has expired.
+    error FHERC20PermitExpiredSignature(uint256 deadline);
+
+    /// @dev The signature is not a valid approval from `holder`.
+    error FHERC20PermitInvalidSigner(address holder);
+
+    /**
+     * @dev Initializes the {EIP712} domain separator using the `name` parameter, and setting `version` to `"1"`.
+     *
+     * It's a good idea to use the same `name` that is defined as the FHERC20 token name.
+     */
+    constructor(string memory name_) EIP712(name_, "1") {}
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Permit).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Permit
+    function permitOperator(
+        address holder,
+        address operator,
+        uint48 until,
+        uint256 deadline,
+        bytes memory signature
+    ) public virtual {
+        if (block.timestamp > deadline) revert FHERC20PermitExpiredSignature(deadline);
+
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_OPERATOR_TYPEHASH, holder, operator, until, _useNonce(holder), deadline)
+        );
+        bytes32 hash = _hashTypedDataV4(structHash);
+
+        if (!SignatureChecker.isValidSignatureNow(holder, hash, signature)) revert FHERC20PermitInvalidSigner(holder);
+
+        _setOperator(holder, operator, until);
+    }
+
+    /// @inheritdoc IFHERC20Permit
+    function nonces(address holder) public view virtual override(IFHERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(holder);
+    }
+
+    /// @inheritdoc IFHERC20Permit
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view virtual returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+}
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { EIP712Upgradeable } from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import { NoncesUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { IFHERC20Permit } from "../../interfaces/IFHERC20Permit.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} that allows operators to be set via signatures.
+ *
+ * This variant is designed to be used behind an upgradeable proxy. The EIP-712 domain and nonces live in
+ * the ERC-7201 namespaced storage of {EIP712Upgradeable} and {NoncesUpgradeable}.
+ */
+abstract contract FHERC20PermitUpgradeable is
+    Initializable,
+    FHERC20Upgradeable,
+    IFHERC20Permit,
+    EIP712Upgradeable,
+    NoncesUpgradeable
+{
+    bytes32 private constant PERMIT_OPERATOR_TYPEHASH =
+        keccak256("PermitOperator(address holder,address operator,uint48 until,uint256 nonce,uint256 deadline)");
+
+    /// @dev Permit deadline has expired.
+    error FHERC20PermitExpiredSignature(uint256 deadline);
+
+    /// @dev The signature is not a valid approval from `holder`.
+    error FHERC20PermitInvalidSigner(address holder);
+
+    /**
+     * @dev Initializes the {EIP712} domain separator using the `name` parameter, and setting `version` to `"1"`.
+     *
+     * It's a good idea to use the same `name` that is defined as the FHERC20 token name.
+     */
+    function __FHERC20Permit_init(string memory name_) internal onlyInitializing {
+        __EIP712_init_unchained(name_, "1");
+    }
+
+    function __FHERC20Permit_init_unchained(string memory) internal onlyInitializing {}
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Permit).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20Permit
+    function permitOperator(
+        address holder,
+        address operator,
+        uint48 until,
+        uint256 deadline,
+        bytes memory signature
+    ) public virtual {
+        if (block.timestamp > deadline) revert FHERC20PermitExpiredSignature(deadline);
+
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_OPERATOR_TYPEHASH, holder, operator, until, _useNonce(holder), deadline)
+        );
+        bytes32 hash = _hashTypedDataV4(structHash);
+
+        if (!SignatureChecker.isValidSignatureNow(holder, hash, signature)) revert FHERC20PermitInvalidSigner(holder);
+
+        _setOperator(holder, operator, until);
+    }
+
+    /// @inheritdoc IFHERC20Permit
+    function nonces(address holder) public view virtual override(IFHERC20Permit, NoncesUpgradeable) returns (uint256) {
+        return super.nonces(holder);
+    }
+
+    /// @inheritdoc IFHERC20Permit
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view virtual returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+}
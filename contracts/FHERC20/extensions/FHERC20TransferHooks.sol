@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IFHERC20TransferHook } from "../../interfaces/IFHERC20TransferHook.sol";
+import { IFHERC20TransferHooks } from "../../interfaces/IFHERC20TransferHooks.sol";
+import { FHERC20 } from "../FHERC20.sol";
+
+/**
+ * @dev Extension of {FHERC20} that consults pluggable {IFHERC20TransferHook} compliance modules (allowlists,
+ * country restrictions, maximum balances, per-transfer limits, ...) on every balance update, in the spirit of
+ * ERC-3643 compliance modules.
+ *
+ * Before each update, every registered module returns an encrypted flag. The flags are ANDed together and the
+ * update moves `amount` only if all of them are true, and zero otherwise, exactly like a transfer above the
+ * balance. Modules are consulted for mints (`from == address(0)`) and burns (`to == address(0)`) as well.
+ *
+ * Modules are trusted: each one is granted transient ACL access to the transferred amount and to the current
+ * balances of `from` and `to` for the duration of its call.
+ *
+ * This module does not include public functions to manage hooks. Inheriting contracts must expose
+ * {_addTransferHook} and {_removeTransferHook} behind the access control of their choice.
+ *
+ * WARNING: Do not combine with a wrapper. A shield rejected by a module would take the underlying tokens and
+ * mint zero.
+ */
+abstract contract FHERC20TransferHooks is FHERC20, IFHERC20TransferHooks {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @dev Maximum number of hooks, bounding the cost of every transfer.
+    uint256 public constant MAX_TRANSFER_HOOKS = 10;
+
+    EnumerableSet.AddressSet private _transferHooks;
+
+    /// @dev The hook is not a valid transfer hook (e.g. `address(0)`).
+    error FHERC20InvalidTransferHook(address hook);
+
+    /// @dev The maximum number of transfer hooks is already registered.
+    error FHERC20TooManyTransferHooks(uint256 max);
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20TransferHooks).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20TransferHooks
+    function transferHooks() public view virtual returns (address[] memory) {
+        return _transferHooks.values();
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Registers `hook`. Returns true if `hook` was added.
+     *
+     * Emits a {TransferHookAdded} event if `hook` was not registered yet.
+     */
+    function _addTransferHook(IFHERC20TransferHook hook) internal virtual returns (bool) {
+        if (address(hook) == address(0)) revert FHERC20InvalidTransferHook(address(0));
+        if (_transferHooks.contains(address(hook))) return false;
+        if (_transferHooks.length() >= MAX_TRANSFER_HOOKS) revert FHERC20TooManyTransferHooks(MAX_TRANSFER_HOOKS);
+
+        _transferHooks.add(address(hook));
+        emit TransferHookAdded(address(hook));
+        return true;
+    }
+
+    /**
+     * @dev Unregisters `hook`. Returns true if `hook` was removed.
+     *
+     * Emits a {TransferHookRemoved} event if `hook` was registered.
+     */
+    function _removeTransferHook(IFHERC20TransferHook hook) internal virtual returns (bool) {
+        if (!_transferHooks.remove(address(hook))) return false;
+
+        emit TransferHookRemoved(address(hook));
+        return true;
+    }
+
+    /// @dev Reduces `amount` to zero unless every registered hook allows the update.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        uint256 length = _transferHooks.length();
+        if (length > 0) {
+            euint64 fromBalance = confidentialBalanceOf(from);
+            euint64 toBalance = confidentialBalanceOf(to);
+
+            ebool allowed;
+            for (uint256 i = 0; i < length; i++) {
+                address hook = _transferHooks.at(i);
+
+                FHE.allowTransient(amount, hook);
+                if (FHE.isInitialized(fromBalance)) FHE.allowTransient(fromBalance, hook);
+                if (FHE.isInitialized(toBalance)) FHE.allowTransient(toBalance, hook);
+
+                ebool result = IFHERC20TransferHook(hook).beforeConfidentialUpdate(from, to, amount);
+                allowed = i == 0 ? result : FHE.and(allowed, result);
+            }
+            amount = FHE.select(allowed, amount, FHE.asEuint64(0));
+        }
+
+        return super._update(from, to, amount);
+    }
+}
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IFHERC20TransferHook } from "../../interfaces/IFHERC20TransferHook.sol";
+import { IFHERC20TransferHooks } from "../../interfaces/IFHERC20TransferHooks.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} that consults pluggable {IFHERC20TransferHook} compliance
+ * modules on every balance update. See {FHERC20TransferHooks} for details.
+ *
+ * Registered hooks are stored in ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20TransferHooksUpgradeable is Initializable, FHERC20Upgradeable, IFHERC20TransferHooks {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @dev Maximum number of hooks, bounding the cost of every transfer.
+    uint256 public constant MAX_TRANSFER_HOOKS = 10;
+
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20TransferHooks
+    struct FHERC20TransferHooksStorage {
+        EnumerableSet.AddressSet _transferHooks;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20TransferHooks")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20TransferHooksStorageLocation =
+        0x4d533a1caf2e0bd582d801551325e5c0de566c4fbe2feef3bc96029821a55300;
+
+    function _getFHERC20TransferHooksStorage() private pure returns (FHERC20TransferHooksStorage storage $) {
+        assembly {
+            $.slot := FHERC20TransferHooksStorageLocation
+        }
+    }
+
+    /// @dev The hook is not a valid transfer hook (e.g. `address(0)`).
+    error FHERC20InvalidTransferHook(address hook);
+
+    /// @dev The maximum number of transfer hooks is already registered.
+    error FHERC20TooManyTransferHooks(uint256 max);
+
+    function __FHERC20TransferHooks_init() internal onlyInitializing {}
+
+    function __FHERC20TransferHooks_init_unchained() internal onlyInitializing {}
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20TransferHooks).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /// @inheritdoc IFHERC20TransferHooks
+    function transferHooks() public view virtual returns (address[] memory) {
+        return _getFHERC20TransferHooksStorage()._transferHooks.values();
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Registers `hook`. Returns true if `hook` was added.
+     *
+     * Emits a {TransferHookAdded} event if `hook` was not registered yet.
+     */
+    function _addTransferHook(IFHERC20TransferHook hook) internal virtual returns (bool) {
+        FHERC20TransferHooksStorage storage $ = _getFHERC20TransferHooksStorage();
+        if (address(hook) == address(0)) revert FHERC20InvalidTransferHook(address(0));
+        if ($._transferHooks.contains(address(hook))) return false;
+        if ($._transferHooks.length() >= MAX_TRANSFER_HOOKS) revert FHERC20TooManyTransferHooks(MAX_TRANSFER_HOOKS);
+
+        $._transferHooks.add(address(hook));
+        emit TransferHookAdded(address(hook));
+        return true;
+    }
+
+    /**
+     * @dev Unregisters `hook`. Returns true if `hook` was removed.
+     *
+     * Emits a {TransferHookRemoved} event if `hook` was registered.
+     */
+    function _removeTransferHook(IFHERC20TransferHook hook) internal virtual returns (bool) {
+        if (!_getFHERC20TransferHooksStorage()._transferHooks.remove(address(hook))) return false;
+
+        emit TransferHookRemoved(address(hook));
+        return true;
+    }
+
+    /// @dev Reduces `amount` to zero unless every registered hook allows the update.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        EnumerableSet.AddressSet storage hooks = _getFHERC20TransferHooksStorage()._transferHooks;
+        uint256 length = hooks.length();
+        if (length > 0) {
+            euint64 fromBalance = confidentialBalanceOf(from);
+            euint64 toBalance = confidentialBalanceOf(to);
+
+            ebool allowed;
+            for (uint256 i = 0; i < length; i++) {
+                address hook = hooks.at(i);
+
+                FHE.allowTransient(amount, hook);
+                if (FHE.isInitialized(fromBalance)) FHE.allowTransient(fromBalance, hook);
+                if (FHE.isInitialized(toBalance)) FHE.allowTransient(toBalance, hook);
+
+                ebool result = IFHERC20TransferHook(hook).beforeConfidentialUpdate(from, to, amount);
+                allowed = i == 0 ? result : FHE.and(allowed, result);
+            }
+            amount = FHE.select(allowed, amount, FHE.asEuint64(0));
+        }
+
+        return super._update(from, to, amount);
+    }
+}
@@ -0,0 +1,232 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC6372 } from "@openzeppelin/contracts/interfaces/IERC6372.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { Nonces } from "@openzeppelin/contracts/utils/Nonces.sol";
+import { Time } from "@openzeppelin/contracts/utils/types/Time.sol";
+import { IFHERC20Votes } from "../../interfaces/IFHERC20Votes.sol";
+import { FHECheckpoints } from "../../utils/FHECheckpoints.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Extension of {FHERC20} to support confidential voting and delegation, the confidential counterpart of
+ * OpenZeppelin's {ERC20Votes}.
+ *
+ * Each delegate's voting power is tracked as an encrypted `euint64` and checkpointed on every change, keyed by
+ * {clock} (block number by default, override {clock} and {CLOCK_MODE} to use timestamps). The encrypted total
+ * supply is checkpointed on every mint and burn.
+ *
+ * Token balances do not account for votes until they are delegated, either to the holder themselves or to
+ * another account, via {delegate} or {delegateBySig}.
+ *
+ * ACL: every voting power checkpoint is granted to this contract and to the delegate. Governors trusted through
+ * {_setVotesGovernor} obtain transient access to any past voting power (and past total supply) by calling
+ * {confidentialPastVotes} and {confidentialPastTotalSupply}.
+ *
+ * NOTE: This contract does not provide an EIP-712 domain on its own. Inheriting contracts must call the
+ * {EIP712} constructor (directly, or through {FHERC20Permit}).
+ */
+abstract contract FHERC20Votes is FHERC20, IFHERC20Votes, IERC6372, EIP712, Nonces {
+    using FHECheckpoints for FHECheckpoints.Trace;
+
+    bytes32 private constant DELEGATION_TYPEHASH =
+        keccak256("Delegation(address delegatee,uint256 nonce,uint256 expiry)");
+
+    mapping(address account => address) private _delegatee;
+    mapping(address delegatee => FHECheckpoints.Trace) private _delegateCheckpoints;
+    FHECheckpoints.Trace private _totalCheckpoints;
+    mapping(address governor => bool) private _votesGovernors;
+
+    /// @dev The clock was incorrectly modified.
+    error FHERC20VotesInconsistentClock();
+
+    /// @dev Lookup to future votes is not available.
+    error FHERC20VotesFutureLookup(uint256 timepoint, uint48 clock);
+
+    /// @dev The signature used has expired.
+    error FHERC20VotesExpiredSignature(uint256 expiry);
+
+    /// @inheritdoc FHERC20
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Votes).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // =========================================================================
+    //  IERC6372
+    // =========================================================================
+
+    /**
+     * @dev Clock used for flagging checkpoints. Can be overridden to implement timestamp based
+     * checkpoints (and voting), in which case {CLOCK_MODE} should be overridden as well to match.
+     */
+    function clock() public view virtual returns (uint48) {
+        return Time.blockNumber();
+    }
+
+    /// @dev Machine-readable description of the clock as specified in ERC-6372.
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() public view virtual returns (string memory) {
+        // Check that the clock was not modified
+        if (clock() != Time.blockNumber()) revert FHERC20VotesInconsistentClock();
+        return "mode=blocknumber&from=default";
+    }
+
+    // =========================================================================
+    //  Votes
+    // =========================================================================
+
+    /// @inheritdoc IFHERC20Votes
+    function getVotes(address account) public view virtual returns (euint64) {
+        return _delegateCheckpoints[account].latest();
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function getPastVotes(address account, uint256 timepoint) public view virtual returns (euint64) {
+        return _delegateCheckpoints[account].upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function getPastTotalSupply(uint256 timepoint) public view virtual returns (euint64) {
+        return _totalCheckpoints.upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function confidentialPastVotes(address account, uint256 timepoint) public virtual returns (euint64 votes) {
+        if (msg.sender != account && !isVotesGovernor(msg.sender)) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        votes = getPastVotes(account, timepoint);
+        if (FHE.isInitialized(votes)) FHE.allowTransient(votes, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function confidentialPastTotalSupply(uint256 timepoint) public virtual returns (euint64 totalSupply_) {
+        if (!isVotesGovernor(msg.sender)) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        totalSupply_ = getPastTotalSupply(timepoint);
+        if (FHE.isInitialized(totalSupply_)) FHE.allowTransient(totalSupply_, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function isVotesGovernor(address governor) public view virtual returns (bool) {
+        return _votesGovernors[governor];
+    }
+
+    /// @dev Returns the number of checkpoints for `account`.
+    function numCheckpoints(address account) public view virtual returns (uint32) {
+        return SafeCast.toUint32(_delegateCheckpoints[account].length());
+    }
+
+    /// @dev Returns the `pos`-th checkpoint for `account`.
+    function checkpoints(address account, uint32 pos) public view virtual returns (FHECheckpoints.Checkpoint memory) {
+        return _delegateCheckpoints[account].at(pos);
+    }
+
+    // =========================================================================
+    //  Delegation
+    // =========================================================================
+
+    /// @inheritdoc IFHERC20Votes
+    function delegates(address account) public view virtual returns (address) {
+        return _delegatee[account];
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function delegate(address delegatee) public virtual {
+        _delegate(msg.sender, delegatee);
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function delegateBySig(
+        address delegatee,
+        uint256 nonce,
+        uint256 expiry,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (block.timestamp > expiry) revert FHERC20VotesExpiredSignature(expiry);
+
+        address signer = ECDSA.recover(
+            _hashTypedDataV4(keccak256(abi.encode(DELEGATION_TYPEHASH, delegatee, nonce, expiry))),
+            v,
+            r,
+            s
+        );
+        _useCheckedNonce(signer, nonce);
+        _delegate(signer, delegatee);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Delegates all of `account`'s voting units to `delegatee`.
+     *
+     * Emits events {DelegateChanged} and {DelegateVotesChanged}.
+     */
+    function _delegate(address account, address delegatee) internal virtual {
+        address oldDelegate = delegates(account);
+        _delegatee[account] = delegatee;
+
+        emit DelegateChanged(account, oldDelegate, delegatee);
+        _moveDelegateVotes(oldDelegate, delegatee, confidentialBalanceOf(account));
+    }
+
+    /// @dev Trusts (or stops trusting) `governor` to read encrypted voting power. Emits a {VotesGovernorSet} event.
+    function _setVotesGovernor(address governor, bool trusted) internal virtual {
+        _votesGovernors[governor] = trusted;
+        emit VotesGovernorSet(governor, trusted);
+    }
+
+    /// @dev Moves voting power and checkpoints the total supply on mint and burn.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64 transferred) {
+        transferred = super._update(from, to, amount);
+
+        if (from == address(0) || to == address(0)) {
+            _totalCheckpoints.push(clock(), confidentialTotalSupply());
+        }
+
+        _moveDelegateVotes(delegates(from), delegates(to), transferred);
+    }
+
+    /**
+     * @dev Moves an encrypted `amount` of votes from `from` to `to`. Subtraction cannot underflow since
+     * `amount` never exceeds the voting units `from` holds on behalf of its delegators.
+     */
+    function _moveDelegateVotes(address from, address to, euint64 amount) internal virtual {
+        if (from == to || !FHE.isInitialized(amount)) return;
+
+        if (from != address(0)) {
+            FHECheckpoints.Trace storage store = _delegateCheckpoints[from];
+            euint64 newValue = FHE.sub(store.latest(), amount);
+            FHE.allowThis(newValue);
+            FHE.allow(newValue, from);
+
+            (euint64 oldValue, ) = store.push(clock(), newValue);
+            emit DelegateVotesChanged(from, oldValue, newValue);
+        }
+        if (to != address(0)) {
+            FHECheckpoints.Trace storage store = _delegateCheckpoints[to];
+            euint64 newValue = FHE.add(store.latest(), amount);
+            FHE.allowThis(newValue);
+            FHE.allow(newValue, to);
+
+            (euint64 oldValue, ) = store.push(clock(), newValue);
+            emit DelegateVotesChanged(to, oldValue, newValue);
+        }
+    }
+
+    /// @dev Validates that `timepoint` is in the past, and returns it as a uint48.
+    function _validateTimepoint(uint256 timepoint) internal view returns (uint48) {
+        uint48 currentTimepoint = clock();
+        if (timepoint >= currentTimepoint) revert FHERC20VotesFutureLookup(timepoint, currentTimepoint);
+        return SafeCast.toUint48(timepoint);
+    }
+}
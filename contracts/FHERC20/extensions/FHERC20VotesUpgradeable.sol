@@ -0,0 +1,248 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC6372 } from "@openzeppelin/contracts/interfaces/IERC6372.sol";
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { EIP712Upgradeable } from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import { NoncesUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { Time } from "@openzeppelin/contracts/utils/types/Time.sol";
+import { IFHERC20Votes } from "../../interfaces/IFHERC20Votes.sol";
+import { FHECheckpoints } from "../../utils/FHECheckpoints.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Upgradeable extension of {FHERC20Upgradeable} to support confidential voting and delegation. See
+ * {FHERC20Votes} for the checkpointing and ACL semantics.
+ *
+ * Delegates and checkpoints are stored in ERC-7201 namespaced storage for upgrade safety. The EIP-712 domain
+ * used by {delegateBySig} must be initialized by the inheriting contract (e.g. with `__EIP712_init`).
+ */
+abstract contract FHERC20VotesUpgradeable is
+    Initializable,
+    FHERC20Upgradeable,
+    IFHERC20Votes,
+    IERC6372,
+    EIP712Upgradeable,
+    NoncesUpgradeable
+{
+    using FHECheckpoints for FHECheckpoints.Trace;
+
+    bytes32 private constant DELEGATION_TYPEHASH =
+        keccak256("Delegation(address delegatee,uint256 nonce,uint256 expiry)");
+
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20Votes
+    struct FHERC20VotesStorage {
+        mapping(address account => address) _delegatee;
+        mapping(address delegatee => FHECheckpoints.Trace) _delegateCheckpoints;
+        FHECheckpoints.Trace _totalCheckpoints;
+        mapping(address governor => bool) _votesGovernors;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20Votes")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20VotesStorageLocation =
+        0x059ddf22d401d3f1f41699bb6bc7c813db40f4d4e1d0d7fb9c70400165bcf100;
+
+    function _getFHERC20VotesStorage() private pure returns (FHERC20VotesStorage storage $) {
+        assembly {
+            $.slot := FHERC20VotesStorageLocation
+        }
+    }
+
+    /// @dev The clock was incorrectly modified.
+    error FHERC20VotesInconsistentClock();
+
+    /// @dev Lookup to future votes is not available.
+    error FHERC20VotesFutureLookup(uint256 timepoint, uint48 clock);
+
+    /// @dev The signature used has expired.
+    error FHERC20VotesExpiredSignature(uint256 expiry);
+
+    function __FHERC20Votes_init() internal onlyInitializing {}
+
+    function __FHERC20Votes_init_unchained() internal onlyInitializing {}
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Votes).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // =========================================================================
+    //  IERC6372
+    // =========================================================================
+
+    /**
+     * @dev Clock used for flagging checkpoints. Can be overridden to implement timestamp based
+     * checkpoints (and voting), in which case {CLOCK_MODE} should be overridden as well to match.
+     */
+    function clock() public view virtual returns (uint48) {
+        return Time.blockNumber();
+    }
+
+    /// @dev Machine-readable description of the clock as specified in ERC-6372.
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() public view virtual returns (string memory) {
+        // Check that the clock was not modified
+        if (clock() != Time.blockNumber()) revert FHERC20VotesInconsistentClock();
+        return "mode=blocknumber&from=default";
+    }
+
+    // =========================================================================
+    //  Votes
+    // =========================================================================
+
+    /// @inheritdoc IFHERC20Votes
+    function getVotes(address account) public view virtual returns (euint64) {
+        return _getFHERC20VotesStorage()._delegateCheckpoints[account].latest();
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function getPastVotes(address account, uint256 timepoint) public view virtual returns (euint64) {
+        return _getFHERC20VotesStorage()._delegateCheckpoints[account].upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function getPastTotalSupply(uint256 timepoint) public view virtual returns (euint64) {
+        return _getFHERC20VotesStorage()._totalCheckpoints.upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function confidentialPastVotes(address account, uint256 timepoint) public virtual returns (euint64 votes) {
+        if (msg.sender != account && !isVotesGovernor(msg.sender)) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        votes = getPastVotes(account, timepoint);
+        if (FHE.isInitialized(votes)) FHE.allowTransient(votes, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function confidentialPastTotalSupply(uint256 timepoint) public virtual returns (euint64 totalSupply_) {
+        if (!isVotesGovernor(msg.sender)) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        totalSupply_ = getPastTotalSupply(timepoint);
+        if (FHE.isInitialized(totalSupply_)) FHE.allowTransient(totalSupply_, msg.sender);
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function isVotesGovernor(address governor) public view virtual returns (bool) {
+        return _getFHERC20VotesStorage()._votesGovernors[governor];
+    }
+
+    /// @dev Returns the number of checkpoints for `account`.
+    function numCheckpoints(address account) public view virtual returns (uint32) {
+        return SafeCast.toUint32(_getFHERC20VotesStorage()._delegateCheckpoints[account].length());
+    }
+
+    /// @dev Returns the `pos`-th checkpoint for `account`.
+    function checkpoints(address account, uint32 pos) public view virtual returns (FHECheckpoints.Checkpoint memory) {
+        return _getFHERC20VotesStorage()._delegateCheckpoints[account].at(pos);
+    }
+
+    // =========================================================================
+    //  Delegation
+    // =========================================================================
+
+    /// @inheritdoc IFHERC20Votes
+    function delegates(address account) public view virtual returns (address) {
+        return _getFHERC20VotesStorage()._delegatee[account];
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function delegate(address delegatee) public virtual {
+        _delegate(msg.sender, delegatee);
+    }
+
+    /// @inheritdoc IFHERC20Votes
+    function delegateBySig(
+        address delegatee,
+        uint256 nonce,
+        uint256 expiry,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual {
+        if (block.timestamp > expiry) revert FHERC20VotesExpiredSignature(expiry);
+
+        address signer = ECDSA.recover(
+            _hashTypedDataV4(keccak256(abi.encode(DELEGATION_TYPEHASH, delegatee, nonce, expiry))),
+            v,
+            r,
+            s
+        );
+        _useCheckedNonce(signer, nonce);
+        _delegate(signer, delegatee);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Delegates all of `account`'s voting units to `delegatee`.
+     *
+     * Emits events {DelegateChanged} and {DelegateVotesChanged}.
+     */
+    function _delegate(address account, address delegatee) internal virtual {
+        address oldDelegate = delegates(account);
+        _getFHERC20VotesStorage()._delegatee[account] = delegatee;
+
+        emit DelegateChanged(account, oldDelegate, delegatee);
+        _moveDelegateVotes(oldDelegate, delegatee, confidentialBalanceOf(account));
+    }
+
+    /// @dev Trusts (or stops trusting) `governor` to read encrypted voting power. Emits a {VotesGovernorSet} event.
+    function _setVotesGovernor(address governor, bool trusted) internal virtual {
+        _getFHERC20VotesStorage()._votesGovernors[governor] = trusted;
+        emit VotesGovernorSet(governor, trusted);
+    }
+
+    /// @dev Moves voting power and checkpoints the total supply on mint and burn.
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64 transferred) {
+        transferred = super._update(from, to, amount);
+
+        if (from == address(0) || to == address(0)) {
+            _getFHERC20VotesStorage()._totalCheckpoints.push(clock(), confidentialTotalSupply());
+        }
+
+        _moveDelegateVotes(delegates(from), delegates(to), transferred);
+    }
+
+    /**
+     * @dev Moves an encrypted `amount` of votes from `from` to `to`. Subtraction cannot underflow since
+     * `amount` never exceeds the voting units `from` holds on behalf of its delegators.
+     */
+    function _moveDelegateVotes(address from, address to, euint64 amount) internal virtual {
+        if (from == to || !FHE.isInitialized(amount)) return;
+
+        FHERC20VotesStorage storage $ = _getFHERC20VotesStorage();
+
+        if (from != address(0)) {
+            FHECheckpoints.Trace storage store = $._delegateCheckpoints[from];
+            euint64 newValue = FHE.sub(store.latest(), amount);
+            FHE.allowThis(newValue);
+            FHE.allow(newValue, from);
+
+            (euint64 oldValue, ) = store.push(clock(), newValue);
+            emit DelegateVotesChanged(from, oldValue, newValue);
+        }
+        if (to != address(0)) {
+            FHECheckpoints.Trace storage store = $._delegateCheckpoints[to];
+            euint64 newValue = FHE.add(store.latest(), amount);
+            FHE.allowThis(newValue);
+            FHE.allow(newValue, to);
+
+            (euint64 oldValue, ) = store.push(clock(), newValue);
+            emit DelegateVotesChanged(to, oldValue, newValue);
+        }
+    }
+
+    /// @dev Validates that `timepoint` is in the past, and returns it as a uint48.
+    function _validateTimepoint(uint256 timepoint) internal view returns (uint48) {
+        uint48 currentTimepoint = clock();
+        if (timepoint >= currentTimepoint) revert FHERC20VotesFutureLookup(timepoint, currentTimepoint);
+        return SafeCast.toUint48(timepoint);
+    }
+}
@@ -0,0 +1,383 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IFHERC20Wrapper } from "../../interfaces/IFHERC20Wrapper.sol";
+import { FHERC20 } from "../FHERC20.sol";
+import { FHERC20WrapperClaimHelper } from "../utils/FHERC20WrapperClaimHelper.sol";
+import { FHERC20WrapperSupplyAttestation } from "../utils/FHERC20WrapperSupplyAttestation.sol";
+import { FHERC20InvalidReceiver, FHERC20UnauthorizedCaller, FHERC20UnauthorizedSpender, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Base of the {FHERC20} wrappers, which shield an underlying asset into a confidential token at a fixed {rate}.
+ *
+ * It implements everything that does not depend on the asset: the rate and decimals, the unshield requests and
+ * their claims, the total supply checks and the supply attestations. The asset itself is handled by an adapter, the
+ * internal functions {_pullAsset}, {_sendAsset}, {_sendAssetAndCall} and {_assetBalance}, which the wrapper of each
+ * asset implements next to its own shield entry points. These call {_shield} or {_mintShielded} to mint the
+ * confidential tokens and emit the {Shielded} event.
+ *
+ * See {FHERC20ERC20Wrapper} and {FHERC20NativeWrapper}.
+ */
+abstract contract FHERC20WrapperBase is
+    FHERC20,
+    IFHERC20Wrapper,
+    FHERC20WrapperClaimHelper,
+    FHERC20WrapperSupplyAttestation
+{
+    uint8 private immutable _wrappedDecimals;
+    uint256 private immutable _rate;
+
+    error FHERC20TotalSupplyOverflow();
+    error FHERC20ClaimCallFailed();
+
+    /**
+     * @dev Sets the {decimals} of the wrapper and the {rate} for an underlying asset with `assetDecimals` decimals.
+     * The decimals are capped at {_maxDecimals}.
+     */
+    constructor(uint8 assetDecimals) {
+        uint8 maxDecimals = _maxDecimals();
+        if (assetDecimals > maxDecimals) {
+            _wrappedDecimals = maxDecimals;
+            _rate = 10 ** (assetDecimals - maxDecimals);
+        } else {
+            _wrappedDecimals = assetDecimals;
+            _rate = 1;
+        }
+    }
+
+    /**
+     * @dev Initiates an unshield of `amount` confidential tokens from `from`, creating a pending
+     * claim for `to`. The caller must be `from` or an operator for `from`.
+     *
+     * Returns the encrypted amount that was burned (used as the claim's cipher-text handle).
+     */
+    function unshield(address from, address to, uint64 amount) public virtual override returns (euint64) {
+        return _unshield(from, to, FHE.asEuint64(amount), amount, 0);
+    }
+
+    /**
+     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
+     * unshield request for `to`. The caller must have ACL access to `amount` and must be
+     * `from` or an operator for `from`.
+     *
+     * Returns the encrypted amount that was burned.
+     */
+    function unshield(address from, address to, euint64 amount) public virtual override returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _unshield(from, to, amount, 0, 0);
+    }
+
+    /**
+     * @dev Same as {unshield} with a cleartext `amount`, but lets the relayer that claims the request with
+     * {claimUnshieldedWithFee} keep up to `maxRelayerFee` confidential units of the payout.
+     */
+    function unshield(
+        address from,
+        address to,
+        uint64 amount,
+        uint64 maxRelayerFee
+    ) public virtual override returns (euint64) {
+        return _unshield(from, to, FHE.asEuint64(amount), amount, maxRelayerFee);
+    }
+
+    /**
+     * @dev Same as {unshield} with an encrypted `amount`, but lets the relayer that claims the request with
+     * {claimUnshieldedWithFee} keep up to `maxRelayerFee` confidential units of the payout.
+     */
+    function unshield(
+        address from,
+        address to,
+        euint64 amount,
+        uint64 maxRelayerFee
+    ) public virtual override returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _unshield(from, to, amount, 0, maxRelayerFee);
+    }
+
+    /**
+     * @dev Same as {unshield} with a cleartext `amount`, but records a call to `target` with `data` that
+     * {claimUnshieldedAndCall} executes with the payout.
+     */
+    function unshieldAndCall(
+        address from,
+        address to,
+        uint64 amount,
+        address target,
+        bytes calldata data
+    ) public virtual override returns (euint64) {
+        return _unshieldAndCall(from, to, FHE.asEuint64(amount), amount, target, data);
+    }
+
+    /**
+     * @dev Same as {unshield} with an encrypted `amount`, but records a call to `target` with `data` that
+     * {claimUnshieldedAndCall} executes with the payout.
+     */
+    function unshieldAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        address target,
+        bytes calldata data
+    ) public virtual override returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _unshieldAndCall(from, to, amount, 0, target, data);
+    }
+
+    /**
+     * @dev Claims a pending unshield request. Verifies the decryption proof and pays
+     * `decryptedAmount * rate()` units of the underlying asset to the requester with {_payClaim}. Requests created with
+     * {unshieldAndCall} revert with {ClaimCallRecorded}, they can only be claimed with {claimUnshieldedAndCall}.
+     */
+    function claimUnshielded(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override {
+        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+        _payClaim(ctHash, claim.to, uint256(claim.decryptedAmount) * rate());
+        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+    }
+
+    /**
+     * @dev Claims a pending unshield request on behalf of its requester. The relayer fee (the request's
+     * `maxRelayerFee`, capped at `decryptedAmount`) is paid to `feeRecipient` and the rest of the
+     * `decryptedAmount * rate()` units of the underlying asset to the requester.
+     */
+    function claimUnshieldedWithFee(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof,
+        address feeRecipient
+    ) public virtual override {
+        if (feeRecipient == address(0)) revert FHERC20InvalidReceiver(address(0));
+
+        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+
+        uint64 fee = _relayerFee(claim);
+        if (fee > 0) {
+            _sendAsset(feeRecipient, uint256(fee) * rate());
+            emit RelayerFeePaid(feeRecipient, ctHash, fee);
+        }
+        _payClaim(ctHash, claim.to, uint256(claim.decryptedAmount - fee) * rate());
+
+        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+    }
+
+    /**
+     * @dev Claims a pending unshield request created with {unshieldAndCall}. The `decryptedAmount * rate()` units
+     * of the underlying asset are delivered to the recorded target with the recorded data by {_sendAssetAndCall}, so
+     * the target receives them in the same transaction. If that call fails, they are paid to the requester instead.
+     * No relayer fee is paid.
+     */
+    function claimUnshieldedAndCall(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override {
+        (Claim memory claim, ClaimCall memory claimCall) = _handleClaimCall(ctHash, decryptedAmount, decryptionProof);
+
+        uint256 value = uint256(claim.decryptedAmount) * rate();
+        bool success;
+        try this.executeClaimCall(msg.sender, claimCall.target, value, claimCall.data) {
+            success = true;
+        } catch {
+            _payClaim(ctHash, claim.to, value);
+        }
+
+        emit ClaimCallExecuted(ctHash, claimCall.target, success);
+        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+    }
+
+    /**
+     * @dev Sends `value` units of the underlying asset to `target` with `data` for {claimUnshieldedAndCall}, on behalf
+     * of the claimer `operator`. Can only be called by the wrapper itself. Reverts with {FHERC20ClaimCallFailed} if
+     * {_sendAssetAndCall} does not deliver the asset, which rolls back everything the call did, so that nothing has
+     * left the wrapper when the claim is paid to its recipient instead.
+     */
+    function executeClaimCall(address operator, address target, uint256 value, bytes memory data) public virtual {
+        if (msg.sender != address(this)) revert FHERC20UnauthorizedCaller(msg.sender);
+        if (!_sendAssetAndCall(operator, target, value, data)) revert FHERC20ClaimCallFailed();
+    }
+
+    /**
+     * @dev Claims multiple pending unshield requests in a single transaction.
+     */
+    function claimUnshieldedBatch(
+        bytes32[] memory ctHashes,
+        uint64[] memory decryptedAmounts,
+        bytes[] memory decryptionProofs
+    ) public virtual {
+        Claim[] memory claims = _handleClaimBatch(ctHashes, decryptedAmounts, decryptionProofs);
+
+        for (uint256 i = 0; i < claims.length; i++) {
+            _payClaim(ctHashes[i], claims[i].to, uint256(claims[i].decryptedAmount) * rate());
+            emit ClaimedUnshielded(claims[i].to, ctHashes[i], FHE.wrapEuint64(ctHashes[i]), claims[i].decryptedAmount);
+        }
+    }
+
+    /// @inheritdoc FHERC20
+    function decimals() public view virtual override returns (uint8) {
+        return _wrappedDecimals;
+    }
+
+    /// @inheritdoc IFHERC20Wrapper
+    function rate() public view virtual override returns (uint256) {
+        return _rate;
+    }
+
+    /// @inheritdoc IERC165
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Wrapper).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /**
+     * @dev Requests a supply attestation (see {FHERC20WrapperSupplyAttestation}): makes the sum of
+     * {confidentialTotalSupply} and {pendingClaimLiabilities} publicly decryptable, and records {inferredTotalSupply}
+     * as the reserves to compare it with. The sum cannot overflow, since {_checkConfidentialTotalSupply} keeps the
+     * reserves that back it within {maxTotalSupply}.
+     *
+     * NOTE: Anyone can request an attestation, but not while the previous one waits for its decrypted liabilities
+     * (see {FHERC20WrapperSupplyAttestation-_requestSupplyAttestation}). Revealing the liabilities leaks little, since
+     * they are already bounded by the public reserves.
+     */
+    function requestSupplyAttestation() public virtual returns (euint64) {
+        euint64 liabilities = FHE.add(confidentialTotalSupply(), pendingClaimLiabilities());
+        return _requestSupplyAttestation(liabilities, inferredTotalSupply());
+    }
+
+    /**
+     * @dev Returns the underlying asset held by the wrapper ({_assetBalance}) divided by the {rate}, a value greater
+     * or equal to the actual {confidentialTotalSupply}.
+     *
+     * NOTE: The return value of this function can be inflated by directly sending the underlying asset to the wrapper
+     * contract. Reductions will lag compared to {confidentialTotalSupply} since it is updated on {unshield} while this
+     * function updates on {claimUnshielded}.
+     */
+    function inferredTotalSupply() public view virtual returns (uint256) {
+        return _assetBalance() / rate();
+    }
+
+    /// @dev Returns the maximum total supply of shielded tokens supported by the encrypted datatype.
+    function maxTotalSupply() public view virtual returns (uint256) {
+        return type(uint64).max;
+    }
+
+    /**
+     * @dev This function must revert if the new {confidentialTotalSupply} is invalid (overflow occurred).
+     *
+     * NOTE: Overflow can be detected here since the wrapper holdings are non-confidential. In other cases, it may be impossible
+     * to infer total supply overflow synchronously. This function may revert even if the {confidentialTotalSupply} did
+     * not overflow.
+     */
+    function _checkConfidentialTotalSupply() internal virtual {
+        if (inferredTotalSupply() > maxTotalSupply()) {
+            revert FHERC20TotalSupplyOverflow();
+        }
+    }
+
+    /// @inheritdoc FHERC20
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        if (from == address(0)) {
+            _checkConfidentialTotalSupply();
+        }
+        return super._update(from, to, amount);
+    }
+
+    /**
+     * @dev Pulls `value` units of the underlying asset, rounded down to the nearest multiple of {rate}, from `from`
+     * with {_pullAsset} and shields them to `to` with {_mintShielded}. The caller is granted transient access to the
+     * minted amount.
+     *
+     * Returns the amount of shielded token sent.
+     */
+    function _shield(address from, address to, uint256 value) internal virtual returns (euint64) {
+        _pullAsset(from, value - (value % rate()));
+
+        euint64 shieldedAmountSent = _mintShielded(from, to, value);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
+
+        return shieldedAmountSent;
+    }
+
+    /**
+     * @dev Mints `value / rate()` confidential tokens to `to` for `value` units of the underlying asset paid by
+     * `from`, which the wrapper must already hold, and emits a {Shielded} event. The remainder of `value` is not
+     * shielded and should be refunded by the caller if it was received.
+     */
+    function _mintShielded(address from, address to, uint256 value) internal virtual returns (euint64) {
+        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(SafeCast.toUint64(value / rate())));
+        emit Shielded(from, to, value - (value % rate()));
+        return shieldedAmountSent;
+    }
+
+    /// @dev Pays `value` units of the underlying asset of the claim `ctHash` to `to`. Defaults to {_sendAsset}.
+    function _payClaim(bytes32 /* ctHash */, address to, uint256 value) internal virtual {
+        _sendAsset(to, value);
+    }
+
+    /// @dev Transfers `value` units of the underlying asset from `from` to the wrapper.
+    function _pullAsset(address from, uint256 value) internal virtual;
+
+    /// @dev Sends `value` units of the underlying asset held by the wrapper to `to`. Used for claims and refunds.
+    function _sendAsset(address to, uint256 value) internal virtual;
+
+    /**
+     * @dev Sends `value` units of the underlying asset held by the wrapper to `target` together with a call carrying
+     * `data`, on behalf of the claimer `operator`. Returns whether the asset was delivered. Only called through
+     * {executeClaimCall}, which rolls the call back when it returns false.
+     */
+    function _sendAssetAndCall(
+        address operator,
+        address target,
+        uint256 value,
+        bytes memory data
+    ) internal virtual returns (bool);
+
+    /// @dev Returns the amount of the underlying asset held by the wrapper.
+    function _assetBalance() internal view virtual returns (uint256);
+
+    /// @dev Shared internal logic for both {unshieldAndCall} overloads.
+    function _unshieldAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        uint64 requestedAmount,
+        address target,
+        bytes memory data
+    ) internal virtual returns (euint64) {
+        if (target == address(0)) revert FHERC20InvalidReceiver(target);
+
+        euint64 unshieldAmount_ = _unshield(from, to, amount, requestedAmount, 0);
+        _createClaimCall(FHE.unwrap(unshieldAmount_), target, data);
+        return unshieldAmount_;
+    }
+
+    /// @dev Shared internal logic for the unshield overloads.
+    function _unshield(
+        address from,
+        address to,
+        euint64 amount,
+        uint64 requestedAmount,
+        uint64 maxRelayerFee
+    ) internal virtual returns (euint64) {
+        if (to == address(0)) revert FHERC20InvalidReceiver(to);
+        if (from != msg.sender && !isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
+
+        euint64 unshieldAmount_ = _burn(from, amount);
+        FHE.allowPublic(unshieldAmount_);
+
+        _createClaim(to, requestedAmount, unshieldAmount_, maxRelayerFee);
+
+        emit Unshielded(to, unshieldAmount_);
+        return unshieldAmount_;
+    }
+
+    /// @dev Returns the maximum number that will be used for {decimals} by the wrapper.
+    function _maxDecimals() internal pure virtual returns (uint8) {
+        return 6;
+    }
+}
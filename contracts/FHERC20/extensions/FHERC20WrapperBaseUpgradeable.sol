@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { SafeCast } from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import { IFHERC20Wrapper } from "../../interfaces/IFHERC20Wrapper.sol";
+import { FHERC20Upgradeable } from "../FHERC20Upgradeable.sol";
+import { FHERC20WrapperClaimHelperUpgradeable } from "../utils/FHERC20WrapperClaimHelperUpgradeable.sol";
+import { FHERC20WrapperSupplyAttestationUpgradeable } from "../utils/FHERC20WrapperSupplyAttestationUpgradeable.sol";
+import { FHERC20InvalidReceiver, FHERC20UnauthorizedCaller, FHERC20UnauthorizedSpender, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Upgradeable variant of {FHERC20WrapperBase}.
+ *
+ * The {decimals} and {rate} are kept by each wrapper in its own ERC-7201 namespaced storage, next to its underlying
+ * asset, so that the storage layout of existing deployments is unchanged. Wrappers compute them with
+ * {_wrappedDecimalsAndRate} when initialized.
+ */
+abstract contract FHERC20WrapperBaseUpgradeable is
+    FHERC20Upgradeable,
+    IFHERC20Wrapper,
+    FHERC20WrapperClaimHelperUpgradeable,
+    FHERC20WrapperSupplyAttestationUpgradeable
+{
+    error FHERC20TotalSupplyOverflow();
+    error FHERC20ClaimCallFailed();
+
+    function __FHERC20WrapperBase_init() internal onlyInitializing {
+        __FHERC20WrapperClaimHelper_init();
+        __FHERC20WrapperSupplyAttestation_init();
+    }
+
+    function __FHERC20WrapperBase_init_unchained() internal onlyInitializing {}
+
+    /// @dev See {FHERC20WrapperBase-unshield}.
+    function unshield(address from, address to, uint64 amount) public virtual override returns (euint64) {
+        return _unshield(from, to, FHE.asEuint64(amount), amount, 0);
+    }
+
+    /// @dev See {FHERC20WrapperBase-unshield}.
+    function unshield(address from, address to, euint64 amount) public virtual override returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _unshield(from, to, amount, 0, 0);
+    }
+
+    /// @dev See {FHERC20WrapperBase-unshield}.
+    function unshield(
+        address from,
+        address to,
+        uint64 amount,
+        uint64 maxRelayerFee
+    ) public virtual override returns (euint64) {
+        return _unshield(from, to, FHE.asEuint64(amount), amount, maxRelayerFee);
+    }
+
+    /// @dev See {FHERC20WrapperBase-unshield}.
+    function unshield(
+        address from,
+        address to,
+        euint64 amount,
+        uint64 maxRelayerFee
+    ) public virtual override returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _unshield(from, to, amount, 0, maxRelayerFee);
+    }
+
+    /// @dev See {FHERC20WrapperBase-unshieldAndCall}.
+    function unshieldAndCall(
+        address from,
+        address to,
+        uint64 amount,
+        address target,
+        bytes calldata data
+    ) public virtual override returns (euint64) {
+        return _unshieldAndCall(from, to, FHE.asEuint64(amount), amount, target, data);
+    }
+
+    /// @dev See {FHERC20WrapperBase-unshieldAndCall}.
+    function unshieldAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        address target,
+        bytes calldata data
+    ) public virtual override returns (euint64) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(amount, msg.sender);
+        return _unshieldAndCall(from, to, amount, 0, target, data);
+    }
+
+    /// @dev See {FHERC20WrapperBase-claimUnshielded}.
+    function claimUnshielded(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override {
+        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+        _payClaim(ctHash, claim.to, uint256(claim.decryptedAmount) * rate());
+        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+    }
+
+    /// @dev See {FHERC20WrapperBase-claimUnshieldedWithFee}.
+    function claimUnshieldedWithFee(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof,
+        address feeRecipient
+    ) public virtual override {
+        if (feeRecipient == address(0)) revert FHERC20InvalidReceiver(address(0));
+
+        Claim memory claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+
+        uint64 fee = _relayerFee(claim);
+        if (fee > 0) {
+            _sendAsset(feeRecipient, uint256(fee) * rate());
+            emit RelayerFeePaid(feeRecipient, ctHash, fee);
+        }
+        _payClaim(ctHash, claim.to, uint256(claim.decryptedAmount - fee) * rate());
+
+        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+    }
+
+    /// @dev See {FHERC20WrapperBase-claimUnshieldedAndCall}.
+    function claimUnshieldedAndCall(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) public virtual override {
+        (Claim memory claim, ClaimCall memory claimCall) = _handleClaimCall(ctHash, decryptedAmount, decryptionProof);
+
+        uint256 value = uint256(claim.decryptedAmount) * rate();
+        bool success;
+        try this.executeClaimCall(msg.sender, claimCall.target, value, claimCall.data) {
+            success = true;
+        } catch {
+            _payClaim(ctHash, claim.to, value);
+        }
+
+        emit ClaimCallExecuted(ctHash, claimCall.target, success);
+        emit ClaimedUnshielded(claim.to, ctHash, FHE.wrapEuint64(ctHash), claim.decryptedAmount);
+    }
+
+    /// @dev See {FHERC20WrapperBase-executeClaimCall}.
+    function executeClaimCall(address operator, address target, uint256 value, bytes memory data) public virtual {
+        if (msg.sender != address(this)) revert FHERC20UnauthorizedCaller(msg.sender);
+        if (!_sendAssetAndCall(operator, target, value, data)) revert FHERC20ClaimCallFailed();
+    }
+
+    /// @dev See {FHERC20WrapperBase-claimUnshieldedBatch}.
+    function claimUnshieldedBatch(
+        bytes32[] memory ctHashes,
+        uint64[] memory decryptedAmounts,
+        bytes[] memory decryptionProofs
+    ) public virtual {
+        Claim[] memory claims = _handleClaimBatch(ctHashes, decryptedAmounts, decryptionProofs);
+
+        for (uint256 i = 0; i < claims.length; i++) {
+            _payClaim(ctHashes[i], claims[i].to, uint256(claims[i].decryptedAmount) * rate());
+            emit ClaimedUnshielded(claims[i].to, ctHashes[i], FHE.wrapEuint64(ctHashes[i]), claims[i].decryptedAmount);
+        }
+    }
+
+    /// @inheritdoc IFHERC20Wrapper
+    function rate() public view virtual override returns (uint256);
+
+    /// @inheritdoc FHERC20Upgradeable
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IFHERC20Wrapper).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    /**
+     * @dev See {FHERC20WrapperBase-requestSupplyAttestation}.
+     *
+     * NOTE: Claims pending since before the upgrade that introduced {pendingClaimLiabilities} are not part of the
+     * attested liabilities, so the reserve ratio is overstated until they are claimed or passed to
+     * {_trackPendingClaims}.
+     */
+    function requestSupplyAttestation() public virtual returns (euint64) {
+        euint64 liabilities = FHE.add(confidentialTotalSupply(), pendingClaimLiabilities());
+        return _requestSupplyAttestation(liabilities, inferredTotalSupply());
+    }
+
+    /// @dev See {FHERC20WrapperBase-inferredTotalSupply}.
+    function inferredTotalSupply() public view virtual returns (uint256) {
+        return _assetBalance() / rate();
+    }
+
+    function maxTotalSupply() public view virtual returns (uint256) {
+        return type(uint64).max;
+    }
+
+    function _checkConfidentialTotalSupply() internal virtual {
+        if (inferredTotalSupply() > maxTotalSupply()) {
+            revert FHERC20TotalSupplyOverflow();
+        }
+    }
+
+    /// @inheritdoc FHERC20Upgradeable
+    function _update(address from, address to, euint64 amount) internal virtual override returns (euint64) {
+        if (from == address(0)) {
+            _checkConfidentialTotalSupply();
+        }
+        return super._update(from, to, amount);
+    }
+
+    /// @dev See {FHERC20WrapperBase-_shield}.
+    function _shield(address from, address to, uint256 value) internal virtual returns (euint64) {
+        _pullAsset(from, value - (value % rate()));
+
+        euint64 shieldedAmountSent = _mintShielded(from, to, value);
+        FHE.allowTransient(shieldedAmountSent, msg.sender);
+
+        return shieldedAmountSent;
+    }
+
+    /// @dev See {FHERC20WrapperBase-_mintShielded}.
+    function _mintShielded(address from, address to, uint256 value) internal virtual returns (euint64) {
+        euint64 shieldedAmountSent = _mint(to, FHE.asEuint64(SafeCast.toUint64(value / rate())));
+        emit Shielded(from, to, value - (value % rate()));
+        return shieldedAmountSent;
+    }
+
+    /// @dev See {FHERC20WrapperBase-_payClaim}.
+    function _payClaim(bytes32 /* ctHash */, address to, uint256 value) internal virtual {
+        _sendAsset(to, value);
+    }
+
+    /// @dev See {FHERC20WrapperBase-_pullAsset}.
+    function _pullAsset(address from, uint256 value) internal virtual;
+
+    /// @dev See {FHERC20WrapperBase-_sendAsset}.
+    function _sendAsset(address to, uint256 value) internal virtual;
+
+    /// @dev See {FHERC20WrapperBase-_sendAssetAndCall}.
+    function _sendAssetAndCall(
+        address operator,
+        address target,
+        uint256 value,
+        bytes memory data
+    ) internal virtual returns (bool);
+
+    /// @dev See {FHERC20WrapperBase-_assetBalance}.
+    function _assetBalance() internal view virtual returns (uint256);
+
+    /// @dev Shared internal logic for both {unshieldAndCall} overloads.
+    function _unshieldAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        uint64 requestedAmount,
+        address target,
+        bytes memory data
+    ) internal virtual returns (euint64) {
+        if (target == address(0)) revert FHERC20InvalidReceiver(target);
+
+        euint64 unshieldAmount_ = _unshield(from, to, amount, requestedAmount, 0);
+        _createClaimCall(FHE.unwrap(unshieldAmount_), target, data);
+        return unshieldAmount_;
+    }
+
+    /// @dev Shared internal logic for the unshield overloads.
+    function _unshield(
+        address from,
+        address to,
+        euint64 amount,
+        uint64 requestedAmount,
+        uint64 maxRelayerFee
+    ) internal virtual returns (euint64) {
+        if (to == address(0)) revert FHERC20InvalidReceiver(to);
+        if (from != msg.sender && !isOperator(from, msg.sender)) revert FHERC20UnauthorizedSpender(from, msg.sender);
+
+        euint64 unshieldAmount_ = _burn(from, amount);
+        FHE.allowPublic(unshieldAmount_);
+
+        _createClaim(to, requestedAmount, unshieldAmount_, maxRelayerFee);
+
+        emit Unshielded(to, unshieldAmount_);
+        return unshieldAmount_;
+    }
+
+    /**
+     * @dev Returns the {decimals} of the wrapper and its {rate} for an underlying asset with `assetDecimals`
+     * decimals. The decimals are capped at {_maxDecimals}.
+     */
+    function _wrappedDecimalsAndRate(uint8 assetDecimals) internal pure virtual returns (uint8, uint256) {
+        uint8 maxDecimals = _maxDecimals();
+        if (assetDecimals > maxDecimals) {
+            return (maxDecimals, 10 ** (assetDecimals - maxDecimals));
+        }
+        return (assetDecimals, 1);
+    }
+
+    function _maxDecimals() internal pure virtual returns (uint8) {
+        return 6;
+    }
+}
@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { FHERC20ClaimPositions } from "../utils/FHERC20ClaimPositions.sol";
+import { FHERC20WrapperClaimHelper } from "../utils/FHERC20WrapperClaimHelper.sol";
+
+/**
+ * @dev Extension of {FHERC20WrapperClaimHelper} that represents pending unshield claims as transferable ERC-721
+ * positions of a {FHERC20ClaimPositions} contract, so that they can be moved to another wallet or sold before the
+ * decryption lands. Combined with the wrappers in {FHERC20ERC20WrapperClaimPositions} and
+ * {FHERC20NativeWrapperClaimPositions}.
+ *
+ * A position is minted to the recipient of each new claim, with the claim's `ctHash` as token id. When the claim is
+ * handled its position is burned and the payout goes to the position owner instead of the recorded recipient.
+ *
+ * Claims recorded with a call (see `unshieldAndCall`) have no position, since their payout goes to the call target.
+ *
+ * NOTE: The claim itself keeps its original recipient, which {getUserClaims} lists it under while it is pending. The
+ * per-recipient outflow limit and {getUserCompletedClaims} refer to the position owner that the claim is paid to.
+ */
+abstract contract FHERC20WrapperClaimPositions is FHERC20WrapperClaimHelper {
+    FHERC20ClaimPositions private immutable _claimPositions;
+
+    /// @dev The positions contract `positions` does not represent the claims of this wrapper.
+    error FHERC20WrapperClaimPositionsInvalidPositions(address positions);
+
+    constructor(FHERC20ClaimPositions claimPositions_) {
+        if (claimPositions_.wrapper() != address(this)) {
+            revert FHERC20WrapperClaimPositionsInvalidPositions(address(claimPositions_));
+        }
+        _claimPositions = claimPositions_;
+    }
+
+    /// @dev Returns the ERC-721 contract of the claim positions.
+    function claimPositions() public view virtual returns (address) {
+        return address(_claimPositions);
+    }
+
+    /// @dev Creates the claim and mints its position to `to`.
+    function _createClaim(
+        address to,
+        uint64 requestedAmount,
+        euint64 claimable,
+        uint64 maxRelayerFee
+    ) internal virtual override {
+        super._createClaim(to, requestedAmount, claimable, maxRelayerFee);
+        _claimPositions.mint(to, FHE.unwrap(claimable));
+    }
+
+    /// @dev Records the claim call and burns the position of the claim `ctHash`.
+    function _createClaimCall(bytes32 ctHash, address target, bytes memory data) internal virtual override {
+        super._createClaimCall(ctHash, target, data);
+        _claimPositions.burn(ctHash);
+    }
+
+    /// @dev Burns the position of the claim `ctHash` and returns its owner, or `to` if the claim has no position.
+    function _claimPayee(bytes32 ctHash, address to) internal virtual override returns (address) {
+        address owner = _claimPositions.burn(ctHash);
+        return owner == address(0) ? to : owner;
+    }
+}
@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { FHERC20ClaimPositions } from "../utils/FHERC20ClaimPositions.sol";
+import { FHERC20WrapperClaimHelperUpgradeable } from "../utils/FHERC20WrapperClaimHelperUpgradeable.sol";
+
+/**
+ * @dev Upgradeable version of {FHERC20WrapperClaimPositions}.
+ *
+ * Uses ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20WrapperClaimPositionsUpgradeable is FHERC20WrapperClaimHelperUpgradeable {
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20WrapperClaimPositions
+    struct FHERC20WrapperClaimPositionsStorage {
+        FHERC20ClaimPositions _claimPositions;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20WrapperClaimPositions")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20WrapperClaimPositionsStorageLocation =
+        0x57c61e4ee4e85a71721f82f839961a04f6e02377c0af70cfa6503a3d1ca9ea00;
+
+    function _getFHERC20WrapperClaimPositionsStorage()
+        private
+        pure
+        returns (FHERC20WrapperClaimPositionsStorage storage $)
+    {
+        assembly {
+            $.slot := FHERC20WrapperClaimPositionsStorageLocation
+        }
+    }
+
+    /// @dev The positions contract `positions` does not represent the claims of this wrapper.
+    error FHERC20WrapperClaimPositionsInvalidPositions(address positions);
+
+    function __FHERC20WrapperClaimPositions_init(FHERC20ClaimPositions claimPositions_) internal onlyInitializing {
+        __FHERC20WrapperClaimPositions_init_unchained(claimPositions_);
+    }
+
+    function __FHERC20WrapperClaimPositions_init_unchained(
+        FHERC20ClaimPositions claimPositions_
+    ) internal onlyInitializing {
+        if (claimPositions_.wrapper() != address(this)) {
+            revert FHERC20WrapperClaimPositionsInvalidPositions(address(claimPositions_));
+        }
+        _getFHERC20WrapperClaimPositionsStorage()._claimPositions = claimPositions_;
+    }
+
+    /// @dev See {FHERC20WrapperClaimPositions-claimPositions}.
+    function claimPositions() public view virtual returns (address) {
+        return address(_getFHERC20WrapperClaimPositionsStorage()._claimPositions);
+    }
+
+    /// @dev See {FHERC20WrapperClaimPositions-_createClaim}.
+    function _createClaim(
+        address to,
+        uint64 requestedAmount,
+        euint64 claimable,
+        uint64 maxRelayerFee
+    ) internal virtual override {
+        super._createClaim(to, requestedAmount, claimable, maxRelayerFee);
+        _getFHERC20WrapperClaimPositionsStorage()._claimPositions.mint(to, FHE.unwrap(claimable));
+    }
+
+    /// @dev See {FHERC20WrapperClaimPositions-_createClaimCall}.
+    function _createClaimCall(bytes32 ctHash, address target, bytes memory data) internal virtual override {
+        super._createClaimCall(ctHash, target, data);
+        _getFHERC20WrapperClaimPositionsStorage()._claimPositions.burn(ctHash);
+    }
+
+    /// @dev See {FHERC20WrapperClaimPositions-_claimPayee}.
+    function _claimPayee(bytes32 ctHash, address to) internal virtual override returns (address) {
+        address owner = _getFHERC20WrapperClaimPositionsStorage()._claimPositions.burn(ctHash);
+        return owner == address(0) ? to : owner;
+    }
+}
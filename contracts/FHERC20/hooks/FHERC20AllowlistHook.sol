@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IFHERC20TransferHook } from "../../interfaces/IFHERC20TransferHook.sol";
+import { FHERC20UnauthorizedCaller } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Reference {IFHERC20TransferHook} module that only lets allowlisted accounts send and receive tokens.
+ *
+ * The allowlist is public, managed by the owner, and bound to a single `token`. Mints only check the receiver
+ * and burns only check the sender. A rejected update moves zero instead of reverting.
+ */
+contract FHERC20AllowlistHook is IFHERC20TransferHook, Ownable {
+    /// @dev The token consulting this module.
+    address public immutable token;
+
+    mapping(address account => bool) private _allowlisted;
+
+    /// @dev Emitted when `account` is added to or removed from the allowlist.
+    event AllowlistUpdated(address indexed account, bool allowlisted);
+
+    constructor(address token_, address initialOwner) Ownable(initialOwner) {
+        token = token_;
+    }
+
+    /// @dev Returns true if `account` is allowlisted.
+    function isAllowlisted(address account) public view virtual returns (bool) {
+        return _allowlisted[account];
+    }
+
+    /// @dev Adds `account` to (or removes it from) the allowlist. Emits an {AllowlistUpdated} event.
+    function setAllowlisted(address account, bool allowlisted) public virtual onlyOwner {
+        _allowlisted[account] = allowlisted;
+        emit AllowlistUpdated(account, allowlisted);
+    }
+
+    /// @inheritdoc IFHERC20TransferHook
+    function beforeConfidentialUpdate(address from, address to, euint64) public virtual returns (ebool result) {
+        if (msg.sender != token) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        result = FHE.asEbool((from == address(0) || isAllowlisted(from)) && (to == address(0) || isAllowlisted(to)));
+        FHE.allowTransient(result, msg.sender);
+    }
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { IERC7984 } from "../../interfaces/IERC7984.sol";
+import { IFHERC20TransferHook } from "../../interfaces/IFHERC20TransferHook.sol";
+import { FHESafeMath } from "../../utils/FHESafeMath.sol";
+import { FHERC20UnauthorizedCaller, FHERC20UnauthorizedUseOfEncryptedAmount } from "../utils/FHERC20Errors.sol";
+
+/**
+ * @dev Reference {IFHERC20TransferHook} module that caps the balance of every holder at an encrypted maximum.
+ *
+ * An update is allowed if the new balance of `to` stays at or below the maximum, computed under FHE from the
+ * balance handle the token grants to this module. Neither the maximum nor the balances are revealed; an update
+ * past the maximum moves zero. Burns and self-transfers are always allowed.
+ *
+ * The maximum is managed by the owner, and the module is bound to a single `token`. ACL access to the maximum
+ * is granted to this contract and to the owner at the time it is set.
+ */
+contract FHERC20MaxBalanceHook is IFHERC20TransferHook, Ownable {
+    /// @dev The token consulting this module.
+    address public immutable token;
+
+    euint64 private _maxBalance;
+
+    /// @dev Emitted when the encrypted maximum balance is set.
+    event MaxBalanceSet(euint64 maxBalance);
+
+    constructor(address token_, address initialOwner, uint64 maxBalance_) Ownable(initialOwner) {
+        token = token_;
+        _setMaxBalance(FHE.asEuint64(maxBalance_));
+    }
+
+    /// @dev Returns the encrypted maximum balance.
+    function confidentialMaxBalance() public view virtual returns (euint64) {
+        return _maxBalance;
+    }
+
+    /// @dev Sets the encrypted maximum balance. Emits a {MaxBalanceSet} event.
+    function setMaxBalance(InEuint64 memory encryptedMaxBalance) public virtual onlyOwner returns (euint64) {
+        return _setMaxBalance(FHE.asEuint64(encryptedMaxBalance));
+    }
+
+    /// @dev Sets the encrypted maximum balance. Emits a {MaxBalanceSet} event.
+    function setMaxBalance(euint64 maxBalance) public virtual onlyOwner returns (euint64) {
+        if (!FHE.isAllowed(maxBalance, msg.sender)) {
+            revert FHERC20UnauthorizedUseOfEncryptedAmount(maxBalance, msg.sender);
+        }
+        return _setMaxBalance(maxBalance);
+    }
+
+    /// @inheritdoc IFHERC20TransferHook
+    function beforeConfidentialUpdate(address from, address to, euint64 amount) public virtual returns (ebool result) {
+        if (msg.sender != token) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        if (to == address(0) || from == to) {
+            result = FHE.asEbool(true);
+        } else {
+            (ebool success, euint64 newBalance) = FHESafeMath.tryIncrease(
+                IERC7984(token).confidentialBalanceOf(to),
+                amount
+            );
+            result = FHE.and(success, FHE.lte(newBalance, _maxBalance));
+        }
+        FHE.allowTransient(result, msg.sender);
+    }
+
+    function _setMaxBalance(euint64 maxBalance) internal virtual returns (euint64) {
+        FHE.allowThis(maxBalance);
+        FHE.allow(maxBalance, owner());
+        _maxBalance = maxBalance;
+
+        emit MaxBalanceSet(maxBalance);
+        return maxBalance;
+    }
+}
@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { Base64 } from "@openzeppelin/contracts/utils/Base64.sol";
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+import { FHERC20WrapperClaimHelper } from "./FHERC20WrapperClaimHelper.sol";
+import { FHERC20UnauthorizedCaller } from "./FHERC20Errors.sol";
+
+/**
+ * @dev ERC-721 positions representing the pending unshield claims of an {FHERC20} wrapper, see
+ * {FHERC20WrapperClaimPositions}. The token id of a claim is its `ctHash` cast to `uint256`.
+ *
+ * Positions are minted when a claim is created and burned when it is handled, both by the wrapper given at
+ * construction. The wrapper pays the claim to the owner of its position.
+ */
+contract FHERC20ClaimPositions is ERC721 {
+    using Strings for uint256;
+
+    address private immutable _wrapper;
+    address private immutable _underlying;
+
+    constructor(
+        address wrapper_,
+        address underlying_,
+        string memory name_,
+        string memory symbol_
+    ) ERC721(name_, symbol_) {
+        _wrapper = wrapper_;
+        _underlying = underlying_;
+    }
+
+    modifier onlyWrapper() {
+        if (msg.sender != _wrapper) revert FHERC20UnauthorizedCaller(msg.sender);
+        _;
+    }
+
+    /// @dev Mints the position of the claim `ctHash` to `to`. Only callable by the wrapper.
+    function mint(address to, bytes32 ctHash) public virtual onlyWrapper {
+        _mint(to, uint256(ctHash));
+    }
+
+    /**
+     * @dev Burns the position of the claim `ctHash`, if any. Only callable by the wrapper.
+     *
+     * Returns the owner of the burned position, or the zero address if there was none.
+     */
+    function burn(bytes32 ctHash) public virtual onlyWrapper returns (address owner) {
+        owner = _ownerOf(uint256(ctHash));
+        if (owner != address(0)) _burn(uint256(ctHash));
+    }
+
+    /// @dev Returns the wrapper whose claims are represented by these positions.
+    function wrapper() public view virtual returns (address) {
+        return _wrapper;
+    }
+
+    /// @dev Returns the underlying token paid out by the claims.
+    function underlying() public view virtual returns (address) {
+        return _underlying;
+    }
+
+    /**
+     * @dev Returns the metadata of the position `tokenId` as a base64-encoded JSON data URI. It includes the
+     * underlying token and, when it is cleartext, the requested amount in confidential units.
+     */
+    function tokenURI(uint256 tokenId) public view virtual override returns (string memory) {
+        _requireOwned(tokenId);
+
+        FHERC20WrapperClaimHelper.Claim memory claim = FHERC20WrapperClaimHelper(_wrapper).getClaim(bytes32(tokenId));
+
+        string memory attributes = string.concat(
+            '[{"trait_type":"Underlying","value":"',
+            Strings.toHexString(_underlying),
+            '"}'
+        );
+        if (claim.requestedAmount != 0) {
+            attributes = string.concat(
+                attributes,
+                ',{"trait_type":"Requested amount","value":',
+                uint256(claim.requestedAmount).toString(),
+                "}"
+            );
+        }
+
+        string memory json = string.concat(
+            '{"name":"',
+            name(),
+            " #",
+            tokenId.toHexString(32),
+            '","description":"Pending unshield claim of ',
+            Strings.toHexString(_wrapper),
+            '","attributes":',
+            attributes,
+            "]}"
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+}
@@ -27,3 +27,6 @@ error FHERC20UnauthorizedCaller(address caller);
 
 /// @dev Reverts when a cleartext ERC-20 function is called on a confidential token.
 error FHERC20IncompatibleFunction();
+
+/// @dev The given spender `spender` is invalid for approvals.
+error FHERC20InvalidSpender(address spender);
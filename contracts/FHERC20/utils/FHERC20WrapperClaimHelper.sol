@@ -3,13 +3,25 @@ pragma solidity ^0.8.25;
 
 import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
 import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /**
  * @dev Abstract helper contract that manages pending unshield claims for {FHERC20} wrapper contracts.
  *
  * Provides claim lifecycle management: creation, single/batch handling (with decryption verification),
- * and view functions for querying claim status.
+ * and paginated view functions for querying the pending and completed claims of each user, as well as all
+ * pending claims.
+ *
+ * Also provides an optional circuit breaker on outflows, disabled by default:
+ *
+ * - A claim delay, recorded in each claim as `claimableAt`. Until then the claim cannot be handled, and a guardian
+ *   can block it with {_blockClaim}.
+ * - Per-epoch limits on the cleartext amounts claimed, both globally and per recipient (see {_setOutflowLimits}).
+ *   Epochs are fixed windows of `epochDuration` seconds, and amounts are in confidential units.
+ *
+ * This helper does not include public setters. Inheriting contracts must expose {_setClaimDelay},
+ * {_setOutflowLimits}, {_blockClaim} and {_unblockClaim} behind the access control of their choice.
  */
 abstract contract FHERC20WrapperClaimHelper {
     using EnumerableSet for EnumerableSet.Bytes32Set;
@@ -20,44 +32,220 @@ abstract contract FHERC20WrapperClaimHelper {
         uint64 requestedAmount;
         uint64 decryptedAmount;
         bool claimed;
+        uint64 maxRelayerFee;
+        uint64 claimableAt;
+        bool blocked;
+    }
+
+    /// @dev Call recorded at unshield time, executed with the payout by `claimUnshieldedAndCall`.
+    struct ClaimCall {
+        address target;
+        bytes data;
     }
 
     mapping(bytes32 ctHash => Claim) private _claims;
     mapping(address => EnumerableSet.Bytes32Set) private _userClaims;
+    mapping(bytes32 ctHash => ClaimCall) private _claimCalls;
+    mapping(address => bytes32[]) private _userCompletedClaims;
+    EnumerableSet.Bytes32Set private _pendingClaims;
+    euint64 private _pendingClaimLiabilities;
+
+    uint64 private _claimDelay;
+    uint64 private _epochDuration;
+    uint64 private _globalOutflowLimit;
+    uint64 private _recipientOutflowLimit;
+    mapping(uint256 epoch => uint256) private _epochOutflow;
+    mapping(uint256 epoch => mapping(address recipient => uint256)) private _recipientEpochOutflow;
+
+    /// @dev Emitted when the delay between the creation of a claim and its handling is set to `delay` seconds.
+    event ClaimDelayUpdated(uint64 delay);
+
+    /// @dev Emitted when the per-epoch outflow limits are updated. A limit of zero means no limit.
+    event OutflowLimitsUpdated(uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit);
+
+    /// @dev Emitted when the claim `ctHash` is blocked by `guardian`.
+    event ClaimBlocked(bytes32 indexed ctHash, address indexed guardian);
+
+    /// @dev Emitted when the claim `ctHash` is unblocked by `guardian`.
+    event ClaimUnblocked(bytes32 indexed ctHash, address indexed guardian);
 
     error ClaimNotFound();
     error AlreadyClaimed();
     error LengthMismatch();
+    error ClaimCallNotFound();
+    error ClaimCallRecorded();
+    error ClaimNotReady(uint64 claimableAt);
+    error ClaimIsBlocked();
+    error ClaimNotBlocked();
+    error ClaimDelayElapsed();
+    error GlobalOutflowLimitExceeded(uint256 outflow, uint256 limit);
+    error RecipientOutflowLimitExceeded(address recipient, uint256 outflow, uint256 limit);
 
     function _createClaim(address to, uint64 requestedAmount, euint64 claimable) internal {
+        _createClaim(to, requestedAmount, claimable, 0);
+    }
+
+    /**
+     * @dev Creates a claim for `to` that lets a relayer keep up to `maxRelayerFee` (in confidential units) of the
+     * decrypted amount as a fee for submitting the claim. See {_relayerFee}.
+     */
+    function _createClaim(
+        address to,
+        uint64 requestedAmount,
+        euint64 claimable,
+        uint64 maxRelayerFee
+    ) internal virtual {
         bytes32 unwrappedHash = FHE.unwrap(claimable);
         _claims[unwrappedHash] = Claim({
             to: to,
             ctHash: unwrappedHash,
             requestedAmount: requestedAmount,
             decryptedAmount: 0,
-            claimed: false
+            claimed: false,
+            maxRelayerFee: maxRelayerFee,
+            claimableAt: uint64(block.timestamp) + _claimDelay,
+            blocked: false
         });
         _userClaims[to].add(unwrappedHash);
+        _pendingClaims.add(unwrappedHash);
+
+        _pendingClaimLiabilities = FHE.add(_pendingClaimLiabilities, claimable);
+        FHE.allowThis(_pendingClaimLiabilities);
     }
 
+    /**
+     * @dev Verifies the decryption of the claim `ctHash` and marks it as claimed. Reverts with {ClaimCallRecorded} for
+     * claims recorded with a call, which must be handled with {_handleClaimCall} so that their payout goes to the call
+     * target.
+     *
+     * The returned claim is paid to its payee (see {_claimPayee}), which the outflow limit applies to and which the
+     * claim is recorded as completed for. The stored claim keeps its original recipient.
+     */
     function _handleClaim(
         bytes32 ctHash,
         uint64 decryptedAmount,
         bytes memory decryptionProof
-    ) internal returns (Claim memory claim) {
+    ) internal virtual returns (Claim memory claim) {
         claim = _claims[ctHash];
 
         if (claim.to == address(0)) revert ClaimNotFound();
         if (claim.claimed) revert AlreadyClaimed();
+        if (claim.blocked) revert ClaimIsBlocked();
+        if (block.timestamp < claim.claimableAt) revert ClaimNotReady(claim.claimableAt);
+        if (_claimCalls[ctHash].target != address(0)) revert ClaimCallRecorded();
 
         FHE.verifyDecryptResult(FHE.wrapEuint64(ctHash), decryptedAmount, decryptionProof);
+        address payee = _claimPayee(ctHash, claim.to);
+        _consumeOutflow(payee, decryptedAmount);
+
+        _userClaims[claim.to].remove(ctHash);
+        _pendingClaims.remove(ctHash);
+        _userCompletedClaims[payee].push(ctHash);
 
         claim.decryptedAmount = decryptedAmount;
         claim.claimed = true;
 
         _claims[ctHash] = claim;
-        _userClaims[claim.to].remove(ctHash);
+        claim.to = payee;
+
+        _pendingClaimLiabilities = FHE.sub(_pendingClaimLiabilities, FHE.asEuint64(decryptedAmount));
+        FHE.allowThis(_pendingClaimLiabilities);
+    }
+
+    /// @dev Sets the delay between the creation of a claim and its handling. Only applies to new claims.
+    function _setClaimDelay(uint64 delay) internal {
+        _claimDelay = delay;
+        emit ClaimDelayUpdated(delay);
+    }
+
+    /**
+     * @dev Limits the amounts claimed per window of `epochDuration` seconds to `globalLimit` in total and to
+     * `recipientLimit` per claim recipient. A limit of zero means no limit, and an `epochDuration` of zero disables
+     * rate limiting.
+     *
+     * NOTE: Outflows are accounted per epoch start timestamp. Changing `epochDuration` keeps the outflow of an
+     * epoch that starts at the same timestamp.
+     */
+    function _setOutflowLimits(uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit) internal {
+        _epochDuration = epochDuration;
+        _globalOutflowLimit = globalLimit;
+        _recipientOutflowLimit = recipientLimit;
+        emit OutflowLimitsUpdated(epochDuration, globalLimit, recipientLimit);
+    }
+
+    /**
+     * @dev Blocks the pending claim `ctHash` until it is unblocked with {_unblockClaim}. Only possible before its
+     * `claimableAt` timestamp.
+     */
+    function _blockClaim(bytes32 ctHash) internal {
+        Claim storage claim = _claims[ctHash];
+
+        if (claim.to == address(0)) revert ClaimNotFound();
+        if (claim.claimed) revert AlreadyClaimed();
+        if (claim.blocked) revert ClaimIsBlocked();
+        if (block.timestamp >= claim.claimableAt) revert ClaimDelayElapsed();
+
+        claim.blocked = true;
+        emit ClaimBlocked(ctHash, msg.sender);
+    }
+
+    /// @dev Unblocks the claim `ctHash`. It can be handled as soon as its `claimableAt` timestamp is reached.
+    function _unblockClaim(bytes32 ctHash) internal {
+        Claim storage claim = _claims[ctHash];
+        if (!claim.blocked) revert ClaimNotBlocked();
+
+        claim.blocked = false;
+        emit ClaimUnblocked(ctHash, msg.sender);
+    }
+
+    /// @dev Adds `amount` to the outflows of the current epoch. Reverts if a limit is exceeded.
+    function _consumeOutflow(address recipient, uint64 amount) private {
+        if (_epochDuration == 0) return;
+        uint256 epoch = currentEpoch();
+
+        uint256 globalOutflow = _epochOutflow[epoch] + amount;
+        if (_globalOutflowLimit != 0 && globalOutflow > _globalOutflowLimit) {
+            revert GlobalOutflowLimitExceeded(globalOutflow, _globalOutflowLimit);
+        }
+
+        uint256 recipientOutflow = _recipientEpochOutflow[epoch][recipient] + amount;
+        if (_recipientOutflowLimit != 0 && recipientOutflow > _recipientOutflowLimit) {
+            revert RecipientOutflowLimitExceeded(recipient, recipientOutflow, _recipientOutflowLimit);
+        }
+
+        _epochOutflow[epoch] = globalOutflow;
+        _recipientEpochOutflow[epoch][recipient] = recipientOutflow;
+    }
+
+    /// @dev Records a call to `target` with `data` to be executed with the payout of the claim `ctHash`.
+    function _createClaimCall(bytes32 ctHash, address target, bytes memory data) internal virtual {
+        _claimCalls[ctHash] = ClaimCall({ target: target, data: data });
+    }
+
+    /// @dev Returns the account that the claim `ctHash` of `to` is paid to when it is handled. Defaults to `to`.
+    function _claimPayee(bytes32 /* ctHash */, address to) internal virtual returns (address) {
+        return to;
+    }
+
+    /**
+     * @dev Handles the claim `ctHash` recorded with a call (see {_handleClaim}), and returns the call to execute with
+     * its payout. The call is deleted. Reverts with {ClaimCallNotFound} if the claim has no call.
+     */
+    function _handleClaimCall(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) internal returns (Claim memory claim, ClaimCall memory claimCall) {
+        claimCall = _claimCalls[ctHash];
+        if (claimCall.target == address(0)) revert ClaimCallNotFound();
+
+        delete _claimCalls[ctHash];
+        claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+    }
+
+    /// @dev Returns the relayer fee of a handled `claim`: its `maxRelayerFee`, capped at the decrypted amount.
+    function _relayerFee(Claim memory claim) internal pure returns (uint64) {
+        return claim.maxRelayerFee < claim.decryptedAmount ? claim.maxRelayerFee : claim.decryptedAmount;
     }
 
     function _handleClaimBatch(
@@ -79,11 +267,99 @@ abstract contract FHERC20WrapperClaimHelper {
         return _claims[ctHash];
     }
 
-    function getUserClaims(address user) public view returns (Claim[] memory userClaims) {
-        bytes32[] memory ctHashes = _userClaims[user].values();
-        userClaims = new Claim[](ctHashes.length);
+    function getClaimCall(bytes32 ctHash) public view returns (ClaimCall memory) {
+        return _claimCalls[ctHash];
+    }
+
+    function claimDelay() public view returns (uint64) {
+        return _claimDelay;
+    }
+
+    function outflowLimits() public view returns (uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit) {
+        return (_epochDuration, _globalOutflowLimit, _recipientOutflowLimit);
+    }
+
+    /// @dev Returns the start timestamp of the current epoch, or 0 if rate limiting is disabled.
+    function currentEpoch() public view returns (uint256) {
+        if (_epochDuration == 0) return 0;
+        return block.timestamp - (block.timestamp % _epochDuration);
+    }
+
+    /// @dev Returns the total amount claimed during `epoch`.
+    function epochOutflow(uint256 epoch) public view returns (uint256) {
+        return _epochOutflow[epoch];
+    }
+
+    /// @dev Returns the amount claimed to `recipient` during `epoch`.
+    function recipientEpochOutflow(uint256 epoch, address recipient) public view returns (uint256) {
+        return _recipientEpochOutflow[epoch][recipient];
+    }
+
+    /**
+     * @dev Returns all pending claims of `user`.
+     *
+     * @custom:deprecated The return value is unbounded, use the paginated {getUserClaims} instead.
+     */
+    function getUserClaims(address user) public view returns (Claim[] memory) {
+        return _getClaims(_userClaims[user].values());
+    }
+
+    /**
+     * @dev Returns up to `limit` pending claims of `user`, starting at index `offset`.
+     *
+     * NOTE: Handling a claim moves the last pending claim of the user into its index, so the order of pending
+     * claims can change between calls.
+     */
+    function getUserClaims(address user, uint256 offset, uint256 limit) public view returns (Claim[] memory) {
+        return _getClaims(_userClaims[user].values(offset, Math.saturatingAdd(offset, limit)));
+    }
+
+    /// @dev Returns up to `limit` completed claims of `user`, starting at index `offset`, in handling order.
+    function getUserCompletedClaims(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (Claim[] memory userClaims) {
+        bytes32[] storage ctHashes = _userCompletedClaims[user];
+        uint256 end = Math.min(Math.saturatingAdd(offset, limit), ctHashes.length);
+        uint256 start = Math.min(offset, end);
+
+        userClaims = new Claim[](end - start);
+        for (uint256 i = 0; i < userClaims.length; i++) {
+            userClaims[i] = _claims[ctHashes[start + i]];
+        }
+    }
+
+    /// @dev Returns the number of pending and completed claims of `user`.
+    function getClaimsCount(address user) public view returns (uint256 pending, uint256 completed) {
+        return (_userClaims[user].length(), _userCompletedClaims[user].length);
+    }
+
+    /**
+     * @dev Returns up to `limit` pending claims of all users, starting at index `offset`. The order can change
+     * between calls, see {getUserClaims}.
+     */
+    function getPendingClaims(uint256 offset, uint256 limit) public view returns (Claim[] memory) {
+        return _getClaims(_pendingClaims.values(offset, Math.saturatingAdd(offset, limit)));
+    }
+
+    /// @dev Returns the number of pending claims of all users.
+    function getPendingClaimsCount() public view returns (uint256) {
+        return _pendingClaims.length();
+    }
+
+    /**
+     * @dev Returns the encrypted total amount of the pending claims, in confidential units. Only this contract can use
+     * it, see {FHERC20WrapperBase-requestSupplyAttestation}.
+     */
+    function pendingClaimLiabilities() public view returns (euint64) {
+        return _pendingClaimLiabilities;
+    }
+
+    function _getClaims(bytes32[] memory ctHashes) private view returns (Claim[] memory claims) {
+        claims = new Claim[](ctHashes.length);
         for (uint256 i = 0; i < ctHashes.length; i++) {
-            userClaims[i] = _claims[ctHashes[i]];
+            claims[i] = _claims[ctHashes[i]];
         }
     }
 }
@@ -4,12 +4,20 @@ pragma solidity ^0.8.25;
 import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 
 import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
 import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /**
  * @dev Upgradeable abstract helper that manages pending unshield claims for {FHERC20} wrapper contracts.
  *
- * Uses ERC-7201 namespaced storage for upgrade safety.
+ * Uses ERC-7201 namespaced storage for upgrade safety. See {FHERC20WrapperClaimHelper} for the claim delay,
+ * guardian blocks and per-epoch outflow limits.
+ *
+ * NOTE: After an upgrade from a version without {getPendingClaims} and {getUserCompletedClaims}, claims that were
+ * pending before the upgrade are not part of the pending claims of all users nor of {pendingClaimLiabilities}, so
+ * supply attestations understate the liabilities until they are claimed. The upgraded contract should pass them to
+ * {_trackPendingClaims} from a reinitializer. Claims completed before the upgrade are never added to the completed
+ * claims of their recipient. {getUserClaims} and {getClaim} still return them.
  */
 abstract contract FHERC20WrapperClaimHelperUpgradeable is Initializable {
     using EnumerableSet for EnumerableSet.Bytes32Set;
@@ -20,12 +28,31 @@ abstract contract FHERC20WrapperClaimHelperUpgradeable is Initializable {
         uint64 requestedAmount;
         uint64 decryptedAmount;
         bool claimed;
+        uint64 maxRelayerFee;
+        uint64 claimableAt;
+        bool blocked;
+    }
+
+    /// @dev Call recorded at unshield time, executed with the payout by `claimUnshieldedAndCall`.
+    struct ClaimCall {
+        address target;
+        bytes data;
     }
 
     /// @custom:storage-location erc7201:fherc20.storage.FHERC20WrapperClaimHelper
     struct FHERC20WrapperClaimHelperStorage {
         mapping(bytes32 ctHash => Claim) _claims;
         mapping(address => EnumerableSet.Bytes32Set) _userClaims;
+        mapping(bytes32 ctHash => ClaimCall) _claimCalls;
+        uint64 _claimDelay;
+        uint64 _epochDuration;
+        uint64 _globalOutflowLimit;
+        uint64 _recipientOutflowLimit;
+        mapping(uint256 epoch => uint256) _epochOutflow;
+        mapping(uint256 epoch => mapping(address recipient => uint256)) _recipientEpochOutflow;
+        mapping(address => bytes32[]) _userCompletedClaims;
+        EnumerableSet.Bytes32Set _pendingClaims;
+        euint64 _pendingClaimLiabilities;
     }
 
     // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20WrapperClaimHelper")) - 1)) & ~bytes32(uint256(0xff))
@@ -42,15 +69,48 @@ abstract contract FHERC20WrapperClaimHelperUpgradeable is Initializable {
         }
     }
 
+    /// @dev Emitted when the delay between the creation of a claim and its handling is set to `delay` seconds.
+    event ClaimDelayUpdated(uint64 delay);
+
+    /// @dev Emitted when the per-epoch outflow limits are updated. A limit of zero means no limit.
+    event OutflowLimitsUpdated(uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit);
+
+    /// @dev Emitted when the claim `ctHash` is blocked by `guardian`.
+    event ClaimBlocked(bytes32 indexed ctHash, address indexed guardian);
+
+    /// @dev Emitted when the claim `ctHash` is unblocked by `guardian`.
+    event ClaimUnblocked(bytes32 indexed ctHash, address indexed guardian);
+
     error ClaimNotFound();
     error AlreadyClaimed();
     error LengthMismatch();
+    error ClaimCallNotFound();
+    error ClaimCallRecorded();
+    error ClaimNotReady(uint64 claimableAt);
+    error ClaimIsBlocked();
+    error ClaimNotBlocked();
+    error ClaimDelayElapsed();
+    error GlobalOutflowLimitExceeded(uint256 outflow, uint256 limit);
+    error RecipientOutflowLimitExceeded(address recipient, uint256 outflow, uint256 limit);
 
     function __FHERC20WrapperClaimHelper_init() internal onlyInitializing {}
 
     function __FHERC20WrapperClaimHelper_init_unchained() internal onlyInitializing {}
 
     function _createClaim(address to, uint64 requestedAmount, euint64 claimable) internal {
+        _createClaim(to, requestedAmount, claimable, 0);
+    }
+
+    /**
+     * @dev Creates a claim for `to` that lets a relayer keep up to `maxRelayerFee` (in confidential units) of the
+     * decrypted amount as a fee for submitting the claim. See {_relayerFee}.
+     */
+    function _createClaim(
+        address to,
+        uint64 requestedAmount,
+        euint64 claimable,
+        uint64 maxRelayerFee
+    ) internal virtual {
         FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
         bytes32 unwrappedHash = FHE.unwrap(claimable);
         $._claims[unwrappedHash] = Claim({
@@ -58,29 +118,155 @@ abstract contract FHERC20WrapperClaimHelperUpgradeable is Initializable {
             ctHash: unwrappedHash,
             requestedAmount: requestedAmount,
             decryptedAmount: 0,
-            claimed: false
+            claimed: false,
+            maxRelayerFee: maxRelayerFee,
+            claimableAt: uint64(block.timestamp) + $._claimDelay,
+            blocked: false
         });
         $._userClaims[to].add(unwrappedHash);
+        $._pendingClaims.add(unwrappedHash);
+
+        $._pendingClaimLiabilities = FHE.add($._pendingClaimLiabilities, claimable);
+        FHE.allowThis($._pendingClaimLiabilities);
     }
 
     function _handleClaim(
         bytes32 ctHash,
         uint64 decryptedAmount,
         bytes memory decryptionProof
-    ) internal returns (Claim memory claim) {
+    ) internal virtual returns (Claim memory claim) {
         FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
         claim = $._claims[ctHash];
 
         if (claim.to == address(0)) revert ClaimNotFound();
         if (claim.claimed) revert AlreadyClaimed();
+        if (claim.blocked) revert ClaimIsBlocked();
+        if (block.timestamp < claim.claimableAt) revert ClaimNotReady(claim.claimableAt);
+        if ($._claimCalls[ctHash].target != address(0)) revert ClaimCallRecorded();
 
         FHE.verifyDecryptResult(FHE.wrapEuint64(ctHash), decryptedAmount, decryptionProof);
+        address payee = _claimPayee(ctHash, claim.to);
+        _consumeOutflow(payee, decryptedAmount);
+
+        $._userClaims[claim.to].remove(ctHash);
+        // Claims pending since before the upgrade that added the pending claims may not be tracked
+        if ($._pendingClaims.remove(ctHash)) {
+            $._pendingClaimLiabilities = FHE.sub($._pendingClaimLiabilities, FHE.asEuint64(decryptedAmount));
+            FHE.allowThis($._pendingClaimLiabilities);
+        }
+        $._userCompletedClaims[payee].push(ctHash);
 
         claim.decryptedAmount = decryptedAmount;
         claim.claimed = true;
 
         $._claims[ctHash] = claim;
-        $._userClaims[claim.to].remove(ctHash);
+        claim.to = payee;
+    }
+
+    /**
+     * @dev Adds the claims `ctHashes` that were pending before the upgrade that introduced {getPendingClaims} to the
+     * pending claims of all users and to {pendingClaimLiabilities}. Meant to be called once from a reinitializer of
+     * the upgraded contract. Unknown, completed and already tracked claims are skipped.
+     */
+    function _trackPendingClaims(bytes32[] memory ctHashes) internal {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        for (uint256 i = 0; i < ctHashes.length; i++) {
+            bytes32 ctHash = ctHashes[i];
+            Claim storage claim = $._claims[ctHash];
+            if (claim.to == address(0) || claim.claimed || !$._pendingClaims.add(ctHash)) continue;
+
+            $._pendingClaimLiabilities = FHE.add($._pendingClaimLiabilities, FHE.wrapEuint64(ctHash));
+            FHE.allowThis($._pendingClaimLiabilities);
+        }
+    }
+
+    /// @dev Sets the delay between the creation of a claim and its handling. Only applies to new claims.
+    function _setClaimDelay(uint64 delay) internal {
+        _getFHERC20WrapperClaimHelperStorage()._claimDelay = delay;
+        emit ClaimDelayUpdated(delay);
+    }
+
+    /// @dev See {FHERC20WrapperClaimHelper-_setOutflowLimits}.
+    function _setOutflowLimits(uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit) internal {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        $._epochDuration = epochDuration;
+        $._globalOutflowLimit = globalLimit;
+        $._recipientOutflowLimit = recipientLimit;
+        emit OutflowLimitsUpdated(epochDuration, globalLimit, recipientLimit);
+    }
+
+    /**
+     * @dev Blocks the pending claim `ctHash` until it is unblocked with {_unblockClaim}. Only possible before its
+     * `claimableAt` timestamp.
+     */
+    function _blockClaim(bytes32 ctHash) internal {
+        Claim storage claim = _getFHERC20WrapperClaimHelperStorage()._claims[ctHash];
+
+        if (claim.to == address(0)) revert ClaimNotFound();
+        if (claim.claimed) revert AlreadyClaimed();
+        if (claim.blocked) revert ClaimIsBlocked();
+        if (block.timestamp >= claim.claimableAt) revert ClaimDelayElapsed();
+
+        claim.blocked = true;
+        emit ClaimBlocked(ctHash, msg.sender);
+    }
+
+    /// @dev Unblocks the claim `ctHash`. It can be handled as soon as its `claimableAt` timestamp is reached.
+    function _unblockClaim(bytes32 ctHash) internal {
+        Claim storage claim = _getFHERC20WrapperClaimHelperStorage()._claims[ctHash];
+        if (!claim.blocked) revert ClaimNotBlocked();
+
+        claim.blocked = false;
+        emit ClaimUnblocked(ctHash, msg.sender);
+    }
+
+    /// @dev Adds `amount` to the outflows of the current epoch. Reverts if a limit is exceeded.
+    function _consumeOutflow(address recipient, uint64 amount) private {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        if ($._epochDuration == 0) return;
+        uint256 epoch = currentEpoch();
+
+        uint256 globalOutflow = $._epochOutflow[epoch] + amount;
+        if ($._globalOutflowLimit != 0 && globalOutflow > $._globalOutflowLimit) {
+            revert GlobalOutflowLimitExceeded(globalOutflow, $._globalOutflowLimit);
+        }
+
+        uint256 recipientOutflow = $._recipientEpochOutflow[epoch][recipient] + amount;
+        if ($._recipientOutflowLimit != 0 && recipientOutflow > $._recipientOutflowLimit) {
+            revert RecipientOutflowLimitExceeded(recipient, recipientOutflow, $._recipientOutflowLimit);
+        }
+
+        $._epochOutflow[epoch] = globalOutflow;
+        $._recipientEpochOutflow[epoch][recipient] = recipientOutflow;
+    }
+
+    /// @dev Records a call to `target` with `data` to be executed with the payout of the claim `ctHash`.
+    function _createClaimCall(bytes32 ctHash, address target, bytes memory data) internal virtual {
+        _getFHERC20WrapperClaimHelperStorage()._claimCalls[ctHash] = ClaimCall({ target: target, data: data });
+    }
+
+    /// @dev See {FHERC20WrapperClaimHelper-_claimPayee}.
+    function _claimPayee(bytes32 /* ctHash */, address to) internal virtual returns (address) {
+        return to;
+    }
+
+    /// @dev See {FHERC20WrapperClaimHelper-_handleClaimCall}.
+    function _handleClaimCall(
+        bytes32 ctHash,
+        uint64 decryptedAmount,
+        bytes memory decryptionProof
+    ) internal returns (Claim memory claim, ClaimCall memory claimCall) {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        claimCall = $._claimCalls[ctHash];
+        if (claimCall.target == address(0)) revert ClaimCallNotFound();
+
+        delete $._claimCalls[ctHash];
+        claim = _handleClaim(ctHash, decryptedAmount, decryptionProof);
+    }
+
+    /// @dev Returns the relayer fee of a handled `claim`: its `maxRelayerFee`, capped at the decrypted amount.
+    function _relayerFee(Claim memory claim) internal pure returns (uint64) {
+        return claim.maxRelayerFee < claim.decryptedAmount ? claim.maxRelayerFee : claim.decryptedAmount;
     }
 
     function _handleClaimBatch(
@@ -102,12 +288,95 @@ abstract contract FHERC20WrapperClaimHelperUpgradeable is Initializable {
         return _getFHERC20WrapperClaimHelperStorage()._claims[ctHash];
     }
 
-    function getUserClaims(address user) public view returns (Claim[] memory userClaims) {
+    function getClaimCall(bytes32 ctHash) public view returns (ClaimCall memory) {
+        return _getFHERC20WrapperClaimHelperStorage()._claimCalls[ctHash];
+    }
+
+    function claimDelay() public view returns (uint64) {
+        return _getFHERC20WrapperClaimHelperStorage()._claimDelay;
+    }
+
+    function outflowLimits() public view returns (uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit) {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        return ($._epochDuration, $._globalOutflowLimit, $._recipientOutflowLimit);
+    }
+
+    /// @dev Returns the start timestamp of the current epoch, or 0 if rate limiting is disabled.
+    function currentEpoch() public view returns (uint256) {
+        uint64 epochDuration = _getFHERC20WrapperClaimHelperStorage()._epochDuration;
+        if (epochDuration == 0) return 0;
+        return block.timestamp - (block.timestamp % epochDuration);
+    }
+
+    /// @dev Returns the total amount claimed during `epoch`.
+    function epochOutflow(uint256 epoch) public view returns (uint256) {
+        return _getFHERC20WrapperClaimHelperStorage()._epochOutflow[epoch];
+    }
+
+    /// @dev Returns the amount claimed to `recipient` during `epoch`.
+    function recipientEpochOutflow(uint256 epoch, address recipient) public view returns (uint256) {
+        return _getFHERC20WrapperClaimHelperStorage()._recipientEpochOutflow[epoch][recipient];
+    }
+
+    /**
+     * @dev See {FHERC20WrapperClaimHelper-getUserClaims}.
+     *
+     * @custom:deprecated The return value is unbounded, use the paginated {getUserClaims} instead.
+     */
+    function getUserClaims(address user) public view returns (Claim[] memory) {
+        return _getClaims(_getFHERC20WrapperClaimHelperStorage()._userClaims[user].values());
+    }
+
+    /// @dev See {FHERC20WrapperClaimHelper-getUserClaims}.
+    function getUserClaims(address user, uint256 offset, uint256 limit) public view returns (Claim[] memory) {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        return _getClaims($._userClaims[user].values(offset, Math.saturatingAdd(offset, limit)));
+    }
+
+    /// @dev Returns up to `limit` completed claims of `user`, starting at index `offset`, in handling order.
+    function getUserCompletedClaims(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (Claim[] memory userClaims) {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        bytes32[] storage ctHashes = $._userCompletedClaims[user];
+        uint256 end = Math.min(Math.saturatingAdd(offset, limit), ctHashes.length);
+        uint256 start = Math.min(offset, end);
+
+        userClaims = new Claim[](end - start);
+        for (uint256 i = 0; i < userClaims.length; i++) {
+            userClaims[i] = $._claims[ctHashes[start + i]];
+        }
+    }
+
+    /// @dev Returns the number of pending and completed claims of `user`.
+    function getClaimsCount(address user) public view returns (uint256 pending, uint256 completed) {
         FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
-        bytes32[] memory ctHashes = $._userClaims[user].values();
-        userClaims = new Claim[](ctHashes.length);
+        return ($._userClaims[user].length(), $._userCompletedClaims[user].length);
+    }
+
+    /// @dev See {FHERC20WrapperClaimHelper-getPendingClaims}.
+    function getPendingClaims(uint256 offset, uint256 limit) public view returns (Claim[] memory) {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        return _getClaims($._pendingClaims.values(offset, Math.saturatingAdd(offset, limit)));
+    }
+
+    /// @dev Returns the number of pending claims of all users.
+    function getPendingClaimsCount() public view returns (uint256) {
+        return _getFHERC20WrapperClaimHelperStorage()._pendingClaims.length();
+    }
+
+    /// @dev See {FHERC20WrapperClaimHelper-pendingClaimLiabilities}.
+    function pendingClaimLiabilities() public view returns (euint64) {
+        return _getFHERC20WrapperClaimHelperStorage()._pendingClaimLiabilities;
+    }
+
+    function _getClaims(bytes32[] memory ctHashes) private view returns (Claim[] memory claims) {
+        FHERC20WrapperClaimHelperStorage storage $ = _getFHERC20WrapperClaimHelperStorage();
+        claims = new Claim[](ctHashes.length);
         for (uint256 i = 0; i < ctHashes.length; i++) {
-            userClaims[i] = $._claims[ctHashes[i]];
+            claims[i] = $._claims[ctHashes[i]];
         }
     }
 }
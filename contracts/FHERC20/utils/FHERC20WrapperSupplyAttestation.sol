@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @dev Abstract helper that lets {FHERC20} wrappers attest that their reserves cover their liabilities.
+ *
+ * An attestation is requested with {_requestSupplyAttestation}, which makes the encrypted liabilities (the total
+ * supply plus the pending claims) publicly decryptable and records the reserves at that time. Anyone can then decrypt
+ * the liabilities off-chain and submit them with {submitSupplyAttestation}. The decryption proof is verified on-chain
+ * and a {SupplyAttested} event reports the reserve ratio, so auditors and dashboards do not need to trust the
+ * submitter.
+ *
+ * A new attestation cannot be requested while the previous one waits for its decrypted liabilities, until
+ * {_supplyAttestationTimeout} has passed since its request.
+ *
+ * All amounts are in confidential units. The reserve ratio is a fixed point number with 18 decimals, where `1e18`
+ * means that the reserves exactly cover the liabilities.
+ */
+abstract contract FHERC20WrapperSupplyAttestation {
+    struct SupplyAttestation {
+        euint64 liabilities;
+        uint64 requestedAt;
+        bool attested;
+        uint64 attestedLiabilities;
+        uint256 reserves;
+    }
+
+    SupplyAttestation private _supplyAttestation;
+
+    /// @dev Emitted when the encrypted `liabilities` are made publicly decryptable for an attestation.
+    event SupplyAttestationRequested(euint64 indexed liabilities, uint256 reserves);
+
+    /**
+     * @dev Emitted when the decrypted `liabilities` of an attestation are verified. `reserveRatio` is `reserves`
+     * divided by `liabilities`.
+     */
+    event SupplyAttested(uint64 liabilities, uint256 reserves, uint256 reserveRatio);
+
+    /// @dev There is no supply attestation waiting for its decrypted liabilities.
+    error SupplyAttestationNotRequested();
+
+    /// @dev The previous supply attestation waits for its decrypted liabilities until `expiresAt`.
+    error SupplyAttestationPending(uint64 expiresAt);
+
+    /**
+     * @dev Submits the decrypted liabilities of the last requested attestation with their `decryptionProof`, and
+     * emits a {SupplyAttested} event with the resulting reserve ratio.
+     */
+    function submitSupplyAttestation(uint64 liabilities, bytes memory decryptionProof) public virtual {
+        SupplyAttestation storage attestation = _supplyAttestation;
+        if (attestation.requestedAt == 0 || attestation.attested) revert SupplyAttestationNotRequested();
+
+        FHE.verifyDecryptResult(attestation.liabilities, liabilities, decryptionProof);
+
+        attestation.attested = true;
+        attestation.attestedLiabilities = liabilities;
+
+        uint256 reserveRatio = liabilities == 0
+            ? type(uint256).max
+            : Math.mulDiv(attestation.reserves, 1e18, liabilities);
+
+        emit SupplyAttested(liabilities, attestation.reserves, reserveRatio);
+    }
+
+    /// @dev Returns the last requested supply attestation.
+    function supplyAttestation() public view returns (SupplyAttestation memory) {
+        return _supplyAttestation;
+    }
+
+    /**
+     * @dev Requests an attestation of the encrypted `liabilities` against `reserves`. Replaces the previous
+     * attestation, and reverts with {SupplyAttestationPending} if it was neither attested nor requested more than
+     * {_supplyAttestationTimeout} ago. Returns `liabilities`, now publicly decryptable.
+     */
+    function _requestSupplyAttestation(euint64 liabilities, uint256 reserves) internal returns (euint64) {
+        SupplyAttestation storage attestation = _supplyAttestation;
+        if (attestation.requestedAt != 0 && !attestation.attested) {
+            uint64 expiresAt = attestation.requestedAt + _supplyAttestationTimeout();
+            if (block.timestamp < expiresAt) revert SupplyAttestationPending(expiresAt);
+        }
+
+        FHE.allowPublic(liabilities);
+
+        _supplyAttestation = SupplyAttestation({
+            liabilities: liabilities,
+            requestedAt: uint64(block.timestamp),
+            attested: false,
+            attestedLiabilities: 0,
+            reserves: reserves
+        });
+
+        emit SupplyAttestationRequested(liabilities, reserves);
+        return liabilities;
+    }
+
+    /// @dev Returns how long a requested attestation blocks new requests while it waits for its decrypted liabilities.
+    function _supplyAttestationTimeout() internal view virtual returns (uint64) {
+        return 1 hours;
+    }
+}
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @dev Upgradeable variant of {FHERC20WrapperSupplyAttestation}.
+ *
+ * Uses ERC-7201 namespaced storage for upgrade safety.
+ */
+abstract contract FHERC20WrapperSupplyAttestationUpgradeable is Initializable {
+    struct SupplyAttestation {
+        euint64 liabilities;
+        uint64 requestedAt;
+        bool attested;
+        uint64 attestedLiabilities;
+        uint256 reserves;
+    }
+
+    /// @custom:storage-location erc7201:fherc20.storage.FHERC20WrapperSupplyAttestation
+    struct FHERC20WrapperSupplyAttestationStorage {
+        SupplyAttestation _supplyAttestation;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("fherc20.storage.FHERC20WrapperSupplyAttestation")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant FHERC20WrapperSupplyAttestationStorageLocation =
+        0x370d4702269f3e4cad375257c829c707af3bf1ef6b53fc5c78818f1bc7ae6100;
+
+    function _getFHERC20WrapperSupplyAttestationStorage()
+        private
+        pure
+        returns (FHERC20WrapperSupplyAttestationStorage storage $)
+    {
+        assembly {
+            $.slot := FHERC20WrapperSupplyAttestationStorageLocation
+        }
+    }
+
+    /// @dev See {FHERC20WrapperSupplyAttestation-SupplyAttestationRequested}.
+    event SupplyAttestationRequested(euint64 indexed liabilities, uint256 reserves);
+
+    /// @dev See {FHERC20WrapperSupplyAttestation-SupplyAttested}.
+    event SupplyAttested(uint64 liabilities, uint256 reserves, uint256 reserveRatio);
+
+    /// @dev There is no supply attestation waiting for its decrypted liabilities.
+    error SupplyAttestationNotRequested();
+
+    /// @dev The previous supply attestation waits for its decrypted liabilities until `expiresAt`.
+    error SupplyAttestationPending(uint64 expiresAt);
+
+    function __FHERC20WrapperSupplyAttestation_init() internal onlyInitializing {}
+
+    function __FHERC20WrapperSupplyAttestation_init_unchained() internal onlyInitializing {}
+
+    /// @dev See {FHERC20WrapperSupplyAttestation-submitSupplyAttestation}.
+    function submitSupplyAttestation(uint64 liabilities, bytes memory decryptionProof) public virtual {
+        SupplyAttestation storage attestation = _getFHERC20WrapperSupplyAttestationStorage()._supplyAttestation;
+        if (attestation.requestedAt == 0 || attestation.attested) revert SupplyAttestationNotRequested();
+
+        FHE.verifyDecryptResult(attestation.liabilities, liabilities, decryptionProof);
+
+        attestation.attested = true;
+        attestation.attestedLiabilities = liabilities;
+
+        uint256 reserveRatio = liabilities == 0
+            ? type(uint256).max
+            : Math.mulDiv(attestation.reserves, 1e18, liabilities);
+
+        emit SupplyAttested(liabilities, attestation.reserves, reserveRatio);
+    }
+
+    /// @dev See {FHERC20WrapperSupplyAttestation-supplyAttestation}.
+    function supplyAttestation() public view returns (SupplyAttestation memory) {
+        return _getFHERC20WrapperSupplyAttestationStorage()._supplyAttestation;
+    }
+
+    /// @dev See {FHERC20WrapperSupplyAttestation-_requestSupplyAttestation}.
+    function _requestSupplyAttestation(euint64 liabilities, uint256 reserves) internal returns (euint64) {
+        FHERC20WrapperSupplyAttestationStorage storage $ = _getFHERC20WrapperSupplyAttestationStorage();
+        if ($._supplyAttestation.requestedAt != 0 && !$._supplyAttestation.attested) {
+            uint64 expiresAt = $._supplyAttestation.requestedAt + _supplyAttestationTimeout();
+            if (block.timestamp < expiresAt) revert SupplyAttestationPending(expiresAt);
+        }
+
+        FHE.allowPublic(liabilities);
+
+        $._supplyAttestation = SupplyAttestation({
+            liabilities: liabilities,
+            requestedAt: uint64(block.timestamp),
+            attested: false,
+            attestedLiabilities: 0,
+            reserves: reserves
+        });
+
+        emit SupplyAttestationRequested(liabilities, reserves);
+        return liabilities;
+    }
+
+    /// @dev See {FHERC20WrapperSupplyAttestation-_supplyAttestationTimeout}.
+    function _supplyAttestationTimeout() internal view virtual returns (uint64) {
+        return 1 hours;
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { FHERC20ERC20WrapperUpgradeable } from "../FHERC20/extensions/FHERC20ERC20WrapperUpgradeable.sol";
+
+/**
+ * @dev Implementation of the canonical ERC-20 wrappers deployed by {FHERC20WrapperFactory}.
+ *
+ * Each wrapper is a minimal proxy of this contract, initialized once by the factory. Canonical wrappers have no
+ * owner: they cannot be upgraded, paused or rate limited.
+ */
+contract FHERC20CanonicalERC20Wrapper is FHERC20ERC20WrapperUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        IERC20 underlying_,
+        string memory name_,
+        string memory symbol_,
+        string memory contractURI_
+    ) public initializer {
+        __FHERC20ERC20Wrapper_init(underlying_);
+        __FHERC20_init(name_, symbol_, decimals(), contractURI_);
+    }
+}
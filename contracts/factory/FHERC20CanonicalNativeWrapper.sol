@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IWETH } from "../interfaces/IWETH.sol";
+import { FHERC20NativeWrapperUpgradeable } from "../FHERC20/extensions/FHERC20NativeWrapperUpgradeable.sol";
+
+/**
+ * @dev Implementation of the canonical native wrapper deployed by {FHERC20WrapperFactory}.
+ *
+ * The wrapper is a minimal proxy of this contract, initialized once by the factory. It has no owner: it cannot be
+ * upgraded, paused or rate limited.
+ */
+contract FHERC20CanonicalNativeWrapper is FHERC20NativeWrapperUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        IWETH weth_,
+        string memory name_,
+        string memory symbol_,
+        string memory contractURI_
+    ) public initializer {
+        __FHERC20NativeWrapper_init(weth_);
+        __FHERC20_init(name_, symbol_, decimals(), contractURI_);
+    }
+}
@@ -0,0 +1,154 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { IERC20Metadata } from "@openzeppelin/contracts/interfaces/IERC20Metadata.sol";
+import { Clones } from "@openzeppelin/contracts/proxy/Clones.sol";
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+import { IFHERC20WrapperFactory } from "../interfaces/IFHERC20WrapperFactory.sol";
+import { IWETH } from "../interfaces/IWETH.sol";
+import { FHERC20CanonicalERC20Wrapper } from "./FHERC20CanonicalERC20Wrapper.sol";
+import { FHERC20CanonicalNativeWrapper } from "./FHERC20CanonicalNativeWrapper.sol";
+
+/**
+ * @dev Permissionless factory and registry of canonical {FHERC20} wrappers, one per underlying token.
+ *
+ * Wrappers are minimal proxies of {FHERC20CanonicalERC20Wrapper} deployed with CREATE2, salted by the underlying
+ * address, so their address can be computed before deployment with {predictWrapperAddress}. Their name and symbol
+ * are derived from the underlying metadata: `FHERC20 <name>` and `e<symbol>` (e.g. `FHERC20 USD Coin` and `eUSDC`).
+ * Tokens without metadata use their address instead.
+ *
+ * The chain's native wrapper is a singleton proxy of {FHERC20CanonicalNativeWrapper} around the WETH given at
+ * construction, registered under {NATIVE_TOKEN}.
+ */
+contract FHERC20WrapperFactory is IFHERC20WrapperFactory {
+    /// @inheritdoc IFHERC20WrapperFactory
+    address public constant NATIVE_TOKEN = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
+    address private immutable _erc20WrapperImplementation;
+    address private immutable _nativeWrapperImplementation;
+    IWETH private immutable _weth;
+
+    mapping(address underlying => address wrapper) private _wrappers;
+    mapping(address wrapper => address underlying) private _underlyings;
+
+    /// @dev `underlying` cannot be wrapped: it is the zero address, {NATIVE_TOKEN}, not a contract or a wrapper.
+    error FHERC20WrapperFactoryInvalidUnderlying(address underlying);
+
+    /// @dev The canonical wrapper of `underlying` is already deployed at `wrapper`.
+    error FHERC20WrapperFactoryWrapperExists(address underlying, address wrapper);
+
+    constructor(
+        FHERC20CanonicalERC20Wrapper erc20WrapperImplementation_,
+        FHERC20CanonicalNativeWrapper nativeWrapperImplementation_,
+        IWETH weth_
+    ) {
+        _erc20WrapperImplementation = address(erc20WrapperImplementation_);
+        _nativeWrapperImplementation = address(nativeWrapperImplementation_);
+        _weth = weth_;
+    }
+
+    /// @inheritdoc IFHERC20WrapperFactory
+    function deployWrapper(IERC20 underlying) public virtual returns (address wrapper) {
+        address token = address(underlying);
+        if (
+            token == address(0) || token == NATIVE_TOKEN || token.code.length == 0 || _underlyings[token] != address(0)
+        ) {
+            revert FHERC20WrapperFactoryInvalidUnderlying(token);
+        }
+
+        (string memory name_, string memory symbol_) = _wrapperMetadata(token);
+        wrapper = _deploy(token, _erc20WrapperImplementation, name_, symbol_);
+        FHERC20CanonicalERC20Wrapper(wrapper).initialize(underlying, name_, symbol_, "");
+    }
+
+    /// @inheritdoc IFHERC20WrapperFactory
+    function deployNativeWrapper() public virtual returns (address wrapper) {
+        (string memory name_, string memory symbol_) = _wrapperMetadata(address(_weth));
+        wrapper = _deploy(NATIVE_TOKEN, _nativeWrapperImplementation, name_, symbol_);
+        FHERC20CanonicalNativeWrapper(payable(wrapper)).initialize(_weth, name_, symbol_, "");
+    }
+
+    /// @inheritdoc IFHERC20WrapperFactory
+    function wrapperOf(address underlying) public view virtual returns (address) {
+        return _wrappers[underlying];
+    }
+
+    /// @inheritdoc IFHERC20WrapperFactory
+    function underlyingOf(address wrapper) public view virtual returns (address) {
+        return _underlyings[wrapper];
+    }
+
+    /// @inheritdoc IFHERC20WrapperFactory
+    function nativeWrapper() public view virtual returns (address) {
+        return _wrappers[NATIVE_TOKEN];
+    }
+
+    /// @inheritdoc IFHERC20WrapperFactory
+    function predictWrapperAddress(address underlying) public view virtual returns (address) {
+        return Clones.predictDeterministicAddress(_implementationOf(underlying), _salt(underlying));
+    }
+
+    /// @dev Returns the implementation of the canonical ERC-20 wrappers.
+    function erc20WrapperImplementation() public view virtual returns (address) {
+        return _erc20WrapperImplementation;
+    }
+
+    /// @dev Returns the implementation of the canonical native wrapper.
+    function nativeWrapperImplementation() public view virtual returns (address) {
+        return _nativeWrapperImplementation;
+    }
+
+    /// @dev Returns the WETH contract wrapped by the canonical native wrapper.
+    function weth() public view virtual returns (address) {
+        return address(_weth);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /// @dev Clones `implementation` for `underlying` and registers it. Emits a {WrapperDeployed} event.
+    function _deploy(
+        address underlying,
+        address implementation,
+        string memory name_,
+        string memory symbol_
+    ) internal virtual returns (address wrapper) {
+        address existing = _wrappers[underlying];
+        if (existing != address(0)) revert FHERC20WrapperFactoryWrapperExists(underlying, existing);
+
+        wrapper = Clones.cloneDeterministic(implementation, _salt(underlying));
+        _wrappers[underlying] = wrapper;
+        _underlyings[wrapper] = underlying;
+
+        emit WrapperDeployed(underlying, wrapper, name_, symbol_);
+    }
+
+    /// @dev Returns the name and symbol of the wrapper of `token`, derived from its metadata.
+    function _wrapperMetadata(address token) internal view virtual returns (string memory, string memory) {
+        string memory fallback_ = Strings.toHexString(token);
+        return (
+            string.concat("FHERC20 ", _tryGetString(token, IERC20Metadata.name.selector, fallback_)),
+            string.concat("e", _tryGetString(token, IERC20Metadata.symbol.selector, fallback_))
+        );
+    }
+
+    function _implementationOf(address underlying) private view returns (address) {
+        return underlying == NATIVE_TOKEN ? _nativeWrapperImplementation : _erc20WrapperImplementation;
+    }
+
+    function _salt(address underlying) private pure returns (bytes32) {
+        return bytes32(uint256(uint160(underlying)));
+    }
+
+    function _tryGetString(
+        address token,
+        bytes4 selector,
+        string memory fallback_
+    ) private view returns (string memory) {
+        (bool success, bytes memory data) = token.staticcall(abi.encodeWithSelector(selector));
+        if (!success || data.length < 64) return fallback_;
+        return abi.decode(data, (string));
+    }
+}
@@ -0,0 +1,269 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC7984 } from "../interfaces/IERC7984.sol";
+import { IERC7984Receiver } from "../interfaces/IERC7984Receiver.sol";
+import { FHERC20UnauthorizedCaller } from "../FHERC20/utils/FHERC20Errors.sol";
+
+/**
+ * @dev Two-party escrow settling OTC trades between two {FHERC20} tokens without revealing the traded amounts.
+ *
+ * 1. The maker opens an order with {createOrder}, naming the taker, both tokens, both encrypted agreed amounts
+ *    and an expiry.
+ * 2. Each side deposits its leg with `confidentialTransferAndCall` or `confidentialTransferFromAndCall` on its
+ *    token, passing `abi.encode(orderId)` as data. The deposit is recorded in {onConfidentialTransferReceived}.
+ * 3. Once both legs are deposited, anyone can {settle} the order before its expiry. Under FHE, the swap only
+ *    happens if both deposits cover the agreed amounts; otherwise both sides are refunded. Any excess deposit
+ *    is refunded either way.
+ *
+ * While an order is missing a deposit, either party can {cancel} it. An order that was not settled before its
+ * expiry can be refunded by anyone with {refundExpired}.
+ *
+ * ACL: agreed amounts, deposits and the encrypted settlement outcome are granted to this contract and both parties.
+ */
+contract FHERC20OTCEscrow is IERC7984Receiver {
+    enum OrderStatus {
+        None,
+        Open,
+        Settled,
+        Cancelled
+    }
+
+    struct Order {
+        address maker;
+        address taker;
+        IERC7984 makerToken;
+        IERC7984 takerToken;
+        uint48 expiry;
+        OrderStatus status;
+        euint64 makerAmount;
+        euint64 takerAmount;
+        euint64 makerDeposit;
+        euint64 takerDeposit;
+    }
+
+    mapping(uint256 orderId => Order) private _orders;
+    mapping(uint256 orderId => ebool) private _swapped;
+    uint256 private _nextOrderId;
+
+    /// @dev Emitted when `maker` opens order `orderId` with `taker`.
+    event OrderCreated(
+        uint256 indexed orderId,
+        address indexed maker,
+        address indexed taker,
+        IERC7984 makerToken,
+        IERC7984 takerToken,
+        uint48 expiry
+    );
+
+    /// @dev Emitted when `account` deposits its leg of order `orderId`.
+    event OrderDeposited(uint256 indexed orderId, address indexed account, euint64 amount);
+
+    /// @dev Emitted when order `orderId` is settled. `swapped` is the encrypted outcome of the swap.
+    event OrderSettled(uint256 indexed orderId, ebool swapped);
+
+    /// @dev Emitted when order `orderId` is cancelled or refunded after expiry.
+    event OrderCancelled(uint256 indexed orderId);
+
+    /// @dev The counterparty is not valid (e.g. `address(0)` or the maker).
+    error FHERC20OTCEscrowInvalidCounterparty(address taker);
+
+    /// @dev The expiry is not in the future.
+    error FHERC20OTCEscrowInvalidExpiry(uint48 expiry);
+
+    /// @dev The order does not exist or is not open.
+    error FHERC20OTCEscrowOrderNotOpen(uint256 orderId);
+
+    /// @dev The order has expired.
+    error FHERC20OTCEscrowOrderExpired(uint256 orderId);
+
+    /// @dev The order has not expired yet.
+    error FHERC20OTCEscrowOrderNotExpired(uint256 orderId);
+
+    /// @dev `account` has already deposited its leg of the order.
+    error FHERC20OTCEscrowAlreadyDeposited(uint256 orderId, address account);
+
+    /// @dev The order is missing at least one deposit.
+    error FHERC20OTCEscrowMissingDeposit(uint256 orderId);
+
+    /// @dev Both legs of the order are deposited, so it can only be settled or refunded after expiry.
+    error FHERC20OTCEscrowFullyDeposited(uint256 orderId);
+
+    /// @dev Returns the order `orderId`.
+    function getOrder(uint256 orderId) public view virtual returns (Order memory) {
+        return _orders[orderId];
+    }
+
+    /// @dev Returns the encrypted outcome of the settlement of order `orderId`.
+    function confidentialSwapped(uint256 orderId) public view virtual returns (ebool) {
+        return _swapped[orderId];
+    }
+
+    /**
+     * @dev Opens an order in which `msg.sender` gives `makerAmount` of `makerToken` to `taker` in exchange for
+     * `takerAmount` of `takerToken`. Returns the order id.
+     *
+     * Emits an {OrderCreated} event.
+     */
+    function createOrder(
+        address taker,
+        IERC7984 makerToken,
+        InEuint64 memory makerAmount,
+        IERC7984 takerToken,
+        InEuint64 memory takerAmount,
+        uint48 expiry
+    ) public virtual returns (uint256 orderId) {
+        if (taker == address(0) || taker == msg.sender) revert FHERC20OTCEscrowInvalidCounterparty(taker);
+        if (expiry <= block.timestamp) revert FHERC20OTCEscrowInvalidExpiry(expiry);
+
+        orderId = _nextOrderId++;
+
+        Order storage order = _orders[orderId];
+        order.maker = msg.sender;
+        order.taker = taker;
+        order.makerToken = makerToken;
+        order.takerToken = takerToken;
+        order.expiry = expiry;
+        order.status = OrderStatus.Open;
+        order.makerAmount = FHE.asEuint64(makerAmount);
+        order.takerAmount = FHE.asEuint64(takerAmount);
+        _allowParties(order, order.makerAmount);
+        _allowParties(order, order.takerAmount);
+
+        emit OrderCreated(orderId, msg.sender, taker, makerToken, takerToken, expiry);
+    }
+
+    /**
+     * @dev Records the deposit of `from`'s leg of the order whose id is abi-encoded in `data`. Reverts, and thus
+     * reverts the transfer, if the order is not open, has expired, if `from` is not a party, if the token is not
+     * the one of `from`'s leg, or if `from` already deposited.
+     */
+    function onConfidentialTransferReceived(
+        address,
+        address from,
+        euint64 amount,
+        bytes calldata data
+    ) public virtual returns (ebool) {
+        uint256 orderId = abi.decode(data, (uint256));
+        Order storage order = _orders[orderId];
+        _checkOpen(orderId, order);
+
+        if (from == order.maker && msg.sender == address(order.makerToken)) {
+            if (FHE.isInitialized(order.makerDeposit)) revert FHERC20OTCEscrowAlreadyDeposited(orderId, from);
+            order.makerDeposit = amount;
+        } else if (from == order.taker && msg.sender == address(order.takerToken)) {
+            if (FHE.isInitialized(order.takerDeposit)) revert FHERC20OTCEscrowAlreadyDeposited(orderId, from);
+            order.takerDeposit = amount;
+        } else {
+            revert FHERC20UnauthorizedCaller(msg.sender);
+        }
+        _allowParties(order, amount);
+
+        emit OrderDeposited(orderId, from, amount);
+
+        ebool accepted = FHE.asEbool(true);
+        FHE.allowTransient(accepted, msg.sender);
+        return accepted;
+    }
+
+    /**
+     * @dev Settles order `orderId`. Both legs must be deposited and the order must not have expired. The agreed
+     * amounts are swapped only if both deposits cover them, otherwise both deposits are refunded.
+     *
+     * Emits an {OrderSettled} event.
+     */
+    function settle(uint256 orderId) public virtual returns (ebool swapped) {
+        Order storage order = _orders[orderId];
+        _checkOpen(orderId, order);
+        if (!FHE.isInitialized(order.makerDeposit) || !FHE.isInitialized(order.takerDeposit)) {
+            revert FHERC20OTCEscrowMissingDeposit(orderId);
+        }
+
+        order.status = OrderStatus.Settled;
+
+        swapped = FHE.and(
+            FHE.gte(order.makerDeposit, order.makerAmount),
+            FHE.gte(order.takerDeposit, order.takerAmount)
+        );
+        _allowParties(order, swapped);
+        _swapped[orderId] = swapped;
+
+        euint64 zero = FHE.asEuint64(0);
+        euint64 makerLeg = FHE.select(swapped, order.makerAmount, zero);
+        euint64 takerLeg = FHE.select(swapped, order.takerAmount, zero);
+
+        _transferOut(order.makerToken, order.taker, makerLeg);
+        _transferOut(order.makerToken, order.maker, FHE.sub(order.makerDeposit, makerLeg));
+        _transferOut(order.takerToken, order.maker, takerLeg);
+        _transferOut(order.takerToken, order.taker, FHE.sub(order.takerDeposit, takerLeg));
+
+        emit OrderSettled(orderId, swapped);
+    }
+
+    /**
+     * @dev Cancels order `orderId` and refunds the deposit made so far. Callable by either party while at least
+     * one leg is missing.
+     *
+     * Emits an {OrderCancelled} event.
+     */
+    function cancel(uint256 orderId) public virtual {
+        Order storage order = _orders[orderId];
+        if (order.status != OrderStatus.Open) revert FHERC20OTCEscrowOrderNotOpen(orderId);
+        if (msg.sender != order.maker && msg.sender != order.taker) revert FHERC20UnauthorizedCaller(msg.sender);
+        if (FHE.isInitialized(order.makerDeposit) && FHE.isInitialized(order.takerDeposit)) {
+            revert FHERC20OTCEscrowFullyDeposited(orderId);
+        }
+
+        _refund(orderId, order);
+    }
+
+    /**
+     * @dev Refunds both deposits of order `orderId` once it has expired without being settled. Callable by anyone.
+     *
+     * Emits an {OrderCancelled} event.
+     */
+    function refundExpired(uint256 orderId) public virtual {
+        Order storage order = _orders[orderId];
+        if (order.status != OrderStatus.Open) revert FHERC20OTCEscrowOrderNotOpen(orderId);
+        if (block.timestamp <= order.expiry) revert FHERC20OTCEscrowOrderNotExpired(orderId);
+
+        _refund(orderId, order);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    function _refund(uint256 orderId, Order storage order) private {
+        order.status = OrderStatus.Cancelled;
+
+        if (FHE.isInitialized(order.makerDeposit)) _transferOut(order.makerToken, order.maker, order.makerDeposit);
+        if (FHE.isInitialized(order.takerDeposit)) _transferOut(order.takerToken, order.taker, order.takerDeposit);
+
+        emit OrderCancelled(orderId);
+    }
+
+    function _checkOpen(uint256 orderId, Order storage order) private view {
+        if (order.status != OrderStatus.Open) revert FHERC20OTCEscrowOrderNotOpen(orderId);
+        if (block.timestamp > order.expiry) revert FHERC20OTCEscrowOrderExpired(orderId);
+    }
+
+    function _transferOut(IERC7984 token, address to, euint64 amount) private {
+        FHE.allowTransient(amount, address(token));
+        token.confidentialTransfer(to, amount);
+    }
+
+    function _allowParties(Order storage order, euint64 value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, order.maker);
+        FHE.allow(value, order.taker);
+    }
+
+    function _allowParties(Order storage order, ebool value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, order.maker);
+        FHE.allow(value, order.taker);
+    }
+}
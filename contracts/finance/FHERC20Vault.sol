@@ -0,0 +1,224 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64, euint128, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC7984 } from "../interfaces/IERC7984.sol";
+import { FHERC20UnauthorizedUseOfEncryptedAmount } from "../FHERC20/utils/FHERC20Errors.sol";
+
+/**
+ * @dev Base for confidential vaults holding an {FHERC20} `asset`, with share accounting in the style of ERC-4626
+ * where shares, deposits and the vault totals are all encrypted.
+ *
+ * Users make the vault an operator on the asset and {deposit} an encrypted amount. Shares are minted for the
+ * amount actually transferred, so a deposit above the balance of the user mints zero shares. {withdraw} burns
+ * the shares matching an encrypted amount of assets, and {redeem} burns an encrypted amount of shares. Both
+ * move zero if the user does not hold enough shares.
+ *
+ * Conversions between assets and shares follow OpenZeppelin's {ERC4626}, including the virtual shares and
+ * assets that mitigate inflation attacks (see {_decimalsOffset}). They are computed on 128 bits under FHE.
+ *
+ * {confidentialTotalAssets} only counts deposited assets. Vaults generating yield override it, e.g. to read the
+ * encrypted balance of the vault on `asset`.
+ *
+ * ACL: the shares of each user are granted to this contract and the user. The totals are only granted to this
+ * contract.
+ */
+abstract contract FHERC20Vault {
+    IERC7984 private immutable _asset;
+
+    mapping(address account => euint64) private _shares;
+    euint64 private _totalShares;
+    euint64 private _totalAssets;
+
+    /// @dev Emitted when `owner` deposits encrypted `assets` in exchange for encrypted `shares`.
+    event ConfidentialDeposit(address indexed owner, euint64 assets, euint64 shares);
+
+    /// @dev Emitted when `owner` withdraws encrypted `assets` by burning encrypted `shares`.
+    event ConfidentialWithdraw(address indexed owner, euint64 assets, euint64 shares);
+
+    constructor(IERC7984 asset_) {
+        _asset = asset_;
+    }
+
+    /// @dev Returns the underlying {FHERC20} asset.
+    function asset() public view virtual returns (IERC7984) {
+        return _asset;
+    }
+
+    /// @dev Returns the encrypted shares of `account`.
+    function confidentialSharesOf(address account) public view virtual returns (euint64) {
+        return _shares[account];
+    }
+
+    /// @dev Returns the encrypted total amount of shares.
+    function confidentialTotalShares() public view virtual returns (euint64) {
+        return _totalShares;
+    }
+
+    /// @dev Returns the encrypted total amount of assets managed by the vault.
+    function confidentialTotalAssets() public view virtual returns (euint64) {
+        return _totalAssets;
+    }
+
+    /**
+     * @dev Returns the encrypted amount of assets the shares of `account` are currently worth, and grants ACL
+     * access to it to `account`.
+     */
+    function confidentialAssetsOf(address account) public virtual returns (euint64 assets) {
+        assets = _convertToAssets(_shares[account], false);
+        FHE.allowThis(assets);
+        FHE.allow(assets, account);
+    }
+
+    /**
+     * @dev Deposits `encryptedAssets` of `asset` from `msg.sender`, who must have made this vault an operator.
+     * Returns the encrypted amount of shares minted.
+     */
+    function deposit(InEuint64 memory encryptedAssets) public virtual returns (euint64) {
+        return _deposit(msg.sender, FHE.asEuint64(encryptedAssets));
+    }
+
+    /// @dev Same as {deposit-InEuint64}, for an encrypted amount `msg.sender` already has ACL access to.
+    function deposit(euint64 assets) public virtual returns (euint64) {
+        if (!FHE.isAllowed(assets, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(assets, msg.sender);
+        return _deposit(msg.sender, assets);
+    }
+
+    /**
+     * @dev Withdraws `encryptedAssets` of `asset` to `msg.sender`, burning the matching shares (rounded up).
+     * Returns the encrypted amount of assets withdrawn.
+     */
+    function withdraw(InEuint64 memory encryptedAssets) public virtual returns (euint64) {
+        return _withdraw(msg.sender, FHE.asEuint64(encryptedAssets));
+    }
+
+    /// @dev Same as {withdraw-InEuint64}, for an encrypted amount `msg.sender` already has ACL access to.
+    function withdraw(euint64 assets) public virtual returns (euint64) {
+        if (!FHE.isAllowed(assets, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(assets, msg.sender);
+        return _withdraw(msg.sender, assets);
+    }
+
+    /**
+     * @dev Burns `encryptedShares` of `msg.sender` and sends the matching assets (rounded down) to `msg.sender`.
+     * Returns the encrypted amount of assets withdrawn.
+     */
+    function redeem(InEuint64 memory encryptedShares) public virtual returns (euint64) {
+        return _redeem(msg.sender, FHE.asEuint64(encryptedShares));
+    }
+
+    /**
+     * @dev Same as {redeem-InEuint64}, for an encrypted amount `msg.sender` already has ACL access to. Pass
+     * {confidentialSharesOf} to redeem the whole position.
+     */
+    function redeem(euint64 shares) public virtual returns (euint64) {
+        if (!FHE.isAllowed(shares, msg.sender)) revert FHERC20UnauthorizedUseOfEncryptedAmount(shares, msg.sender);
+        return _redeem(msg.sender, shares);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Pulls `assets` from `owner` and mints the shares matching the amount actually transferred.
+     *
+     * Emits a {ConfidentialDeposit} event.
+     */
+    function _deposit(address owner, euint64 assets) internal virtual returns (euint64 shares) {
+        FHE.allowTransient(assets, address(_asset));
+        euint64 transferred = _asset.confidentialTransferFrom(owner, address(this), assets);
+
+        shares = _convertToShares(transferred, false);
+        _setTotalAssets(FHE.add(_totalAssets, transferred));
+        _setTotalShares(FHE.add(_totalShares, shares));
+        _setShares(owner, FHE.add(_shares[owner], shares));
+
+        FHE.allow(shares, owner);
+        emit ConfidentialDeposit(owner, transferred, shares);
+    }
+
+    /// @dev Burns the shares matching `assets` (rounded up) and sends `assets` to `owner`, or zero if short.
+    function _withdraw(address owner, euint64 assets) internal virtual returns (euint64) {
+        euint64 shares = _convertToShares(assets, true);
+        ebool enough = FHE.lte(shares, _shares[owner]);
+        return _exit(owner, FHE.select(enough, assets, FHE.asEuint64(0)), FHE.select(enough, shares, FHE.asEuint64(0)));
+    }
+
+    /// @dev Burns `shares` and sends the matching assets (rounded down) to `owner`, or zero if short.
+    function _redeem(address owner, euint64 shares) internal virtual returns (euint64) {
+        ebool enough = FHE.lte(shares, _shares[owner]);
+        shares = FHE.select(enough, shares, FHE.asEuint64(0));
+        return _exit(owner, _convertToAssets(shares, false), shares);
+    }
+
+    /**
+     * @dev Burns `shares` of `owner` and transfers `assets` to `owner`.
+     *
+     * Emits a {ConfidentialWithdraw} event.
+     */
+    function _exit(address owner, euint64 assets, euint64 shares) internal virtual returns (euint64 withdrawn) {
+        _setShares(owner, FHE.sub(_shares[owner], shares));
+        _setTotalShares(FHE.sub(_totalShares, shares));
+        _setTotalAssets(FHE.sub(_totalAssets, assets));
+
+        FHE.allowTransient(assets, address(_asset));
+        withdrawn = _asset.confidentialTransfer(owner, assets);
+
+        FHE.allow(shares, owner);
+        emit ConfidentialWithdraw(owner, withdrawn, shares);
+    }
+
+    /// @dev Converts `assets` to shares, rounding down or up.
+    function _convertToShares(euint64 assets, bool roundUp) internal virtual returns (euint64) {
+        return
+            _mulDiv(
+                assets,
+                FHE.add(_asEuint128(_totalShares), FHE.asEuint128(10 ** _decimalsOffset())),
+                FHE.add(_asEuint128(confidentialTotalAssets()), FHE.asEuint128(1)),
+                roundUp
+            );
+    }
+
+    /// @dev Converts `shares` to assets, rounding down or up.
+    function _convertToAssets(euint64 shares, bool roundUp) internal virtual returns (euint64) {
+        return
+            _mulDiv(
+                shares,
+                FHE.add(_asEuint128(confidentialTotalAssets()), FHE.asEuint128(1)),
+                FHE.add(_asEuint128(_totalShares), FHE.asEuint128(10 ** _decimalsOffset())),
+                roundUp
+            );
+    }
+
+    /// @dev Offset between the decimals of the shares and of the asset, see {ERC4626-_decimalsOffset}.
+    function _decimalsOffset() internal view virtual returns (uint8) {
+        return 0;
+    }
+
+    function _mulDiv(euint64 value, euint128 numerator, euint128 denominator, bool roundUp) private returns (euint64) {
+        euint128 product = FHE.mul(_asEuint128(value), numerator);
+        if (roundUp) product = FHE.add(product, FHE.sub(denominator, FHE.asEuint128(1)));
+        return FHE.asEuint64(FHE.div(product, denominator));
+    }
+
+    function _asEuint128(euint64 value) private returns (euint128) {
+        return FHE.isInitialized(value) ? FHE.asEuint128(value) : FHE.asEuint128(0);
+    }
+
+    function _setShares(address account, euint64 shares) private {
+        FHE.allowThis(shares);
+        FHE.allow(shares, account);
+        _shares[account] = shares;
+    }
+
+    function _setTotalShares(euint64 totalShares) private {
+        FHE.allowThis(totalShares);
+        _totalShares = totalShares;
+    }
+
+    function _setTotalAssets(euint64 totalAssets) private {
+        FHE.allowThis(totalAssets);
+        _totalAssets = totalAssets;
+    }
+}
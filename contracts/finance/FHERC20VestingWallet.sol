@@ -0,0 +1,234 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { IERC7984 } from "../interfaces/IERC7984.sol";
+import { IERC7984Receiver } from "../interfaces/IERC7984Receiver.sol";
+import { FHERC20UnauthorizedCaller } from "../FHERC20/utils/FHERC20Errors.sol";
+
+/**
+ * @dev Confidential counterpart of OpenZeppelin's {VestingWallet} (with {VestingWalletCliff}) for a single
+ * {FHERC20} `token`.
+ *
+ * Grants are received through `confidentialTransferAndCall` (see {onConfidentialTransferReceived}) and added to
+ * an encrypted total allocation. The allocation vests linearly from {start} to {end}, and nothing is vested
+ * before {cliff}. The schedule is public, but the allocation, the vested and the released amounts stay
+ * encrypted: {release} computes the releasable amount under FHE and transfers it to the {beneficiary}.
+ *
+ * If a `grantor` is set at construction, it can {revoke} the wallet once: the unvested part of the allocation is
+ * returned to the grantor, and what had vested at that time stays releasable by the beneficiary. Note that this
+ * includes grants received from other senders. Grants received after revocation are refunded.
+ *
+ * ACL: the allocation and the released amount are granted to this contract, the beneficiary and the grantor.
+ */
+contract FHERC20VestingWallet is IERC7984Receiver {
+    IERC7984 private immutable _token;
+    address private immutable _beneficiary;
+    address private immutable _grantor;
+    uint64 private immutable _start;
+    uint64 private immutable _cliff;
+    uint64 private immutable _duration;
+
+    euint64 private _allocation;
+    euint64 private _released;
+    bool private _revoked;
+
+    /// @dev Emitted when an encrypted `amount` is granted by `from`.
+    event ConfidentialGrantReceived(address indexed from, euint64 amount);
+
+    /// @dev Emitted when an encrypted `amount` is released to the beneficiary.
+    event ConfidentialReleased(euint64 amount);
+
+    /// @dev Emitted when the grantor revokes the wallet, getting back the encrypted `unvested` amount.
+    event VestingRevoked(euint64 unvested);
+
+    /// @dev The beneficiary is not a valid account (e.g. `address(0)`).
+    error FHERC20VestingWalletInvalidBeneficiary(address beneficiary);
+
+    /// @dev The cliff duration is longer than the vesting duration.
+    error FHERC20VestingWalletInvalidCliffDuration(uint64 cliffDuration, uint64 duration);
+
+    /// @dev The wallet has not received any grant yet.
+    error FHERC20VestingWalletNoAllocation();
+
+    /// @dev The wallet has already been revoked, or has no grantor.
+    error FHERC20VestingWalletNotRevocable();
+
+    constructor(
+        IERC7984 token_,
+        address beneficiary_,
+        address grantor_,
+        uint64 startTimestamp,
+        uint64 cliffDuration,
+        uint64 durationSeconds
+    ) {
+        if (beneficiary_ == address(0)) revert FHERC20VestingWalletInvalidBeneficiary(address(0));
+        if (cliffDuration > durationSeconds) {
+            revert FHERC20VestingWalletInvalidCliffDuration(cliffDuration, durationSeconds);
+        }
+
+        _token = token_;
+        _beneficiary = beneficiary_;
+        _grantor = grantor_;
+        _start = startTimestamp;
+        _cliff = startTimestamp + cliffDuration;
+        _duration = durationSeconds;
+    }
+
+    /// @dev Returns the vested token.
+    function token() public view virtual returns (IERC7984) {
+        return _token;
+    }
+
+    /// @dev Returns the account receiving the vested tokens.
+    function beneficiary() public view virtual returns (address) {
+        return _beneficiary;
+    }
+
+    /// @dev Returns the account allowed to revoke the wallet, or `address(0)` if it is not revocable.
+    function grantor() public view virtual returns (address) {
+        return _grantor;
+    }
+
+    /// @dev Returns the start timestamp.
+    function start() public view virtual returns (uint64) {
+        return _start;
+    }
+
+    /// @dev Returns the cliff timestamp, before which nothing is vested.
+    function cliff() public view virtual returns (uint64) {
+        return _cliff;
+    }
+
+    /// @dev Returns the vesting duration.
+    function duration() public view virtual returns (uint64) {
+        return _duration;
+    }
+
+    /// @dev Returns the end timestamp.
+    function end() public view virtual returns (uint64) {
+        return start() + duration();
+    }
+
+    /// @dev Returns true if the grantor has revoked the wallet.
+    function revoked() public view virtual returns (bool) {
+        return _revoked;
+    }
+
+    /// @dev Returns the encrypted total allocation (reduced to the vested amount on revocation).
+    function confidentialAllocation() public view virtual returns (euint64) {
+        return _allocation;
+    }
+
+    /// @dev Returns the encrypted amount already released to the beneficiary.
+    function confidentialReleased() public view virtual returns (euint64) {
+        return _released;
+    }
+
+    /**
+     * @dev Adds the received `amount` to the allocation. Only accepts transfers of {token}, and refunds grants
+     * received after revocation.
+     */
+    function onConfidentialTransferReceived(
+        address,
+        address from,
+        euint64 amount,
+        bytes calldata
+    ) public virtual returns (ebool) {
+        if (msg.sender != address(_token)) revert FHERC20UnauthorizedCaller(msg.sender);
+
+        ebool accepted = FHE.asEbool(!revoked());
+        if (!revoked()) {
+            _setAllocation(FHE.add(_allocation, amount));
+            emit ConfidentialGrantReceived(from, amount);
+        }
+
+        FHE.allowTransient(accepted, msg.sender);
+        return accepted;
+    }
+
+    /**
+     * @dev Releases the vested tokens that have not been released yet to the beneficiary. Callable by anyone.
+     *
+     * Emits a {ConfidentialReleased} event.
+     */
+    function release() public virtual returns (euint64 released) {
+        if (!FHE.isInitialized(_allocation)) revert FHERC20VestingWalletNoAllocation();
+
+        euint64 releasable = _vestedAmount(uint64(block.timestamp));
+        if (FHE.isInitialized(_released)) releasable = FHE.sub(releasable, _released);
+
+        released = _transferOut(beneficiary(), releasable);
+        _setReleased(FHE.add(_released, released));
+
+        emit ConfidentialReleased(released);
+    }
+
+    /**
+     * @dev Returns the unvested part of the allocation to the grantor and stops vesting. What has vested so far
+     * remains releasable by the beneficiary. Can only be called once, by the grantor.
+     *
+     * Emits a {VestingRevoked} event.
+     */
+    function revoke() public virtual returns (euint64 unvested) {
+        if (grantor() == address(0) || revoked()) revert FHERC20VestingWalletNotRevocable();
+        if (msg.sender != grantor()) revert FHERC20UnauthorizedCaller(msg.sender);
+        if (!FHE.isInitialized(_allocation)) revert FHERC20VestingWalletNoAllocation();
+
+        euint64 vested = _vestedAmount(uint64(block.timestamp));
+        _revoked = true;
+
+        unvested = _transferOut(grantor(), FHE.sub(_allocation, vested));
+        _setAllocation(FHE.sub(_allocation, unvested));
+
+        emit VestingRevoked(unvested);
+    }
+
+    // =========================================================================
+    //  Internal helpers
+    // =========================================================================
+
+    /**
+     * @dev Returns the encrypted amount of the allocation vested at `timestamp`. Once revoked, the (reduced)
+     * allocation is fully vested.
+     */
+    function _vestedAmount(uint64 timestamp) internal virtual returns (euint64) {
+        if (timestamp < cliff()) {
+            return FHE.asEuint64(0);
+        } else if (revoked() || timestamp >= end()) {
+            return _allocation;
+        } else {
+            // Computed on 128 bits so that `allocation * elapsed` cannot overflow
+            return
+                FHE.asEuint64(
+                    FHE.div(
+                        FHE.mul(FHE.asEuint128(_allocation), FHE.asEuint128(timestamp - start())),
+                        FHE.asEuint128(duration())
+                    )
+                );
+        }
+    }
+
+    /// @dev Transfers `amount` of {token} to `to` and returns the encrypted amount actually transferred.
+    function _transferOut(address to, euint64 amount) internal virtual returns (euint64) {
+        FHE.allowTransient(amount, address(_token));
+        return _token.confidentialTransfer(to, amount);
+    }
+
+    function _setAllocation(euint64 allocation) private {
+        _allowParties(allocation);
+        _allocation = allocation;
+    }
+
+    function _setReleased(euint64 released) private {
+        _allowParties(released);
+        _released = released;
+    }
+
+    function _allowParties(euint64 value) private {
+        FHE.allowThis(value);
+        FHE.allow(value, beneficiary());
+        if (grantor() != address(0)) FHE.allow(value, grantor());
+    }
+}
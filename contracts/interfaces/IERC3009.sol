@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/**
+ * @dev Subset of the ERC-3009 (Transfer With Authorization) interface, implemented by tokens such as USDC.
+ */
+interface IERC3009 {
+    /**
+     * @dev Receives `value` tokens from `from` with a signed authorization. The caller must be `to`, so the
+     * authorization cannot be front-run by another recipient.
+     */
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
+    /// @dev Returns whether the authorization `nonce` of `authorizer` was used.
+    function authorizationState(address authorizer, bytes32 nonce) external view returns (bool);
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for the {FHERC20} encrypted allowance extension.
+ *
+ * Allowances are an opt-in, amount-bounded alternative to operators: a spender with an encrypted
+ * allowance may move up to that amount on behalf of the holder through the `confidentialTransferFrom`
+ * family of functions. Operators keep taking precedence over allowances.
+ */
+interface IFHERC20Allowance {
+    /// @dev Emitted when the encrypted allowance of `spender` over `holder`'s tokens is set to `amount`.
+    event ConfidentialApproval(address indexed holder, address indexed spender, euint64 indexed amount);
+
+    /// @dev Returns the encrypted amount `spender` may still spend on behalf of `holder`.
+    function confidentialAllowance(address holder, address spender) external view returns (euint64);
+
+    /**
+     * @dev Sets the encrypted allowance of `spender` over the caller's tokens to `encryptedAmount`.
+     *
+     * Returns the new encrypted allowance.
+     */
+    function confidentialApprove(address spender, InEuint64 memory encryptedAmount) external returns (euint64);
+
+    /**
+     * @dev Similar to {confidentialApprove-address-InEuint64} but without an input proof.
+     * The caller *must* already be allowed by ACL for the given `amount`.
+     */
+    function confidentialApprove(address spender, euint64 amount) external returns (euint64);
+}
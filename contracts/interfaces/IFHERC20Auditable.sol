@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/**
+ * @dev Interface for the {FHERC20} auditor extension.
+ *
+ * Auditors are granted ACL access to every new balance, total supply and transferred amount handle. An auditor
+ * is either global (registered for `address(0)`) or scoped to a single account.
+ */
+interface IFHERC20Auditable {
+    /// @dev Emitted when `auditor` is registered for `account` (`address(0)` for a global auditor).
+    event AuditorAdded(address indexed auditor, address indexed account);
+
+    /// @dev Emitted when `auditor` is unregistered for `account` (`address(0)` for a global auditor).
+    event AuditorRemoved(address indexed auditor, address indexed account);
+
+    /// @dev Returns the auditors registered for `account`, or the global auditors if `account` is `address(0)`.
+    function auditors(address account) external view returns (address[] memory);
+
+    /// @dev Returns true if `auditor` is a global auditor or is registered for `account`.
+    function isAuditor(address auditor, address account) external view returns (bool);
+}
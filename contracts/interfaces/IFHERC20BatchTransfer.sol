@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for the {FHERC20} batch transfer extension, used to distribute payroll, rewards or airdrops to
+ * many recipients in a single transaction.
+ *
+ * Each leg is a regular transfer: it emits its own {IERC7984-ConfidentialTransfer} event and moves zero if the
+ * remaining balance of the sender does not cover it.
+ */
+interface IFHERC20BatchTransfer {
+    /**
+     * @dev Transfers `encryptedAmounts[i]` to `to[i]` for every `i`.
+     *
+     * Returns the encrypted amounts that were actually transferred.
+     */
+    function confidentialBatchTransfer(
+        address[] memory to,
+        InEuint64[] memory encryptedAmounts
+    ) external returns (euint64[] memory);
+
+    /**
+     * @dev Similar to {confidentialBatchTransfer-address[]-InEuint64[]} but without input proofs.
+     * The caller *must* already be allowed by ACL for every amount.
+     */
+    function confidentialBatchTransfer(
+        address[] memory to,
+        euint64[] memory amounts
+    ) external returns (euint64[] memory);
+
+    /**
+     * @dev Transfers `encryptedAmounts[i]` from `from` to `to[i]` for every `i`.
+     * `msg.sender` must be an operator for `from`.
+     *
+     * Returns the encrypted amounts that were actually transferred.
+     */
+    function confidentialBatchTransferFrom(
+        address from,
+        address[] memory to,
+        InEuint64[] memory encryptedAmounts
+    ) external returns (euint64[] memory);
+
+    /**
+     * @dev Similar to {confidentialBatchTransferFrom-address-address[]-InEuint64[]} but without input proofs.
+     * The caller *must* already be allowed by ACL for every amount.
+     */
+    function confidentialBatchTransferFrom(
+        address from,
+        address[] memory to,
+        euint64[] memory amounts
+    ) external returns (euint64[] memory);
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for the supply-capped {FHERC20} extension.
+ *
+ * The cap is either cleartext or encrypted. A mint that would exceed it mints zero instead of reverting,
+ * and the outcome is recorded in an encrypted flag that can be disclosed on request.
+ */
+interface IFHERC20Capped {
+    /// @dev Emitted when the cap is replaced by the encrypted `cap`.
+    event ConfidentialCapSet(euint64 cap);
+
+    /// @dev Emitted when disclosure of the last-mint-capped flag is requested by `requester`.
+    event LastMintCappedDiscloseRequested(ebool indexed lastMintCapped, address indexed requester);
+
+    /// @dev Emitted when the last-mint-capped flag `lastMintCapped` is publicly disclosed as `capped`.
+    event LastMintCappedDisclosed(ebool indexed lastMintCapped, bool capped);
+
+    /// @dev Returns the cleartext cap on the token's total supply, or 0 if the cap is encrypted.
+    function cap() external view returns (uint64);
+
+    /// @dev Returns the encrypted cap on the token's total supply, or an uninitialized value if the cap is cleartext.
+    function confidentialCap() external view returns (euint64);
+
+    /// @dev Returns an encrypted flag that is true if the most recent mint was reduced to zero by the cap.
+    function lastMintCapped() external view returns (ebool);
+
+    /// @dev Makes {lastMintCapped} publicly decryptable. The caller must have ACL access to it.
+    function requestDiscloseLastMintCapped() external;
+
+    /// @dev Publicly discloses {lastMintCapped} with a given decryption proof.
+    function discloseLastMintCapped(bool capped, bytes calldata decryptionProof) external;
+}
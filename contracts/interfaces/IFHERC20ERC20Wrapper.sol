@@ -3,6 +3,9 @@ pragma solidity ^0.8.25;
 
 import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 
+import { IFHERC20Wrapper } from "./IFHERC20Wrapper.sol";
+import { ISignatureTransfer } from "./IPermit2.sol";
+
 /**
  * @dev Interface for an {FHERC20} wrapper that shields an underlying ERC-20 token into a
  * confidential {FHERC20} token. Users `shield` their ERC-20 tokens to receive confidential
@@ -10,20 +13,10 @@ import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
  *
  * The unshield flow is asynchronous: `unshield` burns the confidential tokens and creates a
  * decrypt request, then `claimUnshielded` verifies the decryption proof and transfers
- * the underlying tokens.
+ * the underlying tokens. Claims created with `unshieldAndCall` deliver the tokens to their target with ERC-1363
+ * `transferAndCall`.
  */
-interface IFHERC20ERC20Wrapper {
-    /// @dev Emitted when an unshield request is created.
-    event Unshielded(address indexed to, euint64 indexed amount);
-
-    /// @dev Emitted when an unshield request is claimed (underlying tokens transferred).
-    event ClaimedUnshielded(
-        address indexed to,
-        bytes32 indexed unshieldRequestId,
-        euint64 indexed unshieldAmount,
-        uint64 unshieldAmountCleartext
-    );
-
+interface IFHERC20ERC20Wrapper is IFHERC20Wrapper {
     /**
      * @dev Shields `amount` of the underlying ERC-20 token and mints confidential tokens to `to`.
      * The amount is rounded down to the nearest multiple of {rate} to fit confidential precision.
@@ -33,34 +26,43 @@ interface IFHERC20ERC20Wrapper {
     function shield(address to, uint256 amount) external returns (euint64);
 
     /**
-     * @dev Initiates an unshield of confidential tokens from `from` and creates a pending unshield
-     * request for `to`. The caller must be `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
+     * @dev Same as {shield}, but first approves the wrapper with an ERC-2612 `permit` of the underlying token signed
+     * by the caller.
      */
-    function unshield(address from, address to, uint64 amount) external returns (euint64);
+    function shieldWithPermit(
+        address to,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (euint64);
 
     /**
-     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
-     * unshield request for `to`. The caller must have ACL access to `amount` and must be
-     * `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
+     * @dev Same as {shield}, but pulls the underlying tokens through Permit2 with a `SignatureTransfer` `permit`
+     * signed by the caller for the wrapper.
      */
-    function unshield(address from, address to, euint64 amount) external returns (euint64);
+    function shieldWithPermit2(
+        address to,
+        uint256 amount,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        bytes calldata signature
+    ) external returns (euint64);
 
     /**
-     * @dev Claims a pending unshield request by verifying the decryption proof and transferring
-     * `unshieldAmountCleartext * rate()` underlying tokens to the requester.
+     * @dev Same as {shield}, but pulls the underlying tokens with an ERC-3009 `receiveWithAuthorization` signed by
+     * the caller for the wrapper. The excess beyond the nearest multiple of {rate} is refunded to the caller.
      */
-    function claimUnshielded(
-        bytes32 unshieldRequestId,
-        uint64 unshieldAmountCleartext,
-        bytes calldata decryptionProof
-    ) external;
-
-    /// @dev Returns the conversion rate between the underlying ERC-20 denomination and confidential precision.
-    function rate() external view returns (uint256);
+    function shieldWithAuthorization(
+        address to,
+        uint256 amount,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (euint64);
 
     /// @dev Returns the address of the underlying ERC-20 token.
     function underlying() external view returns (address);
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for the {FHERC20} freezable extension.
+ *
+ * An account can be frozen entirely (cleartext, it can neither send nor receive) or have an encrypted amount
+ * of its balance frozen, in which case only `balance - frozen` is spendable.
+ */
+interface IFHERC20Freezable {
+    /// @dev Emitted when `account` is fully frozen or unfrozen.
+    event AccountFreezeUpdated(address indexed account, bool frozen);
+
+    /// @dev Emitted when the encrypted frozen amount of `account` is set to `encryptedAmount`.
+    event TokensFrozen(address indexed account, euint64 encryptedAmount);
+
+    /// @dev Returns true if `account` is fully frozen.
+    function isAccountFrozen(address account) external view returns (bool);
+
+    /// @dev Returns the encrypted frozen amount of `account`.
+    function confidentialFrozen(address account) external view returns (euint64);
+
+    /**
+     * @dev Returns the encrypted spendable balance of `account`: `balance - frozen`, floored at zero.
+     * Returns a publicly decryptable encrypted zero if `account` is fully frozen.
+     */
+    function confidentialAvailableBalance(address account) external view returns (euint64);
+
+    /// @dev Fully freezes (or unfreezes) `account`.
+    function setAccountFrozen(address account, bool frozen) external;
+
+    /// @dev Sets the encrypted frozen amount of `account` to `encryptedAmount`.
+    function setFrozen(address account, InEuint64 memory encryptedAmount) external returns (euint64);
+
+    /// @dev Same as {setFrozen}, but with an encrypted amount the caller already has access to.
+    function setFrozen(address account, euint64 amount) external returns (euint64);
+}
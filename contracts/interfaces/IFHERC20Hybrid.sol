@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for the {FHERC20} hybrid extension, where holders keep both a public ERC-20 balance and an
+ * encrypted balance.
+ *
+ * `transfer`, `approve` and `transferFrom` operate on the public balance. {encrypt} moves public funds into the
+ * encrypted balance. Moving them back is asynchronous: {requestDecrypt} burns encrypted funds and creates a
+ * decrypt request, then {claimDecrypted} verifies the decryption proof and credits the public balance.
+ */
+interface IFHERC20Hybrid {
+    /// @dev Emitted when `account` moves `amount` from its public balance into its encrypted balance.
+    event Encrypted(address indexed account, uint64 amount);
+
+    /// @dev Emitted when a decrypt request is created.
+    event DecryptRequested(address indexed to, euint64 indexed amount);
+
+    /// @dev Emitted when a decrypt request is claimed (public balance credited).
+    event ClaimedDecrypted(
+        address indexed to,
+        bytes32 indexed decryptRequestId,
+        euint64 indexed decryptAmount,
+        uint64 decryptAmountCleartext
+    );
+
+    /**
+     * @dev Moves `amount` from the public balance of the caller into its encrypted balance.
+     *
+     * Returns the encrypted amount minted.
+     */
+    function encrypt(uint64 amount) external returns (euint64);
+
+    /**
+     * @dev Burns `amount` from the encrypted balance of the caller and creates a pending decrypt request.
+     *
+     * Returns the encrypted amount that was burned (used as the request's cipher-text handle).
+     */
+    function requestDecrypt(uint64 amount) external returns (euint64);
+
+    /**
+     * @dev Burns an encrypted `amount` from the encrypted balance of the caller and creates a pending decrypt
+     * request. The caller must have ACL access to `amount`.
+     *
+     * Returns the encrypted amount that was burned.
+     */
+    function requestDecrypt(euint64 amount) external returns (euint64);
+
+    /**
+     * @dev Claims a pending decrypt request by verifying the decryption proof and crediting
+     * `decryptAmountCleartext` to the public balance of the requester.
+     */
+    function claimDecrypted(
+        bytes32 decryptRequestId,
+        uint64 decryptAmountCleartext,
+        bytes calldata decryptionProof
+    ) external;
+}
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for the role-gated {FHERC20} mint and burn extension.
+ *
+ * Every minter has an encrypted allowance that is decremented under FHE on each mint. A mint that exceeds
+ * the remaining allowance mints zero instead of reverting, so the allowance is never revealed.
+ */
+interface IFHERC20Mintable {
+    /// @dev Emitted when the encrypted mint allowance of `minter` is set to `allowance`.
+    event MinterAllowanceSet(address indexed minter, euint64 allowance);
+
+    /// @dev Returns the remaining encrypted mint allowance of `minter`.
+    function confidentialMinterAllowance(address minter) external view returns (euint64);
+
+    /// @dev Sets the encrypted mint allowance of `minter` to `encryptedAllowance`.
+    function setMinterAllowance(address minter, InEuint64 memory encryptedAllowance) external returns (euint64);
+
+    /// @dev Same as {setMinterAllowance}, but with an encrypted allowance the caller already has access to.
+    function setMinterAllowance(address minter, euint64 allowance) external returns (euint64);
+
+    /**
+     * @dev Mints `encryptedAmount` to `to` out of the caller's minter allowance.
+     * Returns the encrypted amount actually minted (zero if the allowance is too low).
+     */
+    function mint(address to, InEuint64 memory encryptedAmount) external returns (euint64);
+
+    /// @dev Same as {mint}, but with an encrypted amount the caller already has access to.
+    function mint(address to, euint64 amount) external returns (euint64);
+
+    /**
+     * @dev Burns `encryptedAmount` from `from`.
+     * Returns the encrypted amount actually burned (zero if the balance is too low).
+     */
+    function burn(address from, InEuint64 memory encryptedAmount) external returns (euint64);
+
+    /// @dev Same as {burn}, but with an encrypted amount the caller already has access to.
+    function burn(address from, euint64 amount) external returns (euint64);
+}
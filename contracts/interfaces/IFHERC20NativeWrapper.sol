@@ -3,6 +3,8 @@ pragma solidity ^0.8.25;
 
 import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
 
+import { IFHERC20Wrapper } from "./IFHERC20Wrapper.sol";
+
 /**
  * @dev Interface for an {FHERC20} wrapper that shields a chain's native token (e.g. ETH)
  * into a confidential {FHERC20} token.
@@ -14,21 +16,13 @@ import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
  * The unshield flow is asynchronous: {unshield} burns the confidential tokens and creates a
  * decrypt request, then {claimUnshielded} verifies the decryption proof and transfers native
  * tokens to the recipient.
+ *
+ * Recipients can receive WETH instead, chosen at unshield time with {unshieldWrappedNative} or at claim time with
+ * {claimUnshieldedWrappedNative}. Native tokens that a recipient cannot accept are sent as WETH as well.
  */
-interface IFHERC20NativeWrapper {
-    /// @dev Emitted when native or wrapped-native tokens are shielded.
-    event ShieldedNative(address indexed from, address indexed to, uint256 value);
-
-    /// @dev Emitted when an unshield request is created.
-    event Unshielded(address indexed to, euint64 indexed amount);
-
-    /// @dev Emitted when an unshield request is claimed (native tokens transferred).
-    event ClaimedUnshielded(
-        address indexed to,
-        bytes32 indexed unshieldRequestId,
-        euint64 indexed unshieldAmount,
-        uint64 unshieldAmountCleartext
-    );
+interface IFHERC20NativeWrapper is IFHERC20Wrapper {
+    /// @dev Emitted when `value` native tokens are wrapped and sent to `to` as WETH.
+    event WrappedNativeSent(address indexed to, uint256 value);
 
     /**
      * @dev Shields WETH into confidential tokens. Pulls `value` WETH from the caller,
@@ -48,34 +42,29 @@ interface IFHERC20NativeWrapper {
     function shieldNative(address to) external payable returns (euint64);
 
     /**
-     * @dev Initiates an unshield of confidential tokens from `from` and creates a pending
-     * unshield request for `to`. The caller must be `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
+     * @dev Same as {unshield} with a cleartext amount, but the request is paid out in WETH instead of native
+     * tokens.
      */
-    function unshield(address from, address to, uint64 amount) external returns (euint64);
+    function unshieldWrappedNative(address from, address to, uint64 amount) external returns (euint64);
 
     /**
-     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
-     * unshield request for `to`. The caller must have ACL access to `amount` and must be
-     * `from` or an operator for `from`.
-     *
-     * Returns the encrypted amount that was burned.
+     * @dev Same as {unshield} with an encrypted amount, but the request is paid out in WETH instead of native
+     * tokens.
      */
-    function unshield(address from, address to, euint64 amount) external returns (euint64);
+    function unshieldWrappedNative(address from, address to, euint64 amount) external returns (euint64);
 
     /**
-     * @dev Claims a pending unshield request by verifying the decryption proof and transferring
-     * `unshieldAmountCleartext * rate()` native tokens to the requester.
+     * @dev Claims a pending unshield request like {claimUnshielded}, paying it out in WETH. Can only be called by
+     * the requester.
      */
-    function claimUnshielded(
+    function claimUnshieldedWrappedNative(
         bytes32 unshieldRequestId,
         uint64 unshieldAmountCleartext,
         bytes calldata decryptionProof
     ) external;
 
-    /// @dev Returns the conversion rate between the native token denomination and confidential precision.
-    function rate() external view returns (uint256);
+    /// @dev Returns true if the unshield request `unshieldRequestId` is paid out in WETH.
+    function paysWrappedNative(bytes32 unshieldRequestId) external view returns (bool);
 
     /// @dev Returns the address of the WETH contract used for wrapped-native shielding.
     function weth() external view returns (address);
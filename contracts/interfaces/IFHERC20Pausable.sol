@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/**
+ * @dev Interface for the {FHERC20} pausable extension.
+ *
+ * Each {PauseTarget} is an independent switch, so that (for example) new shields can be halted while
+ * holders are still able to unshield and claim.
+ */
+interface IFHERC20Pausable {
+    /**
+     * @dev Operations that can be paused independently.
+     *
+     * - `Transfer`: confidential transfers between two non-zero accounts.
+     * - `Shield`: mints (for wrappers, every shielding entry point).
+     * - `Unshield`: burns (for wrappers, the creation of new unshield claims).
+     * - `Claim`: `claimUnshielded`, `claimUnshieldedWithFee`, `claimUnshieldedAndCall` and `claimUnshieldedBatch`
+     *   on wrappers, and `claimUnshieldedWrappedNative` on the native wrapper.
+     */
+    enum PauseTarget {
+        Transfer,
+        Shield,
+        Unshield,
+        Claim
+    }
+
+    /// @dev Emitted when `target` is paused by `account`.
+    event Paused(address account, PauseTarget indexed target);
+
+    /// @dev Emitted when `target` is unpaused by `account`.
+    event Unpaused(address account, PauseTarget indexed target);
+
+    /// @dev Returns true if `target` is paused, and false otherwise.
+    function paused(PauseTarget target) external view returns (bool);
+}
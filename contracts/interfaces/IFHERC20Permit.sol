@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/**
+ * @dev Interface for the {FHERC20} permit extension, which allows operators to be set via
+ * EIP-712 signatures instead of an on-chain {IERC7984-setOperator} call from the holder.
+ *
+ * Signatures from smart contract wallets are supported through ERC-1271.
+ */
+interface IFHERC20Permit {
+    /**
+     * @dev Sets `operator` as an operator for `holder` until the timestamp `until`, given `holder`'s
+     * signed approval.
+     *
+     * Emits an {IERC7984-OperatorSet} event.
+     *
+     * Requirements:
+     *
+     * - `deadline` must be a timestamp in the future.
+     * - `signature` must be a valid EIP-712 signature (or ERC-1271 approval) from `holder` over the
+     *   `PermitOperator` struct with the current nonce of `holder`.
+     */
+    function permitOperator(
+        address holder,
+        address operator,
+        uint48 until,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /**
+     * @dev Returns the current nonce for `holder`. This value must be included whenever a signature
+     * is generated for {permitOperator}. Every successful call to {permitOperator} increases `holder`'s nonce by one.
+     */
+    function nonces(address holder) external view returns (uint256);
+
+    /// @dev Returns the domain separator used in the encoding of the signature for {permitOperator}, as defined by EIP-712.
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { ebool, euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for compliance modules consulted by {FHERC20TransferHooks} before every balance update.
+ *
+ * The token grants the module transient ACL access to `amount` and to the current balances of `from` and `to`
+ * before the call. The module must grant the token (`msg.sender`) ACL access to the returned `ebool`, e.g. with
+ * `FHE.allowTransient(result, msg.sender)`.
+ */
+interface IFHERC20TransferHook {
+    /**
+     * @dev Called by the token before moving `amount` from `from` to `to`. `from` is `address(0)` for mints and
+     * `to` is `address(0)` for burns. Returns an encrypted flag: if false, zero is transferred instead of `amount`.
+     */
+    function beforeConfidentialUpdate(address from, address to, euint64 amount) external returns (ebool);
+}
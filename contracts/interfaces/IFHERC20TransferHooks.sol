@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/**
+ * @dev Interface for the {FHERC20} transfer hooks extension.
+ *
+ * Registered {IFHERC20TransferHook} modules are consulted on every balance update. The update moves the
+ * requested amount only if every module allows it, and zero otherwise.
+ */
+interface IFHERC20TransferHooks {
+    /// @dev Emitted when `hook` is registered.
+    event TransferHookAdded(address indexed hook);
+
+    /// @dev Emitted when `hook` is unregistered.
+    event TransferHookRemoved(address indexed hook);
+
+    /// @dev Returns the registered transfer hook modules, in the order they are consulted.
+    function transferHooks() external view returns (address[] memory);
+}
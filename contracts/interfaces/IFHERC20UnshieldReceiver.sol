@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/// @dev Interface for contracts that receive the native payout of an unshield request created with `unshieldAndCall`.
+interface IFHERC20UnshieldReceiver {
+    /**
+     * @dev Called by an {FHERC20NativeWrapper} with the payout of a claimed unshield request as `msg.value` and the
+     * `data` recorded by `unshieldAndCall`. `operator` is the account that claimed the request.
+     *
+     * Must return its own selector, otherwise the payout is sent to the recipient of the request instead.
+     */
+    function onUnshieldReceived(address operator, bytes calldata data) external payable returns (bytes4);
+}
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface for the {FHERC20} votes extension, the confidential counterpart of {IVotes}.
+ *
+ * Voting power and its checkpoints are encrypted `euint64` handles. Delegates are granted ACL access
+ * to their own voting power; trusted governors can obtain access to any past voting power through
+ * {confidentialPastVotes} and {confidentialPastTotalSupply}.
+ */
+interface IFHERC20Votes {
+    /// @dev Emitted when an account changes their delegate.
+    event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
+
+    /// @dev Emitted when a token transfer or delegate change results in changes to a delegate's encrypted voting power.
+    event DelegateVotesChanged(address indexed delegate, euint64 previousVotes, euint64 newVotes);
+
+    /// @dev Emitted when `governor` is trusted (or no longer trusted) to read encrypted voting power.
+    event VotesGovernorSet(address indexed governor, bool trusted);
+
+    /// @dev Returns the current encrypted voting power of `account`.
+    function getVotes(address account) external view returns (euint64);
+
+    /**
+     * @dev Returns the encrypted voting power of `account` at the end of the past `timepoint`.
+     * Reverts if `timepoint` is not in the past.
+     */
+    function getPastVotes(address account, uint256 timepoint) external view returns (euint64);
+
+    /**
+     * @dev Returns the encrypted total supply at the end of the past `timepoint`.
+     * Reverts if `timepoint` is not in the past.
+     */
+    function getPastTotalSupply(uint256 timepoint) external view returns (euint64);
+
+    /**
+     * @dev Same as {getPastVotes}, but also grants the caller transient ACL access to the returned handle.
+     * The caller must be `account` or a trusted governor.
+     */
+    function confidentialPastVotes(address account, uint256 timepoint) external returns (euint64);
+
+    /**
+     * @dev Same as {getPastTotalSupply}, but also grants the caller transient ACL access to the returned handle.
+     * The caller must be a trusted governor.
+     */
+    function confidentialPastTotalSupply(uint256 timepoint) external returns (euint64);
+
+    /// @dev Returns whether `governor` is trusted to read encrypted voting power.
+    function isVotesGovernor(address governor) external view returns (bool);
+
+    /// @dev Returns the delegate that `account` has chosen.
+    function delegates(address account) external view returns (address);
+
+    /// @dev Delegates votes from the sender to `delegatee`.
+    function delegate(address delegatee) external;
+
+    /// @dev Delegates votes from signer to `delegatee`.
+    function delegateBySig(address delegatee, uint256 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) external;
+}
@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+/**
+ * @dev Interface shared by the {FHERC20} wrappers, which shield an underlying asset (an ERC-20 token, the chain's
+ * native token, ...) into a confidential {FHERC20} token at a fixed {rate}.
+ *
+ * The unshield flow is asynchronous: `unshield` burns the confidential tokens and creates a decrypt request, then
+ * `claimUnshielded` verifies the decryption proof and pays out the underlying asset.
+ */
+interface IFHERC20Wrapper {
+    /// @dev Emitted when `value` units of the underlying asset paid by `from` are shielded to `to`.
+    event Shielded(address indexed from, address indexed to, uint256 value);
+
+    /// @dev Emitted when an unshield request is created.
+    event Unshielded(address indexed to, euint64 indexed amount);
+
+    /// @dev Emitted when an unshield request is claimed (underlying asset paid out).
+    event ClaimedUnshielded(
+        address indexed to,
+        bytes32 indexed unshieldRequestId,
+        euint64 indexed unshieldAmount,
+        uint64 unshieldAmountCleartext
+    );
+
+    /// @dev Emitted when `fee` confidential units of an unshield request are paid to the relayer `feeRecipient`.
+    event RelayerFeePaid(address indexed feeRecipient, bytes32 indexed unshieldRequestId, uint64 fee);
+
+    /**
+     * @dev Emitted when an unshield request created with {unshieldAndCall} is claimed. `success` is false if the
+     * call to `target` failed and the underlying asset was sent to the requester instead.
+     */
+    event ClaimCallExecuted(bytes32 indexed unshieldRequestId, address indexed target, bool success);
+
+    /**
+     * @dev Initiates an unshield of confidential tokens from `from` and creates a pending unshield
+     * request for `to`. The caller must be `from` or an operator for `from`.
+     *
+     * Returns the encrypted amount that was burned.
+     */
+    function unshield(address from, address to, uint64 amount) external returns (euint64);
+
+    /**
+     * @dev Initiates an unshield of an encrypted `amount` from `from`, creating a pending
+     * unshield request for `to`. The caller must have ACL access to `amount` and must be
+     * `from` or an operator for `from`.
+     *
+     * Returns the encrypted amount that was burned.
+     */
+    function unshield(address from, address to, euint64 amount) external returns (euint64);
+
+    /**
+     * @dev Same as {unshield} with a cleartext amount, but lets the relayer that claims the request with
+     * {claimUnshieldedWithFee} keep up to `maxRelayerFee` confidential units of the payout.
+     */
+    function unshield(address from, address to, uint64 amount, uint64 maxRelayerFee) external returns (euint64);
+
+    /**
+     * @dev Same as {unshield} with an encrypted amount, but lets the relayer that claims the request with
+     * {claimUnshieldedWithFee} keep up to `maxRelayerFee` confidential units of the payout.
+     */
+    function unshield(address from, address to, euint64 amount, uint64 maxRelayerFee) external returns (euint64);
+
+    /**
+     * @dev Same as {unshield} with a cleartext amount, but records a call to `target` with `data` that
+     * {claimUnshieldedAndCall} executes with the payout.
+     */
+    function unshieldAndCall(
+        address from,
+        address to,
+        uint64 amount,
+        address target,
+        bytes calldata data
+    ) external returns (euint64);
+
+    /**
+     * @dev Same as {unshield} with an encrypted amount, but records a call to `target` with `data` that
+     * {claimUnshieldedAndCall} executes with the payout.
+     */
+    function unshieldAndCall(
+        address from,
+        address to,
+        euint64 amount,
+        address target,
+        bytes calldata data
+    ) external returns (euint64);
+
+    /**
+     * @dev Claims a pending unshield request by verifying the decryption proof and paying
+     * `unshieldAmountCleartext * rate()` units of the underlying asset to the requester. Requests created with
+     * {unshieldAndCall} can only be claimed with {claimUnshieldedAndCall}.
+     */
+    function claimUnshielded(
+        bytes32 unshieldRequestId,
+        uint64 unshieldAmountCleartext,
+        bytes calldata decryptionProof
+    ) external;
+
+    /**
+     * @dev Claims a pending unshield request like {claimUnshielded}, paying the request's relayer fee (its
+     * `maxRelayerFee`, capped at the decrypted amount) to `feeRecipient` and the rest to the requester.
+     */
+    function claimUnshieldedWithFee(
+        bytes32 unshieldRequestId,
+        uint64 unshieldAmountCleartext,
+        bytes calldata decryptionProof,
+        address feeRecipient
+    ) external;
+
+    /**
+     * @dev Claims a pending unshield request created with {unshieldAndCall}. The underlying asset is delivered to the
+     * recorded target together with the recorded data. If the call fails, it is sent to the requester instead.
+     */
+    function claimUnshieldedAndCall(
+        bytes32 unshieldRequestId,
+        uint64 unshieldAmountCleartext,
+        bytes calldata decryptionProof
+    ) external;
+
+    /// @dev Returns the conversion rate between the underlying asset denomination and confidential precision.
+    function rate() external view returns (uint256);
+}
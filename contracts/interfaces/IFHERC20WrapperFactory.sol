@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+
+/// @dev Interface of the {FHERC20WrapperFactory} registry of canonical wrappers.
+interface IFHERC20WrapperFactory {
+    /**
+     * @dev Emitted when the canonical `wrapper` of `underlying` is deployed. For the native wrapper, `underlying` is
+     * {NATIVE_TOKEN}.
+     */
+    event WrapperDeployed(address indexed underlying, address indexed wrapper, string name, string symbol);
+
+    /// @dev Placeholder address registering the native wrapper as the wrapper of the native token.
+    function NATIVE_TOKEN() external view returns (address);
+
+    /// @dev Deploys the canonical wrapper of the ERC-20 token `underlying`.
+    function deployWrapper(IERC20 underlying) external returns (address wrapper);
+
+    /// @dev Deploys the canonical native wrapper of this chain.
+    function deployNativeWrapper() external returns (address wrapper);
+
+    /// @dev Returns the canonical wrapper of `underlying`, or the zero address if it is not deployed.
+    function wrapperOf(address underlying) external view returns (address);
+
+    /// @dev Returns the underlying token of the canonical `wrapper`, or the zero address if it is not registered.
+    function underlyingOf(address wrapper) external view returns (address);
+
+    /// @dev Returns the canonical native wrapper, or the zero address if it is not deployed.
+    function nativeWrapper() external view returns (address);
+
+    /// @dev Returns the address of the canonical wrapper of `underlying`, whether it is deployed or not.
+    function predictWrapperAddress(address underlying) external view returns (address);
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/**
+ * @dev Subset of the `SignatureTransfer` interface of Uniswap's Permit2 used by {FHERC20ERC20Wrapper} to pull
+ * underlying tokens with a signature instead of an allowance.
+ */
+interface ISignatureTransfer {
+    /// @dev The token and amount a permit allows to transfer.
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    /// @dev A one-time permit for the spender to transfer up to `permitted.amount` of `permitted.token`.
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /// @dev The recipient and amount of a permitted transfer.
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    /**
+     * @dev Transfers `transferDetails.requestedAmount` of `permit.permitted.token` from `owner` to
+     * `transferDetails.to`, using a `permit` that `owner` signed for the caller.
+     */
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external;
+}
@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { IERC3009 } from "../interfaces/IERC3009.sol";
+
+/// @dev ERC-20 token with the ERC-3009 `receiveWithAuthorization` flow, modelled after USDC.
+contract ERC3009_Harness is ERC20, EIP712, IERC3009 {
+    bytes32 private constant RECEIVE_WITH_AUTHORIZATION_TYPEHASH =
+        keccak256(
+            "ReceiveWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+        );
+
+    uint8 _decimals;
+    mapping(address authorizer => mapping(bytes32 nonce => bool)) private _authorizationStates;
+
+    error ERC3009CallerMustBePayee(address caller, address payee);
+    error ERC3009AuthorizationNotYetValid(uint256 validAfter);
+    error ERC3009AuthorizationExpired(uint256 validBefore);
+    error ERC3009AuthorizationUsed(address authorizer, bytes32 nonce);
+    error ERC3009InvalidSignature();
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) EIP712(name_, "2") {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address account, uint256 value) public {
+        _mint(account, value);
+    }
+
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public {
+        if (to != msg.sender) revert ERC3009CallerMustBePayee(msg.sender, to);
+        if (block.timestamp <= validAfter) revert ERC3009AuthorizationNotYetValid(validAfter);
+        if (block.timestamp >= validBefore) revert ERC3009AuthorizationExpired(validBefore);
+        if (_authorizationStates[from][nonce]) revert ERC3009AuthorizationUsed(from, nonce);
+
+        bytes32 structHash = keccak256(
+            abi.encode(RECEIVE_WITH_AUTHORIZATION_TYPEHASH, from, to, value, validAfter, validBefore, nonce)
+        );
+        if (ECDSA.recover(_hashTypedDataV4(structHash), v, r, s) != from) revert ERC3009InvalidSignature();
+
+        _authorizationStates[from][nonce] = true;
+        _transfer(from, to, value);
+    }
+
+    function authorizationState(address authorizer, bytes32 nonce) public view returns (bool) {
+        return _authorizationStates[authorizer][nonce];
+    }
+}
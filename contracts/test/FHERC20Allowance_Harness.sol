@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20Allowance } from "../FHERC20/extensions/FHERC20Allowance.sol";
+
+contract FHERC20Allowance_Harness is FHERC20Allowance {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_
+    ) FHERC20(name_, symbol_, decimals_, contractURI_) {}
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20AuditableUpgradeable } from "../FHERC20/extensions/FHERC20AuditableUpgradeable.sol";
+
+contract FHERC20AuditableUpgradeable_Harness is FHERC20AuditableUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_
+    ) public initializer {
+        __FHERC20_init(name_, symbol_, decimals_, contractURI_);
+        __FHERC20Auditable_init();
+    }
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+
+    function addAuditor(address auditor, address account) public {
+        _addAuditor(auditor, account);
+    }
+
+    function removeAuditor(address auditor, address account) public {
+        _removeAuditor(auditor, account);
+    }
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20CappedUpgradeable } from "../FHERC20/extensions/FHERC20CappedUpgradeable.sol";
+
+contract FHERC20CappedUpgradeable_Harness is FHERC20CappedUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_,
+        uint64 cap_
+    ) public initializer {
+        __FHERC20_init(name_, symbol_, decimals_, contractURI_);
+        __FHERC20Capped_init(cap_);
+    }
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+
+    function setConfidentialCap(InEuint64 memory encryptedCap) public {
+        _setConfidentialCap(FHE.asEuint64(encryptedCap));
+    }
+}
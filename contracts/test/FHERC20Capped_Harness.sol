@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE, InEuint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20Capped } from "../FHERC20/extensions/FHERC20Capped.sol";
+
+contract FHERC20Capped_Harness is FHERC20Capped {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_,
+        uint64 cap_
+    ) FHERC20(name_, symbol_, decimals_, contractURI_) FHERC20Capped(cap_) {}
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+
+    function setConfidentialCap(InEuint64 memory encryptedCap) public {
+        _setConfidentialCap(FHE.asEuint64(encryptedCap));
+    }
+}
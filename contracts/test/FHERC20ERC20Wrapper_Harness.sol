@@ -17,6 +17,22 @@ contract FHERC20ERC20Wrapper_Harness is FHERC20ERC20Wrapper {
         FHERC20ERC20Wrapper(underlying_)
     {}
 
+    function setClaimDelay(uint64 delay) public {
+        _setClaimDelay(delay);
+    }
+
+    function setOutflowLimits(uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit) public {
+        _setOutflowLimits(epochDuration, globalLimit, recipientLimit);
+    }
+
+    function blockClaim(bytes32 ctHash) public {
+        _blockClaim(ctHash);
+    }
+
+    function unblockClaim(bytes32 ctHash) public {
+        _unblockClaim(ctHash);
+    }
+
     function _cappedDecimals(IERC20 token) private view returns (uint8) {
         (bool ok, bytes memory data) = address(token).staticcall(abi.encodeCall(IERC20Metadata.decimals, ()));
         uint8 d = (ok && data.length == 32) ? abi.decode(data, (uint8)) : 18;
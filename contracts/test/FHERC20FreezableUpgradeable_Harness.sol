@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20FreezableUpgradeable } from "../FHERC20/extensions/FHERC20FreezableUpgradeable.sol";
+
+contract FHERC20FreezableUpgradeable_Harness is FHERC20FreezableUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_,
+        address admin
+    ) public initializer {
+        __FHERC20_init(name_, symbol_, decimals_, contractURI_);
+        __FHERC20Freezable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+}
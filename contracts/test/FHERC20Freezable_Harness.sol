@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20Freezable } from "../FHERC20/extensions/FHERC20Freezable.sol";
+
+contract FHERC20Freezable_Harness is FHERC20Freezable {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_,
+        address admin
+    ) FHERC20(name_, symbol_, decimals_, contractURI_) {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20HybridUpgradeable } from "../FHERC20/extensions/FHERC20HybridUpgradeable.sol";
+
+contract FHERC20HybridUpgradeable_Harness is FHERC20HybridUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_
+    ) public initializer {
+        __FHERC20_init(name_, symbol_, decimals_, contractURI_);
+        __FHERC20Hybrid_init();
+    }
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function mintPublic(address account, uint256 value) public {
+        _mintPublic(account, value);
+    }
+
+    function burnPublic(address account, uint256 value) public {
+        _burnPublic(account, value);
+    }
+}
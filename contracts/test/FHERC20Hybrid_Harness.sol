@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20Hybrid } from "../FHERC20/extensions/FHERC20Hybrid.sol";
+
+contract FHERC20Hybrid_Harness is FHERC20Hybrid {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_
+    ) FHERC20(name_, symbol_, decimals_, contractURI_) {}
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function mintPublic(address account, uint256 value) public {
+        _mintPublic(account, value);
+    }
+
+    function burnPublic(address account, uint256 value) public {
+        _burnPublic(account, value);
+    }
+}
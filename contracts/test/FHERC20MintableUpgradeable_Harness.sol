@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHERC20MintableUpgradeable } from "../FHERC20/extensions/FHERC20MintableUpgradeable.sol";
+
+contract FHERC20MintableUpgradeable_Harness is FHERC20MintableUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_,
+        address admin
+    ) public initializer {
+        __FHERC20_init(name_, symbol_, decimals_, contractURI_);
+        __FHERC20Mintable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+}
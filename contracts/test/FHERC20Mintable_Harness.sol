@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20Mintable } from "../FHERC20/extensions/FHERC20Mintable.sol";
+
+contract FHERC20Mintable_Harness is FHERC20Mintable {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_,
+        address admin
+    ) FHERC20(name_, symbol_, decimals_, contractURI_) {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IERC20Metadata } from "@openzeppelin/contracts/interfaces/IERC20Metadata.sol";
+import { IWETH } from "../interfaces/IWETH.sol";
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20NativeWrapper } from "../FHERC20/extensions/FHERC20NativeWrapper.sol";
+import { FHERC20NativeWrapperClaimPositions } from "../FHERC20/extensions/FHERC20NativeWrapperClaimPositions.sol";
+import { FHERC20WrapperClaimPositions } from "../FHERC20/extensions/FHERC20WrapperClaimPositions.sol";
+import { FHERC20ClaimPositions } from "../FHERC20/utils/FHERC20ClaimPositions.sol";
+
+contract FHERC20NativeWrapperClaimPositions_Harness is FHERC20NativeWrapperClaimPositions {
+    constructor(
+        IWETH weth_,
+        FHERC20ClaimPositions claimPositions_,
+        string memory name_,
+        string memory symbol_,
+        string memory contractURI_
+    )
+        FHERC20(name_, symbol_, _cappedDecimals(weth_), contractURI_)
+        FHERC20NativeWrapper(weth_)
+        FHERC20WrapperClaimPositions(claimPositions_)
+    {}
+
+    function setOutflowLimits(uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit) public {
+        _setOutflowLimits(epochDuration, globalLimit, recipientLimit);
+    }
+
+    function _cappedDecimals(IWETH token) private view returns (uint8) {
+        uint8 d = IERC20Metadata(address(token)).decimals();
+        uint8 max = _maxDecimals();
+        return d > max ? max : d;
+    }
+}
@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IERC20Metadata } from "@openzeppelin/contracts/interfaces/IERC20Metadata.sol";
+import { IWETH } from "../interfaces/IWETH.sol";
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20NativeWrapper } from "../FHERC20/extensions/FHERC20NativeWrapper.sol";
+import { FHERC20NativeWrapperPausable } from "../FHERC20/extensions/FHERC20NativeWrapperPausable.sol";
+
+contract FHERC20NativeWrapperPausable_Harness is FHERC20NativeWrapperPausable {
+    constructor(
+        IWETH weth_,
+        string memory name_,
+        string memory symbol_,
+        string memory contractURI_
+    ) FHERC20(name_, symbol_, _cappedDecimals(weth_), contractURI_) FHERC20NativeWrapper(weth_) {}
+
+    function pause(PauseTarget target) public {
+        _pause(target);
+    }
+
+    function unpause(PauseTarget target) public {
+        _unpause(target);
+    }
+
+    function _cappedDecimals(IWETH token) private view returns (uint8) {
+        uint8 d = IERC20Metadata(address(token)).decimals();
+        uint8 max = _maxDecimals();
+        return d > max ? max : d;
+    }
+}
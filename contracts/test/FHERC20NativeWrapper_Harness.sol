@@ -17,6 +17,22 @@ contract FHERC20NativeWrapper_Harness is FHERC20NativeWrapper {
         FHERC20NativeWrapper(weth_)
     {}
 
+    function setClaimDelay(uint64 delay) public {
+        _setClaimDelay(delay);
+    }
+
+    function setOutflowLimits(uint64 epochDuration, uint64 globalLimit, uint64 recipientLimit) public {
+        _setOutflowLimits(epochDuration, globalLimit, recipientLimit);
+    }
+
+    function blockClaim(bytes32 ctHash) public {
+        _blockClaim(ctHash);
+    }
+
+    function unblockClaim(bytes32 ctHash) public {
+        _unblockClaim(ctHash);
+    }
+
     function _cappedDecimals(IWETH token) private view returns (uint8) {
         uint8 d = IERC20Metadata(address(token)).decimals();
         uint8 max = _maxDecimals();
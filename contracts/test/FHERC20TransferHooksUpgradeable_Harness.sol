@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { FHERC20TransferHooksUpgradeable } from "../FHERC20/extensions/FHERC20TransferHooksUpgradeable.sol";
+import { IFHERC20TransferHook } from "../interfaces/IFHERC20TransferHook.sol";
+
+contract FHERC20TransferHooksUpgradeable_Harness is FHERC20TransferHooksUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_
+    ) public initializer {
+        __FHERC20_init(name_, symbol_, decimals_, contractURI_);
+        __FHERC20TransferHooks_init();
+    }
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+
+    function addTransferHook(IFHERC20TransferHook hook) public {
+        _addTransferHook(hook);
+    }
+
+    function removeTransferHook(IFHERC20TransferHook hook) public {
+        _removeTransferHook(hook);
+    }
+}
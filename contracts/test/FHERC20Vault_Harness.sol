@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHERC20Vault } from "../finance/FHERC20Vault.sol";
+import { IERC7984 } from "../interfaces/IERC7984.sol";
+
+contract FHERC20Vault_Harness is FHERC20Vault {
+    constructor(IERC7984 asset_) FHERC20Vault(asset_) {}
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { FHE } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { FHERC20 } from "../FHERC20/FHERC20.sol";
+import { FHERC20Votes } from "../FHERC20/extensions/FHERC20Votes.sol";
+
+contract FHERC20Votes_Harness is FHERC20Votes {
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        string memory contractURI_
+    ) FHERC20(name_, symbol_, decimals_, contractURI_) EIP712(name_, "1") {}
+
+    function mint(address account, uint64 value) public {
+        _mint(account, FHE.asEuint64(value));
+    }
+
+    function burn(address account, uint64 value) public {
+        _burn(account, FHE.asEuint64(value));
+    }
+
+    function setVotesGovernor(address governor, bool trusted) public {
+        _setVotesGovernor(governor, trusted);
+    }
+}
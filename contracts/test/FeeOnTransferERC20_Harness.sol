@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC1363 } from "@openzeppelin/contracts/token/ERC20/extensions/ERC1363.sol";
+
+/// @dev ERC-1363 token that burns `feeBps` basis points of every transfer. Mints and burns are fee-free.
+contract FeeOnTransferERC20_Harness is ERC1363 {
+    uint8 _decimals;
+    uint256 public feeBps;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_, uint256 feeBps_) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+        feeBps = feeBps_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address account, uint256 value) public {
+        _mint(account, value);
+    }
+
+    function setFeeBps(uint256 feeBps_) public {
+        feeBps = feeBps_;
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0)) return super._update(from, to, value);
+
+        uint256 fee = (value * feeBps) / 10_000;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IERC1363Receiver } from "@openzeppelin/contracts/interfaces/IERC1363Receiver.sol";
+import { IFHERC20UnshieldReceiver } from "../interfaces/IFHERC20UnshieldReceiver.sol";
+
+/// @dev Protocol stub that credits ERC-1363 and native deposits to the beneficiary encoded in the call data.
+contract MockClaimCallTarget is IERC1363Receiver, IFHERC20UnshieldReceiver {
+    mapping(address token => mapping(address beneficiary => uint256)) public deposits;
+    bool public shouldRevert;
+
+    event Deposited(address indexed token, address indexed beneficiary, uint256 amount);
+
+    error Rejected();
+
+    function setShouldRevert(bool shouldRevert_) external {
+        shouldRevert = shouldRevert_;
+    }
+
+    function onTransferReceived(address, address, uint256 value, bytes calldata data) external returns (bytes4) {
+        _deposit(msg.sender, abi.decode(data, (address)), value);
+        return IERC1363Receiver.onTransferReceived.selector;
+    }
+
+    function onUnshieldReceived(address, bytes calldata data) external payable returns (bytes4) {
+        _deposit(address(0), abi.decode(data, (address)), msg.value);
+        return IFHERC20UnshieldReceiver.onUnshieldReceived.selector;
+    }
+
+    function _deposit(address token, address beneficiary, uint256 amount) private {
+        if (shouldRevert) revert Rejected();
+        deposits[token][beneficiary] += amount;
+        emit Deposited(token, beneficiary, amount);
+    }
+}
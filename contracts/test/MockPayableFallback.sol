@@ -0,0 +1,7 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+/// @dev Contract that accepts native tokens with any calldata and returns nothing.
+contract MockPayableFallback {
+    fallback() external payable {}
+}
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { IERC20 } from "@openzeppelin/contracts/interfaces/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { MessageHashUtils } from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import { ISignatureTransfer } from "../interfaces/IPermit2.sol";
+
+/**
+ * @dev Minimal `SignatureTransfer` implementation with the same EIP-712 domain and types as Uniswap's Permit2.
+ * Tests install its code at the canonical Permit2 address, so it keeps no immutable state.
+ */
+contract MockPermit2 is ISignatureTransfer {
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)");
+    bytes32 private constant TOKEN_PERMISSIONS_TYPEHASH = keccak256("TokenPermissions(address token,uint256 amount)");
+    bytes32 private constant PERMIT_TRANSFER_FROM_TYPEHASH =
+        keccak256(
+            "PermitTransferFrom(TokenPermissions permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)"
+        );
+
+    mapping(address owner => mapping(uint256 nonce => bool)) public usedNonces;
+
+    error SignatureExpired(uint256 deadline);
+    error InvalidAmount(uint256 maxAmount);
+    error InvalidNonce();
+    error InvalidSigner();
+
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > permit.deadline) revert SignatureExpired(permit.deadline);
+        if (transferDetails.requestedAmount > permit.permitted.amount) revert InvalidAmount(permit.permitted.amount);
+        if (usedNonces[owner][permit.nonce]) revert InvalidNonce();
+        usedNonces[owner][permit.nonce] = true;
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PERMIT_TRANSFER_FROM_TYPEHASH,
+                keccak256(abi.encode(TOKEN_PERMISSIONS_TYPEHASH, permit.permitted.token, permit.permitted.amount)),
+                msg.sender,
+                permit.nonce,
+                permit.deadline
+            )
+        );
+        bytes32 domainSeparator = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("Permit2"), block.chainid, address(this))
+        );
+        if (ECDSA.recover(MessageHashUtils.toTypedDataHash(domainSeparator, structHash), signature) != owner) {
+            revert InvalidSigner();
+        }
+
+        SafeERC20.safeTransferFrom(
+            IERC20(permit.permitted.token),
+            owner,
+            transferDetails.to,
+            transferDetails.requestedAmount
+        );
+    }
+}
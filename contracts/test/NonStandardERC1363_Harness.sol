@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @dev Token whose `transferAndCall` moves the tokens without calling the recipient and returns nothing.
+contract NonStandardERC1363_Harness is ERC20 {
+    uint8 _decimals;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address account, uint256 value) public {
+        _mint(account, value);
+    }
+
+    function transferAndCall(address to, uint256 value, bytes calldata) external {
+        _transfer(msg.sender, to, value);
+    }
+}
@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+import { euint64 } from "@fhenixprotocol/cofhe-contracts/FHE.sol";
+
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @dev Library for checkpointing encrypted values, the `euint64` counterpart of OpenZeppelin's
+ * {Checkpoints-Trace208}.
+ *
+ * Checkpoints are keyed by a cleartext `uint48` timepoint (block number or timestamp) and store an
+ * encrypted handle. Lookups are done on the cleartext keys, so only the handles stay confidential.
+ *
+ * NOTE: Lookups return an uninitialized `euint64` when there is no checkpoint, which is evaluated as 0.
+ */
+library FHECheckpoints {
+    /// @dev A value was attempted to be inserted on a past checkpoint.
+    error FHECheckpointUnorderedInsertion();
+
+    struct Trace {
+        Checkpoint[] _checkpoints;
+    }
+
+    struct Checkpoint {
+        uint48 _key;
+        euint64 _value;
+    }
+
+    /**
+     * @dev Pushes a (`key`, `value`) pair into a Trace so that it is stored as the checkpoint.
+     *
+     * Returns previous value and new value.
+     *
+     * IMPORTANT: Never accept `key` as a user input, since an arbitrary `type(uint48).max` key set will disable the
+     * library.
+     */
+    function push(Trace storage self, uint48 key, euint64 value) internal returns (euint64 oldValue, euint64 newValue) {
+        Checkpoint[] storage ckpts = self._checkpoints;
+        uint256 pos = ckpts.length;
+
+        if (pos > 0) {
+            Checkpoint storage last = ckpts[pos - 1];
+            uint48 lastKey = last._key;
+            euint64 lastValue = last._value;
+
+            if (lastKey > key) revert FHECheckpointUnorderedInsertion();
+
+            if (lastKey == key) {
+                last._value = value;
+            } else {
+                ckpts.push(Checkpoint({ _key: key, _value: value }));
+            }
+            return (lastValue, value);
+        } else {
+            ckpts.push(Checkpoint({ _key: key, _value: value }));
+            return (oldValue, value);
+        }
+    }
+
+    /**
+     * @dev Returns the value in the last (most recent) checkpoint with key lower or equal than the search key, or an
+     * uninitialized value if there is none.
+     *
+     * NOTE: Optimized to find "recent" checkpoints (checkpoints with high keys).
+     */
+    function upperLookupRecent(Trace storage self, uint48 key) internal view returns (euint64 value) {
+        Checkpoint[] storage ckpts = self._checkpoints;
+        uint256 len = ckpts.length;
+
+        uint256 low = 0;
+        uint256 high = len;
+
+        if (len > 5) {
+            uint256 mid = len - Math.sqrt(len);
+            if (key < ckpts[mid]._key) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        while (low < high) {
+            uint256 mid = Math.average(low, high);
+            if (ckpts[mid]._key > key) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        if (high > 0) value = ckpts[high - 1]._value;
+    }
+
+    /// @dev Returns the value in the most recent checkpoint, or an uninitialized value if there are no checkpoints.
+    function latest(Trace storage self) internal view returns (euint64 value) {
+        uint256 pos = self._checkpoints.length;
+        if (pos > 0) value = self._checkpoints[pos - 1]._value;
+    }
+
+    /// @dev Returns the number of checkpoints.
+    function length(Trace storage self) internal view returns (uint256) {
+        return self._checkpoints.length;
+    }
+
+    /// @dev Returns checkpoint at given position.
+    function at(Trace storage self, uint32 pos) internal view returns (Checkpoint memory) {
+        return self._checkpoints[pos];
+    }
+}
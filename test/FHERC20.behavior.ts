@@ -4,9 +4,18 @@ import { CofheClient, Encryptable } from "@cofhe/sdk";
 import { prepExpectFHERC20BalancesChange, expectFHERC20BalancesChange } from "./utils";
 import { ZeroAddress } from "ethers";
 import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { FHERC20_Harness, FHERC20Upgradeable_Harness } from "../typechain-types";
-
-type FHERC20Token = FHERC20_Harness | FHERC20Upgradeable_Harness;
+import {
+  FHERC20_Harness,
+  FHERC20Upgradeable_Harness,
+  FHERC20Votes_Harness,
+  FHERC20VotesUpgradeable_Harness,
+} from "../typechain-types";
+
+type FHERC20Token =
+  | FHERC20_Harness
+  | FHERC20Upgradeable_Harness
+  | FHERC20Votes_Harness
+  | FHERC20VotesUpgradeable_Harness;
 
 export interface SetupFixtureResult {
   token: FHERC20Token;
@@ -324,10 +333,10 @@ export function shouldBehaveLikeFHERC20(setupFixture: SetupFixtureFn, deployWith
       await expectFHERC20BalancesChange(token, alice.address, transferValue);
     });
 
-    it("should transfer from bob to MockFHERC20Vault", async function () {
+    it("should transfer from bob to FHERC20Vault", async function () {
       const { token, bob, bobClient } = await setupTransferFromFixture();
 
-      const vaultFactory = await ethers.getContractFactory("MockFHERC20Vault");
+      const vaultFactory = await ethers.getContractFactory("FHERC20Vault_Harness");
       const vault = await vaultFactory.deploy(token.target);
       await vault.waitForDeployment();
       const vaultAddress = await vault.getAddress();
@@ -343,7 +352,10 @@ export function shouldBehaveLikeFHERC20(setupFixture: SetupFixtureFn, deployWith
       await prepExpectFHERC20BalancesChange(token, bob.address);
       await prepExpectFHERC20BalancesChange(token, vaultAddress);
 
-      await expect(vault.connect(bob).deposit(encTransferInput)).to.emit(token, "ConfidentialTransfer");
+      await expect(vault.connect(bob)["deposit((uint256,uint8,uint8,bytes))"](encTransferInput)).to.emit(
+        token,
+        "ConfidentialTransfer",
+      );
 
       await expectFHERC20BalancesChange(token, bob.address, -1n * transferValue);
       await expectFHERC20BalancesChange(token, vaultAddress, transferValue);
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ZeroAddress } from "ethers";
+import { FHERC20Allowance_Harness, FHERC20AllowanceUpgradeable_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+
+type FHERC20AllowanceToken = FHERC20Allowance_Harness | FHERC20AllowanceUpgradeable_Harness;
+
+function shouldBehaveLikeFHERC20Allowance(deployToken: () => Promise<FHERC20AllowanceToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice, eve] = await ethers.getSigners();
+    const token = await deployToken();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+    const aliceClient = await hre.cofhe.createClientWithBatteries(alice);
+    const eveClient = await hre.cofhe.createClientWithBatteries(eve);
+
+    await token.mint(bob.address, 10_000_000n);
+
+    return { owner, bob, alice, eve, bobClient, aliceClient, eveClient, token };
+  }
+
+  async function setupApprovedFixture(allowance: bigint) {
+    const fixture = await setupFixture();
+    const { token, bob, eve, bobClient } = fixture;
+
+    const [encAllowance] = await bobClient.encryptInputs([Encryptable.uint64(allowance)]).execute();
+    await token.connect(bob)["confidentialApprove(address,(uint256,uint8,uint8,bytes))"](eve.address, encAllowance);
+
+    return fixture;
+  }
+
+  describe("confidentialApprove", function () {
+    it("should set the encrypted allowance and emit ConfidentialApproval", async function () {
+      const { token, bob, eve, bobClient } = await setupFixture();
+
+      const [encAllowance] = await bobClient.encryptInputs([Encryptable.uint64(2_000_000n)]).execute();
+
+      await expect(
+        token.connect(bob)["confidentialApprove(address,(uint256,uint8,uint8,bytes))"](eve.address, encAllowance),
+      ).to.emit(token, "ConfidentialApproval");
+
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAllowance(bob.address, eve.address), 2_000_000n);
+    });
+
+    it("should revert when approving the zero address", async function () {
+      const { token, bob, bobClient } = await setupFixture();
+
+      const [encAllowance] = await bobClient.encryptInputs([Encryptable.uint64(1n)]).execute();
+
+      await expect(
+        token.connect(bob)["confidentialApprove(address,(uint256,uint8,uint8,bytes))"](ZeroAddress, encAllowance),
+      ).to.be.revertedWithCustomError(token, "FHERC20InvalidSpender");
+    });
+
+    it("should revert when approving an encrypted amount the caller has no access to", async function () {
+      const { token, bob, alice, eve } = await setupFixture();
+
+      const bobBalance = await token.confidentialBalanceOf(bob.address);
+
+      await expect(
+        token.connect(alice)["confidentialApprove(address,bytes32)"](eve.address, bobBalance),
+      ).to.be.revertedWithCustomError(token, "FHERC20UnauthorizedUseOfEncryptedAmount");
+    });
+  });
+
+  describe("confidentialTransferFrom with allowance", function () {
+    it("should transfer and decrement the allowance", async function () {
+      const { token, bob, alice, eve, eveClient } = await setupApprovedFixture(3_000_000n);
+
+      const transferValue = 1_000_000n;
+      const [encTransferInput] = await eveClient.encryptInputs([Encryptable.uint64(transferValue)]).execute();
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+
+      await expect(
+        token
+          .connect(eve)
+          [
+            "confidentialTransferFrom(address,address,(uint256,uint8,uint8,bytes))"
+          ](bob.address, alice.address, encTransferInput),
+      ).to.emit(token, "ConfidentialTransfer");
+
+      await expectFHERC20BalancesChange(token, bob.address, -1n * transferValue);
+      await expectFHERC20BalancesChange(token, alice.address, transferValue);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAllowance(bob.address, eve.address), 2_000_000n);
+    });
+
+    it("should transfer 0 and keep the allowance when it is too low", async function () {
+      const { token, bob, alice, eve, eveClient } = await setupApprovedFixture(500_000n);
+
+      const [encTransferInput] = await eveClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+
+      await token
+        .connect(eve)
+        [
+          "confidentialTransferFrom(address,address,(uint256,uint8,uint8,bytes))"
+        ](bob.address, alice.address, encTransferInput);
+
+      await expectFHERC20BalancesChange(token, bob.address, 0n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAllowance(bob.address, eve.address), 500_000n);
+    });
+
+    it("should keep the allowance when the holder balance is too low", async function () {
+      const { token, bob, alice, eve, eveClient } = await setupApprovedFixture(50_000_000n);
+
+      const [encTransferInput] = await eveClient.encryptInputs([Encryptable.uint64(20_000_000n)]).execute();
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+
+      await token
+        .connect(eve)
+        [
+          "confidentialTransferFrom(address,address,(uint256,uint8,uint8,bytes))"
+        ](bob.address, alice.address, encTransferInput);
+
+      await expectFHERC20BalancesChange(token, bob.address, 0n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAllowance(bob.address, eve.address), 50_000_000n);
+    });
+
+    it("should not spend the allowance of a refunded transferAndCall", async function () {
+      const { token, bob, eve, eveClient } = await setupApprovedFixture(3_000_000n);
+
+      const receiverFactory = await ethers.getContractFactory("MockFHERC20Receiver");
+      const receiver = await receiverFactory.deploy();
+      await receiver.waitForDeployment();
+
+      const [encTransferInput] = await eveClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+      const callData = ethers.AbiCoder.defaultAbiCoder().encode(["uint8"], [0]);
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+
+      await token
+        .connect(eve)
+        [
+          "confidentialTransferFromAndCall(address,address,(uint256,uint8,uint8,bytes),bytes)"
+        ](bob.address, await receiver.getAddress(), encTransferInput, callData);
+
+      await expectFHERC20BalancesChange(token, bob.address, 0n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAllowance(bob.address, eve.address), 3_000_000n);
+    });
+
+    it("should revert for a spender without allowance or operator approval", async function () {
+      const { token, bob, alice, aliceClient } = await setupFixture();
+
+      const [encTransferInput] = await aliceClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+
+      await expect(
+        token
+          .connect(alice)
+          [
+            "confidentialTransferFrom(address,address,(uint256,uint8,uint8,bytes))"
+          ](bob.address, alice.address, encTransferInput),
+      ).to.be.revertedWithCustomError(token, "FHERC20UnauthorizedSpender");
+    });
+
+    it("should not consume the allowance of an operator", async function () {
+      const { token, bob, alice, eve, eveClient } = await setupApprovedFixture(3_000_000n);
+
+      const timestamp = (await ethers.provider.getBlock("latest"))!.timestamp + 100;
+      await token.connect(bob).setOperator(eve.address, timestamp);
+
+      const [encTransferInput] = await eveClient.encryptInputs([Encryptable.uint64(5_000_000n)]).execute();
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+
+      await token
+        .connect(eve)
+        [
+          "confidentialTransferFrom(address,address,(uint256,uint8,uint8,bytes))"
+        ](bob.address, alice.address, encTransferInput);
+
+      await expectFHERC20BalancesChange(token, bob.address, -5_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAllowance(bob.address, eve.address), 3_000_000n);
+    });
+  });
+}
+
+describe("FHERC20Allowance", function () {
+  shouldBehaveLikeFHERC20Allowance(async () => {
+    const factory = await ethers.getContractFactory("FHERC20Allowance_Harness");
+    const token = await factory.deploy("Test Token", "TST", 6, "https://example.com/contract.json");
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20AllowanceUpgradeable", function () {
+  shouldBehaveLikeFHERC20Allowance(async () => {
+    const implFactory = await ethers.getContractFactory("FHERC20AllowanceUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20AllowanceUpgradeable_Harness;
+  });
+});
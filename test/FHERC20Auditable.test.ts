@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ZeroAddress, ContractTransactionResponse } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ERC20_Harness,
+  FHERC20Auditable_Harness,
+  FHERC20AuditableUpgradeable_Harness,
+  FHERC20ERC20WrapperAuditable_Harness,
+} from "../typechain-types";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20AuditableToken =
+  | FHERC20Auditable_Harness
+  | FHERC20AuditableUpgradeable_Harness
+  | FHERC20ERC20WrapperAuditable_Harness;
+
+// `requestDiscloseEncryptedAmount` only succeeds if the caller has ACL access to the handle
+async function expectAccess(token: FHERC20AuditableToken, handle: string, account: HardhatEthersSigner) {
+  await expect(token.connect(account).requestDiscloseEncryptedAmount(handle)).to.not.be.reverted;
+}
+
+async function expectNoAccess(token: FHERC20AuditableToken, handle: string, account: HardhatEthersSigner) {
+  await expect(token.connect(account).requestDiscloseEncryptedAmount(handle)).to.be.revertedWithCustomError(
+    token,
+    "FHERC20UnauthorizedUseOfEncryptedAmount",
+  );
+}
+
+async function getTransferredHandle(tx: ContractTransactionResponse, token: FHERC20AuditableToken): Promise<string> {
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    try {
+      const parsed = token.interface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === "ConfidentialTransfer") {
+        return parsed.args.amount;
+      }
+    } catch {
+      // Not a token event
+    }
+  }
+  throw new Error("ConfidentialTransfer event not found");
+}
+
+function shouldBehaveLikeFHERC20Auditable(
+  deployToken: () => Promise<FHERC20Auditable_Harness | FHERC20AuditableUpgradeable_Harness>,
+) {
+  async function setupFixture() {
+    const [owner, bob, alice, eve, auditor, scopedAuditor] = await ethers.getSigners();
+    const token = await deployToken();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await token.mint(bob.address, 10_000_000n);
+
+    return { owner, bob, alice, eve, auditor, scopedAuditor, bobClient, token };
+  }
+
+  async function transferBobToAlice(fixture: Awaited<ReturnType<typeof setupFixture>>, value: bigint) {
+    const { token, bob, alice, bobClient } = fixture;
+    const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(value)]).execute();
+    return token
+      .connect(bob)
+      ["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput);
+  }
+
+  it("should support the IFHERC20Auditable interface", async function () {
+    const { token } = await setupFixture();
+
+    const interfaceId = computeInterfaceId(["auditors(address)", "isAuditor(address,address)"]);
+    expect(await token.supportsInterface(interfaceId)).to.equal(true);
+  });
+
+  it("should add and remove auditors with events", async function () {
+    const { token, bob, auditor, scopedAuditor } = await setupFixture();
+
+    await expect(token.addAuditor(auditor.address, ZeroAddress))
+      .to.emit(token, "AuditorAdded")
+      .withArgs(auditor.address, ZeroAddress);
+    await expect(token.addAuditor(scopedAuditor.address, bob.address))
+      .to.emit(token, "AuditorAdded")
+      .withArgs(scopedAuditor.address, bob.address);
+
+    expect(await token.auditors(ZeroAddress)).to.deep.equal([auditor.address]);
+    expect(await token.auditors(bob.address)).to.deep.equal([scopedAuditor.address]);
+    expect(await token.isAuditor(auditor.address, bob.address)).to.equal(true);
+    expect(await token.isAuditor(scopedAuditor.address, bob.address)).to.equal(true);
+    expect(await token.isAuditor(scopedAuditor.address, ZeroAddress)).to.equal(false);
+
+    // Adding twice is a no-op
+    await expect(token.addAuditor(auditor.address, ZeroAddress)).to.not.emit(token, "AuditorAdded");
+
+    await expect(token.removeAuditor(scopedAuditor.address, bob.address))
+      .to.emit(token, "AuditorRemoved")
+      .withArgs(scopedAuditor.address, bob.address);
+    expect(await token.isAuditor(scopedAuditor.address, bob.address)).to.equal(false);
+  });
+
+  it("should revert when adding the zero address as auditor", async function () {
+    const { token } = await setupFixture();
+
+    await expect(token.addAuditor(ZeroAddress, ZeroAddress))
+      .to.be.revertedWithCustomError(token, "FHERC20InvalidAuditor")
+      .withArgs(ZeroAddress);
+  });
+
+  it("should grant the current handle on registration", async function () {
+    const { token, bob, auditor, scopedAuditor } = await setupFixture();
+
+    await token.addAuditor(auditor.address, ZeroAddress);
+    await token.addAuditor(scopedAuditor.address, bob.address);
+
+    await expectAccess(token, await token.confidentialTotalSupply(), auditor);
+    await expectAccess(token, await token.confidentialBalanceOf(bob.address), scopedAuditor);
+  });
+
+  it("should grant global auditors every balance, total supply and transferred handle", async function () {
+    const fixture = await setupFixture();
+    const { token, bob, alice, auditor, eve } = fixture;
+
+    await token.addAuditor(auditor.address, ZeroAddress);
+
+    const tx = await transferBobToAlice(fixture, 1_000_000n);
+    const transferred = await getTransferredHandle(tx, token);
+
+    // Checked first, disclosing a handle makes it public
+    await expectNoAccess(token, transferred, eve);
+    await expectAccess(token, transferred, auditor);
+    await expectAccess(token, await token.confidentialBalanceOf(bob.address), auditor);
+    await expectAccess(token, await token.confidentialBalanceOf(alice.address), auditor);
+
+    await token.mint(alice.address, 1n);
+    await expectAccess(token, await token.confidentialTotalSupply(), auditor);
+  });
+
+  it("should restrict scoped auditors to their account", async function () {
+    const fixture = await setupFixture();
+    const { token, bob, alice, scopedAuditor } = fixture;
+
+    await token.addAuditor(scopedAuditor.address, alice.address);
+
+    const tx = await transferBobToAlice(fixture, 1_000_000n);
+    const transferred = await getTransferredHandle(tx, token);
+
+    await expectAccess(token, transferred, scopedAuditor);
+    await expectAccess(token, await token.confidentialBalanceOf(alice.address), scopedAuditor);
+    await expectNoAccess(token, await token.confidentialBalanceOf(bob.address), scopedAuditor);
+
+    await token.mint(bob.address, 1n);
+    await expectNoAccess(token, await token.confidentialTotalSupply(), scopedAuditor);
+  });
+
+  it("should stop granting new handles after removal", async function () {
+    const fixture = await setupFixture();
+    const { token, bob, auditor } = fixture;
+
+    await token.addAuditor(auditor.address, ZeroAddress);
+    await token.removeAuditor(auditor.address, ZeroAddress);
+
+    await transferBobToAlice(fixture, 1_000_000n);
+
+    await expectNoAccess(token, await token.confidentialBalanceOf(bob.address), auditor);
+  });
+}
+
+describe("FHERC20Auditable", function () {
+  shouldBehaveLikeFHERC20Auditable(async () => {
+    const factory = await ethers.getContractFactory("FHERC20Auditable_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    )) as FHERC20Auditable_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20AuditableUpgradeable", function () {
+  shouldBehaveLikeFHERC20Auditable(async () => {
+    const implFactory = await ethers.getContractFactory("FHERC20AuditableUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20AuditableUpgradeable_Harness;
+  });
+});
+
+describe("FHERC20ERC20WrapperAuditable", function () {
+  it("should grant auditors the balances and total supply on shield and unshield", async function () {
+    const [, bob, auditor] = await ethers.getSigners();
+
+    const wBTCFactory = await ethers.getContractFactory("ERC20_Harness");
+    const wBTC = (await wBTCFactory.deploy("Wrapped BTC", "wBTC", 8)) as ERC20_Harness;
+    await wBTC.waitForDeployment();
+
+    const eBTCFactory = await ethers.getContractFactory("FHERC20ERC20WrapperAuditable_Harness");
+    const eBTC = (await eBTCFactory.deploy(
+      wBTC.target,
+      "FHERC20 Wrapped BTC",
+      "eBTC",
+      "https://example.com/ebtc.json",
+    )) as FHERC20ERC20WrapperAuditable_Harness;
+    await eBTC.waitForDeployment();
+
+    await eBTC.addAuditor(auditor.address, ZeroAddress);
+
+    await wBTC.mint(bob, 100_000_000n);
+    await wBTC.connect(bob).approve(eBTC.target, 100_000_000n);
+    await eBTC.connect(bob).shield(bob, 100_000_000n);
+
+    await expectAccess(eBTC, await eBTC.confidentialBalanceOf(bob.address), auditor);
+
+    await eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, bob.address, 100_000n);
+
+    await expectAccess(eBTC, await eBTC.confidentialBalanceOf(bob.address), auditor);
+    await expectAccess(eBTC, await eBTC.confidentialTotalSupply(), auditor);
+  });
+});
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { FHERC20BatchTransfer_Harness, FHERC20BatchTransferUpgradeable_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20BatchTransferToken = FHERC20BatchTransfer_Harness | FHERC20BatchTransferUpgradeable_Harness;
+
+function shouldBehaveLikeFHERC20BatchTransfer(deployToken: () => Promise<FHERC20BatchTransferToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice, eve, operator] = await ethers.getSigners();
+    const token = await deployToken();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+    const operatorClient = await hre.cofhe.createClientWithBatteries(operator);
+
+    await token.mint(bob.address, 10_000_000n);
+
+    return { owner, bob, alice, eve, operator, bobClient, operatorClient, token };
+  }
+
+  it("should support the IFHERC20BatchTransfer interface", async function () {
+    const { token } = await setupFixture();
+
+    const interfaceId = computeInterfaceId([
+      "confidentialBatchTransfer(address[],(uint256,uint8,uint8,bytes)[])",
+      "confidentialBatchTransfer(address[],bytes32[])",
+      "confidentialBatchTransferFrom(address,address[],(uint256,uint8,uint8,bytes)[])",
+      "confidentialBatchTransferFrom(address,address[],bytes32[])",
+    ]);
+    expect(await token.supportsInterface(interfaceId)).to.equal(true);
+  });
+
+  it("should transfer to every recipient and emit one event per leg", async function () {
+    const { token, bob, alice, eve, bobClient } = await setupFixture();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+    await prepExpectFHERC20BalancesChange(token, alice.address);
+    await prepExpectFHERC20BalancesChange(token, eve.address);
+
+    const encAmounts = await bobClient
+      .encryptInputs([Encryptable.uint64(1_000_000n), Encryptable.uint64(2_000_000n)])
+      .execute();
+    const tx = await token
+      .connect(bob)
+      ["confidentialBatchTransfer(address[],(uint256,uint8,uint8,bytes)[])"]([alice.address, eve.address], encAmounts);
+
+    const receipt = await tx.wait();
+    const transfers = receipt!.logs
+      .filter(log => log.address === token.target)
+      .map(log => token.interface.parseLog({ topics: log.topics as string[], data: log.data }))
+      .filter(parsed => parsed?.name === "ConfidentialTransfer");
+    expect(transfers.map(parsed => parsed!.args.to)).to.deep.equal([alice.address, eve.address]);
+
+    await expectFHERC20BalancesChange(token, bob.address, -3_000_000n);
+    await expectFHERC20BalancesChange(token, alice.address, 1_000_000n);
+    await expectFHERC20BalancesChange(token, eve.address, 2_000_000n);
+  });
+
+  it("should never debit more than the balance across legs", async function () {
+    const { token, bob, alice, eve, bobClient } = await setupFixture();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+    await prepExpectFHERC20BalancesChange(token, alice.address);
+    await prepExpectFHERC20BalancesChange(token, eve.address);
+
+    // Each leg alone is covered, but not both
+    const encAmounts = await bobClient
+      .encryptInputs([Encryptable.uint64(6_000_000n), Encryptable.uint64(6_000_000n)])
+      .execute();
+    await token
+      .connect(bob)
+      ["confidentialBatchTransfer(address[],(uint256,uint8,uint8,bytes)[])"]([alice.address, eve.address], encAmounts);
+
+    await expectFHERC20BalancesChange(token, bob.address, -6_000_000n);
+    await expectFHERC20BalancesChange(token, alice.address, 6_000_000n);
+    await expectFHERC20BalancesChange(token, eve.address, 0n);
+  });
+
+  it("should revert if the number of recipients and amounts differ", async function () {
+    const { token, bob, alice, eve, bobClient } = await setupFixture();
+
+    const [encAmount] = await bobClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+    await expect(
+      token
+        .connect(bob)
+        [
+          "confidentialBatchTransfer(address[],(uint256,uint8,uint8,bytes)[])"
+        ]([alice.address, eve.address], [encAmount]),
+    )
+      .to.be.revertedWithCustomError(token, "FHERC20InvalidBatchLength")
+      .withArgs(2, 1);
+  });
+
+  it("should only let operators batch transfer from a holder", async function () {
+    const { token, bob, alice, eve, operator, operatorClient } = await setupFixture();
+
+    const encAmounts = await operatorClient
+      .encryptInputs([Encryptable.uint64(1_000_000n), Encryptable.uint64(2_000_000n)])
+      .execute();
+
+    await expect(
+      token
+        .connect(operator)
+        [
+          "confidentialBatchTransferFrom(address,address[],(uint256,uint8,uint8,bytes)[])"
+        ](bob.address, [alice.address, eve.address], encAmounts),
+    )
+      .to.be.revertedWithCustomError(token, "FHERC20UnauthorizedSpender")
+      .withArgs(bob.address, operator.address);
+
+    const timestamp = (await ethers.provider.getBlock("latest"))!.timestamp + 100;
+    await token.connect(bob).setOperator(operator.address, timestamp);
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+    await prepExpectFHERC20BalancesChange(token, alice.address);
+    await prepExpectFHERC20BalancesChange(token, eve.address);
+
+    await token
+      .connect(operator)
+      [
+        "confidentialBatchTransferFrom(address,address[],(uint256,uint8,uint8,bytes)[])"
+      ](bob.address, [alice.address, eve.address], encAmounts);
+
+    await expectFHERC20BalancesChange(token, bob.address, -3_000_000n);
+    await expectFHERC20BalancesChange(token, alice.address, 1_000_000n);
+    await expectFHERC20BalancesChange(token, eve.address, 2_000_000n);
+  });
+}
+
+describe("FHERC20BatchTransfer", function () {
+  shouldBehaveLikeFHERC20BatchTransfer(async () => {
+    const factory = await ethers.getContractFactory("FHERC20BatchTransfer_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    )) as FHERC20BatchTransfer_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20BatchTransferUpgradeable", function () {
+  shouldBehaveLikeFHERC20BatchTransfer(async () => {
+    const implFactory = await ethers.getContractFactory("FHERC20BatchTransferUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20BatchTransferUpgradeable_Harness;
+  });
+});
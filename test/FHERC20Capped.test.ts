@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { FHERC20Capped_Harness, FHERC20CappedUpgradeable_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20CappedToken = FHERC20Capped_Harness | FHERC20CappedUpgradeable_Harness;
+
+const CAP = 10_000_000n;
+
+function shouldBehaveLikeFHERC20Capped(deployToken: (cap: bigint) => Promise<FHERC20CappedToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice] = await ethers.getSigners();
+    const token = await deployToken(CAP);
+
+    const ownerClient = await hre.cofhe.createClientWithBatteries(owner);
+
+    return { owner, bob, alice, ownerClient, token };
+  }
+
+  it("should support the IFHERC20Capped interface", async function () {
+    const { token } = await setupFixture();
+
+    const interfaceId = computeInterfaceId([
+      "cap()",
+      "confidentialCap()",
+      "lastMintCapped()",
+      "requestDiscloseLastMintCapped()",
+      "discloseLastMintCapped(bool,bytes)",
+    ]);
+    expect(await token.supportsInterface(interfaceId)).to.equal(true);
+  });
+
+  it("should expose the cleartext cap", async function () {
+    const { token } = await setupFixture();
+
+    expect(await token.cap()).to.equal(CAP);
+    expect(await token.confidentialCap()).to.equal(ethers.ZeroHash);
+  });
+
+  it("should revert when deployed with a zero cap", async function () {
+    await expect(deployToken(0n)).to.be.reverted;
+  });
+
+  it("should mint up to the cap", async function () {
+    const { token, bob } = await setupFixture();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+    await token.mint(bob.address, CAP);
+    await expectFHERC20BalancesChange(token, bob.address, CAP);
+
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialTotalSupply(), CAP);
+    await hre.cofhe.mocks.expectPlaintext(await token.lastMintCapped(), 0n);
+  });
+
+  it("should mint zero past the cap without reverting", async function () {
+    const { token, bob, alice } = await setupFixture();
+
+    await token.mint(bob.address, CAP - 1n);
+
+    await prepExpectFHERC20BalancesChange(token, alice.address);
+    await expect(token.mint(alice.address, 2n)).to.not.be.reverted;
+    await expectFHERC20BalancesChange(token, alice.address, 0n);
+
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialTotalSupply(), CAP - 1n);
+    await hre.cofhe.mocks.expectPlaintext(await token.lastMintCapped(), 1n);
+  });
+
+  it("should free up room under the cap after a burn", async function () {
+    const { token, bob } = await setupFixture();
+
+    await token.mint(bob.address, CAP);
+    await token.burn(bob.address, 1_000_000n);
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+    await token.mint(bob.address, 1_000_000n);
+    await expectFHERC20BalancesChange(token, bob.address, 1_000_000n);
+  });
+
+  it("should enforce an encrypted cap", async function () {
+    const { token, bob, ownerClient } = await setupFixture();
+
+    const [encCap] = await ownerClient.encryptInputs([Encryptable.uint64(3_000_000n)]).execute();
+    await expect(token.setConfidentialCap(encCap)).to.emit(token, "ConfidentialCapSet");
+
+    expect(await token.cap()).to.equal(0n);
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialCap(), 3_000_000n);
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+    await token.mint(bob.address, 2_000_000n);
+    await token.mint(bob.address, 2_000_000n);
+    await expectFHERC20BalancesChange(token, bob.address, 2_000_000n);
+
+    await hre.cofhe.mocks.expectPlaintext(await token.lastMintCapped(), 1n);
+  });
+
+  it("should disclose whether the last mint was capped", async function () {
+    const { token, owner, bob, alice, ownerClient } = await setupFixture();
+
+    await token.mint(bob.address, CAP + 1n);
+    const capped = await token.lastMintCapped();
+
+    await expect(token.connect(alice).requestDiscloseLastMintCapped())
+      .to.be.revertedWithCustomError(token, "FHERC20UnauthorizedCaller")
+      .withArgs(alice.address);
+
+    await expect(token.connect(owner).requestDiscloseLastMintCapped())
+      .to.emit(token, "LastMintCappedDiscloseRequested")
+      .withArgs(capped, owner.address);
+
+    const decryption = await ownerClient.decryptForTx(capped).withoutPermit().execute();
+
+    await expect(token.discloseLastMintCapped(Boolean(decryption.decryptedValue), decryption.signature))
+      .to.emit(token, "LastMintCappedDisclosed")
+      .withArgs(capped, true);
+  });
+}
+
+describe("FHERC20Capped", function () {
+  shouldBehaveLikeFHERC20Capped(async (cap: bigint) => {
+    const factory = await ethers.getContractFactory("FHERC20Capped_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+      cap,
+    )) as FHERC20Capped_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20CappedUpgradeable", function () {
+  shouldBehaveLikeFHERC20Capped(async (cap: bigint) => {
+    const implFactory = await ethers.getContractFactory("FHERC20CappedUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+      cap,
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20CappedUpgradeable_Harness;
+  });
+});
@@ -1,13 +1,23 @@
 import { expect } from "chai";
 import hre, { ethers } from "hardhat";
-import { FHERC20ERC20Wrapper_Harness, ERC20_Harness } from "../typechain-types";
+import {
+  FHERC20ERC20Wrapper_Harness,
+  ERC20_Harness,
+  ERC20Permit_Harness,
+  ERC3009_Harness,
+  ERC1363_Harness,
+  MockClaimCallTarget,
+} from "../typechain-types";
 import {
   expectERC20BalancesChange,
   expectFHERC20BalancesChange,
   prepExpectERC20BalancesChange,
   prepExpectFHERC20BalancesChange,
 } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
 import { ZeroAddress, ContractTransactionResponse } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { CofheClient } from "@cofhe/sdk";
 
 async function getUnshieldRequestId(
   tx: ContractTransactionResponse,
@@ -82,6 +92,24 @@ describe("FHERC20ERC20Wrapper", function () {
       // Random unsupported
       expect(await eBTC.supportsInterface("0xdeadbeef")).to.equal(false);
     });
+
+    it("should support the IFHERC20Wrapper interface", async function () {
+      const { eBTC } = await setupFixture();
+
+      const interfaceId = computeInterfaceId([
+        "unshield(address,address,uint64)",
+        "unshield(address,address,bytes32)",
+        "unshield(address,address,uint64,uint64)",
+        "unshield(address,address,bytes32,uint64)",
+        "unshieldAndCall(address,address,uint64,address,bytes)",
+        "unshieldAndCall(address,address,bytes32,address,bytes)",
+        "claimUnshielded(bytes32,uint64,bytes)",
+        "claimUnshieldedWithFee(bytes32,uint64,bytes,address)",
+        "claimUnshieldedAndCall(bytes32,uint64,bytes)",
+        "rate()",
+      ]);
+      expect(await eBTC.supportsInterface(interfaceId)).to.equal(true);
+    });
   });
 
   describe("shield (ERC20 → FHERC20)", function () {
@@ -98,7 +126,10 @@ describe("FHERC20ERC20Wrapper", function () {
       await prepExpectERC20BalancesChange(wBTC, bob.address);
       await prepExpectFHERC20BalancesChange(eBTC, bob.address);
 
-      await expect(eBTC.connect(bob).shield(bob, shieldValue)).to.emit(eBTC, "ConfidentialTransfer");
+      await expect(eBTC.connect(bob).shield(bob, shieldValue))
+        .to.emit(eBTC, "ConfidentialTransfer")
+        .and.to.emit(eBTC, "Shielded")
+        .withArgs(bob.address, bob.address, shieldValue);
 
       await expectERC20BalancesChange(wBTC, bob.address, -1n * shieldValue);
       await expectFHERC20BalancesChange(eBTC, bob.address, confidentialValue);
@@ -136,7 +167,9 @@ describe("FHERC20ERC20Wrapper", function () {
       await prepExpectERC20BalancesChange(wBTC, bob.address);
       await prepExpectFHERC20BalancesChange(eBTC, bob.address);
 
-      await eBTC.connect(bob).shield(bob, shieldValue);
+      await expect(eBTC.connect(bob).shield(bob, shieldValue))
+        .to.emit(eBTC, "Shielded")
+        .withArgs(bob.address, bob.address, alignedValue);
 
       // Only the aligned portion is transferred
       await expectERC20BalancesChange(wBTC, bob.address, -1n * alignedValue);
@@ -163,6 +196,217 @@ describe("FHERC20ERC20Wrapper", function () {
     });
   });
 
+  describe("shield with signatures", function () {
+    const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+    // 1_000_050 units at rate 100: 10_000 confidential units are minted and 50 units stay with bob
+    const shieldValue = 1_000_050n;
+    const confidentialValue = shieldValue / conversionRate;
+
+    async function deployWrapper(token: string) {
+      const eBTCFactory = await ethers.getContractFactory("FHERC20ERC20Wrapper_Harness");
+      const eBTC = (await eBTCFactory.deploy(token, "FHERC20 Wrapped BTC", "eBTC", "")) as FHERC20ERC20Wrapper_Harness;
+      await eBTC.waitForDeployment();
+      return eBTC;
+    }
+
+    async function deadline() {
+      return BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 3600n;
+    }
+
+    async function setupPermitFixture() {
+      const [, bob] = await ethers.getSigners();
+      await hre.cofhe.createClientWithBatteries(bob);
+
+      const token = (await (
+        await ethers.getContractFactory("ERC20Permit_Harness")
+      ).deploy("Permit BTC", "pBTC", 8)) as ERC20Permit_Harness;
+      await token.mint(bob, BigInt(10e8));
+      const eBTC = await deployWrapper(token.target as string);
+
+      const permitDeadline = await deadline();
+      const signature = ethers.Signature.from(
+        await bob.signTypedData(
+          {
+            name: "Permit BTC",
+            version: "1",
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: token.target as string,
+          },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          { owner: bob.address, spender: eBTC.target, value: shieldValue, nonce: 0n, deadline: permitDeadline },
+        ),
+      );
+
+      return { bob, token, eBTC, permitDeadline, signature };
+    }
+
+    it("should shield with an ERC-2612 permit", async function () {
+      const { bob, token, eBTC, permitDeadline, signature } = await setupPermitFixture();
+
+      await prepExpectERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(eBTC, bob.address);
+
+      await eBTC
+        .connect(bob)
+        .shieldWithPermit(bob.address, shieldValue, permitDeadline, signature.v, signature.r, signature.s);
+
+      await expectERC20BalancesChange(token, bob.address, -1n * confidentialValue * conversionRate);
+      await expectFHERC20BalancesChange(eBTC, bob.address, confidentialValue);
+      expect(await token.allowance(bob.address, eBTC.target)).to.equal(shieldValue % conversionRate);
+    });
+
+    it("should shield when the ERC-2612 permit was front-run", async function () {
+      const { bob, token, eBTC, permitDeadline, signature } = await setupPermitFixture();
+
+      await token.permit(bob.address, eBTC.target, shieldValue, permitDeadline, signature.v, signature.r, signature.s);
+
+      await prepExpectFHERC20BalancesChange(eBTC, bob.address);
+      await eBTC
+        .connect(bob)
+        .shieldWithPermit(bob.address, shieldValue, permitDeadline, signature.v, signature.r, signature.s);
+      await expectFHERC20BalancesChange(eBTC, bob.address, confidentialValue);
+    });
+
+    async function setupPermit2Fixture() {
+      const [, bob] = await ethers.getSigners();
+      await hre.cofhe.createClientWithBatteries(bob);
+
+      // Install the Permit2 mock at the canonical address used by the wrapper
+      const mockPermit2 = await (await ethers.getContractFactory("MockPermit2")).deploy();
+      await hre.network.provider.send("hardhat_setCode", [PERMIT2, await ethers.provider.getCode(mockPermit2.target)]);
+
+      const token = (await (
+        await ethers.getContractFactory("ERC20_Harness")
+      ).deploy("Wrapped BTC", "wBTC", 8)) as ERC20_Harness;
+      await token.mint(bob, BigInt(10e8));
+      await token.connect(bob).approve(PERMIT2, ethers.MaxUint256);
+      const eBTC = await deployWrapper(token.target as string);
+
+      const signPermit2 = async (permit: {
+        permitted: { token: string; amount: bigint };
+        nonce: bigint;
+        deadline: bigint;
+      }) =>
+        bob.signTypedData(
+          { name: "Permit2", chainId: (await ethers.provider.getNetwork()).chainId, verifyingContract: PERMIT2 },
+          {
+            PermitTransferFrom: [
+              { name: "permitted", type: "TokenPermissions" },
+              { name: "spender", type: "address" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+            TokenPermissions: [
+              { name: "token", type: "address" },
+              { name: "amount", type: "uint256" },
+            ],
+          },
+          { ...permit, spender: eBTC.target },
+        );
+
+      return { bob, token, eBTC, signPermit2 };
+    }
+
+    it("should shield with a Permit2 signature transfer", async function () {
+      const { bob, token, eBTC, signPermit2 } = await setupPermit2Fixture();
+
+      const permit = {
+        permitted: { token: token.target as string, amount: shieldValue },
+        nonce: 0n,
+        deadline: await deadline(),
+      };
+      const signature = await signPermit2(permit);
+
+      await prepExpectERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(eBTC, bob.address);
+
+      await eBTC.connect(bob).shieldWithPermit2(bob.address, shieldValue, permit, signature);
+
+      await expectERC20BalancesChange(token, bob.address, -1n * confidentialValue * conversionRate);
+      await expectFHERC20BalancesChange(eBTC, bob.address, confidentialValue);
+    });
+
+    it("should revert when the Permit2 permit is for another token", async function () {
+      const { bob, eBTC, signPermit2 } = await setupPermit2Fixture();
+
+      const other = await (await ethers.getContractFactory("ERC20_Harness")).deploy("Other", "OTH", 8);
+      const permit = {
+        permitted: { token: other.target as string, amount: shieldValue },
+        nonce: 0n,
+        deadline: await deadline(),
+      };
+      const signature = await signPermit2(permit);
+
+      await expect(eBTC.connect(bob).shieldWithPermit2(bob.address, shieldValue, permit, signature))
+        .to.be.revertedWithCustomError(eBTC, "FHERC20InvalidPermitToken")
+        .withArgs(other.target);
+    });
+
+    it("should shield with an ERC-3009 authorization and refund the excess", async function () {
+      const [, bob] = await ethers.getSigners();
+      await hre.cofhe.createClientWithBatteries(bob);
+
+      const token = (await (
+        await ethers.getContractFactory("ERC3009_Harness")
+      ).deploy("USD Coin", "USDC", 8)) as ERC3009_Harness;
+      await token.mint(bob, BigInt(10e8));
+      const eBTC = await deployWrapper(token.target as string);
+
+      const nonce = ethers.hexlify(ethers.randomBytes(32));
+      const validBefore = await deadline();
+      const signature = ethers.Signature.from(
+        await bob.signTypedData(
+          {
+            name: "USD Coin",
+            version: "2",
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: token.target as string,
+          },
+          {
+            ReceiveWithAuthorization: [
+              { name: "from", type: "address" },
+              { name: "to", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "validAfter", type: "uint256" },
+              { name: "validBefore", type: "uint256" },
+              { name: "nonce", type: "bytes32" },
+            ],
+          },
+          { from: bob.address, to: eBTC.target, value: shieldValue, validAfter: 0n, validBefore, nonce },
+        ),
+      );
+
+      await prepExpectERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(eBTC, bob.address);
+
+      await eBTC
+        .connect(bob)
+        .shieldWithAuthorization(
+          bob.address,
+          shieldValue,
+          0n,
+          validBefore,
+          nonce,
+          signature.v,
+          signature.r,
+          signature.s,
+        );
+
+      await expectERC20BalancesChange(token, bob.address, -1n * confidentialValue * conversionRate);
+      await expectFHERC20BalancesChange(eBTC, bob.address, confidentialValue);
+      expect(await token.authorizationState(bob.address, nonce)).to.equal(true);
+    });
+  });
+
   describe("unshield & claimUnshielded (FHERC20 → ERC20)", function () {
     async function setupShieldedFixture() {
       const fixture = await setupFixture();
@@ -197,7 +441,7 @@ describe("FHERC20ERC20Wrapper", function () {
       expect(pendingClaim.claimed).to.equal(false);
 
       // Verify getUserClaims tracks the pending claim
-      const aliceClaims = await eBTC.getUserClaims(alice.address);
+      const aliceClaims = await eBTC["getUserClaims(address)"](alice.address);
       expect(aliceClaims.length).to.equal(1);
       expect(aliceClaims[0].ctHash).to.equal(unshieldRequestId);
 
@@ -219,7 +463,7 @@ describe("FHERC20ERC20Wrapper", function () {
       const claimedClaim = await eBTC.getClaim(unshieldRequestId);
       expect(claimedClaim.claimed).to.equal(true);
 
-      const aliceClaimsAfter = await eBTC.getUserClaims(alice.address);
+      const aliceClaimsAfter = await eBTC["getUserClaims(address)"](alice.address);
       expect(aliceClaimsAfter.length).to.equal(0);
     });
 
@@ -268,7 +512,7 @@ describe("FHERC20ERC20Wrapper", function () {
       const requestId2 = await getUnshieldRequestId(tx2, eBTC);
 
       // Alice should have 2 pending claims
-      const pendingClaims = await eBTC.getUserClaims(alice.address);
+      const pendingClaims = await eBTC["getUserClaims(address)"](alice.address);
       expect(pendingClaims.length).to.equal(2);
 
       await hre.network.provider.send("evm_increaseTime", [11]);
@@ -291,7 +535,7 @@ describe("FHERC20ERC20Wrapper", function () {
       await expectERC20BalancesChange(wBTC, alice.address, totalERC20Value);
 
       // All claims cleared
-      const claimsAfter = await eBTC.getUserClaims(alice.address);
+      const claimsAfter = await eBTC["getUserClaims(address)"](alice.address);
       expect(claimsAfter.length).to.equal(0);
     });
 
@@ -327,7 +571,7 @@ describe("FHERC20ERC20Wrapper", function () {
       expect(pendingClaim.claimed).to.equal(false);
 
       // Verify getUserClaims tracks the pending claim
-      const aliceClaims = await eBTC.getUserClaims(alice.address);
+      const aliceClaims = await eBTC["getUserClaims(address)"](alice.address);
       expect(aliceClaims.length).to.equal(1);
       expect(aliceClaims[0].ctHash).to.equal(unshieldRequestId);
 
@@ -349,7 +593,7 @@ describe("FHERC20ERC20Wrapper", function () {
       const claimedClaim = await eBTC.getClaim(unshieldRequestId);
       expect(claimedClaim.claimed).to.equal(true);
 
-      const aliceClaimsAfter = await eBTC.getUserClaims(alice.address);
+      const aliceClaimsAfter = await eBTC["getUserClaims(address)"](alice.address);
       expect(aliceClaimsAfter.length).to.equal(0);
     });
   });
@@ -420,6 +664,603 @@ describe("FHERC20ERC20Wrapper", function () {
     });
   });
 
+  describe("claimUnshieldedWithFee", function () {
+    async function setupShieldedFixture() {
+      const fixture = await setupFixture();
+      const { eBTC, bob, wBTC } = fixture;
+
+      const mintValue = BigInt(10e8);
+      await wBTC.mint(bob, mintValue);
+      await wBTC.connect(bob).approve(eBTC.target, mintValue);
+      await eBTC.connect(bob).shield(bob, mintValue);
+
+      return fixture;
+    }
+
+    it("should pay the relayer fee and the rest to the requester", async function () {
+      const { eBTC, bob, alice, eve, wBTC, bobClient } = await setupShieldedFixture();
+
+      const unshieldValue = 1_000_000n;
+      const maxRelayerFee = 10_000n;
+
+      const tx = await eBTC
+        .connect(bob)
+        ["unshield(address,address,uint64,uint64)"](bob.address, alice.address, unshieldValue, maxRelayerFee);
+      const requestId = await getUnshieldRequestId(tx, eBTC);
+      expect((await eBTC.getClaim(requestId)).maxRelayerFee).to.equal(maxRelayerFee);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await prepExpectERC20BalancesChange(wBTC, alice.address);
+      await prepExpectERC20BalancesChange(wBTC, eve.address);
+
+      await expect(
+        eBTC
+          .connect(eve)
+          .claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, eve.address),
+      )
+        .to.emit(eBTC, "RelayerFeePaid")
+        .withArgs(eve.address, requestId, maxRelayerFee)
+        .and.to.emit(eBTC, "ClaimedUnshielded")
+        .withArgs(alice.address, requestId, requestId, unshieldValue);
+
+      await expectERC20BalancesChange(wBTC, eve.address, maxRelayerFee * conversionRate);
+      await expectERC20BalancesChange(wBTC, alice.address, (unshieldValue - maxRelayerFee) * conversionRate);
+    });
+
+    it("should cap the relayer fee at the decrypted amount", async function () {
+      const { eBTC, bob, alice, eve, wBTC, bobClient } = await setupShieldedFixture();
+
+      const tx = await eBTC
+        .connect(bob)
+        ["unshield(address,address,uint64,uint64)"](bob.address, alice.address, 1_000n, 5_000n);
+      const requestId = await getUnshieldRequestId(tx, eBTC);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await prepExpectERC20BalancesChange(wBTC, alice.address);
+      await prepExpectERC20BalancesChange(wBTC, eve.address);
+
+      await expect(
+        eBTC
+          .connect(eve)
+          .claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, eve.address),
+      )
+        .to.emit(eBTC, "RelayerFeePaid")
+        .withArgs(eve.address, requestId, 1_000n);
+
+      await expectERC20BalancesChange(wBTC, eve.address, 1_000n * conversionRate);
+      await expectERC20BalancesChange(wBTC, alice.address, 0n);
+    });
+
+    it("should not pay a fee for requests created without one", async function () {
+      const { eBTC, bob, alice, eve, wBTC, bobClient } = await setupShieldedFixture();
+
+      const tx = await eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, 1_000n);
+      const requestId = await getUnshieldRequestId(tx, eBTC);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await prepExpectERC20BalancesChange(wBTC, alice.address);
+
+      await expect(
+        eBTC
+          .connect(eve)
+          .claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, eve.address),
+      ).to.not.emit(eBTC, "RelayerFeePaid");
+
+      await expectERC20BalancesChange(wBTC, alice.address, 1_000n * conversionRate);
+    });
+
+    it("should revert when the fee recipient is the zero address", async function () {
+      const { eBTC, bob, alice, bobClient } = await setupShieldedFixture();
+
+      const tx = await eBTC
+        .connect(bob)
+        ["unshield(address,address,uint64,uint64)"](bob.address, alice.address, 1_000n, 10n);
+      const requestId = await getUnshieldRequestId(tx, eBTC);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(eBTC.claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, ZeroAddress))
+        .to.be.revertedWithCustomError(eBTC, "FHERC20InvalidReceiver")
+        .withArgs(ZeroAddress);
+    });
+  });
+
+  describe("claimUnshieldedAndCall", function () {
+    const unshieldAndCall = "unshieldAndCall(address,address,uint64,address,bytes)";
+
+    async function setupCallFixture() {
+      const [, bob, alice] = await ethers.getSigners();
+
+      const tokenFactory = await ethers.getContractFactory("ERC1363_Harness");
+      const token = (await tokenFactory.deploy("ERC1363 BTC", "cBTC", 8)) as ERC1363_Harness;
+      await token.waitForDeployment();
+
+      const wrapperFactory = await ethers.getContractFactory("FHERC20ERC20Wrapper_Harness");
+      const wrapper = (await wrapperFactory.deploy(
+        token.target,
+        "FHERC20 ERC1363 BTC",
+        "ecBTC",
+        "https://example.com/ecbtc.json",
+      )) as FHERC20ERC20Wrapper_Harness;
+      await wrapper.waitForDeployment();
+
+      const targetFactory = await ethers.getContractFactory("MockClaimCallTarget");
+      const target = (await targetFactory.deploy()) as MockClaimCallTarget;
+      await target.waitForDeployment();
+
+      const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+      await token.mint(bob, BigInt(10e8));
+      await token.connect(bob).approve(wrapper.target, BigInt(10e8));
+      await wrapper.connect(bob).shield(bob, BigInt(10e8));
+
+      const data = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [alice.address]);
+
+      return { bob, alice, bobClient, token, wrapper, target, data };
+    }
+
+    it("should transfer the payout to the target with transferAndCall", async function () {
+      const { bob, alice, bobClient, token, wrapper, target, data } = await setupCallFixture();
+
+      const unshieldValue = 1_000_000n;
+
+      const tx = await wrapper
+        .connect(bob)
+        [unshieldAndCall](bob.address, alice.address, unshieldValue, target.target, data);
+      const requestId = await getUnshieldRequestId(tx, wrapper);
+
+      const claimCall = await wrapper.getClaimCall(requestId);
+      expect(claimCall.target).to.equal(target.target);
+      expect(claimCall.data).to.equal(data);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(wrapper.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(wrapper, "ClaimCallExecuted")
+        .withArgs(requestId, target.target, true)
+        .and.to.emit(target, "Deposited")
+        .withArgs(token.target, alice.address, unshieldValue * conversionRate);
+
+      expect(await token.balanceOf(target.target)).to.equal(unshieldValue * conversionRate);
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+      expect((await wrapper.getClaimCall(requestId)).target).to.equal(ZeroAddress);
+    });
+
+    it("should not claim requests created with a call through the other claim functions", async function () {
+      const { bob, alice, bobClient, wrapper, target, data } = await setupCallFixture();
+
+      const tx = await wrapper.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, target.target, data);
+      const requestId = await getUnshieldRequestId(tx, wrapper);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(
+        wrapper.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature),
+      ).to.be.revertedWithCustomError(wrapper, "ClaimCallRecorded");
+      await expect(
+        wrapper.claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, bob.address),
+      ).to.be.revertedWithCustomError(wrapper, "ClaimCallRecorded");
+      await expect(
+        wrapper.claimUnshieldedBatch([requestId], [decryption.decryptedValue], [decryption.signature]),
+      ).to.be.revertedWithCustomError(wrapper, "ClaimCallRecorded");
+    });
+
+    it("should fall back to the recipient when the target call fails", async function () {
+      const { bob, alice, bobClient, token, wrapper, target, data } = await setupCallFixture();
+
+      await target.setShouldRevert(true);
+
+      const tx = await wrapper.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, target.target, data);
+      const requestId = await getUnshieldRequestId(tx, wrapper);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(wrapper.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(wrapper, "ClaimCallExecuted")
+        .withArgs(requestId, target.target, false);
+
+      expect(await token.balanceOf(alice.address)).to.equal(1_000n * conversionRate);
+      expect(await token.balanceOf(target.target)).to.equal(0n);
+    });
+
+    it("should fall back to the recipient when the underlying does not support ERC-1363", async function () {
+      const { eBTC, bob, alice, wBTC, bobClient } = await setupFixture();
+
+      const targetFactory = await ethers.getContractFactory("MockClaimCallTarget");
+      const target = await targetFactory.deploy();
+      await target.waitForDeployment();
+
+      await wBTC.mint(bob, BigInt(1e8));
+      await wBTC.connect(bob).approve(eBTC.target, BigInt(1e8));
+      await eBTC.connect(bob).shield(bob, BigInt(1e8));
+
+      const data = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [alice.address]);
+      const tx = await eBTC.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, target.target, data);
+      const requestId = await getUnshieldRequestId(tx, eBTC);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(eBTC.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(eBTC, "ClaimCallExecuted")
+        .withArgs(requestId, target.target, false);
+
+      expect(await wBTC.balanceOf(alice.address)).to.equal(1_000n * conversionRate);
+    });
+
+    it("should pay once when transferAndCall moves the tokens without returning true", async function () {
+      const { bob, alice, bobClient, target, data } = await setupCallFixture();
+
+      const tokenFactory = await ethers.getContractFactory("NonStandardERC1363_Harness");
+      const token = await tokenFactory.deploy("Non-standard BTC", "nBTC", 8);
+      await token.waitForDeployment();
+
+      const wrapperFactory = await ethers.getContractFactory("FHERC20ERC20Wrapper_Harness");
+      const wrapper = (await wrapperFactory.deploy(
+        token.target,
+        "FHERC20 Non-standard BTC",
+        "enBTC",
+        "https://example.com/enbtc.json",
+      )) as FHERC20ERC20Wrapper_Harness;
+      await wrapper.waitForDeployment();
+
+      await token.mint(bob, BigInt(10e8));
+      await token.connect(bob).approve(wrapper.target, BigInt(10e8));
+      await wrapper.connect(bob).shield(bob, BigInt(10e8));
+
+      const tx = await wrapper.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, target.target, data);
+      const requestId = await getUnshieldRequestId(tx, wrapper);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      // The tokens reached the target, so the call counts as executed and the recipient is not paid again
+      await expect(wrapper.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(wrapper, "ClaimCallExecuted")
+        .withArgs(requestId, target.target, true);
+
+      expect(await token.balanceOf(target.target)).to.equal(1_000n * conversionRate);
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+      expect(await token.balanceOf(wrapper.target)).to.equal(BigInt(10e8) - 1_000n * conversionRate);
+    });
+
+    it("should revert for requests created without a call", async function () {
+      const { bob, alice, bobClient, wrapper } = await setupCallFixture();
+
+      const tx = await wrapper.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, 1_000n);
+      const requestId = await getUnshieldRequestId(tx, wrapper);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(
+        wrapper.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature),
+      ).to.be.revertedWithCustomError(wrapper, "ClaimCallNotFound");
+    });
+
+    it("should revert when the target is the zero address", async function () {
+      const { bob, alice, wrapper, data } = await setupCallFixture();
+
+      await expect(wrapper.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, ZeroAddress, data))
+        .to.be.revertedWithCustomError(wrapper, "FHERC20InvalidReceiver")
+        .withArgs(ZeroAddress);
+    });
+  });
+
+  describe("claim queries", function () {
+    const getUserClaims = "getUserClaims(address,uint256,uint256)";
+
+    async function setupClaimsFixture() {
+      const fixture = await setupFixture();
+      const { eBTC, bob, alice, eve, wBTC } = fixture;
+
+      const mintValue = BigInt(10e8);
+      await wBTC.mint(bob, mintValue);
+      await wBTC.connect(bob).approve(eBTC.target, mintValue);
+      await eBTC.connect(bob).shield(bob, mintValue);
+
+      const requestIds: string[] = [];
+      for (const [to, amount] of [
+        [alice.address, 100_000n],
+        [alice.address, 200_000n],
+        [alice.address, 300_000n],
+        [eve.address, 400_000n],
+      ] as const) {
+        const tx = await eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, to, amount);
+        requestIds.push(await getUnshieldRequestId(tx, eBTC));
+      }
+
+      return { ...fixture, requestIds };
+    }
+
+    it("should paginate the pending claims of a user", async function () {
+      const { eBTC, alice, requestIds } = await setupClaimsFixture();
+
+      const firstPage = await eBTC[getUserClaims](alice.address, 0, 2);
+      expect(firstPage.map(claim => claim.ctHash)).to.deep.equal(requestIds.slice(0, 2));
+
+      const secondPage = await eBTC[getUserClaims](alice.address, 2, 2);
+      expect(secondPage.map(claim => claim.ctHash)).to.deep.equal(requestIds.slice(2, 3));
+
+      expect(await eBTC[getUserClaims](alice.address, 5, 2)).to.have.length(0);
+      expect(await eBTC[getUserClaims](alice.address, 1, ethers.MaxUint256)).to.have.length(2);
+    });
+
+    it("should keep the completed claims of a user", async function () {
+      const { eBTC, alice, bobClient, requestIds } = await setupClaimsFixture();
+
+      const decryption = await bobClient.decryptForTx(requestIds[1]).withoutPermit().execute();
+      await eBTC.claimUnshielded(requestIds[1], decryption.decryptedValue, decryption.signature);
+
+      const [pending, completed] = await eBTC.getClaimsCount(alice.address);
+      expect(pending).to.equal(2n);
+      expect(completed).to.equal(1n);
+
+      const completedClaims = await eBTC.getUserCompletedClaims(alice.address, 0, 10);
+      expect(completedClaims).to.have.length(1);
+      expect(completedClaims[0].ctHash).to.equal(requestIds[1]);
+      expect(completedClaims[0].claimed).to.equal(true);
+      expect(completedClaims[0].decryptedAmount).to.equal(200_000n);
+
+      expect(await eBTC.getUserCompletedClaims(alice.address, 1, 10)).to.have.length(0);
+    });
+
+    it("should enumerate the pending claims of all users", async function () {
+      const { eBTC, bobClient, requestIds } = await setupClaimsFixture();
+
+      expect(await eBTC.getPendingClaimsCount()).to.equal(4n);
+      expect((await eBTC.getPendingClaims(0, 10)).map(claim => claim.ctHash)).to.have.members(requestIds);
+
+      const decryption = await bobClient.decryptForTx(requestIds[3]).withoutPermit().execute();
+      await eBTC.claimUnshielded(requestIds[3], decryption.decryptedValue, decryption.signature);
+
+      expect(await eBTC.getPendingClaimsCount()).to.equal(3n);
+      expect((await eBTC.getPendingClaims(0, 10)).map(claim => claim.ctHash)).to.have.members(requestIds.slice(0, 3));
+      expect(await eBTC.getPendingClaims(1, 1)).to.have.length(1);
+    });
+  });
+
+  describe("supply attestation", function () {
+    async function setupAttestationFixture() {
+      const fixture = await setupFixture();
+      const { eBTC, bob, wBTC } = fixture;
+
+      const mintValue = BigInt(10e8);
+      await wBTC.mint(bob, mintValue);
+      await wBTC.connect(bob).approve(eBTC.target, mintValue);
+      await eBTC.connect(bob).shield(bob, mintValue);
+
+      return fixture;
+    }
+
+    async function attest(eBTC: FHERC20ERC20Wrapper_Harness, client: CofheClient) {
+      await eBTC.requestSupplyAttestation();
+      const { liabilities } = await eBTC.supplyAttestation();
+      const decryption = await client.decryptForTx(liabilities).withoutPermit().execute();
+      await eBTC.submitSupplyAttestation(decryption.decryptedValue, decryption.signature);
+      return decryption.decryptedValue;
+    }
+
+    it("should attest the decrypted supply and pending claims against the reserves", async function () {
+      const { eBTC, bob, alice, eve, bobClient } = await setupAttestationFixture();
+
+      await eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, 1_000_000n);
+
+      await expect(eBTC.connect(eve).requestSupplyAttestation()).to.emit(eBTC, "SupplyAttestationRequested");
+
+      const attestation = await eBTC.supplyAttestation();
+      expect(attestation.reserves).to.equal(10_000_000n);
+      expect(attestation.attested).to.equal(false);
+
+      // The liabilities are the supply (9_000_000) plus the pending claim (1_000_000)
+      const decryption = await bobClient.decryptForTx(attestation.liabilities).withoutPermit().execute();
+      expect(decryption.decryptedValue).to.equal(10_000_000n);
+
+      await expect(eBTC.connect(eve).submitSupplyAttestation(decryption.decryptedValue, decryption.signature))
+        .to.emit(eBTC, "SupplyAttested")
+        .withArgs(10_000_000n, 10_000_000n, ethers.parseEther("1"));
+
+      const attested = await eBTC.supplyAttestation();
+      expect(attested.attested).to.equal(true);
+      expect(attested.attestedLiabilities).to.equal(10_000_000n);
+
+      await expect(
+        eBTC.submitSupplyAttestation(decryption.decryptedValue, decryption.signature),
+      ).to.be.revertedWithCustomError(eBTC, "SupplyAttestationNotRequested");
+    });
+
+    it("should count the burned amount of pending claims, not the requested amount", async function () {
+      const { eBTC, bob, alice, eve, bobClient } = await setupAttestationFixture();
+
+      // Eve holds nothing, her unshield burns 0 whatever amount she requests
+      await eBTC.connect(eve)["unshield(address,address,uint64)"](eve.address, eve.address, 2n ** 64n - 1n);
+
+      const encryptedAmount = await eBTC.confidentialBalanceOf(bob.address);
+      await eBTC.connect(bob)["unshield(address,address,bytes32)"](bob.address, alice.address, encryptedAmount);
+
+      expect(await attest(eBTC, bobClient)).to.equal(10_000_000n);
+    });
+
+    it("should remove claimed amounts from the liabilities", async function () {
+      const { eBTC, bob, alice, bobClient } = await setupAttestationFixture();
+
+      const tx = await eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, 1_000_000n);
+      const requestId = await getUnshieldRequestId(tx, eBTC);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+      await eBTC.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature);
+
+      expect(await attest(eBTC, bobClient)).to.equal(9_000_000n);
+      expect((await eBTC.supplyAttestation()).reserves).to.equal(9_000_000n);
+    });
+
+    it("should not request an attestation while the previous one is pending", async function () {
+      const { eBTC, eve, bobClient } = await setupAttestationFixture();
+
+      await eBTC.connect(eve).requestSupplyAttestation();
+      const { requestedAt } = await eBTC.supplyAttestation();
+
+      await expect(eBTC.connect(eve).requestSupplyAttestation())
+        .to.be.revertedWithCustomError(eBTC, "SupplyAttestationPending")
+        .withArgs(requestedAt + 3600n);
+
+      await hre.network.provider.send("evm_increaseTime", [3600]);
+      await expect(eBTC.connect(eve).requestSupplyAttestation()).to.emit(eBTC, "SupplyAttestationRequested");
+
+      // Once attested, a new attestation can be requested right away
+      const { liabilities } = await eBTC.supplyAttestation();
+      const decryption = await bobClient.decryptForTx(liabilities).withoutPermit().execute();
+      await eBTC.submitSupplyAttestation(decryption.decryptedValue, decryption.signature);
+      await expect(eBTC.connect(eve).requestSupplyAttestation()).to.emit(eBTC, "SupplyAttestationRequested");
+    });
+
+    it("should revert when no attestation was requested", async function () {
+      const { eBTC } = await setupAttestationFixture();
+
+      await expect(eBTC.submitSupplyAttestation(0n, "0x")).to.be.revertedWithCustomError(
+        eBTC,
+        "SupplyAttestationNotRequested",
+      );
+    });
+  });
+
+  describe("claim delay and outflow limits", function () {
+    const day = 86_400;
+
+    async function setupShieldedFixture() {
+      const fixture = await setupFixture();
+      const { eBTC, bob, wBTC } = fixture;
+
+      const mintValue = BigInt(10e8);
+      await wBTC.mint(bob, mintValue);
+      await wBTC.connect(bob).approve(eBTC.target, mintValue);
+      await eBTC.connect(bob).shield(bob, mintValue);
+
+      return fixture;
+    }
+
+    async function unshieldTo(eBTC: FHERC20ERC20Wrapper_Harness, from: HardhatEthersSigner, to: string, value: bigint) {
+      const tx = await eBTC.connect(from)["unshield(address,address,uint64)"](from.address, to, value);
+      return getUnshieldRequestId(tx, eBTC);
+    }
+
+    // Starts the next epoch, so that the claims of a test all land in the same one
+    async function startNextEpoch() {
+      const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+      await hre.network.provider.send("evm_setNextBlockTimestamp", [timestamp - (timestamp % day) + day]);
+      await hre.network.provider.send("evm_mine");
+    }
+
+    it("should record the claim delay and revert until it elapses", async function () {
+      const { eBTC, bob, alice, wBTC, bobClient } = await setupShieldedFixture();
+
+      await expect(eBTC.setClaimDelay(3600n)).to.emit(eBTC, "ClaimDelayUpdated").withArgs(3600n);
+      expect(await eBTC.claimDelay()).to.equal(3600n);
+
+      const requestId = await unshieldTo(eBTC, bob, alice.address, 1_000_000n);
+      const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+      const claimableAt = BigInt(timestamp) + 3600n;
+      expect((await eBTC.getClaim(requestId)).claimableAt).to.equal(claimableAt);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(eBTC.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature))
+        .to.be.revertedWithCustomError(eBTC, "ClaimNotReady")
+        .withArgs(claimableAt);
+
+      await hre.network.provider.send("evm_increaseTime", [3600]);
+      await hre.network.provider.send("evm_mine");
+
+      await prepExpectERC20BalancesChange(wBTC, alice.address);
+      await eBTC.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature);
+      await expectERC20BalancesChange(wBTC, alice.address, 1_000_000n * conversionRate);
+    });
+
+    it("should let a guardian block a claim during the delay", async function () {
+      const { eBTC, owner, bob, alice, bobClient } = await setupShieldedFixture();
+
+      await eBTC.setClaimDelay(3600n);
+      const requestId = await unshieldTo(eBTC, bob, alice.address, 1_000_000n);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(eBTC.blockClaim(requestId)).to.emit(eBTC, "ClaimBlocked").withArgs(requestId, owner.address);
+      expect((await eBTC.getClaim(requestId)).blocked).to.equal(true);
+
+      await hre.network.provider.send("evm_increaseTime", [3600]);
+      await hre.network.provider.send("evm_mine");
+
+      await expect(
+        eBTC.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature),
+      ).to.be.revertedWithCustomError(eBTC, "ClaimIsBlocked");
+
+      await expect(eBTC.unblockClaim(requestId)).to.emit(eBTC, "ClaimUnblocked").withArgs(requestId, owner.address);
+      await expect(eBTC.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature)).to.emit(
+        eBTC,
+        "ClaimedUnshielded",
+      );
+    });
+
+    it("should revert blocking a claim once its delay elapsed", async function () {
+      const { eBTC, bob, alice } = await setupShieldedFixture();
+
+      // Without a delay, claims are claimable immediately and cannot be blocked
+      const requestId = await unshieldTo(eBTC, bob, alice.address, 1_000_000n);
+      await expect(eBTC.blockClaim(requestId)).to.be.revertedWithCustomError(eBTC, "ClaimDelayElapsed");
+
+      await expect(eBTC.unblockClaim(requestId)).to.be.revertedWithCustomError(eBTC, "ClaimNotBlocked");
+      await expect(eBTC.blockClaim(ethers.ZeroHash)).to.be.revertedWithCustomError(eBTC, "ClaimNotFound");
+    });
+
+    it("should enforce the global outflow limit per epoch", async function () {
+      const { eBTC, bob, alice, eve, bobClient } = await setupShieldedFixture();
+
+      await expect(eBTC.setOutflowLimits(day, 1_500_000n, 0n))
+        .to.emit(eBTC, "OutflowLimitsUpdated")
+        .withArgs(day, 1_500_000n, 0n);
+
+      const firstId = await unshieldTo(eBTC, bob, alice.address, 1_000_000n);
+      const secondId = await unshieldTo(eBTC, bob, eve.address, 1_000_000n);
+      const first = await bobClient.decryptForTx(firstId).withoutPermit().execute();
+      const second = await bobClient.decryptForTx(secondId).withoutPermit().execute();
+
+      await startNextEpoch();
+      await eBTC.claimUnshielded(firstId, first.decryptedValue, first.signature);
+
+      const epoch = await eBTC.currentEpoch();
+      expect(epoch % BigInt(day)).to.equal(0n);
+      expect(await eBTC.epochOutflow(epoch)).to.equal(1_000_000n);
+
+      await expect(eBTC.claimUnshielded(secondId, second.decryptedValue, second.signature))
+        .to.be.revertedWithCustomError(eBTC, "GlobalOutflowLimitExceeded")
+        .withArgs(2_000_000n, 1_500_000n);
+
+      await startNextEpoch();
+      await expect(eBTC.claimUnshielded(secondId, second.decryptedValue, second.signature)).to.emit(
+        eBTC,
+        "ClaimedUnshielded",
+      );
+    });
+
+    it("should enforce the per-recipient outflow limit per epoch", async function () {
+      const { eBTC, bob, alice, eve, bobClient } = await setupShieldedFixture();
+
+      await eBTC.setOutflowLimits(day, 0n, 1_000_000n);
+
+      const firstId = await unshieldTo(eBTC, bob, alice.address, 600_000n);
+      const secondId = await unshieldTo(eBTC, bob, alice.address, 600_000n);
+      const eveId = await unshieldTo(eBTC, bob, eve.address, 600_000n);
+      const first = await bobClient.decryptForTx(firstId).withoutPermit().execute();
+      const second = await bobClient.decryptForTx(secondId).withoutPermit().execute();
+      const eveDecryption = await bobClient.decryptForTx(eveId).withoutPermit().execute();
+
+      await startNextEpoch();
+      await eBTC.claimUnshielded(firstId, first.decryptedValue, first.signature);
+
+      await expect(eBTC.claimUnshielded(secondId, second.decryptedValue, second.signature))
+        .to.be.revertedWithCustomError(eBTC, "RecipientOutflowLimitExceeded")
+        .withArgs(alice.address, 1_200_000n, 1_000_000n);
+
+      await eBTC.claimUnshielded(eveId, eveDecryption.decryptedValue, eveDecryption.signature);
+
+      const epoch = await eBTC.currentEpoch();
+      expect(await eBTC.recipientEpochOutflow(epoch, alice.address)).to.equal(600_000n);
+      expect(await eBTC.recipientEpochOutflow(epoch, eve.address)).to.equal(600_000n);
+      expect(await eBTC.epochOutflow(epoch)).to.equal(1_200_000n);
+    });
+  });
+
   describe("onTransferReceived", function () {
     it("should revert when called by non-underlying token", async function () {
       const { eBTC, bob } = await setupFixture();
@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { ContractTransactionResponse } from "ethers";
+import { FHERC20ERC20WrapperFeeAware_Harness, FeeOnTransferERC20_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+
+async function getUnshieldRequestId(
+  tx: ContractTransactionResponse,
+  contract: FHERC20ERC20WrapperFeeAware_Harness,
+): Promise<string> {
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    try {
+      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === "Unshielded") {
+        return parsed.args.amount;
+      }
+    } catch {}
+  }
+  throw new Error("Unshielded event not found");
+}
+
+describe("FHERC20ERC20WrapperFeeAware", function () {
+  // FEE has 8 decimals → rate = 100, confidential decimals = 6. Transfers burn 1%.
+  const conversionRate = 100n;
+  const feeBps = 100n;
+
+  async function setupFixture() {
+    const [owner, bob, alice] = await ethers.getSigners();
+
+    const feeTokenFactory = await ethers.getContractFactory("FeeOnTransferERC20_Harness");
+    const feeToken = (await feeTokenFactory.deploy("Fee Token", "FEE", 8, feeBps)) as FeeOnTransferERC20_Harness;
+    await feeToken.waitForDeployment();
+
+    const wrapperFactory = await ethers.getContractFactory("FHERC20ERC20WrapperFeeAware_Harness");
+    const eFEE = (await wrapperFactory.deploy(
+      feeToken.target,
+      "FHERC20 Wrapped Fee Token",
+      "eFEE",
+      "https://example.com/efee.json",
+    )) as FHERC20ERC20WrapperFeeAware_Harness;
+    await eFEE.waitForDeployment();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await feeToken.mint(bob, BigInt(10e8));
+    await feeToken.connect(bob).approve(eFEE.target, BigInt(10e8));
+
+    return { owner, bob, alice, bobClient, feeToken, eFEE };
+  }
+
+  describe("shield", function () {
+    it("should mint based on the amount received", async function () {
+      const { eFEE, bob, feeToken } = await setupFixture();
+
+      const shieldValue = BigInt(1e8);
+      const receivedValue = shieldValue - (shieldValue * feeBps) / 10_000n; // 0.99e8
+
+      await prepExpectFHERC20BalancesChange(eFEE, bob.address);
+
+      await expect(eFEE.connect(bob).shield(bob, shieldValue))
+        .to.emit(eFEE, "UnderlyingTransferFee")
+        .withArgs(eFEE.target, shieldValue, receivedValue);
+
+      await expectFHERC20BalancesChange(eFEE, bob.address, receivedValue / conversionRate);
+      await hre.cofhe.mocks.expectPlaintext(await eFEE.confidentialTotalSupply(), receivedValue / conversionRate);
+      expect(await feeToken.balanceOf(eFEE.target)).to.equal(receivedValue);
+      expect(await eFEE.lastUnderlyingBalance()).to.equal(receivedValue);
+    });
+
+    it("should refund the received amount beyond the nearest rate multiple", async function () {
+      const { eFEE, bob, feeToken } = await setupFixture();
+
+      // 1% of 10_050 is 100, so 9_950 is received: 99 confidential tokens and 50 refunded (fee-free below 100)
+      const shieldValue = 10_050n;
+
+      await prepExpectFHERC20BalancesChange(eFEE, bob.address);
+      const bobBalanceBefore = await feeToken.balanceOf(bob.address);
+
+      await eFEE.connect(bob).shield(bob, shieldValue);
+
+      await expectFHERC20BalancesChange(eFEE, bob.address, 99n);
+      expect(await feeToken.balanceOf(bob.address)).to.equal(bobBalanceBefore - shieldValue + 50n);
+      expect(await feeToken.balanceOf(eFEE.target)).to.equal(9_900n);
+      expect(await eFEE.lastUnderlyingBalance()).to.equal(9_900n);
+    });
+
+    it("should behave like the base wrapper when no fee is charged", async function () {
+      const { eFEE, bob, feeToken } = await setupFixture();
+
+      await feeToken.setFeeBps(0n);
+
+      await prepExpectFHERC20BalancesChange(eFEE, bob.address);
+
+      await expect(eFEE.connect(bob).shield(bob, BigInt(1e8))).to.not.emit(eFEE, "UnderlyingTransferFee");
+
+      await expectFHERC20BalancesChange(eFEE, bob.address, BigInt(1e8) / conversionRate);
+    });
+  });
+
+  describe("onTransferReceived", function () {
+    it("should mint based on the amount received through transferAndCall", async function () {
+      const { eFEE, bob, alice, feeToken } = await setupFixture();
+
+      const shieldValue = BigInt(1e8);
+      const receivedValue = shieldValue - (shieldValue * feeBps) / 10_000n;
+
+      await prepExpectFHERC20BalancesChange(eFEE, alice.address);
+
+      await expect(
+        feeToken.connect(bob)["transferAndCall(address,uint256,bytes)"](eFEE.target, shieldValue, alice.address),
+      )
+        .to.emit(eFEE, "UnderlyingTransferFee")
+        .withArgs(eFEE.target, shieldValue, receivedValue);
+
+      await expectFHERC20BalancesChange(eFEE, alice.address, receivedValue / conversionRate);
+      expect(await eFEE.lastUnderlyingBalance()).to.equal(receivedValue);
+    });
+
+    it("should only credit tokens received since the previous operation", async function () {
+      const { eFEE, bob, feeToken } = await setupFixture();
+
+      await eFEE.connect(bob).shield(bob, BigInt(1e8));
+
+      await prepExpectFHERC20BalancesChange(eFEE, bob.address);
+
+      await feeToken.connect(bob)["transferAndCall(address,uint256)"](eFEE.target, BigInt(1e6));
+
+      // 1% of 1e6 is burned; the existing backing is not credited again
+      await expectFHERC20BalancesChange(eFEE, bob.address, 9_900n);
+    });
+
+    it("should revert when called by non-underlying token", async function () {
+      const { eFEE, bob } = await setupFixture();
+
+      await expect(
+        eFEE.connect(bob).onTransferReceived(bob.address, bob.address, 1000n, "0x"),
+      ).to.be.revertedWithCustomError(eFEE, "FHERC20UnauthorizedCaller");
+    });
+  });
+
+  describe("claimUnshielded", function () {
+    it("should report the fee charged on the way out", async function () {
+      const { eFEE, bob, alice, bobClient, feeToken } = await setupFixture();
+
+      await eFEE.connect(bob).shield(bob, BigInt(1e8));
+
+      const unshieldValue = 500_000n;
+      const sentValue = unshieldValue * conversionRate; // 5e7
+      const deliveredValue = sentValue - (sentValue * feeBps) / 10_000n;
+
+      const tx = await eFEE.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, unshieldValue);
+      const requestId = await getUnshieldRequestId(tx, eFEE);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(eFEE.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(eFEE, "UnderlyingTransferFee")
+        .withArgs(alice.address, sentValue, deliveredValue)
+        .and.to.emit(eFEE, "ClaimedUnshielded");
+
+      expect(await feeToken.balanceOf(alice.address)).to.equal(deliveredValue);
+      expect(await eFEE.lastUnderlyingBalance()).to.equal(await feeToken.balanceOf(eFEE.target));
+    });
+
+    it("should charge the fee to both the recipient and the relayer", async function () {
+      const { eFEE, owner, bob, alice, bobClient, feeToken } = await setupFixture();
+
+      await eFEE.connect(bob).shield(bob, BigInt(1e8));
+      const wrapperBalanceBefore = await feeToken.balanceOf(eFEE.target);
+
+      const unshieldValue = 500_000n;
+      const relayerFee = 10_000n;
+      const sentPayout = (unshieldValue - relayerFee) * conversionRate;
+      const sentFee = relayerFee * conversionRate;
+
+      const tx = await eFEE
+        .connect(bob)
+        ["unshield(address,address,uint64,uint64)"](bob.address, alice.address, unshieldValue, relayerFee);
+      const requestId = await getUnshieldRequestId(tx, eFEE);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await eFEE.claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, owner.address);
+
+      // Each receives what was sent to it minus the token's fee, and the wrapper pays out exactly the claim
+      expect(await feeToken.balanceOf(alice.address)).to.equal(sentPayout - (sentPayout * feeBps) / 10_000n);
+      expect(await feeToken.balanceOf(owner.address)).to.equal(sentFee - (sentFee * feeBps) / 10_000n);
+      expect(wrapperBalanceBefore - (await feeToken.balanceOf(eFEE.target))).to.equal(unshieldValue * conversionRate);
+    });
+  });
+});
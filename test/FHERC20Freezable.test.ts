@@ -0,0 +1,216 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { FHERC20Freezable_Harness, FHERC20FreezableUpgradeable_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20FreezableToken = FHERC20Freezable_Harness | FHERC20FreezableUpgradeable_Harness;
+
+function shouldBehaveLikeFHERC20Freezable(deployToken: (admin: string) => Promise<FHERC20FreezableToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice, compliance] = await ethers.getSigners();
+    const token = await deployToken(owner.address);
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+    const complianceClient = await hre.cofhe.createClientWithBatteries(compliance);
+
+    await token.grantRole(await token.COMPLIANCE_ROLE(), compliance.address);
+    await token.mint(bob.address, 10_000_000n);
+
+    return { owner, bob, alice, compliance, bobClient, complianceClient, token };
+  }
+
+  async function setupPartiallyFrozenFixture(frozen: bigint) {
+    const fixture = await setupFixture();
+    const { token, bob, compliance, complianceClient } = fixture;
+
+    const [encFrozen] = await complianceClient.encryptInputs([Encryptable.uint64(frozen)]).execute();
+    await token.connect(compliance)["setFrozen(address,(uint256,uint8,uint8,bytes))"](bob.address, encFrozen);
+
+    return fixture;
+  }
+
+  async function transfer(fixture: Awaited<ReturnType<typeof setupFixture>>, value: bigint) {
+    const { token, bob, alice, bobClient } = fixture;
+    const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(value)]).execute();
+    return token
+      .connect(bob)
+      ["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput);
+  }
+
+  it("should support the IFHERC20Freezable interface", async function () {
+    const { token } = await setupFixture();
+
+    const interfaceId = computeInterfaceId([
+      "isAccountFrozen(address)",
+      "confidentialFrozen(address)",
+      "confidentialAvailableBalance(address)",
+      "setAccountFrozen(address,bool)",
+      "setFrozen(address,(uint256,uint8,uint8,bytes))",
+      "setFrozen(address,bytes32)",
+    ]);
+    expect(await token.supportsInterface(interfaceId)).to.equal(true);
+  });
+
+  it("should report the full balance as available when nothing is frozen", async function () {
+    const { token, bob } = await setupFixture();
+
+    expect(await token.confidentialAvailableBalance(bob.address)).to.equal(
+      await token.confidentialBalanceOf(bob.address),
+    );
+  });
+
+  it("should only let the compliance role freeze", async function () {
+    const { token, bob, alice } = await setupFixture();
+
+    await expect(token.connect(alice).setAccountFrozen(bob.address, true)).to.be.revertedWithCustomError(
+      token,
+      "AccessControlUnauthorizedAccount",
+    );
+  });
+
+  describe("full freeze", function () {
+    it("should block sending and receiving", async function () {
+      const fixture = await setupFixture();
+      const { token, bob, alice, compliance } = fixture;
+
+      await expect(token.connect(compliance).setAccountFrozen(bob.address, true))
+        .to.emit(token, "AccountFreezeUpdated")
+        .withArgs(bob.address, true);
+      expect(await token.isAccountFrozen(bob.address)).to.equal(true);
+
+      await expect(transfer(fixture, 1n))
+        .to.be.revertedWithCustomError(token, "FHERC20AccountFrozen")
+        .withArgs(bob.address);
+      await expect(token.mint(bob.address, 1n))
+        .to.be.revertedWithCustomError(token, "FHERC20AccountFrozen")
+        .withArgs(bob.address);
+
+      await token.connect(compliance).setAccountFrozen(bob.address, false);
+
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+      await transfer(fixture, 1_000_000n);
+      await expectFHERC20BalancesChange(token, alice.address, 1_000_000n);
+    });
+
+    it("should report a decryptable zero available balance", async function () {
+      const { token, bob, alice, compliance, bobClient } = await setupFixture();
+
+      await token.connect(compliance).setAccountFrozen(bob.address, true);
+
+      const available = await token.confidentialAvailableBalance(bob.address);
+      expect(available).to.not.equal(0n);
+      await hre.cofhe.mocks.expectPlaintext(available, 0n);
+
+      const decryption = await bobClient.decryptForTx(available).withoutPermit().execute();
+      expect(decryption.decryptedValue).to.equal(0n);
+
+      // Every fully frozen account gets the same encrypted zero
+      await token.connect(compliance).setAccountFrozen(alice.address, true);
+      expect(await token.confidentialAvailableBalance(alice.address)).to.equal(available);
+
+      await token.connect(compliance).setAccountFrozen(bob.address, false);
+      expect(await token.confidentialAvailableBalance(bob.address)).to.equal(
+        await token.confidentialBalanceOf(bob.address),
+      );
+    });
+  });
+
+  describe("partial freeze", function () {
+    it("should set the frozen amount and the available balance", async function () {
+      const { token, bob } = await setupPartiallyFrozenFixture(4_000_000n);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialFrozen(bob.address), 4_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAvailableBalance(bob.address), 6_000_000n);
+    });
+
+    it("should transfer within the available balance", async function () {
+      const fixture = await setupPartiallyFrozenFixture(4_000_000n);
+      const { token, bob, alice } = fixture;
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+
+      await transfer(fixture, 6_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, -6_000_000n);
+      await expectFHERC20BalancesChange(token, alice.address, 6_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAvailableBalance(bob.address), 0n);
+    });
+
+    it("should transfer zero above the available balance", async function () {
+      const fixture = await setupPartiallyFrozenFixture(4_000_000n);
+      const { token, bob, alice } = fixture;
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+
+      await expect(transfer(fixture, 6_000_001n)).to.emit(token, "ConfidentialTransfer");
+
+      await expectFHERC20BalancesChange(token, bob.address, 0n);
+      await expectFHERC20BalancesChange(token, alice.address, 0n);
+    });
+
+    it("should update the available balance when receiving tokens", async function () {
+      const { token, bob } = await setupPartiallyFrozenFixture(12_000_000n);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAvailableBalance(bob.address), 0n);
+
+      await token.mint(bob.address, 5_000_000n);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialAvailableBalance(bob.address), 3_000_000n);
+    });
+
+    it("should make the full balance spendable again when unfrozen", async function () {
+      const fixture = await setupPartiallyFrozenFixture(4_000_000n);
+      const { token, bob, compliance, complianceClient } = fixture;
+
+      const [encZero] = await complianceClient.encryptInputs([Encryptable.uint64(0n)]).execute();
+      await expect(
+        token.connect(compliance)["setFrozen(address,(uint256,uint8,uint8,bytes))"](bob.address, encZero),
+      ).to.emit(token, "TokensFrozen");
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await transfer(fixture, 10_000_000n);
+      await expectFHERC20BalancesChange(token, bob.address, -10_000_000n);
+    });
+  });
+}
+
+describe("FHERC20Freezable", function () {
+  shouldBehaveLikeFHERC20Freezable(async (admin: string) => {
+    const factory = await ethers.getContractFactory("FHERC20Freezable_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+      admin,
+    )) as FHERC20Freezable_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20FreezableUpgradeable", function () {
+  shouldBehaveLikeFHERC20Freezable(async (admin: string) => {
+    const implFactory = await ethers.getContractFactory("FHERC20FreezableUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+      admin,
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20FreezableUpgradeable_Harness;
+  });
+});
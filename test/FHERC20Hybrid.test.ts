@@ -0,0 +1,314 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ZeroAddress, MaxUint256, ContractTransactionResponse } from "ethers";
+import { FHERC20Hybrid_Harness, FHERC20HybridUpgradeable_Harness } from "../typechain-types";
+import { computeInterfaceId } from "./FHERC20.behavior";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+
+const MaxUint64 = 2n ** 64n - 1n;
+
+type FHERC20HybridToken = FHERC20Hybrid_Harness | FHERC20HybridUpgradeable_Harness;
+
+async function getDecryptRequestId(tx: ContractTransactionResponse, token: FHERC20HybridToken): Promise<string> {
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    try {
+      const parsed = token.interface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === "DecryptRequested") {
+        return parsed.args.amount;
+      }
+    } catch {
+      // Not a token event
+    }
+  }
+  throw new Error("DecryptRequested event not found");
+}
+
+function shouldBehaveLikeFHERC20Hybrid(deployToken: () => Promise<FHERC20HybridToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice, eve] = await ethers.getSigners();
+    const token = await deployToken();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await token.mintPublic(bob.address, 10_000_000n);
+
+    return { owner, bob, alice, eve, bobClient, token };
+  }
+
+  it("should support the IFHERC20Hybrid interface", async function () {
+    const { token } = await setupFixture();
+
+    const interfaceId = computeInterfaceId([
+      "encrypt(uint64)",
+      "requestDecrypt(uint64)",
+      "requestDecrypt(uint256)",
+      "claimDecrypted(bytes32,uint64,bytes)",
+    ]);
+    expect(await token.supportsInterface(interfaceId)).to.equal(true);
+  });
+
+  it("should report real public balances", async function () {
+    const { token, bob } = await setupFixture();
+
+    expect(await token.balanceOfIsIndicator()).to.equal(false);
+    expect(await token.balanceOf(bob.address)).to.equal(10_000_000n);
+    expect(await token.totalSupply()).to.equal(10_000_000n);
+  });
+
+  describe("public balances", function () {
+    it("should transfer public tokens", async function () {
+      const { token, bob, alice } = await setupFixture();
+
+      await expect(token.connect(bob).transfer(alice.address, 1_000n))
+        .to.emit(token, "Transfer")
+        .withArgs(bob.address, alice.address, 1_000n);
+
+      expect(await token.balanceOf(bob.address)).to.equal(10_000_000n - 1_000n);
+      expect(await token.balanceOf(alice.address)).to.equal(1_000n);
+      expect(await token.totalSupply()).to.equal(10_000_000n);
+    });
+
+    it("should revert when transferring more than the public balance", async function () {
+      const { token, alice, eve } = await setupFixture();
+
+      await expect(token.connect(eve).transfer(alice.address, 1n))
+        .to.be.revertedWithCustomError(token, "FHERC20InsufficientPublicBalance")
+        .withArgs(eve.address, 0n, 1n);
+    });
+
+    it("should revert when transferring to the zero address", async function () {
+      const { token, bob } = await setupFixture();
+
+      await expect(token.connect(bob).transfer(ZeroAddress, 1n))
+        .to.be.revertedWithCustomError(token, "FHERC20InvalidReceiver")
+        .withArgs(ZeroAddress);
+    });
+
+    it("should approve and transferFrom public tokens", async function () {
+      const { token, bob, alice, eve } = await setupFixture();
+
+      await expect(token.connect(bob).approve(eve.address, 5_000n))
+        .to.emit(token, "Approval")
+        .withArgs(bob.address, eve.address, 5_000n);
+      expect(await token.allowance(bob.address, eve.address)).to.equal(5_000n);
+
+      await token.connect(eve).transferFrom(bob.address, alice.address, 2_000n);
+
+      expect(await token.allowance(bob.address, eve.address)).to.equal(3_000n);
+      expect(await token.balanceOf(alice.address)).to.equal(2_000n);
+
+      await expect(token.connect(eve).transferFrom(bob.address, alice.address, 3_001n))
+        .to.be.revertedWithCustomError(token, "FHERC20InsufficientAllowance")
+        .withArgs(eve.address, 3_000n, 3_001n);
+    });
+
+    it("should not spend an infinite allowance", async function () {
+      const { token, bob, alice, eve } = await setupFixture();
+
+      await token.connect(bob).approve(eve.address, MaxUint256);
+      await token.connect(eve).transferFrom(bob.address, alice.address, 2_000n);
+
+      expect(await token.allowance(bob.address, eve.address)).to.equal(MaxUint256);
+    });
+  });
+
+  describe("encrypt", function () {
+    it("should move public tokens into the encrypted balance", async function () {
+      const { token, bob } = await setupFixture();
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+
+      await expect(token.connect(bob).encrypt(1_000_000n))
+        .to.emit(token, "Encrypted")
+        .withArgs(bob.address, 1_000_000n)
+        .and.to.emit(token, "Transfer")
+        .withArgs(bob.address, ZeroAddress, 1_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, 1_000_000n);
+      expect(await token.balanceOf(bob.address)).to.equal(9_000_000n);
+      expect(await token.totalSupply()).to.equal(9_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialTotalSupply(), 1_000_000n);
+    });
+
+    it("should revert when encrypting more than the public balance", async function () {
+      const { token, eve } = await setupFixture();
+
+      await expect(token.connect(eve).encrypt(1n))
+        .to.be.revertedWithCustomError(token, "FHERC20InsufficientPublicBalance")
+        .withArgs(eve.address, 0n, 1n);
+    });
+
+    it("should encrypt up to the uint64 supply in full", async function () {
+      const { token, bob } = await setupFixture();
+
+      await token.mintPublic(bob.address, MaxUint64 - 10_000_000n);
+      await token.connect(bob).encrypt(MaxUint64);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialBalanceOf(bob.address), MaxUint64);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialTotalSupply(), MaxUint64);
+    });
+
+    it("should not mint public tokens above the uint64 supply", async function () {
+      const { token, bob, alice } = await setupFixture();
+
+      await token.connect(bob).encrypt(1_000_000n);
+
+      await expect(token.mintPublic(alice.address, MaxUint64 - 10_000_000n + 1n))
+        .to.be.revertedWithCustomError(token, "FHERC20HybridSupplyOverflow")
+        .withArgs(MaxUint64 + 1n);
+      await token.mintPublic(alice.address, MaxUint64 - 10_000_000n);
+    });
+
+    it("should not emit an indicator Transfer on confidential transfers", async function () {
+      const { token, bob, alice, bobClient } = await setupFixture();
+
+      await token.connect(bob).encrypt(1_000_000n);
+
+      const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(100_000n)]).execute();
+      await expect(
+        token
+          .connect(bob)
+          ["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput),
+      )
+        .to.emit(token, "ConfidentialTransfer")
+        .and.not.to.emit(token, "Transfer");
+
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+    });
+  });
+
+  describe("requestDecrypt & claimDecrypted", function () {
+    it("should move encrypted tokens back to the public balance", async function () {
+      const { token, bob, bobClient } = await setupFixture();
+
+      await token.connect(bob).encrypt(1_000_000n);
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+
+      const tx = await token.connect(bob)["requestDecrypt(uint64)"](400_000n);
+      await expect(tx).to.emit(token, "DecryptRequested");
+      await expectFHERC20BalancesChange(token, bob.address, -400_000n);
+
+      const requestId = await getDecryptRequestId(tx, token);
+      const pendingClaim = await token.getClaim(requestId);
+      expect(pendingClaim.to).to.equal(bob.address);
+      expect(pendingClaim.requestedAmount).to.equal(400_000n);
+      expect(pendingClaim.claimed).to.equal(false);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(token.claimDecrypted(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(token, "ClaimedDecrypted")
+        .withArgs(bob.address, requestId, requestId, 400_000n)
+        .and.to.emit(token, "Transfer")
+        .withArgs(ZeroAddress, bob.address, 400_000n);
+
+      expect(await token.balanceOf(bob.address)).to.equal(9_400_000n);
+      expect(await token.totalSupply()).to.equal(9_400_000n);
+      expect((await token.getClaim(requestId)).claimed).to.equal(true);
+    });
+
+    it("should credit zero when requesting more than the encrypted balance", async function () {
+      const { token, bob, bobClient } = await setupFixture();
+
+      await token.connect(bob).encrypt(1_000n);
+
+      const tx = await token.connect(bob)["requestDecrypt(uint64)"](2_000n);
+      const requestId = await getDecryptRequestId(tx, token);
+      await hre.cofhe.mocks.expectPlaintext(requestId, 0n);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+      await token.claimDecrypted(requestId, decryption.decryptedValue, decryption.signature);
+
+      expect(await token.balanceOf(bob.address)).to.equal(9_999_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialBalanceOf(bob.address), 1_000n);
+    });
+
+    it("should accept an encrypted amount the caller has access to", async function () {
+      const { token, bob, eve } = await setupFixture();
+
+      await token.connect(bob).encrypt(1_000n);
+      const balance = await token.confidentialBalanceOf(bob.address);
+
+      await expect(token.connect(eve)["requestDecrypt(uint256)"](balance))
+        .to.be.revertedWithCustomError(token, "FHERC20UnauthorizedUseOfEncryptedAmount")
+        .withArgs(balance, eve.address);
+
+      await expect(token.connect(bob)["requestDecrypt(uint256)"](balance)).to.emit(token, "DecryptRequested");
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialBalanceOf(bob.address), 0n);
+    });
+
+    it("should claim encrypted tokens minted directly", async function () {
+      const { token, bob, bobClient } = await setupFixture();
+
+      // Minted with `_mint`, so not counted in the encrypted supply bound
+      await token.mint(bob.address, 1_000n);
+
+      const tx = await token.connect(bob)["requestDecrypt(uint64)"](1_000n);
+      const requestId = await getDecryptRequestId(tx, token);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(token.claimDecrypted(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(token, "ClaimedDecrypted")
+        .withArgs(bob.address, requestId, requestId, 1_000n);
+
+      expect(await token.balanceOf(bob.address)).to.equal(10_001_000n);
+      expect(await token.totalSupply()).to.equal(10_001_000n);
+
+      await token.connect(bob).encrypt(1_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialBalanceOf(bob.address), 1_000n);
+    });
+
+    it("should revert on double claim", async function () {
+      const { token, bob, bobClient } = await setupFixture();
+
+      await token.connect(bob).encrypt(1_000n);
+
+      const tx = await token.connect(bob)["requestDecrypt(uint64)"](1_000n);
+      const requestId = await getDecryptRequestId(tx, token);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await token.claimDecrypted(requestId, decryption.decryptedValue, decryption.signature);
+      await expect(
+        token.claimDecrypted(requestId, decryption.decryptedValue, decryption.signature),
+      ).to.be.revertedWithCustomError(token, "AlreadyClaimed");
+    });
+  });
+}
+
+describe("FHERC20Hybrid", function () {
+  shouldBehaveLikeFHERC20Hybrid(async () => {
+    const factory = await ethers.getContractFactory("FHERC20Hybrid_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    )) as FHERC20Hybrid_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20HybridUpgradeable", function () {
+  shouldBehaveLikeFHERC20Hybrid(async () => {
+    const implFactory = await ethers.getContractFactory("FHERC20HybridUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20HybridUpgradeable_Harness;
+  });
+});
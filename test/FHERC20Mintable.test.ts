@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { CofheClient, Encryptable } from "@cofhe/sdk";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FHERC20Mintable_Harness, FHERC20MintableUpgradeable_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20MintableToken = FHERC20Mintable_Harness | FHERC20MintableUpgradeable_Harness;
+
+function shouldBehaveLikeFHERC20Mintable(deployToken: (admin: string) => Promise<FHERC20MintableToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice, minter, burner] = await ethers.getSigners();
+    const token = await deployToken(owner.address);
+
+    const ownerClient = await hre.cofhe.createClientWithBatteries(owner);
+    const minterClient = await hre.cofhe.createClientWithBatteries(minter);
+    const burnerClient = await hre.cofhe.createClientWithBatteries(burner);
+
+    await token.grantRole(await token.MINTER_ROLE(), minter.address);
+    await token.grantRole(await token.BURNER_ROLE(), burner.address);
+
+    return { owner, bob, alice, minter, burner, ownerClient, minterClient, burnerClient, token };
+  }
+
+  async function setMinterAllowance(
+    token: FHERC20MintableToken,
+    owner: HardhatEthersSigner,
+    ownerClient: CofheClient,
+    minter: string,
+    allowance: bigint,
+  ) {
+    const [encAllowance] = await ownerClient.encryptInputs([Encryptable.uint64(allowance)]).execute();
+    return token.connect(owner)["setMinterAllowance(address,(uint256,uint8,uint8,bytes))"](minter, encAllowance);
+  }
+
+  it("should support the IFHERC20Mintable and IAccessControl interfaces", async function () {
+    const { token } = await setupFixture();
+
+    const mintableInterfaceId = computeInterfaceId([
+      "confidentialMinterAllowance(address)",
+      "setMinterAllowance(address,(uint256,uint8,uint8,bytes))",
+      "setMinterAllowance(address,bytes32)",
+      "mint(address,(uint256,uint8,uint8,bytes))",
+      "mint(address,bytes32)",
+      "burn(address,(uint256,uint8,uint8,bytes))",
+      "burn(address,bytes32)",
+    ]);
+    expect(await token.supportsInterface(mintableInterfaceId)).to.equal(true);
+    // IAccessControl
+    expect(await token.supportsInterface("0x7965db0b")).to.equal(true);
+  });
+
+  it("should set the minter allowance and emit MinterAllowanceSet", async function () {
+    const { token, owner, ownerClient, minter } = await setupFixture();
+
+    await expect(setMinterAllowance(token, owner, ownerClient, minter.address, 5_000_000n)).to.emit(
+      token,
+      "MinterAllowanceSet",
+    );
+
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialMinterAllowance(minter.address), 5_000_000n);
+  });
+
+  it("should only let the admin set minter allowances", async function () {
+    const { token, minter, minterClient } = await setupFixture();
+
+    const [encAllowance] = await minterClient.encryptInputs([Encryptable.uint64(1n)]).execute();
+
+    await expect(
+      token.connect(minter)["setMinterAllowance(address,(uint256,uint8,uint8,bytes))"](minter.address, encAllowance),
+    ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+  });
+
+  it("should mint within the allowance and decrement it", async function () {
+    const { token, owner, ownerClient, bob, minter, minterClient } = await setupFixture();
+
+    await setMinterAllowance(token, owner, ownerClient, minter.address, 5_000_000n);
+
+    const [encAmount] = await minterClient.encryptInputs([Encryptable.uint64(2_000_000n)]).execute();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await expect(token.connect(minter)["mint(address,(uint256,uint8,uint8,bytes))"](bob.address, encAmount)).to.emit(
+      token,
+      "ConfidentialTransfer",
+    );
+
+    await expectFHERC20BalancesChange(token, bob.address, 2_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialMinterAllowance(minter.address), 3_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialTotalSupply(), 2_000_000n);
+  });
+
+  it("should mint zero and keep the allowance when the quota is exceeded", async function () {
+    const { token, owner, ownerClient, bob, minter, minterClient } = await setupFixture();
+
+    await setMinterAllowance(token, owner, ownerClient, minter.address, 1_000_000n);
+
+    const [encAmount] = await minterClient.encryptInputs([Encryptable.uint64(2_000_000n)]).execute();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await token.connect(minter)["mint(address,(uint256,uint8,uint8,bytes))"](bob.address, encAmount);
+
+    await expectFHERC20BalancesChange(token, bob.address, 0n);
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialMinterAllowance(minter.address), 1_000_000n);
+  });
+
+  it("should mint zero for a minter without an allowance", async function () {
+    const { token, bob, minter, minterClient } = await setupFixture();
+
+    const [encAmount] = await minterClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await token.connect(minter)["mint(address,(uint256,uint8,uint8,bytes))"](bob.address, encAmount);
+
+    await expectFHERC20BalancesChange(token, bob.address, 0n);
+  });
+
+  it("should revert mint for accounts without the minter role", async function () {
+    const { token, bob, ownerClient, owner } = await setupFixture();
+
+    const [encAmount] = await ownerClient.encryptInputs([Encryptable.uint64(1n)]).execute();
+
+    await expect(token.connect(owner)["mint(address,(uint256,uint8,uint8,bytes))"](bob.address, encAmount))
+      .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+      .withArgs(owner.address, await token.MINTER_ROLE());
+  });
+
+  it("should burn from any account with the burner role", async function () {
+    const { token, owner, ownerClient, bob, minter, minterClient, burner, burnerClient } = await setupFixture();
+
+    await setMinterAllowance(token, owner, ownerClient, minter.address, 5_000_000n);
+    const [encMint] = await minterClient.encryptInputs([Encryptable.uint64(5_000_000n)]).execute();
+    await token.connect(minter)["mint(address,(uint256,uint8,uint8,bytes))"](bob.address, encMint);
+
+    const [encBurn] = await burnerClient.encryptInputs([Encryptable.uint64(1_500_000n)]).execute();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await token.connect(burner)["burn(address,(uint256,uint8,uint8,bytes))"](bob.address, encBurn);
+
+    await expectFHERC20BalancesChange(token, bob.address, -1_500_000n);
+    await hre.cofhe.mocks.expectPlaintext(await token.confidentialTotalSupply(), 3_500_000n);
+  });
+
+  it("should revert burn for accounts without the burner role", async function () {
+    const { token, bob, minter, minterClient } = await setupFixture();
+
+    const [encAmount] = await minterClient.encryptInputs([Encryptable.uint64(1n)]).execute();
+
+    await expect(
+      token.connect(minter)["burn(address,(uint256,uint8,uint8,bytes))"](bob.address, encAmount),
+    ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+  });
+
+  it("should revert mint with an encrypted amount the caller has no access to", async function () {
+    const { token, owner, ownerClient, bob, minter, minterClient } = await setupFixture();
+
+    await setMinterAllowance(token, owner, ownerClient, minter.address, 5_000_000n);
+    const [encAmount] = await minterClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+    await token.connect(minter)["mint(address,(uint256,uint8,uint8,bytes))"](bob.address, encAmount);
+
+    const totalSupplyHandle = await token.confidentialTotalSupply();
+
+    await expect(token.connect(minter)["mint(address,bytes32)"](bob.address, totalSupplyHandle))
+      .to.be.revertedWithCustomError(token, "FHERC20UnauthorizedUseOfEncryptedAmount")
+      .withArgs(totalSupplyHandle, minter.address);
+  });
+}
+
+describe("FHERC20Mintable", function () {
+  shouldBehaveLikeFHERC20Mintable(async (admin: string) => {
+    const factory = await ethers.getContractFactory("FHERC20Mintable_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+      admin,
+    )) as FHERC20Mintable_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20MintableUpgradeable", function () {
+  shouldBehaveLikeFHERC20Mintable(async (admin: string) => {
+    const implFactory = await ethers.getContractFactory("FHERC20MintableUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+      admin,
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20MintableUpgradeable_Harness;
+  });
+});
@@ -1,7 +1,8 @@
 import { expect } from "chai";
 import hre, { ethers } from "hardhat";
-import { FHERC20NativeWrapper_Harness, WETH_Harness } from "../typechain-types";
+import { FHERC20NativeWrapper_Harness, MockClaimCallTarget, WETH_Harness } from "../typechain-types";
 import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
 import { ZeroAddress, ContractTransactionResponse } from "ethers";
 
 async function getUnshieldRequestId(
@@ -75,6 +76,24 @@ describe("FHERC20NativeWrapper", function () {
       // Random unsupported
       expect(await eETH.supportsInterface("0xdeadbeef")).to.equal(false);
     });
+
+    it("should support the IFHERC20Wrapper interface", async function () {
+      const { eETH } = await setupFixture();
+
+      const interfaceId = computeInterfaceId([
+        "unshield(address,address,uint64)",
+        "unshield(address,address,bytes32)",
+        "unshield(address,address,uint64,uint64)",
+        "unshield(address,address,bytes32,uint64)",
+        "unshieldAndCall(address,address,uint64,address,bytes)",
+        "unshieldAndCall(address,address,bytes32,address,bytes)",
+        "claimUnshielded(bytes32,uint64,bytes)",
+        "claimUnshieldedWithFee(bytes32,uint64,bytes,address)",
+        "claimUnshieldedAndCall(bytes32,uint64,bytes)",
+        "rate()",
+      ]);
+      expect(await eETH.supportsInterface(interfaceId)).to.equal(true);
+    });
   });
 
   describe("shieldWrappedNative (WETH → FHERC20)", function () {
@@ -90,7 +109,9 @@ describe("FHERC20NativeWrapper", function () {
 
       await prepExpectFHERC20BalancesChange(eETH, bob.address);
 
-      await expect(eETH.connect(bob).shieldWrappedNative(bob, shieldValue)).to.emit(eETH, "ShieldedNative");
+      await expect(eETH.connect(bob).shieldWrappedNative(bob, shieldValue))
+        .to.emit(eETH, "Shielded")
+        .withArgs(bob.address, bob.address, shieldValue);
 
       await expectFHERC20BalancesChange(eETH, bob.address, confidentialValue);
       await hre.cofhe.mocks.expectPlaintext(await eETH.confidentialTotalSupply(), confidentialValue);
@@ -168,7 +189,9 @@ describe("FHERC20NativeWrapper", function () {
 
       await prepExpectFHERC20BalancesChange(eETH, bob.address);
 
-      await expect(eETH.connect(bob).shieldNative(bob, { value: shieldValue })).to.emit(eETH, "ShieldedNative");
+      await expect(eETH.connect(bob).shieldNative(bob, { value: shieldValue }))
+        .to.emit(eETH, "Shielded")
+        .withArgs(bob.address, bob.address, shieldValue);
 
       await expectFHERC20BalancesChange(eETH, bob.address, confidentialValue);
       await hre.cofhe.mocks.expectPlaintext(await eETH.confidentialTotalSupply(), confidentialValue);
@@ -246,7 +269,7 @@ describe("FHERC20NativeWrapper", function () {
       expect(pendingClaim.claimed).to.equal(false);
 
       // Verify getUserClaims tracks the pending claim
-      const aliceClaims = await eETH.getUserClaims(alice.address);
+      const aliceClaims = await eETH["getUserClaims(address)"](alice.address);
       expect(aliceClaims.length).to.equal(1);
       expect(aliceClaims[0].ctHash).to.equal(unshieldRequestId);
 
@@ -269,7 +292,7 @@ describe("FHERC20NativeWrapper", function () {
       const claimedClaim = await eETH.getClaim(unshieldRequestId);
       expect(claimedClaim.claimed).to.equal(true);
 
-      const aliceClaimsAfter = await eETH.getUserClaims(alice.address);
+      const aliceClaimsAfter = await eETH["getUserClaims(address)"](alice.address);
       expect(aliceClaimsAfter.length).to.equal(0);
     });
 
@@ -319,7 +342,7 @@ describe("FHERC20NativeWrapper", function () {
       const requestId2 = await getUnshieldRequestId(tx2, eETH);
 
       // Alice should have 2 pending claims
-      const pendingClaims = await eETH.getUserClaims(alice.address);
+      const pendingClaims = await eETH["getUserClaims(address)"](alice.address);
       expect(pendingClaims.length).to.equal(2);
 
       await hre.network.provider.send("evm_increaseTime", [11]);
@@ -343,7 +366,7 @@ describe("FHERC20NativeWrapper", function () {
       expect(aliceBalanceAfter - aliceBalanceBefore).to.equal(totalNativeValue);
 
       // All claims cleared
-      const claimsAfter = await eETH.getUserClaims(alice.address);
+      const claimsAfter = await eETH["getUserClaims(address)"](alice.address);
       expect(claimsAfter.length).to.equal(0);
     });
 
@@ -377,7 +400,7 @@ describe("FHERC20NativeWrapper", function () {
       expect(pendingClaim.claimed).to.equal(false);
 
       // Verify getUserClaims tracks the pending claim
-      const aliceClaims = await eETH.getUserClaims(alice.address);
+      const aliceClaims = await eETH["getUserClaims(address)"](alice.address);
       expect(aliceClaims.length).to.equal(1);
       expect(aliceClaims[0].ctHash).to.equal(unshieldRequestId);
 
@@ -400,7 +423,7 @@ describe("FHERC20NativeWrapper", function () {
       const claimedClaim = await eETH.getClaim(unshieldRequestId);
       expect(claimedClaim.claimed).to.equal(true);
 
-      const aliceClaimsAfter = await eETH.getUserClaims(alice.address);
+      const aliceClaimsAfter = await eETH["getUserClaims(address)"](alice.address);
       expect(aliceClaimsAfter.length).to.equal(0);
     });
   });
@@ -429,6 +452,309 @@ describe("FHERC20NativeWrapper", function () {
     });
   });
 
+  describe("claimUnshieldedWithFee", function () {
+    it("should pay the relayer fee and the rest to the requester", async function () {
+      const { eETH, bob, alice, eve, bobClient } = await setupFixture();
+
+      await eETH.connect(bob).shieldNative(bob, { value: ethers.parseEther("10") });
+
+      const unshieldValue = 1_000_000n;
+      const maxRelayerFee = 10_000n;
+
+      const tx = await eETH
+        .connect(bob)
+        ["unshield(address,address,uint64,uint64)"](bob.address, alice.address, unshieldValue, maxRelayerFee);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      const aliceBalanceBefore = await ethers.provider.getBalance(alice.address);
+      const feeRecipient = ethers.Wallet.createRandom().address;
+
+      await expect(
+        eETH
+          .connect(eve)
+          .claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, feeRecipient),
+      )
+        .to.emit(eETH, "RelayerFeePaid")
+        .withArgs(feeRecipient, requestId, maxRelayerFee)
+        .and.to.emit(eETH, "ClaimedUnshielded")
+        .withArgs(alice.address, requestId, requestId, unshieldValue);
+
+      expect(await ethers.provider.getBalance(feeRecipient)).to.equal(maxRelayerFee * conversionRate);
+      expect((await ethers.provider.getBalance(alice.address)) - aliceBalanceBefore).to.equal(
+        (unshieldValue - maxRelayerFee) * conversionRate,
+      );
+    });
+
+    it("should not pay a fee for requests created without one", async function () {
+      const { eETH, bob, alice, eve, bobClient } = await setupFixture();
+
+      await eETH.connect(bob).shieldNative(bob, { value: ethers.parseEther("10") });
+
+      const tx = await eETH.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, 1_000_000n);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      const aliceBalanceBefore = await ethers.provider.getBalance(alice.address);
+
+      await expect(
+        eETH
+          .connect(eve)
+          .claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, eve.address),
+      ).to.not.emit(eETH, "RelayerFeePaid");
+
+      expect((await ethers.provider.getBalance(alice.address)) - aliceBalanceBefore).to.equal(
+        1_000_000n * conversionRate,
+      );
+    });
+  });
+
+  describe("claimUnshieldedAndCall", function () {
+    const unshieldAndCall = "unshieldAndCall(address,address,uint64,address,bytes)";
+
+    async function setupCallFixture() {
+      const fixture = await setupFixture();
+      const { eETH, bob, alice } = fixture;
+
+      const targetFactory = await ethers.getContractFactory("MockClaimCallTarget");
+      const target = (await targetFactory.deploy()) as MockClaimCallTarget;
+      await target.waitForDeployment();
+
+      await eETH.connect(bob).shieldNative(bob, { value: ethers.parseEther("10") });
+
+      const data = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [alice.address]);
+
+      return { ...fixture, target, data };
+    }
+
+    it("should send the payout to the target with onUnshieldReceived", async function () {
+      const { eETH, bob, alice, bobClient, target, data } = await setupCallFixture();
+
+      const unshieldValue = 1_000_000n;
+
+      const tx = await eETH
+        .connect(bob)
+        [unshieldAndCall](bob.address, alice.address, unshieldValue, target.target, data);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(eETH.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(eETH, "ClaimCallExecuted")
+        .withArgs(requestId, target.target, true)
+        .and.to.emit(target, "Deposited")
+        .withArgs(ZeroAddress, alice.address, unshieldValue * conversionRate);
+
+      expect(await ethers.provider.getBalance(target.target)).to.equal(unshieldValue * conversionRate);
+    });
+
+    it("should fall back to the recipient when the target call fails", async function () {
+      const { eETH, bob, alice, bobClient, target, data } = await setupCallFixture();
+
+      await target.setShouldRevert(true);
+
+      const tx = await eETH.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000_000n, target.target, data);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      const aliceBalanceBefore = await ethers.provider.getBalance(alice.address);
+
+      await expect(eETH.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(eETH, "ClaimCallExecuted")
+        .withArgs(requestId, target.target, false);
+
+      expect((await ethers.provider.getBalance(alice.address)) - aliceBalanceBefore).to.equal(
+        1_000_000n * conversionRate,
+      );
+      expect(await ethers.provider.getBalance(target.target)).to.equal(0n);
+    });
+
+    it("should not make arbitrary calls from the wrapper", async function () {
+      const { eETH, bob, alice, eve, bobClient } = await setupCallFixture();
+
+      const taskManager = new ethers.Contract(
+        "0xeA30c4B8b44078Bbf8a6ef5b9f1eC1626C7848D9",
+        [
+          "function allow(uint256 ctHash, address account)",
+          "function isAllowed(uint256 ctHash, address account) returns (bool)",
+        ],
+        ethers.provider,
+      );
+      const bobBalance = await eETH.confidentialBalanceOf(bob.address);
+      const data = taskManager.interface.encodeFunctionData("allow", [bobBalance, eve.address]);
+
+      const tx = await eETH.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, taskManager.target, data);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      const aliceBalanceBefore = await ethers.provider.getBalance(alice.address);
+
+      await expect(eETH.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(eETH, "ClaimCallExecuted")
+        .withArgs(requestId, taskManager.target, false);
+
+      expect(await taskManager.isAllowed.staticCall(bobBalance, eve.address)).to.equal(false);
+      expect((await ethers.provider.getBalance(alice.address)) - aliceBalanceBefore).to.equal(1_000n * conversionRate);
+    });
+
+    it("should pay the recipient once when the target accepts the payout without the callback", async function () {
+      const { eETH, bob, alice, eve, bobClient, data } = await setupCallFixture();
+
+      const fallbackFactory = await ethers.getContractFactory("MockPayableFallback");
+      const payableFallback = await fallbackFactory.deploy();
+      await payableFallback.waitForDeployment();
+
+      // An account without code and a contract with a payable fallback both accept the call with the payout
+      for (const target of [eve.address, await payableFallback.getAddress()]) {
+        const tx = await eETH.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, target, data);
+        const requestId = await getUnshieldRequestId(tx, eETH);
+        const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+        const aliceBalanceBefore = await ethers.provider.getBalance(alice.address);
+        const targetBalanceBefore = await ethers.provider.getBalance(target);
+        const wrapperBalanceBefore = await ethers.provider.getBalance(eETH.target);
+
+        await expect(eETH.claimUnshieldedAndCall(requestId, decryption.decryptedValue, decryption.signature))
+          .to.emit(eETH, "ClaimCallExecuted")
+          .withArgs(requestId, target, false);
+
+        expect((await ethers.provider.getBalance(alice.address)) - aliceBalanceBefore).to.equal(
+          1_000n * conversionRate,
+        );
+        expect(await ethers.provider.getBalance(target)).to.equal(targetBalanceBefore);
+        expect(wrapperBalanceBefore - (await ethers.provider.getBalance(eETH.target))).to.equal(
+          1_000n * conversionRate,
+        );
+      }
+    });
+
+    it("should only let the wrapper execute claim calls", async function () {
+      const { eETH, bob, target, data } = await setupCallFixture();
+
+      await expect(eETH.connect(bob).executeClaimCall(bob.address, target.target, 1n, data))
+        .to.be.revertedWithCustomError(eETH, "FHERC20UnauthorizedCaller")
+        .withArgs(bob.address);
+    });
+  });
+
+  describe("WETH payouts", function () {
+    async function setupShieldedFixture() {
+      const fixture = await setupFixture();
+      await fixture.eETH.connect(fixture.bob).shieldNative(fixture.bob, { value: ethers.parseEther("10") });
+      return fixture;
+    }
+
+    it("should pay requests created with unshieldWrappedNative in WETH", async function () {
+      const { eETH, wETH, bob, alice, bobClient } = await setupShieldedFixture();
+
+      const tx = await eETH
+        .connect(bob)
+        ["unshieldWrappedNative(address,address,uint64)"](bob.address, alice.address, 1_000_000n);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      expect(await eETH.paysWrappedNative(requestId)).to.equal(true);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+      const aliceBalanceBefore = await ethers.provider.getBalance(alice.address);
+
+      await expect(eETH.connect(bob).claimUnshielded(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(eETH, "WrappedNativeSent")
+        .withArgs(alice.address, 1_000_000n * conversionRate)
+        .and.to.emit(eETH, "ClaimedUnshielded");
+
+      expect(await wETH.balanceOf(alice.address)).to.equal(1_000_000n * conversionRate);
+      expect(await ethers.provider.getBalance(alice.address)).to.equal(aliceBalanceBefore);
+    });
+
+    it("should let the requester choose WETH at claim time", async function () {
+      const { eETH, wETH, bob, alice, bobClient } = await setupShieldedFixture();
+
+      const tx = await eETH.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, 1_000_000n);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      expect(await eETH.paysWrappedNative(requestId)).to.equal(false);
+
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(
+        eETH.connect(bob).claimUnshieldedWrappedNative(requestId, decryption.decryptedValue, decryption.signature),
+      )
+        .to.be.revertedWithCustomError(eETH, "FHERC20UnauthorizedCaller")
+        .withArgs(bob.address);
+
+      await expect(
+        eETH.connect(alice).claimUnshieldedWrappedNative(requestId, decryption.decryptedValue, decryption.signature),
+      )
+        .to.emit(eETH, "WrappedNativeSent")
+        .withArgs(alice.address, 1_000_000n * conversionRate);
+
+      expect(await wETH.balanceOf(alice.address)).to.equal(1_000_000n * conversionRate);
+    });
+
+    it("should fall back to WETH when the recipient rejects native tokens", async function () {
+      const { eETH, wETH, bob, bobClient } = await setupShieldedFixture();
+
+      // MockClaimCallTarget has no receive function
+      const recipient = await (await ethers.getContractFactory("MockClaimCallTarget")).deploy();
+
+      const tx = await eETH.connect(bob)["unshield(address,address,uint64)"](bob.address, recipient.target, 1_000_000n);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(eETH.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature))
+        .to.emit(eETH, "WrappedNativeSent")
+        .withArgs(recipient.target, 1_000_000n * conversionRate)
+        .and.to.emit(eETH, "ClaimedUnshielded");
+
+      expect(await wETH.balanceOf(recipient.target)).to.equal(1_000_000n * conversionRate);
+      expect(await ethers.provider.getBalance(recipient.target)).to.equal(0n);
+    });
+
+    it("should not fall back to WETH for relayer fees", async function () {
+      const { eETH, bob, alice, bobClient } = await setupShieldedFixture();
+
+      const feeRecipient = await (await ethers.getContractFactory("MockClaimCallTarget")).deploy();
+
+      const tx = await eETH
+        .connect(bob)
+        ["unshield(address,address,uint64,uint64)"](bob.address, alice.address, 1_000_000n, 1_000n);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(
+        eETH.claimUnshieldedWithFee(requestId, decryption.decryptedValue, decryption.signature, feeRecipient.target),
+      ).to.be.revertedWithCustomError(eETH, "NativeTransferFailed");
+    });
+  });
+
+  describe("claim delay and outflow limits", function () {
+    it("should revert until the claim delay elapses and within the outflow limit", async function () {
+      const { eETH, bob, alice, bobClient } = await setupFixture();
+
+      await eETH.connect(bob).shieldNative(bob, { value: ethers.parseEther("10") });
+      await eETH.setClaimDelay(3600n);
+      await eETH.setOutflowLimits(86_400n, 0n, 500_000n);
+
+      const tx = await eETH.connect(bob)["unshield(address,address,uint64)"](bob.address, alice.address, 1_000_000n);
+      const requestId = await getUnshieldRequestId(tx, eETH);
+      const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+      await expect(
+        eETH.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature),
+      ).to.be.revertedWithCustomError(eETH, "ClaimNotReady");
+
+      await hre.network.provider.send("evm_increaseTime", [3600]);
+      await hre.network.provider.send("evm_mine");
+
+      await expect(eETH.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature))
+        .to.be.revertedWithCustomError(eETH, "RecipientOutflowLimitExceeded")
+        .withArgs(alice.address, 1_000_000n, 500_000n);
+
+      await eETH.setOutflowLimits(86_400n, 0n, 1_000_000n);
+      await expect(eETH.claimUnshielded(requestId, decryption.decryptedValue, decryption.signature)).to.emit(
+        eETH,
+        "ClaimedUnshielded",
+      );
+    });
+  });
+
   describe("claimUnshielded reverts", function () {
     it("should revert on invalid request id", async function () {
       const { eETH } = await setupFixture();
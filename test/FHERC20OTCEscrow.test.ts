@@ -0,0 +1,221 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ZeroAddress } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FHERC20_Harness, FHERC20OTCEscrow } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+
+const MAKER_AMOUNT = 1_000_000n;
+const TAKER_AMOUNT = 3_000_000n;
+
+describe("FHERC20OTCEscrow", function () {
+  async function deployToken(name: string, symbol: string) {
+    const factory = await ethers.getContractFactory("FHERC20_Harness");
+    const token = (await factory.deploy(name, symbol, 6, "https://example.com/contract.json")) as FHERC20_Harness;
+    await token.waitForDeployment();
+    return token;
+  }
+
+  async function setupFixture() {
+    const [owner, maker, taker, eve] = await ethers.getSigners();
+
+    const tokenA = await deployToken("Token A", "TKA");
+    const tokenB = await deployToken("Token B", "TKB");
+
+    const escrowFactory = await ethers.getContractFactory("FHERC20OTCEscrow");
+    const escrow = (await escrowFactory.deploy()) as FHERC20OTCEscrow;
+    await escrow.waitForDeployment();
+
+    await tokenA.mint(maker.address, 10_000_000n);
+    await tokenA.mint(eve.address, 10_000_000n);
+    await tokenB.mint(taker.address, 10_000_000n);
+
+    const makerClient = await hre.cofhe.createClientWithBatteries(maker);
+    const takerClient = await hre.cofhe.createClientWithBatteries(taker);
+    const eveClient = await hre.cofhe.createClientWithBatteries(eve);
+
+    const expiry = BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 1_000n;
+    const [encMakerAmount, encTakerAmount] = await makerClient
+      .encryptInputs([Encryptable.uint64(MAKER_AMOUNT), Encryptable.uint64(TAKER_AMOUNT)])
+      .execute();
+    await escrow
+      .connect(maker)
+      .createOrder(taker.address, tokenA.target, encMakerAmount, tokenB.target, encTakerAmount, expiry);
+
+    return { owner, maker, taker, eve, makerClient, takerClient, eveClient, tokenA, tokenB, escrow, expiry };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof setupFixture>>;
+
+  async function deposit(
+    fixture: Fixture,
+    token: FHERC20_Harness,
+    account: HardhatEthersSigner,
+    client: Fixture["makerClient"],
+    value: bigint,
+  ) {
+    const [encAmount] = await client.encryptInputs([Encryptable.uint64(value)]).execute();
+    const data = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [0]);
+    return token
+      .connect(account)
+      [
+        "confidentialTransferFromAndCall(address,address,(uint256,uint8,uint8,bytes),bytes)"
+      ](account.address, fixture.escrow.target, encAmount, data);
+  }
+
+  async function prepBalances(fixture: Fixture) {
+    const { tokenA, tokenB, maker, taker } = fixture;
+    for (const token of [tokenA, tokenB]) {
+      await prepExpectFHERC20BalancesChange(token, maker.address);
+      await prepExpectFHERC20BalancesChange(token, taker.address);
+    }
+  }
+
+  it("should create orders", async function () {
+    const { escrow, maker, taker, tokenA, tokenB, expiry } = await setupFixture();
+
+    const order = await escrow.getOrder(0);
+    expect(order.maker).to.equal(maker.address);
+    expect(order.taker).to.equal(taker.address);
+    expect(order.makerToken).to.equal(tokenA.target);
+    expect(order.takerToken).to.equal(tokenB.target);
+    expect(order.expiry).to.equal(expiry);
+    expect(order.status).to.equal(1);
+
+    await hre.cofhe.mocks.expectPlaintext(order.makerAmount, MAKER_AMOUNT);
+    await hre.cofhe.mocks.expectPlaintext(order.takerAmount, TAKER_AMOUNT);
+  });
+
+  it("should revert on an invalid counterparty or expiry", async function () {
+    const { escrow, maker, makerClient, tokenA, tokenB, expiry } = await setupFixture();
+
+    const [encA, encB] = await makerClient
+      .encryptInputs([Encryptable.uint64(MAKER_AMOUNT), Encryptable.uint64(TAKER_AMOUNT)])
+      .execute();
+
+    await expect(escrow.connect(maker).createOrder(ZeroAddress, tokenA.target, encA, tokenB.target, encB, expiry))
+      .to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowInvalidCounterparty")
+      .withArgs(ZeroAddress);
+    await expect(escrow.connect(maker).createOrder(maker.address, tokenA.target, encA, tokenB.target, encB, expiry))
+      .to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowInvalidCounterparty")
+      .withArgs(maker.address);
+    await expect(
+      escrow
+        .connect(maker)
+        .createOrder(ethers.Wallet.createRandom().address, tokenA.target, encA, tokenB.target, encB, 1),
+    )
+      .to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowInvalidExpiry")
+      .withArgs(1);
+  });
+
+  it("should swap when both deposits cover the agreed amounts", async function () {
+    const fixture = await setupFixture();
+    const { escrow, tokenA, tokenB, maker, taker, makerClient, takerClient } = fixture;
+
+    await prepBalances(fixture);
+
+    await expect(deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT)).to.emit(escrow, "OrderDeposited");
+    // The taker over-deposits, the excess is refunded
+    await deposit(fixture, tokenB, taker, takerClient, TAKER_AMOUNT + 500_000n);
+
+    await expect(escrow.settle(0)).to.emit(escrow, "OrderSettled");
+
+    await hre.cofhe.mocks.expectPlaintext(await escrow.confidentialSwapped(0), 1n);
+    await expectFHERC20BalancesChange(tokenA, maker.address, -MAKER_AMOUNT);
+    await expectFHERC20BalancesChange(tokenA, taker.address, MAKER_AMOUNT);
+    await expectFHERC20BalancesChange(tokenB, maker.address, TAKER_AMOUNT);
+    await expectFHERC20BalancesChange(tokenB, taker.address, -TAKER_AMOUNT);
+  });
+
+  it("should refund both sides when a deposit falls short", async function () {
+    const fixture = await setupFixture();
+    const { escrow, tokenA, tokenB, maker, taker, makerClient, takerClient } = fixture;
+
+    await prepBalances(fixture);
+
+    await deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT);
+    await deposit(fixture, tokenB, taker, takerClient, TAKER_AMOUNT - 1n);
+
+    await escrow.settle(0);
+
+    await hre.cofhe.mocks.expectPlaintext(await escrow.confidentialSwapped(0), 0n);
+    await expectFHERC20BalancesChange(tokenA, maker.address, 0n);
+    await expectFHERC20BalancesChange(tokenA, taker.address, 0n);
+    await expectFHERC20BalancesChange(tokenB, maker.address, 0n);
+    await expectFHERC20BalancesChange(tokenB, taker.address, 0n);
+  });
+
+  it("should reject invalid deposits", async function () {
+    const fixture = await setupFixture();
+    const { escrow, tokenA, maker, eve, makerClient, eveClient } = fixture;
+
+    // Not a party
+    await expect(deposit(fixture, tokenA, eve, eveClient, MAKER_AMOUNT))
+      .to.be.revertedWithCustomError(escrow, "FHERC20UnauthorizedCaller")
+      .withArgs(tokenA.target);
+
+    await deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT);
+    await expect(deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT))
+      .to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowAlreadyDeposited")
+      .withArgs(0, maker.address);
+  });
+
+  it("should not settle with a missing deposit", async function () {
+    const fixture = await setupFixture();
+    const { escrow, tokenA, maker, makerClient } = fixture;
+
+    await deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT);
+
+    await expect(escrow.settle(0)).to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowMissingDeposit").withArgs(0);
+  });
+
+  it("should let a party cancel while a deposit is missing", async function () {
+    const fixture = await setupFixture();
+    const { escrow, tokenA, maker, taker, eve, makerClient } = fixture;
+
+    await prepBalances(fixture);
+    await deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT);
+
+    await expect(escrow.connect(eve).cancel(0))
+      .to.be.revertedWithCustomError(escrow, "FHERC20UnauthorizedCaller")
+      .withArgs(eve.address);
+
+    await expect(escrow.connect(taker).cancel(0)).to.emit(escrow, "OrderCancelled").withArgs(0);
+
+    await expectFHERC20BalancesChange(tokenA, maker.address, 0n);
+    await expect(escrow.settle(0)).to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowOrderNotOpen").withArgs(0);
+  });
+
+  it("should not cancel a fully deposited order", async function () {
+    const fixture = await setupFixture();
+    const { escrow, tokenA, tokenB, maker, taker, makerClient, takerClient } = fixture;
+
+    await deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT);
+    await deposit(fixture, tokenB, taker, takerClient, TAKER_AMOUNT);
+
+    await expect(escrow.connect(maker).cancel(0))
+      .to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowFullyDeposited")
+      .withArgs(0);
+  });
+
+  it("should refund both sides after expiry", async function () {
+    const fixture = await setupFixture();
+    const { escrow, tokenA, tokenB, maker, taker, makerClient, takerClient, expiry } = fixture;
+
+    await prepBalances(fixture);
+    await deposit(fixture, tokenA, maker, makerClient, MAKER_AMOUNT);
+    await deposit(fixture, tokenB, taker, takerClient, TAKER_AMOUNT);
+
+    await expect(escrow.refundExpired(0))
+      .to.be.revertedWithCustomError(escrow, "FHERC20OTCEscrowOrderNotExpired")
+      .withArgs(0);
+
+    await hre.network.provider.send("evm_setNextBlockTimestamp", [Number(expiry) + 1]);
+
+    await expect(escrow.refundExpired(0)).to.emit(escrow, "OrderCancelled").withArgs(0);
+
+    await expectFHERC20BalancesChange(tokenA, maker.address, 0n);
+    await expectFHERC20BalancesChange(tokenB, taker.address, 0n);
+  });
+});
@@ -0,0 +1,324 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ContractTransactionResponse } from "ethers";
+import {
+  ERC20_Harness,
+  FHERC20ERC20WrapperPausable_Harness,
+  FHERC20NativeWrapperPausable_Harness,
+  FHERC20Pausable_Harness,
+  FHERC20PausableUpgradeable_Harness,
+  WETH_Harness,
+} from "../typechain-types";
+import {
+  expectERC20BalancesChange,
+  expectFHERC20BalancesChange,
+  prepExpectERC20BalancesChange,
+  prepExpectFHERC20BalancesChange,
+} from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20PausableToken = FHERC20Pausable_Harness | FHERC20PausableUpgradeable_Harness;
+
+enum PauseTarget {
+  Transfer,
+  Shield,
+  Unshield,
+  Claim,
+}
+
+async function getUnshieldRequestId(
+  tx: ContractTransactionResponse,
+  contract: FHERC20ERC20WrapperPausable_Harness | FHERC20NativeWrapperPausable_Harness,
+): Promise<string> {
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    try {
+      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === "Unshielded") {
+        return parsed.args.amount;
+      }
+    } catch {}
+  }
+  throw new Error("Unshielded event not found");
+}
+
+function shouldBehaveLikeFHERC20Pausable(deployToken: () => Promise<FHERC20PausableToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice] = await ethers.getSigners();
+    const token = await deployToken();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await token.mint(bob.address, 10_000_000n);
+
+    return { owner, bob, alice, bobClient, token };
+  }
+
+  it("should support the IFHERC20Pausable interface", async function () {
+    const { token } = await setupFixture();
+
+    expect(await token.supportsInterface(computeInterfaceId(["paused(uint8)"]))).to.equal(true);
+  });
+
+  it("should pause and unpause each target independently", async function () {
+    const { token, owner } = await setupFixture();
+
+    await expect(token.pause(PauseTarget.Shield)).to.emit(token, "Paused").withArgs(owner.address, PauseTarget.Shield);
+
+    expect(await token.paused(PauseTarget.Shield)).to.equal(true);
+    expect(await token.paused(PauseTarget.Transfer)).to.equal(false);
+    expect(await token.paused(PauseTarget.Unshield)).to.equal(false);
+    expect(await token.paused(PauseTarget.Claim)).to.equal(false);
+
+    await expect(token.unpause(PauseTarget.Shield))
+      .to.emit(token, "Unpaused")
+      .withArgs(owner.address, PauseTarget.Shield);
+    expect(await token.paused(PauseTarget.Shield)).to.equal(false);
+  });
+
+  it("should revert when pausing twice or unpausing an active target", async function () {
+    const { token } = await setupFixture();
+
+    await token.pause(PauseTarget.Transfer);
+
+    await expect(token.pause(PauseTarget.Transfer))
+      .to.be.revertedWithCustomError(token, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Transfer);
+    await expect(token.unpause(PauseTarget.Claim))
+      .to.be.revertedWithCustomError(token, "FHERC20ExpectedPause")
+      .withArgs(PauseTarget.Claim);
+  });
+
+  it("should block confidential transfers while transfers are paused", async function () {
+    const { token, bob, alice, bobClient } = await setupFixture();
+
+    await token.pause(PauseTarget.Transfer);
+
+    const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+
+    await expect(
+      token.connect(bob)["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput),
+    )
+      .to.be.revertedWithCustomError(token, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Transfer);
+
+    // Mints and burns are governed by their own switches
+    await expect(token.mint(bob.address, 1n)).to.not.be.reverted;
+    await expect(token.burn(bob.address, 1n)).to.not.be.reverted;
+  });
+
+  it("should block mints and burns with the shield and unshield switches", async function () {
+    const { token, bob, alice, bobClient } = await setupFixture();
+
+    await token.pause(PauseTarget.Shield);
+    await token.pause(PauseTarget.Unshield);
+
+    await expect(token.mint(bob.address, 1n))
+      .to.be.revertedWithCustomError(token, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Shield);
+    await expect(token.burn(bob.address, 1n))
+      .to.be.revertedWithCustomError(token, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Unshield);
+
+    const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(1_000_000n)]).execute();
+
+    await prepExpectFHERC20BalancesChange(token, alice.address);
+    await token
+      .connect(bob)
+      ["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput);
+    await expectFHERC20BalancesChange(token, alice.address, 1_000_000n);
+  });
+}
+
+describe("FHERC20Pausable", function () {
+  shouldBehaveLikeFHERC20Pausable(async () => {
+    const factory = await ethers.getContractFactory("FHERC20Pausable_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    )) as FHERC20Pausable_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20PausableUpgradeable", function () {
+  shouldBehaveLikeFHERC20Pausable(async () => {
+    const implFactory = await ethers.getContractFactory("FHERC20PausableUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20PausableUpgradeable_Harness;
+  });
+});
+
+describe("FHERC20ERC20WrapperPausable", function () {
+  async function setupFixture() {
+    const [owner, bob, alice] = await ethers.getSigners();
+
+    const wBTCFactory = await ethers.getContractFactory("ERC20_Harness");
+    const wBTC = (await wBTCFactory.deploy("Wrapped BTC", "wBTC", 8)) as ERC20_Harness;
+    await wBTC.waitForDeployment();
+
+    const eBTCFactory = await ethers.getContractFactory("FHERC20ERC20WrapperPausable_Harness");
+    const eBTC = (await eBTCFactory.deploy(
+      wBTC.target,
+      "FHERC20 Wrapped BTC",
+      "eBTC",
+      "https://example.com/ebtc.json",
+    )) as FHERC20ERC20WrapperPausable_Harness;
+    await eBTC.waitForDeployment();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await wBTC.mint(bob, 100_000_000n);
+    await wBTC.connect(bob).approve(eBTC.target, 100_000_000n);
+
+    return { owner, bob, alice, bobClient, wBTC, eBTC };
+  }
+
+  it("should block shield while shielding is paused", async function () {
+    const { eBTC, bob } = await setupFixture();
+
+    await eBTC.pause(PauseTarget.Shield);
+
+    await expect(eBTC.connect(bob).shield(bob, 10_000_000n))
+      .to.be.revertedWithCustomError(eBTC, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Shield);
+  });
+
+  it("should let holders exit while shielding is paused", async function () {
+    const { eBTC, wBTC, bob, bobClient } = await setupFixture();
+
+    await eBTC.connect(bob).shield(bob, 10_000_000n);
+    await eBTC.pause(PauseTarget.Shield);
+
+    const tx = await eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, bob.address, 100_000n);
+    const unshieldRequestId = await getUnshieldRequestId(tx, eBTC);
+
+    await hre.network.provider.send("evm_increaseTime", [11]);
+    await hre.network.provider.send("evm_mine");
+
+    const decryption = await bobClient.decryptForTx(unshieldRequestId).withoutPermit().execute();
+
+    await prepExpectERC20BalancesChange(wBTC, bob.address);
+    await eBTC.connect(bob).claimUnshielded(unshieldRequestId, decryption.decryptedValue, decryption.signature);
+    await expectERC20BalancesChange(wBTC, bob.address, 10_000_000n);
+  });
+
+  it("should block unshield creation while unshielding is paused", async function () {
+    const { eBTC, bob } = await setupFixture();
+
+    await eBTC.connect(bob).shield(bob, 10_000_000n);
+    await eBTC.pause(PauseTarget.Unshield);
+
+    await expect(eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, bob.address, 100_000n))
+      .to.be.revertedWithCustomError(eBTC, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Unshield);
+  });
+
+  it("should block claims while claims are paused", async function () {
+    const { eBTC, bob, bobClient } = await setupFixture();
+
+    await eBTC.connect(bob).shield(bob, 10_000_000n);
+
+    const tx = await eBTC.connect(bob)["unshield(address,address,uint64)"](bob.address, bob.address, 100_000n);
+    const unshieldRequestId = await getUnshieldRequestId(tx, eBTC);
+
+    await hre.network.provider.send("evm_increaseTime", [11]);
+    await hre.network.provider.send("evm_mine");
+
+    const decryption = await bobClient.decryptForTx(unshieldRequestId).withoutPermit().execute();
+
+    await eBTC.pause(PauseTarget.Claim);
+
+    await expect(eBTC.connect(bob).claimUnshielded(unshieldRequestId, decryption.decryptedValue, decryption.signature))
+      .to.be.revertedWithCustomError(eBTC, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Claim);
+    await expect(
+      eBTC.connect(bob).claimUnshieldedBatch([unshieldRequestId], [decryption.decryptedValue], [decryption.signature]),
+    )
+      .to.be.revertedWithCustomError(eBTC, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Claim);
+
+    await eBTC.unpause(PauseTarget.Claim);
+
+    await expect(
+      eBTC.connect(bob).claimUnshielded(unshieldRequestId, decryption.decryptedValue, decryption.signature),
+    ).to.emit(eBTC, "ClaimedUnshielded");
+  });
+});
+
+describe("FHERC20NativeWrapperPausable", function () {
+  async function setupFixture() {
+    const [owner, bob, alice] = await ethers.getSigners();
+
+    const wETHFactory = await ethers.getContractFactory("WETH_Harness");
+    const wETH = (await wETHFactory.deploy()) as WETH_Harness;
+    await wETH.waitForDeployment();
+
+    const eETHFactory = await ethers.getContractFactory("FHERC20NativeWrapperPausable_Harness");
+    const eETH = (await eETHFactory.deploy(
+      wETH.target,
+      "FHERC20 Wrapped ETH",
+      "eETH",
+      "https://example.com/eeth.json",
+    )) as FHERC20NativeWrapperPausable_Harness;
+    await eETH.waitForDeployment();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    return { owner, bob, alice, bobClient, wETH, eETH };
+  }
+
+  it("should block native and WETH shields while shielding is paused", async function () {
+    const { eETH, wETH, bob } = await setupFixture();
+
+    await eETH.pause(PauseTarget.Shield);
+
+    await expect(eETH.connect(bob).shieldNative(bob, { value: ethers.parseEther("1") }))
+      .to.be.revertedWithCustomError(eETH, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Shield);
+
+    await wETH.connect(bob).deposit({ value: ethers.parseEther("1") });
+    await wETH.connect(bob).approve(eETH.target, ethers.parseEther("1"));
+
+    await expect(eETH.connect(bob).shieldWrappedNative(bob, ethers.parseEther("1")))
+      .to.be.revertedWithCustomError(eETH, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Shield);
+  });
+
+  it("should block claims while claims are paused", async function () {
+    const { eETH, bob, bobClient } = await setupFixture();
+
+    await eETH.connect(bob).shieldNative(bob, { value: ethers.parseEther("1") });
+
+    const tx = await eETH.connect(bob)["unshield(address,address,uint64)"](bob.address, bob.address, 100_000n);
+    const unshieldRequestId = await getUnshieldRequestId(tx, eETH);
+
+    await hre.network.provider.send("evm_increaseTime", [11]);
+    await hre.network.provider.send("evm_mine");
+
+    const decryption = await bobClient.decryptForTx(unshieldRequestId).withoutPermit().execute();
+
+    await eETH.pause(PauseTarget.Claim);
+
+    await expect(eETH.connect(bob).claimUnshielded(unshieldRequestId, decryption.decryptedValue, decryption.signature))
+      .to.be.revertedWithCustomError(eETH, "FHERC20EnforcedPause")
+      .withArgs(PauseTarget.Claim);
+  });
+});
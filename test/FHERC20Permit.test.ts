@@ -0,0 +1,196 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FHERC20Permit_Harness, FHERC20PermitUpgradeable_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20PermitToken = FHERC20Permit_Harness | FHERC20PermitUpgradeable_Harness;
+
+const permitOperatorTypes = {
+  PermitOperator: [
+    { name: "holder", type: "address" },
+    { name: "operator", type: "address" },
+    { name: "until", type: "uint48" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+async function signPermitOperator(
+  token: FHERC20PermitToken,
+  signer: HardhatEthersSigner,
+  holder: string,
+  operator: string,
+  until: number,
+  deadline: number,
+  nonce?: bigint,
+): Promise<string> {
+  const domain = {
+    name: await token.name(),
+    version: "1",
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    verifyingContract: await token.getAddress(),
+  };
+  const value = { holder, operator, until, nonce: nonce ?? (await token.nonces(holder)), deadline };
+  return signer.signTypedData(domain, permitOperatorTypes, value);
+}
+
+function shouldBehaveLikeFHERC20Permit(deployToken: () => Promise<FHERC20PermitToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice, eve] = await ethers.getSigners();
+    const token = await deployToken();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    return { owner, bob, alice, eve, bobClient, token };
+  }
+
+  async function getTimestamps() {
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    return { until: now + 1000, deadline: now + 100 };
+  }
+
+  it("should support the IFHERC20Permit interface", async function () {
+    const { token } = await setupFixture();
+
+    const interfaceId = computeInterfaceId([
+      "permitOperator(address,address,uint48,uint256,bytes)",
+      "nonces(address)",
+      "DOMAIN_SEPARATOR()",
+    ]);
+    expect(await token.supportsInterface(interfaceId)).to.equal(true);
+  });
+
+  it("should expose the EIP-712 domain separator", async function () {
+    const { token } = await setupFixture();
+
+    const expected = ethers.TypedDataEncoder.hashDomain({
+      name: await token.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await token.getAddress(),
+    });
+    expect(await token.DOMAIN_SEPARATOR()).to.equal(expected);
+  });
+
+  it("should set an operator from a relayed EOA signature", async function () {
+    const { token, bob, alice, eve } = await setupFixture();
+    const { until, deadline } = await getTimestamps();
+
+    const signature = await signPermitOperator(token, bob, bob.address, alice.address, until, deadline);
+
+    await expect(token.connect(eve).permitOperator(bob.address, alice.address, until, deadline, signature))
+      .to.emit(token, "OperatorSet")
+      .withArgs(bob.address, alice.address, until);
+
+    expect(await token.isOperator(bob.address, alice.address)).to.equal(true);
+    expect(await token.nonces(bob.address)).to.equal(1n);
+  });
+
+  it("should set an operator from an ERC-1271 wallet signature", async function () {
+    const { token, bob, alice, eve } = await setupFixture();
+    const { until, deadline } = await getTimestamps();
+
+    const walletFactory = await ethers.getContractFactory("MockERC1271Wallet");
+    const wallet = await walletFactory.deploy(bob.address);
+    await wallet.waitForDeployment();
+    const walletAddress = await wallet.getAddress();
+
+    const signature = await signPermitOperator(token, bob, walletAddress, alice.address, until, deadline);
+
+    await token.connect(eve).permitOperator(walletAddress, alice.address, until, deadline, signature);
+
+    expect(await token.isOperator(walletAddress, alice.address)).to.equal(true);
+  });
+
+  it("should revert with an expired deadline", async function () {
+    const { token, bob, alice } = await setupFixture();
+    const { until } = await getTimestamps();
+    const deadline = (await ethers.provider.getBlock("latest"))!.timestamp - 1;
+
+    const signature = await signPermitOperator(token, bob, bob.address, alice.address, until, deadline);
+
+    await expect(token.permitOperator(bob.address, alice.address, until, deadline, signature))
+      .to.be.revertedWithCustomError(token, "FHERC20PermitExpiredSignature")
+      .withArgs(deadline);
+  });
+
+  it("should revert when signed by someone other than the holder", async function () {
+    const { token, bob, alice, eve } = await setupFixture();
+    const { until, deadline } = await getTimestamps();
+
+    const signature = await signPermitOperator(token, eve, bob.address, alice.address, until, deadline);
+
+    await expect(token.permitOperator(bob.address, alice.address, until, deadline, signature))
+      .to.be.revertedWithCustomError(token, "FHERC20PermitInvalidSigner")
+      .withArgs(bob.address);
+  });
+
+  it("should revert when a signature is replayed", async function () {
+    const { token, bob, alice } = await setupFixture();
+    const { until, deadline } = await getTimestamps();
+
+    const signature = await signPermitOperator(token, bob, bob.address, alice.address, until, deadline);
+    await token.permitOperator(bob.address, alice.address, until, deadline, signature);
+
+    await expect(
+      token.permitOperator(bob.address, alice.address, until, deadline, signature),
+    ).to.be.revertedWithCustomError(token, "FHERC20PermitInvalidSigner");
+  });
+
+  it("should let a permitted vault deposit without a setOperator transaction", async function () {
+    const { token, bob, eve, bobClient } = await setupFixture();
+    const { until, deadline } = await getTimestamps();
+
+    await token.mint(bob.address, 10_000_000n);
+
+    const vaultFactory = await ethers.getContractFactory("FHERC20Vault_Harness");
+    const vault = await vaultFactory.deploy(token.target);
+    await vault.waitForDeployment();
+    const vaultAddress = await vault.getAddress();
+
+    const signature = await signPermitOperator(token, bob, bob.address, vaultAddress, until, deadline);
+    await token.connect(eve).permitOperator(bob.address, vaultAddress, until, deadline, signature);
+
+    const transferValue = 1_000_000n;
+    const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(transferValue)]).execute();
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await vault.connect(bob)["deposit((uint256,uint8,uint8,bytes))"](encTransferInput);
+
+    await expectFHERC20BalancesChange(token, bob.address, -1n * transferValue);
+  });
+}
+
+describe("FHERC20Permit", function () {
+  shouldBehaveLikeFHERC20Permit(async () => {
+    const factory = await ethers.getContractFactory("FHERC20Permit_Harness");
+    const token = await factory.deploy("Test Token", "TST", 6, "https://example.com/contract.json");
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20PermitUpgradeable", function () {
+  shouldBehaveLikeFHERC20Permit(async () => {
+    const implFactory = await ethers.getContractFactory("FHERC20PermitUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20PermitUpgradeable_Harness;
+  });
+});
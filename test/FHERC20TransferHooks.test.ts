@@ -0,0 +1,254 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ZeroAddress } from "ethers";
+import {
+  FHERC20AllowlistHook,
+  FHERC20MaxBalanceHook,
+  FHERC20TransferHooks_Harness,
+  FHERC20TransferHooksUpgradeable_Harness,
+} from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { computeInterfaceId } from "./FHERC20.behavior";
+
+type FHERC20TransferHooksToken = FHERC20TransferHooks_Harness | FHERC20TransferHooksUpgradeable_Harness;
+
+function shouldBehaveLikeFHERC20TransferHooks(deployToken: () => Promise<FHERC20TransferHooksToken>) {
+  async function setupFixture() {
+    const [owner, bob, alice, eve] = await ethers.getSigners();
+    const token = await deployToken();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await token.mint(bob.address, 10_000_000n);
+
+    const allowlistFactory = await ethers.getContractFactory("FHERC20AllowlistHook");
+    const allowlistHook = (await allowlistFactory.deploy(token.target, owner.address)) as FHERC20AllowlistHook;
+    await allowlistHook.waitForDeployment();
+
+    const maxBalanceFactory = await ethers.getContractFactory("FHERC20MaxBalanceHook");
+    const maxBalanceHook = (await maxBalanceFactory.deploy(
+      token.target,
+      owner.address,
+      5_000_000n,
+    )) as FHERC20MaxBalanceHook;
+    await maxBalanceHook.waitForDeployment();
+
+    return { owner, bob, alice, eve, bobClient, token, allowlistHook, maxBalanceHook };
+  }
+
+  async function transfer(fixture: Awaited<ReturnType<typeof setupFixture>>, value: bigint) {
+    const { token, bob, alice, bobClient } = fixture;
+    const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(value)]).execute();
+    return token
+      .connect(bob)
+      ["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput);
+  }
+
+  it("should support the IFHERC20TransferHooks interface", async function () {
+    const { token } = await setupFixture();
+
+    const interfaceId = computeInterfaceId(["transferHooks()"]);
+    expect(await token.supportsInterface(interfaceId)).to.equal(true);
+  });
+
+  it("should add and remove hooks with events", async function () {
+    const { token, allowlistHook, maxBalanceHook } = await setupFixture();
+
+    await expect(token.addTransferHook(allowlistHook.target))
+      .to.emit(token, "TransferHookAdded")
+      .withArgs(allowlistHook.target);
+    await token.addTransferHook(maxBalanceHook.target);
+    expect(await token.transferHooks()).to.deep.equal([allowlistHook.target, maxBalanceHook.target]);
+
+    // Adding twice is a no-op
+    await expect(token.addTransferHook(allowlistHook.target)).to.not.emit(token, "TransferHookAdded");
+
+    await expect(token.removeTransferHook(allowlistHook.target))
+      .to.emit(token, "TransferHookRemoved")
+      .withArgs(allowlistHook.target);
+    expect(await token.transferHooks()).to.deep.equal([maxBalanceHook.target]);
+  });
+
+  it("should revert when adding the zero address as hook", async function () {
+    const { token } = await setupFixture();
+
+    await expect(token.addTransferHook(ZeroAddress))
+      .to.be.revertedWithCustomError(token, "FHERC20InvalidTransferHook")
+      .withArgs(ZeroAddress);
+  });
+
+  it("should only let the bound token call a hook", async function () {
+    const { allowlistHook, maxBalanceHook, bob, alice } = await setupFixture();
+
+    await expect(allowlistHook.connect(bob).beforeConfidentialUpdate(bob.address, alice.address, ethers.ZeroHash))
+      .to.be.revertedWithCustomError(allowlistHook, "FHERC20UnauthorizedCaller")
+      .withArgs(bob.address);
+    await expect(maxBalanceHook.connect(bob).beforeConfidentialUpdate(bob.address, alice.address, ethers.ZeroHash))
+      .to.be.revertedWithCustomError(maxBalanceHook, "FHERC20UnauthorizedCaller")
+      .withArgs(bob.address);
+  });
+
+  describe("allowlist hook", function () {
+    async function setupAllowlistFixture() {
+      const fixture = await setupFixture();
+      const { token, allowlistHook, bob, alice } = fixture;
+
+      await allowlistHook.setAllowlisted(bob.address, true);
+      await allowlistHook.setAllowlisted(alice.address, true);
+      await token.addTransferHook(allowlistHook.target);
+
+      return fixture;
+    }
+
+    it("should transfer between allowlisted accounts", async function () {
+      const fixture = await setupAllowlistFixture();
+      const { token, bob, alice } = fixture;
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+
+      await transfer(fixture, 1_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, -1_000_000n);
+      await expectFHERC20BalancesChange(token, alice.address, 1_000_000n);
+    });
+
+    it("should transfer zero to a non-allowlisted account", async function () {
+      const fixture = await setupAllowlistFixture();
+      const { token, allowlistHook, bob, alice } = fixture;
+
+      await expect(allowlistHook.setAllowlisted(alice.address, false))
+        .to.emit(allowlistHook, "AllowlistUpdated")
+        .withArgs(alice.address, false);
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+
+      await transfer(fixture, 1_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, 0n);
+      await expectFHERC20BalancesChange(token, alice.address, 0n);
+    });
+
+    it("should mint zero to a non-allowlisted account", async function () {
+      const { token, eve } = await setupAllowlistFixture();
+
+      await token.mint(eve.address, 1_000_000n);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.confidentialBalanceOf(eve.address), 0n);
+    });
+  });
+
+  describe("max balance hook", function () {
+    async function setupMaxBalanceFixture() {
+      const fixture = await setupFixture();
+      await fixture.token.addTransferHook(fixture.maxBalanceHook.target);
+      return fixture;
+    }
+
+    it("should set the maximum balance", async function () {
+      const { maxBalanceHook, owner } = await setupFixture();
+
+      const ownerClient = await hre.cofhe.createClientWithBatteries(owner);
+      const [encMax] = await ownerClient.encryptInputs([Encryptable.uint64(2_000_000n)]).execute();
+      await expect(maxBalanceHook["setMaxBalance((uint256,uint8,uint8,bytes))"](encMax)).to.emit(
+        maxBalanceHook,
+        "MaxBalanceSet",
+      );
+
+      await hre.cofhe.mocks.expectPlaintext(await maxBalanceHook.confidentialMaxBalance(), 2_000_000n);
+    });
+
+    it("should transfer up to the maximum balance and zero past it", async function () {
+      const fixture = await setupMaxBalanceFixture();
+      const { token, bob, alice } = fixture;
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+
+      await transfer(fixture, 6_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, 0n);
+      await expectFHERC20BalancesChange(token, alice.address, 0n);
+
+      await transfer(fixture, 4_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, -4_000_000n);
+      await expectFHERC20BalancesChange(token, alice.address, 4_000_000n);
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+      await prepExpectFHERC20BalancesChange(token, alice.address);
+
+      await transfer(fixture, 2_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, 0n);
+      await expectFHERC20BalancesChange(token, alice.address, 0n);
+    });
+
+    it("should always allow burns", async function () {
+      const { token, bob } = await setupMaxBalanceFixture();
+
+      await prepExpectFHERC20BalancesChange(token, bob.address);
+
+      await token.burn(bob.address, 1_000_000n);
+
+      await expectFHERC20BalancesChange(token, bob.address, -1_000_000n);
+    });
+  });
+
+  it("should move zero unless every hook allows the update", async function () {
+    const fixture = await setupFixture();
+    const { token, allowlistHook, maxBalanceHook, bob, alice } = fixture;
+
+    await allowlistHook.setAllowlisted(bob.address, true);
+    await allowlistHook.setAllowlisted(alice.address, true);
+    await token.addTransferHook(allowlistHook.target);
+    await token.addTransferHook(maxBalanceHook.target);
+
+    await prepExpectFHERC20BalancesChange(token, alice.address);
+
+    // Allowed by the allowlist, rejected by the max balance
+    await transfer(fixture, 6_000_000n);
+    await expectFHERC20BalancesChange(token, alice.address, 0n);
+
+    // Allowed by both
+    await transfer(fixture, 3_000_000n);
+    await expectFHERC20BalancesChange(token, alice.address, 3_000_000n);
+  });
+}
+
+describe("FHERC20TransferHooks", function () {
+  shouldBehaveLikeFHERC20TransferHooks(async () => {
+    const factory = await ethers.getContractFactory("FHERC20TransferHooks_Harness");
+    const token = (await factory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    )) as FHERC20TransferHooks_Harness;
+    await token.waitForDeployment();
+    return token;
+  });
+});
+
+describe("FHERC20TransferHooksUpgradeable", function () {
+  shouldBehaveLikeFHERC20TransferHooks(async () => {
+    const implFactory = await ethers.getContractFactory("FHERC20TransferHooksUpgradeable_Harness");
+    const impl = await implFactory.deploy();
+    await impl.waitForDeployment();
+
+    const initData = impl.interface.encodeFunctionData("initialize", [
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    ]);
+
+    const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    return implFactory.attach(await proxy.getAddress()) as FHERC20TransferHooksUpgradeable_Harness;
+  });
+});
@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { FHERC20_Harness, FHERC20Vault_Harness } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+
+describe("FHERC20Vault", function () {
+  async function setupFixture() {
+    const [owner, bob, alice] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory("FHERC20_Harness");
+    const token = (await tokenFactory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    )) as FHERC20_Harness;
+    await token.waitForDeployment();
+
+    const vaultFactory = await ethers.getContractFactory("FHERC20Vault_Harness");
+    const vault = (await vaultFactory.deploy(token.target)) as FHERC20Vault_Harness;
+    await vault.waitForDeployment();
+
+    await token.mint(bob.address, 10_000_000n);
+    await token.mint(alice.address, 10_000_000n);
+
+    const timestamp = (await ethers.provider.getBlock("latest"))!.timestamp + 1_000;
+    await token.connect(bob).setOperator(vault.target, timestamp);
+    await token.connect(alice).setOperator(vault.target, timestamp);
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+    const aliceClient = await hre.cofhe.createClientWithBatteries(alice);
+
+    return { owner, bob, alice, bobClient, aliceClient, token, vault };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof setupFixture>>;
+
+  async function deposit(fixture: Fixture, account: "bob" | "alice", value: bigint) {
+    const signer = fixture[account];
+    const client = account === "bob" ? fixture.bobClient : fixture.aliceClient;
+    const [encAssets] = await client.encryptInputs([Encryptable.uint64(value)]).execute();
+    return fixture.vault.connect(signer)["deposit((uint256,uint8,uint8,bytes))"](encAssets);
+  }
+
+  async function withdraw(fixture: Fixture, value: bigint) {
+    const [encAssets] = await fixture.bobClient.encryptInputs([Encryptable.uint64(value)]).execute();
+    return fixture.vault.connect(fixture.bob)["withdraw((uint256,uint8,uint8,bytes))"](encAssets);
+  }
+
+  it("should expose the asset", async function () {
+    const { vault, token } = await setupFixture();
+
+    expect(await vault.asset()).to.equal(token.target);
+  });
+
+  it("should mint shares for the deposited assets", async function () {
+    const fixture = await setupFixture();
+    const { vault, token, bob } = fixture;
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+    await prepExpectFHERC20BalancesChange(token, vault.target as string);
+
+    await expect(deposit(fixture, "bob", 1_000_000n)).to.emit(vault, "ConfidentialDeposit");
+
+    await expectFHERC20BalancesChange(token, bob.address, -1_000_000n);
+    await expectFHERC20BalancesChange(token, vault.target as string, 1_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialSharesOf(bob.address), 1_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialTotalShares(), 1_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialTotalAssets(), 1_000_000n);
+  });
+
+  it("should mint zero shares when the transfer fails", async function () {
+    const fixture = await setupFixture();
+    const { vault, bob } = fixture;
+
+    await deposit(fixture, "bob", 1_000_000n);
+    await deposit(fixture, "bob", 20_000_000n);
+
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialSharesOf(bob.address), 1_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialTotalAssets(), 1_000_000n);
+  });
+
+  it("should revert if the vault is not an operator", async function () {
+    const fixture = await setupFixture();
+    const { vault, token, bob } = fixture;
+
+    await token.connect(bob).setOperator(vault.target, 0);
+
+    await expect(deposit(fixture, "bob", 1_000_000n))
+      .to.be.revertedWithCustomError(token, "FHERC20UnauthorizedSpender")
+      .withArgs(bob.address, vault.target);
+  });
+
+  it("should mint proportional shares to later depositors", async function () {
+    const fixture = await setupFixture();
+    const { vault, alice } = fixture;
+
+    await deposit(fixture, "bob", 1_000_000n);
+    await deposit(fixture, "alice", 3_000_000n);
+
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialSharesOf(alice.address), 3_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialTotalShares(), 4_000_000n);
+  });
+
+  it("should withdraw assets and burn the matching shares", async function () {
+    const fixture = await setupFixture();
+    const { vault, token, bob } = fixture;
+
+    await deposit(fixture, "bob", 1_000_000n);
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await expect(withdraw(fixture, 400_000n)).to.emit(vault, "ConfidentialWithdraw");
+
+    await expectFHERC20BalancesChange(token, bob.address, 400_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialSharesOf(bob.address), 600_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialTotalAssets(), 600_000n);
+  });
+
+  it("should withdraw zero above the position", async function () {
+    const fixture = await setupFixture();
+    const { vault, token, bob } = fixture;
+
+    await deposit(fixture, "bob", 1_000_000n);
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await withdraw(fixture, 1_000_001n);
+
+    await expectFHERC20BalancesChange(token, bob.address, 0n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialSharesOf(bob.address), 1_000_000n);
+  });
+
+  it("should redeem the whole position", async function () {
+    const fixture = await setupFixture();
+    const { vault, token, bob } = fixture;
+
+    await deposit(fixture, "bob", 1_000_000n);
+
+    await prepExpectFHERC20BalancesChange(token, bob.address);
+
+    await vault.connect(bob)["redeem(bytes32)"](await vault.confidentialSharesOf(bob.address));
+
+    await expectFHERC20BalancesChange(token, bob.address, 1_000_000n);
+    await hre.cofhe.mocks.expectPlaintext(await vault.confidentialSharesOf(bob.address), 0n);
+  });
+});
@@ -0,0 +1,203 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ZeroAddress } from "ethers";
+import { FHERC20_Harness, FHERC20VestingWallet } from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+
+const CLIFF = 1_000n;
+const DURATION = 4_000n;
+const GRANT = 4_000_000n;
+
+async function setNextTimestamp(timestamp: bigint) {
+  await hre.network.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+}
+
+describe("FHERC20VestingWallet", function () {
+  async function deployFixture(revocable = true) {
+    const [owner, grantor, beneficiary, eve] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory("FHERC20_Harness");
+    const token = (await tokenFactory.deploy(
+      "Test Token",
+      "TST",
+      6,
+      "https://example.com/contract.json",
+    )) as FHERC20_Harness;
+    await token.waitForDeployment();
+
+    const start = BigInt((await ethers.provider.getBlock("latest"))!.timestamp) + 100n;
+
+    const walletFactory = await ethers.getContractFactory("FHERC20VestingWallet");
+    const wallet = (await walletFactory.deploy(
+      token.target,
+      beneficiary.address,
+      revocable ? grantor.address : ZeroAddress,
+      start,
+      CLIFF,
+      DURATION,
+    )) as FHERC20VestingWallet;
+    await wallet.waitForDeployment();
+
+    const grantorClient = await hre.cofhe.createClientWithBatteries(grantor);
+    await token.mint(grantor.address, 10_000_000n);
+
+    return { owner, grantor, beneficiary, eve, grantorClient, token, wallet, start };
+  }
+
+  async function grantFixture(revocable = true) {
+    const fixture = await deployFixture(revocable);
+    const { token, wallet, grantor, grantorClient } = fixture;
+
+    const [encGrant] = await grantorClient.encryptInputs([Encryptable.uint64(GRANT)]).execute();
+    await token
+      .connect(grantor)
+      ["confidentialTransferAndCall(address,(uint256,uint8,uint8,bytes),bytes)"](wallet.target, encGrant, "0x");
+
+    return fixture;
+  }
+
+  it("should expose the schedule", async function () {
+    const { token, wallet, beneficiary, grantor, start } = await deployFixture();
+
+    expect(await wallet.token()).to.equal(token.target);
+    expect(await wallet.beneficiary()).to.equal(beneficiary.address);
+    expect(await wallet.grantor()).to.equal(grantor.address);
+    expect(await wallet.start()).to.equal(start);
+    expect(await wallet.cliff()).to.equal(start + CLIFF);
+    expect(await wallet.end()).to.equal(start + DURATION);
+  });
+
+  it("should revert if the cliff is longer than the duration", async function () {
+    const [, beneficiary] = await ethers.getSigners();
+    const walletFactory = await ethers.getContractFactory("FHERC20VestingWallet");
+
+    await expect(walletFactory.deploy(ZeroAddress, beneficiary.address, ZeroAddress, 0, DURATION + 1n, DURATION))
+      .to.be.revertedWithCustomError(walletFactory, "FHERC20VestingWalletInvalidCliffDuration")
+      .withArgs(DURATION + 1n, DURATION);
+  });
+
+  it("should receive grants through transferAndCall", async function () {
+    const { wallet, token, grantor } = await deployFixture();
+
+    await prepExpectFHERC20BalancesChange(token, wallet.target as string);
+
+    const grantorClient = await hre.cofhe.createClientWithBatteries(grantor);
+    const [encGrant] = await grantorClient.encryptInputs([Encryptable.uint64(GRANT)]).execute();
+    await expect(
+      token
+        .connect(grantor)
+        ["confidentialTransferAndCall(address,(uint256,uint8,uint8,bytes),bytes)"](wallet.target, encGrant, "0x"),
+    ).to.emit(wallet, "ConfidentialGrantReceived");
+
+    await expectFHERC20BalancesChange(token, wallet.target as string, GRANT);
+    await hre.cofhe.mocks.expectPlaintext(await wallet.confidentialAllocation(), GRANT);
+  });
+
+  it("should only accept callbacks from the token", async function () {
+    const { wallet, eve } = await deployFixture();
+
+    await expect(wallet.connect(eve).onConfidentialTransferReceived(eve.address, eve.address, ethers.ZeroHash, "0x"))
+      .to.be.revertedWithCustomError(wallet, "FHERC20UnauthorizedCaller")
+      .withArgs(eve.address);
+  });
+
+  it("should release nothing before the cliff", async function () {
+    const { wallet, token, beneficiary, start } = await grantFixture();
+
+    await prepExpectFHERC20BalancesChange(token, beneficiary.address);
+
+    await setNextTimestamp(start + CLIFF - 1n);
+    await expect(wallet.release()).to.emit(wallet, "ConfidentialReleased");
+
+    await expectFHERC20BalancesChange(token, beneficiary.address, 0n);
+  });
+
+  it("should release linearly after the cliff", async function () {
+    const { wallet, token, beneficiary, start } = await grantFixture();
+
+    await prepExpectFHERC20BalancesChange(token, beneficiary.address);
+
+    await setNextTimestamp(start + DURATION / 2n);
+    await wallet.release();
+
+    await expectFHERC20BalancesChange(token, beneficiary.address, GRANT / 2n);
+    await hre.cofhe.mocks.expectPlaintext(await wallet.confidentialReleased(), GRANT / 2n);
+
+    await setNextTimestamp(start + (DURATION * 3n) / 4n);
+    await wallet.release();
+
+    await expectFHERC20BalancesChange(token, beneficiary.address, (GRANT * 3n) / 4n);
+  });
+
+  it("should release everything after the end", async function () {
+    const { wallet, token, beneficiary, start } = await grantFixture();
+
+    await prepExpectFHERC20BalancesChange(token, beneficiary.address);
+
+    await setNextTimestamp(start + DURATION + 1n);
+    await wallet.release();
+
+    await expectFHERC20BalancesChange(token, beneficiary.address, GRANT);
+  });
+
+  describe("revocation", function () {
+    it("should return the unvested remainder to the grantor", async function () {
+      const { wallet, token, grantor, beneficiary, start } = await grantFixture();
+
+      await prepExpectFHERC20BalancesChange(token, grantor.address);
+      await prepExpectFHERC20BalancesChange(token, beneficiary.address);
+
+      await setNextTimestamp(start + DURATION / 4n);
+      await expect(wallet.connect(grantor).revoke()).to.emit(wallet, "VestingRevoked");
+
+      expect(await wallet.revoked()).to.equal(true);
+      await expectFHERC20BalancesChange(token, grantor.address, (GRANT * 3n) / 4n);
+
+      // The vested part stays releasable
+      await setNextTimestamp(start + DURATION / 2n);
+      await wallet.release();
+
+      await expectFHERC20BalancesChange(token, beneficiary.address, GRANT / 4n);
+    });
+
+    it("should refund grants received after revocation", async function () {
+      const { wallet, token, grantor, grantorClient } = await grantFixture();
+
+      await wallet.connect(grantor).revoke();
+
+      await prepExpectFHERC20BalancesChange(token, grantor.address);
+
+      const [encGrant] = await grantorClient.encryptInputs([Encryptable.uint64(GRANT)]).execute();
+      await token
+        .connect(grantor)
+        ["confidentialTransferAndCall(address,(uint256,uint8,uint8,bytes),bytes)"](wallet.target, encGrant, "0x");
+
+      await expectFHERC20BalancesChange(token, grantor.address, 0n);
+    });
+
+    it("should only let the grantor revoke once", async function () {
+      const { wallet, grantor, eve } = await grantFixture();
+
+      await expect(wallet.connect(eve).revoke())
+        .to.be.revertedWithCustomError(wallet, "FHERC20UnauthorizedCaller")
+        .withArgs(eve.address);
+
+      await wallet.connect(grantor).revoke();
+
+      await expect(wallet.connect(grantor).revoke()).to.be.revertedWithCustomError(
+        wallet,
+        "FHERC20VestingWalletNotRevocable",
+      );
+    });
+
+    it("should not be revocable without a grantor", async function () {
+      const { wallet, grantor } = await grantFixture(false);
+
+      await expect(wallet.connect(grantor).revoke()).to.be.revertedWithCustomError(
+        wallet,
+        "FHERC20VestingWalletNotRevocable",
+      );
+    });
+  });
+});
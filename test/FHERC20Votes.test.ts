@@ -0,0 +1,297 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Encryptable } from "@cofhe/sdk";
+import { ZeroAddress } from "ethers";
+import { FHERC20Votes_Harness, FHERC20VotesUpgradeable_Harness } from "../typechain-types";
+import { computeInterfaceId, shouldBehaveLikeFHERC20 } from "./FHERC20.behavior";
+
+type FHERC20VotesToken = FHERC20Votes_Harness | FHERC20VotesUpgradeable_Harness;
+
+const delegationTypes = {
+  Delegation: [
+    { name: "delegatee", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+async function deployVotes(
+  name: string,
+  symbol: string,
+  decimals: number,
+  contractURI: string,
+): Promise<FHERC20Votes_Harness> {
+  const factory = await ethers.getContractFactory("FHERC20Votes_Harness");
+  const token = (await factory.deploy(name, symbol, decimals, contractURI)) as FHERC20Votes_Harness;
+  await token.waitForDeployment();
+  return token;
+}
+
+async function deployVotesProxy(
+  name: string,
+  symbol: string,
+  decimals: number,
+  contractURI: string,
+): Promise<FHERC20VotesUpgradeable_Harness> {
+  const implFactory = await ethers.getContractFactory("FHERC20VotesUpgradeable_Harness");
+  const impl = await implFactory.deploy();
+  await impl.waitForDeployment();
+
+  const initData = impl.interface.encodeFunctionData("initialize", [name, symbol, decimals, contractURI]);
+
+  const proxyFactory = await ethers.getContractFactory("ERC1967Proxy");
+  const proxy = await proxyFactory.deploy(await impl.getAddress(), initData);
+  await proxy.waitForDeployment();
+
+  return implFactory.attach(await proxy.getAddress()) as FHERC20VotesUpgradeable_Harness;
+}
+
+async function mineBlock() {
+  await hre.network.provider.send("evm_mine");
+}
+
+function shouldBehaveLikeFHERC20Votes(
+  deployToken: (name: string, symbol: string, decimals: number, contractURI: string) => Promise<FHERC20VotesToken>,
+) {
+  async function setupFixture() {
+    const [owner, bob, alice, eve] = await ethers.getSigners();
+    const token = await deployToken("Test Token", "TST", 6, "https://example.com/contract.json");
+
+    const ownerClient = await hre.cofhe.createClientWithBatteries(owner);
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+    const aliceClient = await hre.cofhe.createClientWithBatteries(alice);
+    const eveClient = await hre.cofhe.createClientWithBatteries(eve);
+
+    return { ownerClient, bobClient, aliceClient, eveClient, owner, bob, alice, eve, token };
+  }
+
+  async function deployWithDecimals(decimals: number) {
+    return deployToken("Test", "T", decimals, "");
+  }
+
+  // =========================================================================
+  //  Shared FHERC20 behavior tests
+  // =========================================================================
+
+  shouldBehaveLikeFHERC20(setupFixture, deployWithDecimals);
+
+  // =========================================================================
+  //  Votes-specific tests
+  // =========================================================================
+
+  describe("votes", function () {
+    it("should support the IFHERC20Votes interface", async function () {
+      const { token } = await setupFixture();
+
+      const interfaceId = computeInterfaceId([
+        "getVotes(address)",
+        "getPastVotes(address,uint256)",
+        "getPastTotalSupply(uint256)",
+        "confidentialPastVotes(address,uint256)",
+        "confidentialPastTotalSupply(uint256)",
+        "isVotesGovernor(address)",
+        "delegates(address)",
+        "delegate(address)",
+        "delegateBySig(address,uint256,uint256,uint8,bytes32,bytes32)",
+      ]);
+      expect(await token.supportsInterface(interfaceId)).to.equal(true);
+    });
+
+    it("should use the block number clock", async function () {
+      const { token } = await setupFixture();
+
+      expect(await token.clock()).to.equal(await ethers.provider.getBlockNumber());
+      expect(await token.CLOCK_MODE()).to.equal("mode=blocknumber&from=default");
+    });
+
+    it("should not count votes before delegation", async function () {
+      const { token, bob } = await setupFixture();
+
+      await token.mint(bob.address, 1_000_000n);
+
+      expect(await token.delegates(bob.address)).to.equal(ZeroAddress);
+      expect(await token.getVotes(bob.address)).to.equal(ethers.ZeroHash);
+    });
+
+    it("should move the balance to the delegatee on delegation", async function () {
+      const { token, bob, alice } = await setupFixture();
+
+      await token.mint(bob.address, 1_000_000n);
+
+      await expect(token.connect(bob).delegate(alice.address))
+        .to.emit(token, "DelegateChanged")
+        .withArgs(bob.address, ZeroAddress, alice.address)
+        .and.to.emit(token, "DelegateVotesChanged");
+
+      expect(await token.delegates(bob.address)).to.equal(alice.address);
+      expect(await token.numCheckpoints(alice.address)).to.equal(1);
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(alice.address), 1_000_000n);
+    });
+
+    it("should move votes between delegates on redelegation", async function () {
+      const { token, bob, alice, eve } = await setupFixture();
+
+      await token.mint(bob.address, 1_000_000n);
+      await token.connect(bob).delegate(alice.address);
+      await token.connect(bob).delegate(eve.address);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(alice.address), 0n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(eve.address), 1_000_000n);
+    });
+
+    it("should track transfers, mints and burns", async function () {
+      const { token, bob, alice, bobClient } = await setupFixture();
+
+      await token.connect(bob).delegate(bob.address);
+      await token.connect(alice).delegate(alice.address);
+
+      await token.mint(bob.address, 5_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(bob.address), 5_000_000n);
+
+      const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(2_000_000n)]).execute();
+      await token
+        .connect(bob)
+        ["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(bob.address), 3_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(alice.address), 2_000_000n);
+
+      await token.burn(alice.address, 500_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(alice.address), 1_500_000n);
+    });
+
+    it("should not move votes for a failed transfer", async function () {
+      const { token, bob, alice, bobClient } = await setupFixture();
+
+      await token.connect(bob).delegate(bob.address);
+      await token.connect(alice).delegate(alice.address);
+      await token.mint(bob.address, 1_000_000n);
+
+      const [encTransferInput] = await bobClient.encryptInputs([Encryptable.uint64(2_000_000n)]).execute();
+      await token
+        .connect(bob)
+        ["confidentialTransfer(address,(uint256,uint8,uint8,bytes))"](alice.address, encTransferInput);
+
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(bob.address), 1_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(alice.address), 0n);
+    });
+
+    it("should return past votes and past total supply", async function () {
+      const { token, bob } = await setupFixture();
+
+      await token.connect(bob).delegate(bob.address);
+      await token.mint(bob.address, 1_000_000n);
+      const firstBlock = await ethers.provider.getBlockNumber();
+
+      await token.mint(bob.address, 2_000_000n);
+      const secondBlock = await ethers.provider.getBlockNumber();
+      await mineBlock();
+
+      await hre.cofhe.mocks.expectPlaintext(await token.getPastVotes(bob.address, firstBlock), 1_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getPastVotes(bob.address, secondBlock), 3_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getPastTotalSupply(firstBlock), 1_000_000n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getPastTotalSupply(secondBlock), 3_000_000n);
+    });
+
+    it("should revert on future lookups", async function () {
+      const { token, bob } = await setupFixture();
+
+      const current = await token.clock();
+
+      await expect(token.getPastVotes(bob.address, current)).to.be.revertedWithCustomError(
+        token,
+        "FHERC20VotesFutureLookup",
+      );
+      await expect(token.getPastTotalSupply(current + 1n)).to.be.revertedWithCustomError(
+        token,
+        "FHERC20VotesFutureLookup",
+      );
+    });
+
+    it("should delegate by signature", async function () {
+      const { token, bob, alice, eve } = await setupFixture();
+
+      await token.mint(bob.address, 1_000_000n);
+
+      const expiry = (await ethers.provider.getBlock("latest"))!.timestamp + 100;
+      const nonce = await token.nonces(bob.address);
+      const domain = {
+        name: await token.name(),
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await token.getAddress(),
+      };
+      const signature = ethers.Signature.from(
+        await bob.signTypedData(domain, delegationTypes, { delegatee: alice.address, nonce, expiry }),
+      );
+
+      await token.connect(eve).delegateBySig(alice.address, nonce, expiry, signature.v, signature.r, signature.s);
+
+      expect(await token.delegates(bob.address)).to.equal(alice.address);
+      expect(await token.nonces(bob.address)).to.equal(nonce + 1n);
+      await hre.cofhe.mocks.expectPlaintext(await token.getVotes(alice.address), 1_000_000n);
+
+      await expect(
+        token.connect(eve).delegateBySig(alice.address, nonce, expiry, signature.v, signature.r, signature.s),
+      ).to.be.revertedWithCustomError(token, "InvalidAccountNonce");
+    });
+
+    it("should revert delegation with an expired signature", async function () {
+      const { token, bob, alice } = await setupFixture();
+
+      const expiry = (await ethers.provider.getBlock("latest"))!.timestamp - 1;
+      const domain = {
+        name: await token.name(),
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await token.getAddress(),
+      };
+      const signature = ethers.Signature.from(
+        await bob.signTypedData(domain, delegationTypes, { delegatee: alice.address, nonce: 0n, expiry }),
+      );
+
+      await expect(
+        token.delegateBySig(alice.address, 0n, expiry, signature.v, signature.r, signature.s),
+      ).to.be.revertedWithCustomError(token, "FHERC20VotesExpiredSignature");
+    });
+
+    it("should restrict confidential past lookups to the account and trusted governors", async function () {
+      const { token, bob, alice, eve } = await setupFixture();
+
+      await token.connect(bob).delegate(bob.address);
+      await token.mint(bob.address, 1_000_000n);
+      const block = await ethers.provider.getBlockNumber();
+      await mineBlock();
+
+      await expect(token.connect(bob).confidentialPastVotes(bob.address, block)).to.not.be.reverted;
+      await expect(token.connect(eve).confidentialPastVotes(bob.address, block))
+        .to.be.revertedWithCustomError(token, "FHERC20UnauthorizedCaller")
+        .withArgs(eve.address);
+      await expect(token.connect(bob).confidentialPastTotalSupply(block))
+        .to.be.revertedWithCustomError(token, "FHERC20UnauthorizedCaller")
+        .withArgs(bob.address);
+
+      await expect(token.setVotesGovernor(alice.address, true))
+        .to.emit(token, "VotesGovernorSet")
+        .withArgs(alice.address, true);
+      expect(await token.isVotesGovernor(alice.address)).to.equal(true);
+
+      await expect(token.connect(alice).confidentialPastVotes(bob.address, block)).to.not.be.reverted;
+      await expect(token.connect(alice).confidentialPastTotalSupply(block)).to.not.be.reverted;
+    });
+  });
+}
+
+describe("FHERC20Votes", function () {
+  shouldBehaveLikeFHERC20Votes(deployVotes);
+});
+
+describe("FHERC20VotesUpgradeable", function () {
+  shouldBehaveLikeFHERC20Votes(deployVotesProxy);
+
+  it("should not allow calling initialize twice", async function () {
+    const token = await deployVotesProxy("Test Token", "TST", 6, "https://example.com/contract.json");
+
+    await expect(token.initialize("Reuse", "RE", 18, "")).to.be.revertedWithCustomError(token, "InvalidInitialization");
+  });
+});
@@ -0,0 +1,265 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import {
+  ERC20_Harness,
+  FHERC20ClaimPositions,
+  FHERC20ERC20WrapperClaimPositions_Harness,
+  FHERC20NativeWrapperClaimPositions_Harness,
+  WETH_Harness,
+} from "../typechain-types";
+import { ContractTransactionResponse, ZeroAddress } from "ethers";
+
+async function getUnshieldRequestId(
+  tx: ContractTransactionResponse,
+  contract: FHERC20ERC20WrapperClaimPositions_Harness | FHERC20NativeWrapperClaimPositions_Harness,
+): Promise<string> {
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    try {
+      const parsed = contract.interface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === "Unshielded") {
+        return parsed.args.amount;
+      }
+    } catch {}
+  }
+  throw new Error("Unshielded event not found");
+}
+
+describe("FHERC20WrapperClaimPositions", function () {
+  // wBTC has 8 decimals → rate = 100, confidential decimals = 6
+  const conversionRate = 100n;
+  const unshield = "unshield(address,address,uint64)";
+  const unshieldAndCall = "unshieldAndCall(address,address,uint64,address,bytes)";
+
+  async function setupFixture() {
+    const [owner, bob, alice, eve] = await ethers.getSigners();
+
+    const wBTC = (await (
+      await ethers.getContractFactory("ERC20_Harness")
+    ).deploy("Wrapped BTC", "wBTC", 8)) as ERC20_Harness;
+    await wBTC.waitForDeployment();
+
+    // The positions are bound to the wrapper, which is deployed right after them
+    const wrapperAddress = ethers.getCreateAddress({ from: owner.address, nonce: (await owner.getNonce()) + 1 });
+
+    const positions = (await (
+      await ethers.getContractFactory("FHERC20ClaimPositions")
+    ).deploy(wrapperAddress, wBTC.target, "eBTC Claims", "eBTC-CLAIM")) as FHERC20ClaimPositions;
+    await positions.waitForDeployment();
+
+    const eBTC = (await (
+      await ethers.getContractFactory("FHERC20ERC20WrapperClaimPositions_Harness")
+    ).deploy(
+      wBTC.target,
+      positions.target,
+      "FHERC20 Wrapped BTC",
+      "eBTC",
+      "https://example.com/ebtc.json",
+    )) as FHERC20ERC20WrapperClaimPositions_Harness;
+    await eBTC.waitForDeployment();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await wBTC.mint(bob, BigInt(10e8));
+    await wBTC.connect(bob).approve(eBTC.target, BigInt(10e8));
+    await eBTC.connect(bob).shield(bob, BigInt(10e8));
+
+    return { owner, bob, alice, eve, bobClient, wBTC, positions, eBTC };
+  }
+
+  it("should bind the positions to the wrapper", async function () {
+    const { wBTC, positions, eBTC } = await setupFixture();
+
+    expect(await eBTC.claimPositions()).to.equal(positions.target);
+    expect(await positions.wrapper()).to.equal(eBTC.target);
+    expect(await positions.underlying()).to.equal(wBTC.target);
+  });
+
+  it("should revert when the positions belong to another wrapper", async function () {
+    const { owner, wBTC } = await setupFixture();
+
+    const positions = await (
+      await ethers.getContractFactory("FHERC20ClaimPositions")
+    ).deploy(owner.address, wBTC.target, "eBTC Claims", "eBTC-CLAIM");
+    const wrapperFactory = await ethers.getContractFactory("FHERC20ERC20WrapperClaimPositions_Harness");
+
+    await expect(wrapperFactory.deploy(wBTC.target, positions.target, "FHERC20 Wrapped BTC", "eBTC", ""))
+      .to.be.revertedWithCustomError(wrapperFactory, "FHERC20WrapperClaimPositionsInvalidPositions")
+      .withArgs(positions.target);
+  });
+
+  it("should mint a position to the recipient of each claim", async function () {
+    const { bob, alice, positions, eBTC } = await setupFixture();
+
+    const tx = await eBTC.connect(bob)[unshield](bob.address, alice.address, 1_000_000n);
+    const requestId = await getUnshieldRequestId(tx, eBTC);
+
+    await expect(tx).to.emit(positions, "Transfer").withArgs(ZeroAddress, alice.address, BigInt(requestId));
+    expect(await positions.ownerOf(BigInt(requestId))).to.equal(alice.address);
+    expect(await positions.balanceOf(alice.address)).to.equal(1n);
+  });
+
+  it("should pay the claim to the position owner", async function () {
+    const { bob, alice, eve, bobClient, wBTC, positions, eBTC } = await setupFixture();
+
+    const unshieldValue = 1_000_000n;
+    const tx = await eBTC.connect(bob)[unshield](bob.address, alice.address, unshieldValue);
+    const requestId = await getUnshieldRequestId(tx, eBTC);
+
+    await positions.connect(alice).transferFrom(alice.address, eve.address, BigInt(requestId));
+
+    const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+    await expect(eBTC.connect(bob).claimUnshielded(requestId, decryption.decryptedValue, decryption.signature))
+      .to.emit(eBTC, "ClaimedUnshielded")
+      .withArgs(eve.address, requestId, requestId, unshieldValue)
+      .and.to.emit(positions, "Transfer")
+      .withArgs(eve.address, ZeroAddress, BigInt(requestId));
+
+    expect(await wBTC.balanceOf(eve.address)).to.equal(unshieldValue * conversionRate);
+    expect(await wBTC.balanceOf(alice.address)).to.equal(0n);
+
+    // The claim keeps its original recipient, the position is gone
+    expect((await eBTC.getClaim(requestId)).to).to.equal(alice.address);
+    await expect(positions.ownerOf(BigInt(requestId)))
+      .to.be.revertedWithCustomError(positions, "ERC721NonexistentToken")
+      .withArgs(BigInt(requestId));
+  });
+
+  it("should not mint positions for claims recorded with a call", async function () {
+    const { bob, alice, positions, eBTC } = await setupFixture();
+
+    const target = await (await ethers.getContractFactory("MockClaimCallTarget")).deploy();
+    const data = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [alice.address]);
+
+    await eBTC.connect(bob)[unshieldAndCall](bob.address, alice.address, 1_000n, target.target, data);
+
+    expect(await positions.balanceOf(alice.address)).to.equal(0n);
+  });
+
+  it("should describe the claim in the token URI", async function () {
+    const { bob, alice, wBTC, positions, eBTC } = await setupFixture();
+
+    const tx = await eBTC.connect(bob)[unshield](bob.address, alice.address, 1_000_000n);
+    const requestId = await getUnshieldRequestId(tx, eBTC);
+
+    const uri = await positions.tokenURI(BigInt(requestId));
+    expect(uri.startsWith("data:application/json;base64,")).to.equal(true);
+
+    const metadata = JSON.parse(Buffer.from(uri.split(",")[1], "base64").toString());
+    expect(metadata.name).to.equal(`eBTC Claims #${ethers.toBeHex(BigInt(requestId), 32)}`);
+    expect(metadata.attributes).to.deep.equal([
+      { trait_type: "Underlying", value: (wBTC.target as string).toLowerCase() },
+      { trait_type: "Requested amount", value: 1_000_000 },
+    ]);
+  });
+
+  it("should only let the wrapper mint and burn positions", async function () {
+    const { bob, positions } = await setupFixture();
+
+    await expect(positions.connect(bob).mint(bob.address, ethers.ZeroHash))
+      .to.be.revertedWithCustomError(positions, "FHERC20UnauthorizedCaller")
+      .withArgs(bob.address);
+    await expect(positions.connect(bob).burn(ethers.ZeroHash))
+      .to.be.revertedWithCustomError(positions, "FHERC20UnauthorizedCaller")
+      .withArgs(bob.address);
+  });
+});
+
+describe("FHERC20NativeWrapperClaimPositions", function () {
+  // wETH has 18 decimals → rate = 1e12, confidential decimals = 6
+  const conversionRate = 1_000_000_000_000n;
+  const unshield = "unshield(address,address,uint64)";
+
+  async function setupFixture() {
+    const [owner, bob, alice, eve] = await ethers.getSigners();
+
+    const wETH = (await (await ethers.getContractFactory("WETH_Harness")).deploy()) as WETH_Harness;
+    await wETH.waitForDeployment();
+
+    // The positions are bound to the wrapper, which is deployed right after them
+    const wrapperAddress = ethers.getCreateAddress({ from: owner.address, nonce: (await owner.getNonce()) + 1 });
+
+    const positions = (await (
+      await ethers.getContractFactory("FHERC20ClaimPositions")
+    ).deploy(wrapperAddress, wETH.target, "eETH Claims", "eETH-CLAIM")) as FHERC20ClaimPositions;
+    await positions.waitForDeployment();
+
+    const eETH = (await (
+      await ethers.getContractFactory("FHERC20NativeWrapperClaimPositions_Harness")
+    ).deploy(
+      wETH.target,
+      positions.target,
+      "FHERC20 Wrapped ETH",
+      "eETH",
+      "https://example.com/eeth.json",
+    )) as FHERC20NativeWrapperClaimPositions_Harness;
+    await eETH.waitForDeployment();
+
+    const bobClient = await hre.cofhe.createClientWithBatteries(bob);
+
+    await eETH.connect(bob).shieldNative(bob, { value: ethers.parseEther("10") });
+
+    return { owner, bob, alice, eve, bobClient, wETH, positions, eETH };
+  }
+
+  it("should charge the outflow limit and the completed claim to the position owner", async function () {
+    const { bob, alice, eve, bobClient, positions, eETH } = await setupFixture();
+
+    await eETH.setOutflowLimits(86_400n, 0n, 1_000_000n);
+
+    const requestIds: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const tx = await eETH.connect(bob)[unshield](bob.address, alice.address, 1_000_000n);
+      requestIds.push(await getUnshieldRequestId(tx, eETH));
+    }
+    await positions.connect(alice).transferFrom(alice.address, eve.address, BigInt(requestIds[1]));
+    await positions.connect(alice).transferFrom(alice.address, eve.address, BigInt(requestIds[2]));
+
+    const decryptions = await Promise.all(
+      requestIds.map(requestId => bobClient.decryptForTx(requestId).withoutPermit().execute()),
+    );
+
+    await eETH.claimUnshielded(requestIds[0], decryptions[0].decryptedValue, decryptions[0].signature);
+
+    const eveBalanceBefore = await ethers.provider.getBalance(eve.address);
+    await expect(eETH.claimUnshielded(requestIds[1], decryptions[1].decryptedValue, decryptions[1].signature))
+      .to.emit(eETH, "ClaimedUnshielded")
+      .withArgs(eve.address, requestIds[1], requestIds[1], 1_000_000n);
+    expect((await ethers.provider.getBalance(eve.address)) - eveBalanceBefore).to.equal(1_000_000n * conversionRate);
+
+    const epoch = await eETH.currentEpoch();
+    expect(await eETH.recipientEpochOutflow(epoch, alice.address)).to.equal(1_000_000n);
+    expect(await eETH.recipientEpochOutflow(epoch, eve.address)).to.equal(1_000_000n);
+
+    const completedClaims = await eETH.getUserCompletedClaims(eve.address, 0, 10);
+    expect(completedClaims.map(claim => claim.ctHash)).to.deep.equal([requestIds[1]]);
+
+    await expect(eETH.claimUnshielded(requestIds[2], decryptions[2].decryptedValue, decryptions[2].signature))
+      .to.be.revertedWithCustomError(eETH, "RecipientOutflowLimitExceeded")
+      .withArgs(eve.address, 2_000_000n, 1_000_000n);
+  });
+
+  it("should only let the position owner claim in WETH", async function () {
+    const { bob, alice, eve, bobClient, wETH, positions, eETH } = await setupFixture();
+
+    const tx = await eETH.connect(bob)[unshield](bob.address, alice.address, 1_000_000n);
+    const requestId = await getUnshieldRequestId(tx, eETH);
+    await positions.connect(alice).transferFrom(alice.address, eve.address, BigInt(requestId));
+
+    const decryption = await bobClient.decryptForTx(requestId).withoutPermit().execute();
+
+    await expect(
+      eETH.connect(alice).claimUnshieldedWrappedNative(requestId, decryption.decryptedValue, decryption.signature),
+    )
+      .to.be.revertedWithCustomError(eETH, "FHERC20UnauthorizedCaller")
+      .withArgs(alice.address);
+
+    await expect(
+      eETH.connect(eve).claimUnshieldedWrappedNative(requestId, decryption.decryptedValue, decryption.signature),
+    )
+      .to.emit(eETH, "WrappedNativeSent")
+      .withArgs(eve.address, 1_000_000n * conversionRate);
+    expect(await wETH.balanceOf(eve.address)).to.equal(1_000_000n * conversionRate);
+  });
+});
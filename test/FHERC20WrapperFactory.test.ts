@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import {
+  ERC20_Harness,
+  FHERC20CanonicalERC20Wrapper,
+  FHERC20CanonicalNativeWrapper,
+  FHERC20WrapperFactory,
+  WETH_Harness,
+} from "../typechain-types";
+import { expectFHERC20BalancesChange, prepExpectFHERC20BalancesChange } from "./utils";
+import { ZeroAddress } from "ethers";
+
+describe("FHERC20WrapperFactory", function () {
+  const NATIVE_TOKEN = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+  async function setupFixture() {
+    const [owner, bob] = await ethers.getSigners();
+
+    const usdc = (await (
+      await ethers.getContractFactory("ERC20_Harness")
+    ).deploy("USD Coin", "USDC", 6)) as ERC20_Harness;
+    const wETH = (await (await ethers.getContractFactory("WETH_Harness")).deploy()) as WETH_Harness;
+
+    const erc20Implementation = (await (
+      await ethers.getContractFactory("FHERC20CanonicalERC20Wrapper")
+    ).deploy()) as FHERC20CanonicalERC20Wrapper;
+    const nativeImplementation = (await (
+      await ethers.getContractFactory("FHERC20CanonicalNativeWrapper")
+    ).deploy()) as FHERC20CanonicalNativeWrapper;
+
+    const factory = (await (
+      await ethers.getContractFactory("FHERC20WrapperFactory")
+    ).deploy(erc20Implementation.target, nativeImplementation.target, wETH.target)) as FHERC20WrapperFactory;
+    await factory.waitForDeployment();
+
+    return { owner, bob, usdc, wETH, erc20Implementation, nativeImplementation, factory };
+  }
+
+  describe("deployWrapper", function () {
+    it("should deploy the canonical wrapper at the predicted address", async function () {
+      const { usdc, factory } = await setupFixture();
+
+      const predicted = await factory.predictWrapperAddress(usdc.target);
+      expect(await factory.wrapperOf(usdc.target)).to.equal(ZeroAddress);
+
+      await expect(factory.deployWrapper(usdc.target))
+        .to.emit(factory, "WrapperDeployed")
+        .withArgs(usdc.target, predicted, "FHERC20 USD Coin", "eUSDC");
+
+      expect(await factory.wrapperOf(usdc.target)).to.equal(predicted);
+      expect(await factory.underlyingOf(predicted)).to.equal(usdc.target);
+
+      const wrapper = await ethers.getContractAt("FHERC20CanonicalERC20Wrapper", predicted);
+      expect(await wrapper.name()).to.equal("FHERC20 USD Coin");
+      expect(await wrapper.symbol()).to.equal("eUSDC");
+      expect(await wrapper.decimals()).to.equal(6);
+      expect(await wrapper.underlying()).to.equal(usdc.target);
+      expect(await wrapper.rate()).to.equal(1n);
+    });
+
+    it("should shield through the deployed wrapper", async function () {
+      const { bob, usdc, factory } = await setupFixture();
+
+      await factory.deployWrapper(usdc.target);
+      const wrapper = await ethers.getContractAt("FHERC20CanonicalERC20Wrapper", await factory.wrapperOf(usdc.target));
+
+      await hre.cofhe.createClientWithBatteries(bob);
+      await usdc.mint(bob, 1_000_000n);
+      await usdc.connect(bob).approve(wrapper.target, 1_000_000n);
+
+      await prepExpectFHERC20BalancesChange(wrapper, bob.address);
+      await wrapper.connect(bob).shield(bob, 1_000_000n);
+      await expectFHERC20BalancesChange(wrapper, bob.address, 1_000_000n);
+    });
+
+    it("should fall back to the token address without metadata", async function () {
+      const { factory } = await setupFixture();
+
+      const target = await (await ethers.getContractFactory("MockClaimCallTarget")).deploy();
+      const address = (await target.getAddress()).toLowerCase();
+
+      await expect(factory.deployWrapper(target.target))
+        .to.emit(factory, "WrapperDeployed")
+        .withArgs(
+          target.target,
+          await factory.predictWrapperAddress(target.target),
+          `FHERC20 ${address}`,
+          `e${address}`,
+        );
+    });
+
+    it("should revert when the wrapper already exists", async function () {
+      const { usdc, factory } = await setupFixture();
+
+      await factory.deployWrapper(usdc.target);
+
+      await expect(factory.deployWrapper(usdc.target))
+        .to.be.revertedWithCustomError(factory, "FHERC20WrapperFactoryWrapperExists")
+        .withArgs(usdc.target, await factory.wrapperOf(usdc.target));
+    });
+
+    it("should revert for invalid underlying tokens", async function () {
+      const { owner, usdc, factory } = await setupFixture();
+
+      for (const invalid of [ZeroAddress, NATIVE_TOKEN, owner.address]) {
+        await expect(factory.deployWrapper(invalid))
+          .to.be.revertedWithCustomError(factory, "FHERC20WrapperFactoryInvalidUnderlying")
+          .withArgs(invalid);
+      }
+
+      // Wrappers cannot be wrapped again
+      await factory.deployWrapper(usdc.target);
+      const wrapper = await factory.wrapperOf(usdc.target);
+      await expect(factory.deployWrapper(wrapper))
+        .to.be.revertedWithCustomError(factory, "FHERC20WrapperFactoryInvalidUnderlying")
+        .withArgs(wrapper);
+    });
+
+    it("should not allow the implementation or a deployed wrapper to be initialized again", async function () {
+      const { usdc, erc20Implementation, factory } = await setupFixture();
+
+      await expect(erc20Implementation.initialize(usdc.target, "Fake", "FAKE", "")).to.be.revertedWithCustomError(
+        erc20Implementation,
+        "InvalidInitialization",
+      );
+
+      await factory.deployWrapper(usdc.target);
+      const wrapper = await ethers.getContractAt("FHERC20CanonicalERC20Wrapper", await factory.wrapperOf(usdc.target));
+      await expect(wrapper.initialize(usdc.target, "Fake", "FAKE", "")).to.be.revertedWithCustomError(
+        wrapper,
+        "InvalidInitialization",
+      );
+    });
+  });
+
+  describe("deployNativeWrapper", function () {
+    it("should deploy the native wrapper singleton", async function () {
+      const { bob, wETH, factory } = await setupFixture();
+
+      const predicted = await factory.predictWrapperAddress(NATIVE_TOKEN);
+
+      await expect(factory.deployNativeWrapper())
+        .to.emit(factory, "WrapperDeployed")
+        .withArgs(NATIVE_TOKEN, predicted, "FHERC20 Wrapped ETH", "ewETH");
+
+      expect(await factory.nativeWrapper()).to.equal(predicted);
+      expect(await factory.wrapperOf(NATIVE_TOKEN)).to.equal(predicted);
+      expect(await factory.underlyingOf(predicted)).to.equal(NATIVE_TOKEN);
+
+      const wrapper = await ethers.getContractAt("FHERC20CanonicalNativeWrapper", predicted);
+      expect(await wrapper.weth()).to.equal(wETH.target);
+      expect(await wrapper.decimals()).to.equal(6);
+
+      await hre.cofhe.createClientWithBatteries(bob);
+      await prepExpectFHERC20BalancesChange(wrapper, bob.address);
+      await wrapper.connect(bob).shieldNative(bob, { value: ethers.parseEther("1") });
+      await expectFHERC20BalancesChange(wrapper, bob.address, 1_000_000n);
+
+      await expect(factory.deployNativeWrapper())
+        .to.be.revertedWithCustomError(factory, "FHERC20WrapperFactoryWrapperExists")
+        .withArgs(NATIVE_TOKEN, predicted);
+    });
+  });
+});